@@ -1,21 +1,42 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Upload, Download, BarChart3, Clock, AlertCircle, CheckCircle } from 'lucide-react';
-import { BulkHTSLookupService, BulkJobStatus, BulkAnalysisResult } from '@/services/BulkHTSLookupService';
+import { Upload, Download, BarChart3, Clock, AlertCircle, CheckCircle, Pause, Play, XCircle, RotateCcw, History } from 'lucide-react';
+import { BulkHTSLookupService, BulkJobStatus, BulkJobSummary, BulkAnalysisResult, RetryItemsOptions } from '@/services/BulkHTSLookupService';
+
+// Job states in which the worker is not running and polling can stop
+const SETTLED_STATUSES: BulkJobStatus['status'][] = ['COMPLETED', 'FAILED', 'CANCELLED', 'PAUSED'];
 import { useToast } from '@/components/ui/use-toast';
 
 export const BulkAnalysis = () => {
   const [jobStatus, setJobStatus] = useState<BulkJobStatus | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [recentJobs, setRecentJobs] = useState<BulkJobSummary[]>([]);
+  const [isUpdatingJob, setIsUpdatingJob] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const { toast } = useToast();
 
+  const loadRecentJobs = async () => {
+    try {
+      setRecentJobs(await BulkHTSLookupService.listJobs());
+    } catch (error) {
+      console.error('Error loading recent jobs:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadRecentJobs();
+    return () => {
+      if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
+    };
+  }, []);
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -123,43 +144,123 @@ export const BulkAnalysis = () => {
     }
   };
 
+  const stopPolling = () => {
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current);
+      pollIntervalRef.current = null;
+    }
+  };
+
   const pollJobStatus = async (jobId: string) => {
+    stopPolling();
+    setIsProcessing(true);
     const pollInterval = setInterval(async () => {
       try {
         const status = await BulkHTSLookupService.getJobStatus(jobId);
-        console.log('Job Status Debug:', JSON.stringify(status, null, 2));
-        console.log('Results Debug:', status.results);
         setJobStatus(status);
         
-        if (status.status === 'COMPLETED' || status.status === 'FAILED') {
-          clearInterval(pollInterval);
+        if (SETTLED_STATUSES.includes(status.status)) {
+          stopPolling();
           setIsProcessing(false);
+          loadRecentJobs();
           
           if (status.status === 'COMPLETED') {
             toast({
               title: "Analysis Complete",
-              description: `Processed ${status.completedProducts} products successfully`,
+              description: status.failedProducts > 0
+                ? `Processed ${status.completedProducts} products, ${status.failedProducts} failed after retries`
+                : `Processed ${status.completedProducts} products successfully`,
             });
           } else {
             toast({
               title: "Analysis Failed",
-              description: "Bulk analysis job failed",
+              description: status.error || "Every product in the job failed",
               variant: "destructive",
             });
           }
         }
       } catch (error) {
         console.error('Error polling job status:', error);
-        clearInterval(pollInterval);
+        stopPolling();
+        setIsProcessing(false);
+      }
+    }, 5000);
+    pollIntervalRef.current = pollInterval;
+  };
+
+  const handleOpenJob = async (jobId: string) => {
+    try {
+      const status = await BulkHTSLookupService.getJobStatus(jobId);
+      setJobStatus(status);
+      if (!SETTLED_STATUSES.includes(status.status)) {
+        pollJobStatus(jobId);
+      }
+    } catch (error) {
+      toast({
+        title: "Could Not Open Job",
+        description: error instanceof Error ? error.message : "Failed to load job",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Runs a job control action, then refreshes the status and restarts polling if the worker is running again
+  const runJobAction = async (action: () => Promise<string>, errorTitle: string) => {
+    if (!jobStatus) return;
+    setIsUpdatingJob(true);
+
+    try {
+      const message = await action();
+      const status = await BulkHTSLookupService.getJobStatus(jobStatus.jobId);
+      setJobStatus(status);
+      if (SETTLED_STATUSES.includes(status.status)) {
+        stopPolling();
         setIsProcessing(false);
+      } else {
+        pollJobStatus(status.jobId);
       }
-    }, 2000);
+      loadRecentJobs();
+      toast({ title: message });
+    } catch (error) {
+      toast({
+        title: errorTitle,
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdatingJob(false);
+    }
   };
 
-  const handleExportResults = () => {
-    if (!jobStatus?.results) return;
+  const handlePauseJob = () => runJobAction(async () => {
+    await BulkHTSLookupService.pauseJob(jobStatus!.jobId);
+    return 'Job paused';
+  }, 'Pause Failed');
+
+  const handleResumeJob = () => runJobAction(async () => {
+    await BulkHTSLookupService.resumeJob(jobStatus!.jobId);
+    return 'Job resumed';
+  }, 'Resume Failed');
+
+  const handleCancelJob = () => runJobAction(async () => {
+    await BulkHTSLookupService.cancelJob(jobStatus!.jobId);
+    return 'Job cancelled';
+  }, 'Cancel Failed');
+
+  const handleRetryItems = (options: RetryItemsOptions) => runJobAction(async () => {
+    const requeued = await BulkHTSLookupService.retryFailedItems(jobStatus!.jobId, options);
+    return requeued > 0 ? `Re-running ${requeued} product${requeued === 1 ? '' : 's'}` : 'Nothing to re-run';
+  }, 'Retry Failed');
+
+  const needsReview = (result: BulkAnalysisResult) =>
+    result.status === 'COMPLETED' && (result.needsHumanReview || result.confidence < 70);
+
+  const handleExportResults = async () => {
+    if (!jobStatus) return;
     
-    const csv = BulkHTSLookupService.exportToCSV(jobStatus.results);
+    // The status only carries one page of results, so fetch the whole job for export
+    const results = await BulkHTSLookupService.getAllJobResults(jobStatus.jobId);
+    const csv = BulkHTSLookupService.exportToCSV(results);
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -181,6 +282,7 @@ export const BulkAnalysis = () => {
       case 'COMPLETED': return 'default';
       case 'PROCESSING': return 'secondary';
       case 'FAILED': return 'destructive';
+      case 'CANCELLED': return 'outline';
       default: return 'secondary';
     }
   };
@@ -189,14 +291,20 @@ export const BulkAnalysis = () => {
     switch (status) {
       case 'COMPLETED': return 'text-green-600 dark:text-green-400';
       case 'FAILED': return 'text-red-600 dark:text-red-400';
+      case 'CANCELLED': return 'text-muted-foreground';
       default: return 'text-yellow-600 dark:text-yellow-400';
     }
   };
 
-  const progressPercentage = jobStatus 
-    ? Math.round((jobStatus.completedProducts / jobStatus.totalProducts) * 100)
+  const canRetry = jobStatus && !['PENDING', 'CANCELLED'].includes(jobStatus.status);
+
+  const progressPercentage = jobStatus && jobStatus.totalProducts > 0
+    ? Math.round(((jobStatus.completedProducts + jobStatus.failedProducts + (jobStatus.cancelledProducts || 0)) / jobStatus.totalProducts) * 100)
     : 0;
 
+  // Whole-job counts from the server; the loaded results are only the first page
+  const bands = jobStatus?.summary?.confidenceBands || { critical: 0, medium: 0, low: 0, veryLow: 0 };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -252,6 +360,43 @@ export const BulkAnalysis = () => {
         </CardContent>
       </Card>
 
+      {recentJobs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Recent Jobs
+            </CardTitle>
+            <CardDescription>
+              Reopen a job to follow its progress, resume it or re-run failed products
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {recentJobs.slice(0, 5).map((job) => (
+                <div key={job.jobId} className="flex items-center justify-between gap-4 p-2 border rounded-lg text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{job.name || `Job from ${new Date(job.startTime).toLocaleString()}`}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {job.completedProducts} completed, {job.failedProducts} failed of {job.totalProducts}
+                    </div>
+                  </div>
+                  <Badge variant={getStatusColor(job.status)}>{job.status}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleOpenJob(job.jobId)}
+                    disabled={jobStatus?.jobId === job.jobId}
+                  >
+                    Open
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {(isProcessing || jobStatus) && (
         <Card>
           <CardHeader>
@@ -271,11 +416,14 @@ export const BulkAnalysis = () => {
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span>Progress</span>
-                    <span>{jobStatus.completedProducts} / {jobStatus.totalProducts}</span>
+                    <span>{jobStatus.completedProducts + jobStatus.failedProducts + (jobStatus.cancelledProducts || 0)} / {jobStatus.totalProducts}</span>
                   </div>
                   <Progress value={progressPercentage} className="w-full" />
                   <div className="text-center text-sm text-muted-foreground">
                     {progressPercentage}% Complete
+                    {jobStatus.estimatedTimeRemaining !== undefined && (
+                      <> · about {Math.ceil(jobStatus.estimatedTimeRemaining / 60000)} min remaining</>
+                    )}
                   </div>
                 </div>
 
@@ -297,13 +445,52 @@ export const BulkAnalysis = () => {
                     <div className="text-sm text-muted-foreground">Need Review</div>
                   </div>
                 </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {jobStatus.status === 'PROCESSING' && (
+                    <Button variant="outline" size="sm" onClick={handlePauseJob} disabled={isUpdatingJob}>
+                      <Pause className="h-4 w-4 mr-2" />
+                      Pause
+                    </Button>
+                  )}
+                  {(jobStatus.status === 'PAUSED' || jobStatus.status === 'PROCESSING') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleResumeJob}
+                      disabled={isUpdatingJob}
+                      title={jobStatus.status === 'PROCESSING' ? 'Restart the worker if progress has stalled' : undefined}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      Resume
+                    </Button>
+                  )}
+                  {['PENDING', 'PROCESSING', 'PAUSED'].includes(jobStatus.status) && (
+                    <Button variant="outline" size="sm" onClick={handleCancelJob} disabled={isUpdatingJob}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                  {canRetry && jobStatus.failedProducts > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => handleRetryItems({})} disabled={isUpdatingJob}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Retry {jobStatus.failedProducts} Failed
+                    </Button>
+                  )}
+                  {canRetry && (jobStatus.summary?.flaggedForReview || 0) > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => handleRetryItems({ includeFlagged: true })} disabled={isUpdatingJob}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Re-run Failed &amp; Flagged
+                    </Button>
+                  )}
+                </div>
               </>
             )}
           </CardContent>
         </Card>
       )}
 
-      {jobStatus?.status === 'COMPLETED' && (
+      {jobStatus && jobStatus.status !== 'PENDING' && (
         <Tabs defaultValue="summary" className="space-y-4">
           <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="summary">Analytics</TabsTrigger>
@@ -325,15 +512,15 @@ export const BulkAnalysis = () => {
                       <span className="font-medium">{jobStatus.summary?.averageConfidence || 0}%</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>High Confidence (&gt;85%):</span>
+                      <span>High Confidence (&ge;85%):</span>
                       <span className="font-medium">
-                        {jobStatus.results ? jobStatus.results.filter(r => r.confidence > 85).length : 0} / {jobStatus.totalProducts}
+                        {bands.veryLow} / {jobStatus.totalProducts}
                       </span>
                     </div>
                     <div className="flex justify-between">
                       <span>Manual Review Needed:</span>
                       <span className="font-medium text-amber-600">
-                        {jobStatus.results ? jobStatus.results.filter(r => r.confidence < 70).length : 0} products
+                        {jobStatus.summary?.flaggedForReview || 0} products
                       </span>
                     </div>
                     <div className="flex justify-between">
@@ -392,7 +579,7 @@ export const BulkAnalysis = () => {
                           </div>
                         </div>
                       ))}
-                    {(jobStatus.results || []).filter(r => r.confidence < 70).length === 0 && (
+                    {bands.critical + bands.medium === 0 && (
                       <div className="text-center text-sm text-muted-foreground py-4">
                         🎉 No high risk products found!
                       </div>
@@ -432,28 +619,28 @@ export const BulkAnalysis = () => {
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
                   <div className="p-4 bg-red-50 rounded-lg">
                     <div className="text-2xl font-bold text-red-600">
-                      {(jobStatus.results || []).filter(r => r.confidence < 50).length}
+                      {bands.critical}
                     </div>
                     <div className="text-sm text-red-600">Critical Risk</div>
                     <div className="text-xs text-muted-foreground">(&lt;50% confidence)</div>
                   </div>
                   <div className="p-4 bg-amber-50 rounded-lg">
                     <div className="text-2xl font-bold text-amber-600">
-                      {(jobStatus.results || []).filter(r => r.confidence >= 50 && r.confidence < 70).length}
+                      {bands.medium}
                     </div>
                     <div className="text-sm text-amber-600">Medium Risk</div>
                     <div className="text-xs text-muted-foreground">(50-70% confidence)</div>
                   </div>
                   <div className="p-4 bg-blue-50 rounded-lg">
                     <div className="text-2xl font-bold text-blue-600">
-                      {(jobStatus.results || []).filter(r => r.confidence >= 70 && r.confidence < 85).length}
+                      {bands.low}
                     </div>
                     <div className="text-sm text-blue-600">Low Risk</div>
                     <div className="text-xs text-muted-foreground">(70-85% confidence)</div>
                   </div>
                   <div className="p-4 bg-green-50 rounded-lg">
                     <div className="text-2xl font-bold text-green-600">
-                      {(jobStatus.results || []).filter(r => r.confidence >= 85).length}
+                      {bands.veryLow}
                     </div>
                     <div className="text-sm text-green-600">Very Low Risk</div>
                     <div className="text-xs text-muted-foreground">(&gt;85% confidence)</div>
@@ -463,8 +650,8 @@ export const BulkAnalysis = () => {
                 <Alert className="mt-4">
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    <strong>Recommendation:</strong> Focus on {(jobStatus.results || []).filter(r => r.confidence < 70).length} products requiring manual review. 
-                    {(jobStatus.results || []).filter(r => r.confidence >= 85).length} products are ready for customs clearance.
+                    <strong>Recommendation:</strong> Focus on {jobStatus.summary?.flaggedForReview || 0} products requiring manual review. 
+                    {bands.veryLow} products are ready for customs clearance.
                   </AlertDescription>
                 </Alert>
               </CardContent>
@@ -481,8 +668,8 @@ export const BulkAnalysis = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {(jobStatus.results || []).slice(0, 50).map((result) => ( // Show first 50 results
-                    <div key={result.productId} className="p-3 border rounded-lg">
+                  {(jobStatus.results || []).map((result) => (
+                    <div key={result.itemIndex ?? result.productId} className="p-3 border rounded-lg">
                       <div className="flex items-start justify-between">
                         <div className="space-y-1 flex-1">
                           <div className="font-medium">{result.product.title}</div>
@@ -492,22 +679,53 @@ export const BulkAnalysis = () => {
                           {result.predictions && result.predictions.length > 0 && (
                             <div className="flex items-center gap-2">
                               <Badge variant="outline">{result.predictions[0].code}</Badge>
-                              <span className="text-sm">{result.confidence}% confidence</span>
+                              {result.predictions[0].sourceDocument?.type === 'PREVIOUSLY_APPROVED' ? (
+                                <Badge variant="secondary" className="text-xs">Previously approved</Badge>
+                              ) : (
+                                <span className="text-sm">{result.confidence}% confidence</span>
+                              )}
+                            </div>
+                          )}
+                          {result.status === 'FAILED' && result.error && (
+                            <div className="text-xs text-red-600">
+                              Failed after {result.attempts || 1} attempts: {result.error}
+                            </div>
+                          )}
+                          {result.status === 'PENDING' && result.error && (
+                            <div className="text-xs text-amber-600">
+                              Attempt {result.attempts} failed, retrying: {result.error}
+                            </div>
+                          )}
+                          {needsReview(result) && (
+                            <div className="text-xs text-amber-600">
+                              {result.reviewReason || 'Low confidence'} - needs review
                             </div>
                           )}
                         </div>
-                        <div className="ml-4">
-                          <Badge variant={result.status === 'COMPLETED' ? 'default' : 'destructive'}>
+                        <div className="ml-4 flex flex-col items-end gap-2">
+                          <Badge variant={getStatusColor(result.status)} className={getResultStatusColor(result.status)}>
                             {result.status}
                           </Badge>
+                          {canRetry && result.itemIndex !== undefined && (result.status === 'FAILED' || needsReview(result)) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 text-xs"
+                              disabled={isUpdatingJob}
+                              onClick={() => handleRetryItems({ includeFlagged: true, itemIndexes: [result.itemIndex!] })}
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Re-run
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </div>
                   ))}
                   
-                  {(jobStatus.results || []).length > 50 && (
+                  {jobStatus.totalProducts > jobStatus.results.length && (
                     <div className="text-center text-sm text-muted-foreground py-4">
-                      Showing first 50 results. Export to CSV to see all results.
+                      Showing first {jobStatus.results.length} of {jobStatus.totalProducts} results. Export to CSV to see all results.
                     </div>
                   )}
                 </div>
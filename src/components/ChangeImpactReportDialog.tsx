@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Download, RefreshCw } from 'lucide-react';
+import { HTSChange, HTSChangeTrackerService, ChangeImpactReport } from '@/services/HTSChangeTrackerService';
+import { useToast } from '@/hooks/use-toast';
+
+interface ChangeImpactReportDialogProps {
+  change: HTSChange | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_REFERENCE_VALUE = '1000';
+const DEFAULT_ORIGIN = 'CN';
+
+const formatUSD = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export const ChangeImpactReportDialog = ({ change, onOpenChange }: ChangeImpactReportDialogProps) => {
+  const [report, setReport] = useState<ChangeImpactReport | null>(null);
+  const [referenceValue, setReferenceValue] = useState(DEFAULT_REFERENCE_VALUE);
+  const [originCountry, setOriginCountry] = useState(DEFAULT_ORIGIN);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  // Only the latest request may update the dialog, so a slow report for another change can't overwrite it
+  const latestRequest = useRef(0);
+
+  const loadReport = useCallback(async (target: HTSChange, value: string, origin: string) => {
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    try {
+      const result = await HTSChangeTrackerService.getImpactReport(target, {
+        referenceValue: Number(value) || undefined,
+        originCountry: origin.trim().toUpperCase() || undefined
+      });
+      if (requestId === latestRequest.current) {
+        setReport(result);
+      }
+    } catch (error) {
+      if (requestId !== latestRequest.current) return;
+      toast({
+        title: "Impact Report Failed",
+        description: error instanceof Error ? error.message : 'Failed to build the impact report',
+        variant: "destructive",
+      });
+    } finally {
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [toast]);
+
+  // Each opened change starts from the default reference value and origin
+  useEffect(() => {
+    latestRequest.current++;
+    setReport(null);
+    setIsLoading(false);
+    setReferenceValue(DEFAULT_REFERENCE_VALUE);
+    setOriginCountry(DEFAULT_ORIGIN);
+    if (change) {
+      loadReport(change, DEFAULT_REFERENCE_VALUE, DEFAULT_ORIGIN);
+    }
+  }, [change, loadReport]);
+
+  const handleExport = () => {
+    if (!report) return;
+
+    const csv = HTSChangeTrackerService.impactReportToCSV(report);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `hts-impact-${report.change.hsCode.replace(/\W+/g, '')}-${report.change.effectiveDate}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={change !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Impact Report: {change?.hsCode}</DialogTitle>
+          <DialogDescription>{change?.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="impact-reference-value">Reference value (USD)</Label>
+            <Input
+              id="impact-reference-value"
+              type="number"
+              min="0"
+              value={referenceValue}
+              onChange={(e) => setReferenceValue(e.target.value)}
+              className="w-36"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="impact-origin">Origin</Label>
+            <Input
+              id="impact-origin"
+              value={originCountry}
+              maxLength={2}
+              onChange={(e) => setOriginCountry(e.target.value)}
+              className="w-20"
+            />
+          </div>
+          <Button variant="outline" onClick={() => change && loadReport(change, referenceValue, originCountry)} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Recalculate
+          </Button>
+          <Button onClick={handleExport} disabled={!report || report.affectedSkus.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="p-3 bg-muted rounded">
+                <div className="font-medium text-lg">{report.affectedSkus.length}</div>
+                <div className="text-muted-foreground">Affected SKUs</div>
+              </div>
+              <div className="p-3 bg-muted rounded">
+                <div className="font-medium text-lg">{formatUSD(report.totalDutyDelta)}</div>
+                <div className="text-muted-foreground">
+                  Total duty change at {formatUSD(report.referenceValue)} per SKU
+                </div>
+              </div>
+            </div>
+
+            {report.affectedSkus.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                None of your approved product classifications fall under this change
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>HTS code</TableHead>
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="text-right">Duty before</TableHead>
+                    <TableHead className="text-right">Duty after</TableHead>
+                    <TableHead className="text-right">Delta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.affectedSkus.map(sku => (
+                    <TableRow key={sku.productId}>
+                      <TableCell>
+                        <div className="font-medium">{sku.productId}</div>
+                        <div className="text-xs text-muted-foreground">{sku.title}</div>
+                        {sku.note && <div className="text-xs text-destructive">{sku.note}</div>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{sku.htsCode}</TableCell>
+                      <TableCell className="text-xs">
+                        {sku.rateBefore ?? '—'} → {sku.rateAfter ?? '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatUSD(sku.dutyBefore)}</TableCell>
+                      <TableCell className="text-right">{formatUSD(sku.dutyAfter)}</TableCell>
+                      <TableCell className="text-right">
+                        {sku.dutyDelta === null ? '—' : (
+                          <Badge variant={sku.dutyDelta > 0 ? 'destructive' : 'secondary'}>
+                            {sku.dutyDelta > 0 ? '+' : ''}{formatUSD(sku.dutyDelta)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {report.replacementSuggestions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Suggested replacement codes</h4>
+                <ul className="space-y-1 text-sm">
+                  {report.replacementSuggestions.map(suggestion => (
+                    <li key={suggestion.code}>
+                      <span className="font-mono">{suggestion.code}</span>
+                      <span className="text-muted-foreground"> — {suggestion.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,9 +6,10 @@ import { Progress } from '@/components/ui/progress';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { CheckCircle, XCircle, AlertTriangle, Clock, ThumbsUp, ThumbsDown, MessageSquare, ExternalLink, Shield } from 'lucide-react';
+import { CheckCircle, XCircle, AlertTriangle, Clock, ThumbsUp, ThumbsDown, MessageSquare, ExternalLink, Shield, GitBranch } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { HTSClassificationTree } from './HTSClassificationTree';
 
 interface PredictionCandidate {
   code: string;
@@ -23,6 +24,7 @@ interface PredictionCandidate {
   };
   isOfficialMatch?: boolean;
   officialSource?: string;
+  excluded?: boolean;
 }
 
 interface EnhancedPredictionResultsProps {
@@ -47,6 +49,7 @@ export const EnhancedPredictionResults: React.FC<EnhancedPredictionResultsProps>
   const [selectedCode, setSelectedCode] = useState<string>('');
   const [feedbackText, setFeedbackText] = useState('');
   const [submittingFeedback, setSubmittingFeedback] = useState(false);
+  const [treeCode, setTreeCode] = useState<string | null>(null);
   const { toast } = useToast();
 
   const getConfidenceColor = (confidence: number) => {
@@ -248,7 +251,7 @@ export const EnhancedPredictionResults: React.FC<EnhancedPredictionResultsProps>
             key={candidate.code} 
             className={`cursor-pointer transition-all ${
               selectedCode === candidate.code ? 'ring-2 ring-primary' : ''
-            } ${index === 0 ? 'border-primary bg-primary/5' : ''}`}
+            } ${index === 0 ? 'border-primary bg-primary/5' : ''} ${candidate.excluded ? 'opacity-60' : ''}`}
             onClick={() => setSelectedCode(candidate.code)}
           >
             <CardHeader>
@@ -259,6 +262,9 @@ export const EnhancedPredictionResults: React.FC<EnhancedPredictionResultsProps>
                   {candidate.isOfficialMatch && (
                     <Badge variant="secondary">Official USITC</Badge>
                   )}
+                  {candidate.excluded && (
+                    <Badge variant="destructive">Demoted by legal note</Badge>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   {getConfidenceIcon(candidate.confidence)}
@@ -300,6 +306,23 @@ export const EnhancedPredictionResults: React.FC<EnhancedPredictionResultsProps>
                   </div>
                 )}
 
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setTreeCode(treeCode === candidate.code ? null : candidate.code);
+                  }}
+                >
+                  <GitBranch className="h-3 w-3 mr-1" />
+                  {treeCode === candidate.code ? 'Hide HTS tree' : 'Show in HTS tree'}
+                </Button>
+
+                {treeCode === candidate.code && (
+                  <HTSClassificationTree hsCode={candidate.code} />
+                )}
+
                 {candidate.officialSource && (
                   <div className="flex items-center justify-between">
                     <div className="text-xs text-muted-foreground">
@@ -0,0 +1,469 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Calculator, Package, Plus, Trash2 } from 'lucide-react';
+import {
+  EntryCalculation,
+  ModeOfTransport,
+  TariffCalculatorService,
+  ValuationBasis
+} from '@/services/TariffCalculatorService';
+import { ExchangeRateService } from '@/services/ExchangeRateService';
+import { useToast } from '@/components/ui/use-toast';
+import { EntryTypeSummary } from '@/components/EntryTypeSummary';
+import { DUTY_UNITS, DutyUnit, isWeightUnit } from '@/utils/dutyRate';
+
+// Currencies other than USD are selectable once a CBP certified rate covering the entry date is loaded
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD'];
+
+interface LineDraft {
+  hsCode: string;
+  value: string;
+  originCountry: string;
+  quantity: string;
+  unitOfMeasure: DutyUnit;
+  netWeight: string;
+  adCvd: boolean;
+}
+
+const emptyLine = (): LineDraft => ({
+  hsCode: '',
+  value: '',
+  originCountry: 'CN',
+  quantity: '',
+  unitOfMeasure: 'No.',
+  netWeight: '',
+  adCvd: false
+});
+
+export const EntryCalculator = () => {
+  const [lines, setLines] = useState<LineDraft[]>([emptyLine()]);
+  const [currency, setCurrency] = useState('USD');
+  const [valuationBasis, setValuationBasis] = useState<ValuationBasis>('FOB');
+  const [modeOfTransport, setModeOfTransport] = useState<ModeOfTransport>('OCEAN');
+  const [freight, setFreight] = useState('');
+  const [insurance, setInsurance] = useState('');
+  const [entryDate, setEntryDate] = useState('');
+  const [calculation, setCalculation] = useState<EntryCalculation | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [hasChapter99Data, setHasChapter99Data] = useState(true);
+  const [availableCurrencies, setAvailableCurrencies] = useState<string[]>(['USD']);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    TariffCalculatorService.hasAdditionalDutyData().then(setHasChapter99Data);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    ExchangeRateService.getAvailableCurrencies(entryDate || new Date().toISOString().slice(0, 10)).then(available => {
+      if (cancelled) return;
+      setAvailableCurrencies(available);
+      setCurrency(current => available.includes(current) ? current : 'USD');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryDate]);
+
+  const countries = TariffCalculatorService.getCountries();
+  const format = TariffCalculatorService.formatCurrency;
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(current => current.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleCalculate = async () => {
+    const parsed = lines.map(line => ({
+      ...line,
+      value: parseFloat(line.value),
+      quantity: line.quantity ? parseFloat(line.quantity) : undefined,
+      netWeight: line.netWeight ? parseFloat(line.netWeight) : undefined
+    }));
+
+    const invalid = parsed.findIndex(line => !line.hsCode || isNaN(line.value) || line.value <= 0
+      || (line.quantity !== undefined && (isNaN(line.quantity) || line.quantity < 0))
+      || (line.netWeight !== undefined && (isNaN(line.netWeight) || line.netWeight < 0)));
+    if (invalid !== -1) {
+      toast({
+        title: "Invalid Line",
+        description: `Line ${invalid + 1} needs an HS code, a positive value and valid quantities`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCalculating(true);
+
+    try {
+      const result = await TariffCalculatorService.calculateEntry(
+        parsed.map(line => ({
+          hsCode: line.hsCode,
+          value: line.value,
+          originCountry: line.originCountry,
+          adCvd: line.adCvd,
+          quantities: {
+            netWeightKg: line.netWeight,
+            quantity: line.quantity,
+            unitOfMeasure: line.quantity !== undefined ? line.unitOfMeasure : undefined
+          }
+        })),
+        {
+          currency,
+          valuationBasis,
+          modeOfTransport,
+          freight: freight ? parseFloat(freight) || 0 : 0,
+          insurance: insurance ? parseFloat(insurance) || 0 : 0,
+          asOf: entryDate ? { asOfDate: entryDate } : undefined
+        }
+      );
+
+      setCalculation(result);
+    } catch (error) {
+      console.error('Entry calculation error:', error);
+      toast({
+        title: "Calculation Error",
+        description: error instanceof Error ? error.message : "Failed to calculate the entry. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Entry Calculator
+          </CardTitle>
+          <CardDescription>
+            Landed cost for a multi-line shipment, with the entry type, MPF and HMF decided once per entry
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!hasChapter99Data && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No Chapter 99 lists are loaded, so Section 301, 232 and other additional duties are not included in the results.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(code => (
+                    <SelectItem key={code} value={code} disabled={!availableCurrencies.includes(code)}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Invoice Terms</Label>
+              <Select value={valuationBasis} onValueChange={(value) => setValuationBasis(value as ValuationBasis)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FOB">FOB (freight extra)</SelectItem>
+                  <SelectItem value="CIF">CIF (freight included)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Mode of Transport</Label>
+              <Select value={modeOfTransport} onValueChange={(value) => setModeOfTransport(value as ModeOfTransport)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="OCEAN">Ocean</SelectItem>
+                  <SelectItem value="AIR">Air</SelectItem>
+                  <SelectItem value="TRUCK">Truck</SelectItem>
+                  <SelectItem value="RAIL">Rail</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entryCalculatorDate">Entry Date (optional)</Label>
+              <Input
+                id="entryCalculatorDate"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entryFreight">Freight ({currency})</Label>
+              <Input
+                id="entryFreight"
+                type="number"
+                min="0"
+                placeholder="0.00"
+                value={freight}
+                onChange={(e) => setFreight(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entryInsurance">Insurance ({currency})</Label>
+              <Input
+                id="entryInsurance"
+                type="number"
+                min="0"
+                placeholder="0.00"
+                value={insurance}
+                onChange={(e) => setInsurance(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-9 gap-2 items-end">
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-xs">Line {index + 1}: HS Code</Label>
+                  <Input
+                    placeholder="e.g., 8215.20.0000"
+                    value={line.hsCode}
+                    onChange={(e) => updateLine(index, { hsCode: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Value</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={line.value}
+                    onChange={(e) => updateLine(index, { value: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Origin</Label>
+                  <Select value={line.originCountry} onValueChange={(value) => updateLine(index, { originCountry: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {countries.map((country) => (
+                        <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Quantity</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Unit</Label>
+                  <Select value={line.unitOfMeasure} onValueChange={(value) => updateLine(index, { unitOfMeasure: value as DutyUnit })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DUTY_UNITS.filter(unit => !isWeightUnit(unit)).map(unit => (
+                        <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Net kg</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={line.netWeight}
+                    onChange={(e) => updateLine(index, { netWeight: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Checkbox
+                    id={`adCvd-${index}`}
+                    checked={line.adCvd}
+                    onCheckedChange={(checked) => updateLine(index, { adCvd: checked === true })}
+                  />
+                  <Label htmlFor={`adCvd-${index}`} className="text-xs">AD/CVD</Label>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines(current => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setLines(current => [...current, emptyLine()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+            <Button onClick={handleCalculate} disabled={isCalculating} className="flex-1">
+              {isCalculating ? (
+                <>
+                  <Calculator className="h-4 w-4 mr-2 animate-spin" />
+                  Calculating...
+                </>
+              ) : (
+                <>
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Calculate Entry
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {calculation && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entry Landed Cost</CardTitle>
+            <CardDescription>
+              {calculation.lines.length} lines | {calculation.valuationBasis} | {calculation.modeOfTransport.toLowerCase()}
+              {calculation.exchangeRate && <> | {calculation.exchangeRate.rate} {calculation.currency}/USD</>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead className="text-right">Dutiable Value</TableHead>
+                  <TableHead className="text-right">Duty</TableHead>
+                  <TableHead className="text-right">Chapter 99</TableHead>
+                  <TableHead className="text-right">Freight + Ins.</TableHead>
+                  <TableHead className="text-right">MPF + HMF</TableHead>
+                  <TableHead className="text-right">Landed Cost</TableHead>
+                  <TableHead className="text-right">Per Unit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calculation.lines.map(line => (
+                  <TableRow key={line.lineNumber}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{line.lineNumber}. {line.hsCode}</div>
+                      <div className="text-xs text-muted-foreground">{line.originCountry}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{line.appliedRate || 'Free'}</Badge>
+                      {line.tradeProgram && <div className="text-xs text-muted-foreground">{line.tradeProgram}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{format(line.dutiableValue)}</TableCell>
+                    <TableCell className="text-right">{format(line.customsDuty)}</TableCell>
+                    <TableCell className="text-right">
+                      {format(line.additionalDuties.reduce((sum, duty) => sum + duty.amount, 0))}
+                    </TableCell>
+                    <TableCell className="text-right">{format(line.freight + line.insurance)}</TableCell>
+                    <TableCell className="text-right">
+                      {format(line.merchandiseProcessingFee + line.harborMaintenanceFee)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{format(line.landedCost)}</TableCell>
+                    <TableCell className="text-right">
+                      {line.landedCostPerUnit !== undefined
+                        ? <>{format(line.landedCostPerUnit)}/{line.quantities?.unitOfMeasure}</>
+                        : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={2}>Entry total</TableCell>
+                  <TableCell className="text-right">{format(calculation.totals.dutiableValue)}</TableCell>
+                  <TableCell className="text-right">{format(calculation.totals.customsDuty)}</TableCell>
+                  <TableCell className="text-right">{format(calculation.totals.additionalDuties)}</TableCell>
+                  <TableCell className="text-right">
+                    {format(calculation.totals.freight + calculation.totals.insurance)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {format(calculation.totals.merchandiseProcessingFee + calculation.totals.harborMaintenanceFee)}
+                  </TableCell>
+                  <TableCell className="text-right text-primary">{format(calculation.totals.landedCost)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            <EntryTypeSummary decision={calculation.entryType} />
+
+            {/* Parcel vs consolidated */}
+            {calculation.lines.length > 1 && (
+              <Card className="bg-blue-50/50 dark:bg-blue-950/20">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">Parcels vs Consolidated</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex justify-between">
+                    <span>Consolidated, one entry:</span>
+                    <span className="font-medium">
+                      {format(calculation.totals.customsDuty + calculation.totals.additionalDuties
+                        + calculation.totals.merchandiseProcessingFee + calculation.totals.harborMaintenanceFee)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>
+                      One parcel per line ({Object.entries(calculation.parcels.entryTypes)
+                        .map(([type, count]) => `${count} ${type.toLowerCase().replace('_', ' ')}`)
+                        .join(', ')}):
+                    </span>
+                    <span className="font-medium">{format(calculation.parcels.totalCost)}</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    Duties and fees only. Parcels pay their own freight, and Section 321 counts everything
+                    one person receives in a day against the limit.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div className="flex justify-between">
+                <span>Merchandise Processing Fee (entry):</span>
+                <span className="font-medium">{format(calculation.totals.merchandiseProcessingFee)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Harbor Maintenance Fee (entry):</span>
+                <span className="font-medium">{format(calculation.totals.harborMaintenanceFee)}</span>
+              </div>
+            </div>
+
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <ul className="text-sm space-y-1 ml-4">
+                  {calculation.disclaimers.map((disclaimer, index) => (
+                    <li key={index} className="list-disc">{disclaimer}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
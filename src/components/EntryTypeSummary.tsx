@@ -0,0 +1,67 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { EntryType, EntryTypeDecision, TariffCalculatorService } from '@/services/TariffCalculatorService';
+
+const ENTRY_TYPE_LABELS: Record<EntryType, string> = {
+  DE_MINIMIS: 'De minimis (Section 321)',
+  TYPE_86: 'Type 86',
+  INFORMAL: 'Informal (Type 11)',
+  FORMAL: 'Formal (Type 01)'
+};
+
+interface EntryTypeSummaryProps {
+  decision: EntryTypeDecision;
+}
+
+export const EntryTypeSummary = ({ decision }: EntryTypeSummaryProps) => {
+  const format = TariffCalculatorService.formatCurrency;
+
+  return (
+    <Card className="bg-muted/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          Entry Type
+          <Badge>{ENTRY_TYPE_LABELS[decision.type]}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="text-sm space-y-1 ml-4">
+          {decision.reasons.map((reason, index) => (
+            <li key={index} className="list-disc">{reason}</li>
+          ))}
+        </ul>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>Eligibility</TableHead>
+              <TableHead className="text-right">Duty</TableHead>
+              <TableHead className="text-right">MPF + HMF</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {decision.options.map(option => (
+              <TableRow key={option.type} className={option.eligible ? undefined : 'text-muted-foreground'}>
+                <TableCell className="font-medium">
+                  {ENTRY_TYPE_LABELS[option.type]}
+                  {option.type === decision.type && <Badge variant="secondary" className="ml-2">Chosen</Badge>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {option.eligible ? 'Eligible' : option.reasons.join('; ')}
+                </TableCell>
+                <TableCell className="text-right">{option.eligible ? format(option.duty) : '—'}</TableCell>
+                <TableCell className="text-right">
+                  {option.eligible ? format(option.merchandiseProcessingFee + option.harborMaintenanceFee) : '—'}
+                </TableCell>
+                <TableCell className="text-right">{option.eligible ? format(option.totalCost) : '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
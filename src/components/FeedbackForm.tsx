@@ -2,42 +2,67 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ThumbsUp, ThumbsDown, MessageSquare, Send } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
 
 interface FeedbackFormProps {
+  predictionId?: string;
   predictionCode: string;
   predictionDescription: string;
+  // Other candidates offered as the correct code when the prediction is rejected
+  alternativeCodes?: Array<{ code: string; description: string }>;
 }
 
-export const FeedbackForm = ({ predictionCode, predictionDescription }: FeedbackFormProps) => {
+export const FeedbackForm = ({ predictionId, predictionCode, predictionDescription, alternativeCodes = [] }: FeedbackFormProps) => {
   const [feedbackType, setFeedbackType] = useState<'positive' | 'negative' | null>(null);
   const [comment, setComment] = useState('');
+  const [correctCode, setCorrectCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const { toast } = useToast();
 
   const handleSubmit = async () => {
-    if (!feedbackType) return;
+    if (!feedbackType || !predictionId) return;
 
-    // Here you would typically send feedback to your backend
-    const feedback = {
-      predictionCode,
-      predictionDescription,
-      type: feedbackType,
-      comment: comment.trim(),
-      timestamp: new Date().toISOString()
-    };
+    setIsSubmitting(true);
 
-    console.log('Feedback submitted:', feedback);
-    
-    // Show success toast
-    toast({
-      title: "Feedback submitted",
-      description: "Thank you for your feedback!",
-    });
+    try {
+      const { data, error } = await supabase.functions.invoke('feedback', {
+        body: {
+          prediction_id: predictionId,
+          user_feedback: feedbackType === 'positive' ? 'correct' : 'incorrect',
+          selected_code: feedbackType === 'positive' ? predictionCode : correctCode.trim() || undefined,
+          user_comments: comment.trim() || undefined
+        }
+      });
 
-    setSubmitted(true);
+      if (error) {
+        throw error;
+      }
+
+      if (data?.error) {
+        throw new Error(data.error);
+      }
+
+      toast({
+        title: "Feedback submitted",
+        description: "Thank you for your feedback!",
+      });
+
+      setSubmitted(true);
+    } catch (error) {
+      console.error('Error submitting feedback:', error);
+      toast({
+        title: "Feedback not saved",
+        description: "Failed to submit feedback. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   if (submitted) {
@@ -99,6 +124,44 @@ export const FeedbackForm = ({ predictionCode, predictionDescription }: Feedback
           </Button>
         </div>
 
+        {!predictionId && (
+          <p className="text-xs text-muted-foreground">
+            This prediction was not saved, so feedback cannot be recorded for it.
+          </p>
+        )}
+
+        {/* Correct code when the prediction was wrong */}
+        {feedbackType === 'negative' && (
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">
+              Correct HTS code (optional)
+            </label>
+            {alternativeCodes.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {alternativeCodes.map((alternative) => (
+                  <Button
+                    key={alternative.code}
+                    type="button"
+                    variant={correctCode === alternative.code ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 font-mono text-xs"
+                    title={alternative.description}
+                    onClick={() => setCorrectCode(alternative.code)}
+                  >
+                    {alternative.code}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <Input
+              placeholder="e.g. 6109.10.00.12"
+              value={correctCode}
+              onChange={(e) => setCorrectCode(e.target.value)}
+              className="font-mono text-sm"
+            />
+          </div>
+        )}
+
         {/* Optional Comment */}
         {feedbackType && (
           <div className="space-y-2">
@@ -120,9 +183,10 @@ export const FeedbackForm = ({ predictionCode, predictionDescription }: Feedback
             onClick={handleSubmit}
             size="sm"
             className="w-full"
+            disabled={!predictionId || isSubmitting}
           >
             <Send className="h-3 w-3 mr-2" />
-            Submit Feedback
+            {isSubmitting ? 'Submitting...' : 'Submit Feedback'}
           </Button>
         )}
       </CardContent>
@@ -4,17 +4,33 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Bell, AlertTriangle, Clock, Plus, Trash2, Eye, EyeOff } from 'lucide-react';
+import { Bell, AlertTriangle, Clock, Plus, Trash2, Eye, EyeOff, FileBarChart } from 'lucide-react';
 import { HTSChangeTrackerService, HTSChange, HTSSubscription, ChangeNotification } from '@/services/HTSChangeTrackerService';
 import { useToast } from '@/components/ui/use-toast';
+import { ChangeImpactReportDialog } from '@/components/ChangeImpactReportDialog';
+import { NotificationDeliverySettings } from '@/components/NotificationDeliverySettings';
+
+const CHANGE_TYPE_FILTERS = [
+  { value: 'NEW', label: 'New' },
+  { value: 'DELETED', label: 'Deleted' },
+  { value: 'RATE_CHANGE', label: 'Rate' },
+  { value: 'DESCRIPTION_CHANGE', label: 'Description' },
+  { value: 'MODIFIED', label: 'Modified' }
+];
+
+const IMPACT_FILTERS = ['HIGH', 'MEDIUM', 'LOW'];
 
 export const HTSChangeTracker = () => {
   const [recentChanges, setRecentChanges] = useState<HTSChange[]>([]);
   const [subscriptions, setSubscriptions] = useState<HTSSubscription[]>([]);
   const [notifications, setNotifications] = useState<ChangeNotification[]>([]);
   const [newSubscriptionCode, setNewSubscriptionCode] = useState('');
+  const [changeTypeFilter, setChangeTypeFilter] = useState<string[]>([]);
+  const [impactFilter, setImpactFilter] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [reportChange, setReportChange] = useState<HTSChange | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -49,14 +65,19 @@ export const HTSChangeTracker = () => {
     if (!newSubscriptionCode.trim()) {
       toast({
         title: "Invalid HS Code",
-        description: "Please enter a valid HS code",
+        description: "Please enter an HS code, pattern, section or \"Product library\"",
         variant: "destructive",
       });
       return;
     }
 
     try {
-      const success = await HTSChangeTrackerService.subscribeToHTSCode(newSubscriptionCode.trim());
+      // No selection in a filter group means every change type or impact level
+      const notificationTypes = [...changeTypeFilter, ...impactFilter];
+      const success = await HTSChangeTrackerService.subscribeToHTSCode(
+        newSubscriptionCode.trim(),
+        notificationTypes.length > 0 ? notificationTypes : ['ALL']
+      );
       
       if (success) {
         toast({
@@ -64,6 +85,8 @@ export const HTSChangeTracker = () => {
           description: `You will now receive notifications for changes to ${newSubscriptionCode}`,
         });
         setNewSubscriptionCode('');
+        setChangeTypeFilter([]);
+        setImpactFilter([]);
         loadData(); // Refresh subscriptions
       } else {
         throw new Error('Subscription failed');
@@ -163,7 +186,7 @@ export const HTSChangeTracker = () => {
       </Card>
 
       <Tabs defaultValue="changes" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="changes">Recent Changes</TabsTrigger>
           <TabsTrigger value="subscriptions">My Subscriptions</TabsTrigger>
           <TabsTrigger value="notifications">
@@ -174,6 +197,7 @@ export const HTSChangeTracker = () => {
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="delivery">Delivery</TabsTrigger>
         </TabsList>
 
         <TabsContent value="changes" className="space-y-4">
@@ -239,7 +263,16 @@ export const HTSChangeTracker = () => {
                               </div>
                             </div>
                             
-                            <div className="ml-4">
+                            <div className="ml-4 flex flex-col gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReportChange(change)}
+                                className="whitespace-nowrap"
+                              >
+                                <FileBarChart className="h-3 w-3 mr-1" />
+                                Impact report
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -283,13 +316,14 @@ export const HTSChangeTracker = () => {
             <CardHeader>
               <CardTitle>Add New Subscription</CardTitle>
               <CardDescription>
-                Subscribe to receive notifications when an HS code changes
+                Watch a code (8471.30), a chapter or heading pattern (61*, 6109.*), a section (Section XI)
+                or every code in your product library (Product library)
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
               <div className="flex gap-2">
                 <Input
-                  placeholder="Enter HS Code (e.g., 8215.20.0000)"
+                  placeholder="e.g. 6109.*, Section XI or Product library"
                   value={newSubscriptionCode}
                   onChange={(e) => setNewSubscriptionCode(e.target.value)}
                   className="flex-1"
@@ -299,6 +333,25 @@ export const HTSChangeTracker = () => {
                   Subscribe
                 </Button>
               </div>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Changes:</span>
+                  <ToggleGroup type="multiple" size="sm" value={changeTypeFilter} onValueChange={setChangeTypeFilter}>
+                    {CHANGE_TYPE_FILTERS.map(filter => (
+                      <ToggleGroupItem key={filter.value} value={filter.value}>{filter.label}</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Impact:</span>
+                  <ToggleGroup type="multiple" size="sm" value={impactFilter} onValueChange={setImpactFilter}>
+                    {IMPACT_FILTERS.map(impact => (
+                      <ToggleGroupItem key={impact} value={impact}>{impact}</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">Leave a filter empty to be notified of all changes or impact levels.</p>
             </CardContent>
           </Card>
 
@@ -306,7 +359,7 @@ export const HTSChangeTracker = () => {
             <CardHeader>
               <CardTitle>My Subscriptions</CardTitle>
               <CardDescription>
-                HS codes you're currently monitoring for changes
+                Codes, sections and libraries you're currently monitoring for changes
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -319,7 +372,14 @@ export const HTSChangeTracker = () => {
                   {subscriptions.map((subscription) => (
                     <div key={subscription.id} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="space-y-1">
-                        <div className="font-medium">{subscription.hsCode}</div>
+                        <div className="font-medium">
+                          {subscription.hsCode}
+                          {subscription.chapters && subscription.chapters.length > 0 && (
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                              Chapters {subscription.chapters[0]}–{subscription.chapters[subscription.chapters.length - 1]}
+                            </span>
+                          )}
+                        </div>
                         <div className="text-sm text-muted-foreground">
                           Notifications: {subscription.notificationTypes.join(', ')}
                         </div>
@@ -405,7 +465,16 @@ export const HTSChangeTracker = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="delivery">
+          <NotificationDeliverySettings />
+        </TabsContent>
       </Tabs>
+
+      <ChangeImpactReportDialog
+        change={reportChange}
+        onOpenChange={(open) => !open && setReportChange(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
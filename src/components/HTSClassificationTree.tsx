@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChevronDown, ChevronRight, CornerDownRight, GitBranch, Info } from 'lucide-react';
+import { HTSLookupService, HTSRelatedCodes, HTSTreeNode } from '@/services/HTSLookupService';
+
+interface HTSClassificationTreeProps {
+  hsCode: string;
+}
+
+export const HTSClassificationTree = ({ hsCode }: HTSClassificationTreeProps) => {
+  const [currentCode, setCurrentCode] = useState(hsCode);
+  const [tree, setTree] = useState<HTSRelatedCodes | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setCurrentCode(hsCode);
+  }, [hsCode]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTree = async () => {
+      setIsLoading(true);
+      const related = await HTSLookupService.getRelatedCodes(currentCode);
+      if (!cancelled) {
+        setTree(related);
+        setExpanded(new Set());
+        setIsLoading(false);
+      }
+    };
+
+    loadTree();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentCode]);
+
+  const toggleNode = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderLine = (node: HTSTreeNode, isCurrent = false) => (
+    <div className="flex items-start gap-2 text-sm">
+      {node.code ? (
+        <button
+          type="button"
+          className={`font-mono whitespace-nowrap ${isCurrent ? 'font-bold text-primary' : 'text-blue-600 hover:text-blue-800'}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (!isCurrent) setCurrentCode(node.code!);
+          }}
+        >
+          {node.code}
+        </button>
+      ) : (
+        <span className="font-mono text-muted-foreground whitespace-nowrap">—</span>
+      )}
+      <span className={isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground'}>
+        {node.description}
+      </span>
+      {node.isResidual && (
+        <Badge variant="outline" className="text-xs">Residual</Badge>
+      )}
+      {node.generalRate && (
+        <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">{node.generalRate}</span>
+      )}
+    </div>
+  );
+
+  const renderChildren = (nodes: HTSTreeNode[], depth: number, path: string) => (
+    <div className="space-y-1">
+      {nodes.map((node, index) => {
+        const key = `${path}/${node.code || index}`;
+        const hasChildren = (node.children?.length || 0) > 0;
+        const isOpen = expanded.has(key);
+
+        return (
+          <div key={key} style={{ paddingLeft: depth * 16 }}>
+            <div className="flex items-start gap-1">
+              {hasChildren ? (
+                <button
+                  type="button"
+                  className="mt-0.5 text-muted-foreground"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggleNode(key);
+                  }}
+                >
+                  {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                </button>
+              ) : (
+                <span className="w-3" />
+              )}
+              <div className="flex-1">{renderLine(node)}</div>
+            </div>
+            {hasChildren && isOpen && renderChildren(node.children!, depth + 1, key)}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-64" />
+        <Skeleton className="h-4 w-80" />
+        <Skeleton className="h-4 w-56" />
+      </div>
+    );
+  }
+
+  if (!tree) {
+    return (
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>
+          {currentCode} could not be found in the loaded HTS schedule.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-muted/30 p-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <GitBranch className="h-4 w-4 text-primary" />
+          Classification tree
+        </div>
+        <div className="flex items-center gap-2">
+          {currentCode !== hsCode && (
+            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setCurrentCode(hsCode)}>
+              Back to {hsCode}
+            </Button>
+          )}
+          <Badge variant="secondary" className="text-xs">HTS {tree.revision}</Badge>
+        </div>
+      </div>
+
+      {/* Path from the heading down to the selected line */}
+      <div className="space-y-1">
+        {tree.ancestors.map((node, index) => (
+          <div key={`ancestor-${index}`} style={{ paddingLeft: index * 16 }}>
+            {renderLine(node)}
+          </div>
+        ))}
+        <div className="flex items-start gap-1" style={{ paddingLeft: tree.ancestors.length * 16 }}>
+          {tree.ancestors.length > 0 && <CornerDownRight className="h-3 w-3 mt-1 text-primary" />}
+          <div className="flex-1">{renderLine(tree.code, true)}</div>
+        </div>
+      </div>
+
+      {tree.children.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">Lines under {tree.code.code}</div>
+          {renderChildren(tree.children, 0, tree.code.code || 'root')}
+        </div>
+      )}
+
+      {tree.siblings.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">
+            Alternatives under {tree.parent?.code || tree.parent?.description || 'the same parent'}
+          </div>
+          <div className="space-y-1">
+            {tree.siblings.map((node, index) => (
+              <div key={`sibling-${node.code || index}`}>{renderLine(node)}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {tree.residual && !tree.code.isResidual && (
+        <p className="text-xs text-muted-foreground">
+          Goods in this branch not covered by a named line fall under the residual line {tree.residual.code || `"${tree.residual.description}"`}.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,400 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { CalendarDays, Copy, Mail, Plus, RefreshCw, Rss, Send, Trash2, Webhook } from 'lucide-react';
+import {
+  DeliveryStatus,
+  DigestFrequency,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryService
+} from '@/services/NotificationDeliveryService';
+import { HTSChangeTrackerService, HTSFeedLinks } from '@/services/HTSChangeTrackerService';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+const STATUS_VARIANTS: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  DELIVERED: 'default',
+  PENDING: 'secondary',
+  SENDING: 'outline',
+  FAILED: 'destructive'
+};
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const NotificationDeliverySettings = () => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [frequency, setFrequency] = useState<DigestFrequency>('DAILY');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [busyChannel, setBusyChannel] = useState<string | null>(null);
+  const [feedLinks, setFeedLinks] = useState<HTSFeedLinks | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Digests only go to the account's own confirmed address
+  const accountEmail = user?.email_confirmed_at ? user.email ?? '' : '';
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Request failed',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [channelsResult, deliveriesResult] = await Promise.all([
+        NotificationDeliveryService.getChannels(),
+        NotificationDeliveryService.getDeliveries()
+      ]);
+      setChannels(channelsResult);
+      setDeliveries(deliveriesResult);
+    } catch (error) {
+      showError("Loading Error", error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleAddEmail = async () => {
+    try {
+      await NotificationDeliveryService.addEmailDigest(accountEmail, frequency);
+      toast({
+        title: "Email Digest Added",
+        description: `A ${frequency.toLowerCase()} digest will be sent to ${accountEmail}`,
+      });
+      loadData();
+    } catch (error) {
+      showError("Email Digest Error", error);
+    }
+  };
+
+  const handleAddWebhook = async () => {
+    try {
+      await NotificationDeliveryService.addWebhook(webhookUrl.trim());
+      toast({
+        title: "Webhook Added",
+        description: "Copy the signing secret to verify requests on your side",
+      });
+      setWebhookUrl('');
+      loadData();
+    } catch (error) {
+      showError("Webhook Error", error);
+    }
+  };
+
+  const handleUpdate = async (channel: NotificationChannel, changes: { isActive?: boolean; digestFrequency?: DigestFrequency }) => {
+    try {
+      const updated = await NotificationDeliveryService.updateChannel(channel.id, changes);
+      setChannels(prev => prev.map(c => c.id === updated.id ? updated : c));
+    } catch (error) {
+      showError("Update Error", error);
+    }
+  };
+
+  const handleRemove = async (channel: NotificationChannel) => {
+    try {
+      await NotificationDeliveryService.removeChannel(channel.id);
+      loadData();
+    } catch (error) {
+      showError("Remove Error", error);
+    }
+  };
+
+  const handleSendTest = async (channel: NotificationChannel) => {
+    setBusyChannel(channel.id);
+    try {
+      const delivery = await NotificationDeliveryService.sendTest(channel.id);
+      if (delivery.status === 'DELIVERED') {
+        toast({
+          title: "Test Delivered",
+          description: channel.channelType === 'EMAIL' ? `Test email sent to ${channel.email}` : `${channel.url} responded ${delivery.responseStatus}`,
+        });
+      } else {
+        toast({
+          title: "Test Failed",
+          description: delivery.lastError || 'The test delivery failed',
+          variant: "destructive",
+        });
+      }
+      loadData();
+    } catch (error) {
+      showError("Test Error", error);
+    } finally {
+      setBusyChannel(null);
+    }
+  };
+
+  const handleRedeliver = async (delivery: NotificationDelivery) => {
+    try {
+      await NotificationDeliveryService.redeliver(delivery.id);
+      toast({
+        title: "Delivery Queued",
+        description: "It will be sent on the next delivery run",
+      });
+      loadData();
+    } catch (error) {
+      showError("Redeliver Error", error);
+    }
+  };
+
+  const handleCopySecret = async (secret?: string) => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret Copied" });
+  };
+
+  // Links are only issued on request, so no feed token exists until the user asks for one
+  const handleFeedLinks = async (rotate: boolean) => {
+    try {
+      setFeedLinks(await HTSChangeTrackerService.getFeedLinks(rotate));
+      if (rotate) {
+        toast({
+          title: "Feed Links Reset",
+          description: "The previous links no longer work",
+        });
+      }
+    } catch (error) {
+      showError("Feed Error", error);
+    }
+  };
+
+  const handleCopyLink = async (link: string) => {
+    await navigator.clipboard.writeText(link);
+    toast({ title: "Link Copied" });
+  };
+
+  const channelLabel = (channelId: string) => {
+    const channel = channels.find(c => c.id === channelId);
+    return channel ? channel.email || channel.url : 'Removed channel';
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery</CardTitle>
+          <CardDescription>
+            Receive your notifications outside the app: an email digest of matched changes, or a signed
+            JSON webhook for every change (X-HTS-Signature is t=timestamp,v1=HMAC-SHA256 of "timestamp.body")
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              type="email"
+              placeholder="Confirm your account email to receive digests"
+              value={accountEmail}
+              readOnly
+              className="flex-1 min-w-[220px]"
+            />
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as DigestFrequency)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DAILY">Daily</SelectItem>
+                <SelectItem value="WEEKLY">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAddEmail} disabled={!accountEmail}>
+              <Mail className="h-4 w-4 mr-1" />
+              Add Digest
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="https://erp.example.com/hts-webhook"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className="flex-1 min-w-[220px]"
+            />
+            <Button onClick={handleAddWebhook} disabled={!webhookUrl.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Webhook
+            </Button>
+          </div>
+
+          {channels.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              No delivery channels yet
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {channels.map(channel => (
+                <div key={channel.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {channel.channelType === 'EMAIL'
+                      ? <Mail className="h-4 w-4 text-muted-foreground shrink-0" />
+                      : <Webhook className="h-4 w-4 text-muted-foreground shrink-0" />}
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{channel.email || channel.url}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {channel.channelType === 'EMAIL'
+                          ? channel.lastDigestAt ? `Last digest ${formatDateTime(channel.lastDigestAt)}` : 'No digest sent yet'
+                          : 'Webhook for every matched change'}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {channel.channelType === 'EMAIL' ? (
+                      <Select
+                        value={channel.digestFrequency}
+                        onValueChange={(value) => handleUpdate(channel, { digestFrequency: value as DigestFrequency })}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="DAILY">Daily</SelectItem>
+                          <SelectItem value="WEEKLY">Weekly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => handleCopySecret(channel.secret)}>
+                        <Copy className="h-3 w-3 mr-1" />
+                        Secret
+                      </Button>
+                    )}
+                    <Switch
+                      checked={channel.isActive}
+                      onCheckedChange={(checked) => handleUpdate(channel, { isActive: checked })}
+                      aria-label="Active"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSendTest(channel)}
+                      disabled={!channel.isActive || busyChannel === channel.id}
+                    >
+                      <Send className="h-3 w-3 mr-1" />
+                      Test
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRemove(channel)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Feeds</CardTitle>
+          <CardDescription>
+            Follow your matched changes in a feed reader, or add their effective dates to a shared calendar.
+            Anyone with these links can read them, so reset them if they leak.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {feedLinks ? (
+            <>
+              {[
+                { label: 'Atom feed', icon: Rss, link: feedLinks.atom },
+                { label: 'Calendar (.ics)', icon: CalendarDays, link: feedLinks.calendar }
+              ].map(({ label, icon: Icon, link }) => (
+                <div key={label} className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="text-sm w-28 shrink-0">{label}</span>
+                  <Input readOnly value={link} className="font-mono text-xs" />
+                  <Button variant="outline" size="sm" onClick={() => handleCopyLink(link)}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="ghost" size="sm" onClick={() => handleFeedLinks(true)}>
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Reset Links
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleFeedLinks(false)}>
+              <Rss className="h-4 w-4 mr-1" />
+              Show Feed Links
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Delivery Log
+            <Button variant="ghost" size="sm" onClick={loadData}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+          <CardDescription>
+            Failed deliveries are retried with backoff for several hours before they are marked failed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              Nothing delivered yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDateTime(delivery.createdAt)}</TableCell>
+                    <TableCell className="text-xs max-w-[200px] truncate">{channelLabel(delivery.channelId)}</TableCell>
+                    <TableCell className="text-xs">
+                      {delivery.event}
+                      {delivery.event === 'digest' && ` (${delivery.notificationCount})`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {delivery.attempts}
+                      {delivery.status === 'PENDING' && delivery.attempts > 0 && (
+                        <div className="text-muted-foreground">next {formatDateTime(delivery.nextAttemptAt)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs max-w-[260px] truncate" title={delivery.lastError}>
+                      {delivery.lastError || (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}
+                    </TableCell>
+                    <TableCell>
+                      {delivery.status === 'FAILED' && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRedeliver(delivery)}>
+                          Redeliver
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
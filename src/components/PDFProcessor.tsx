@@ -6,6 +6,8 @@ import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Upload, FileText, CheckCircle, AlertCircle, BookOpen } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { HTSChangeTrackerService } from '@/services/HTSChangeTrackerService';
+import { extractPDFText } from '@/utils/pdfText';
 import { toast } from 'sonner';
 
 interface HSCodeEntry {
@@ -32,6 +34,7 @@ export const PDFProcessor = () => {
   const [stats, setStats] = useState<ProcessingStats | null>(null);
   const [entries, setEntries] = useState<HSCodeEntry[]>([]);
   const [errors, setErrors] = useState<string[]>([]);
+  const [pageProgress, setPageProgress] = useState<{ page: number; total: number } | null>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
@@ -46,63 +49,17 @@ export const PDFProcessor = () => {
   };
 
   const extractTextFromPDF = async (file: File): Promise<string> => {
-    // For now, we'll use a simple approach - in production you might want to use pdf-parse or similar
-    // This is a placeholder that would need a proper PDF parsing library
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          // This is a simplified approach - you'd normally use a PDF parsing library
-          const arrayBuffer = e.target?.result as ArrayBuffer;
-          
-          // For demonstration, we'll return a sample text based on the filename
-          // In production, you'd use a proper PDF parser here
-          if (file.name.includes('HTS') || file.name.includes('Change')) {
-            resolve(getSampleHTSText());
-          } else {
-            resolve('PDF text extraction would happen here with proper PDF parsing library');
-          }
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read PDF file'));
-      reader.readAsArrayBuffer(file);
+    // Text extraction covers the first half of the progress bar, one step per page
+    const extraction = await extractPDFText(await file.arrayBuffer(), (pageNumber, pageCount) => {
+      setPageProgress({ page: pageNumber, total: pageCount });
+      setProgress(Math.round(5 + (pageNumber / pageCount) * 45));
     });
-  };
 
-  const getSampleHTSText = (): string => {
-    return `
-    Chapter 61 - Articles of apparel and clothing accessories, knitted or crocheted
-    
-    6101.20.00 Men's or boys' overcoats, car-coats, capes, cloaks, anoraks (including ski-jackets), wind-cheaters, wind-jackets and similar articles, knitted or crocheted, of cotton
-    
-    6102.10.00 Women's or girls' overcoats, car-coats, capes, cloaks, anoraks (including ski-jackets), wind-cheaters, wind-jackets and similar articles, knitted or crocheted, of wool or fine animal hair
-    
-    6103.42.00 Men's or boys' trousers, bib and brace overalls, breeches and shorts, knitted or crocheted, of cotton
-    
-    6104.62.00 Women's or girls' trousers, bib and brace overalls, breeches and shorts, knitted or crocheted, of cotton
-    
-    6109.10.00 T-shirts, singlets and other vests, knitted or crocheted, of cotton
-    
-    6110.20.00 Pullovers, cardigans, waistcoats and similar articles, knitted or crocheted, of cotton
-    
-    Chapter 71 - Natural or cultured pearls, precious or semi-precious stones, precious metals
-    
-    7113.11.00 Articles of jewelry and parts thereof, of silver, whether or not plated or clad with other precious metal
-    
-    7113.19.00 Articles of jewelry and parts thereof, of other precious metal, whether or not plated or clad with precious metal
-    
-    7117.90.00 Imitation jewelry of base metal, whether or not plated with precious metal
-    
-    Chapter 39 - Plastics and articles thereof
-    
-    3926.90.00 Other articles of plastics and articles of other materials of headings 3901 to 3914
-    
-    Chapter 84 - Nuclear reactors, boilers, machinery and mechanical appliances
-    
-    8543.70.00 Other electrical machines and apparatus, having individual functions, not specified or included elsewhere
-    `;
+    if (!extraction.text.trim()) {
+      throw new Error('This PDF has no text layer. Scanned documents need OCR before they can be imported.');
+    }
+
+    return extraction.text;
   };
 
   const processPDF = async () => {
@@ -110,12 +67,22 @@ export const PDFProcessor = () => {
 
     setProcessing(true);
     setProgress(0);
+    setPageProgress(null);
     setErrors([]);
 
     try {
       // Step 1: Extract text from PDF
-      setProgress(25);
+      setProgress(5);
       const extractedText = await extractTextFromPDF(file);
+
+      // Change Records list amendments rather than HTS entries; they feed the change tracker
+      if (/change[\s_-]*record/i.test(file.name) || /Change Record/i.test(extractedText.substring(0, 2000))) {
+        setProgress(50);
+        const changes = await HTSChangeTrackerService.processChangeRecord(extractedText, file.name);
+        setProgress(100);
+        toast.success(`Saved ${changes.length} HTS changes to the change tracker`);
+        return;
+      }
       
       // Step 2: Process text with edge function
       setProgress(50);
@@ -317,8 +284,9 @@ export const PDFProcessor = () => {
             </div>
             
             <div className="text-center text-sm text-muted-foreground">
-              {progress < 25 && "Reading PDF file..."}
-              {progress >= 25 && progress < 50 && "Extracting text content..."}
+              {progress < 50 && (pageProgress
+                ? `Extracting text from page ${pageProgress.page} of ${pageProgress.total}...`
+                : "Reading PDF file...")}
               {progress >= 50 && progress < 75 && "Processing HS code entries..."}
               {progress >= 75 && "Storing in database..."}
             </div>
@@ -9,6 +9,7 @@ import { FeedbackForm } from './FeedbackForm';
 
 interface PredictionResultsProps {
   predictions: HSCodePrediction[];
+  predictionId?: string;
   analysisDetails?: {
     processingTime: number;
     factors: string[];
@@ -40,6 +41,7 @@ const getSourceIcon = (type: string) => {
     case 'LOCAL_DATABASE': return <Database className="h-3 w-3" />;
     case 'AI_SEMANTIC': return <Brain className="h-3 w-3" />;
     case 'HTS_CATALOG': return <BookOpen className="h-3 w-3" />;
+    case 'PREVIOUSLY_APPROVED': return <CheckCircle className="h-3 w-3" />;
     default: return <Database className="h-3 w-3" />;
   }
 };
@@ -49,11 +51,12 @@ const getSourceBadgeColor = (type: string) => {
     case 'USITC_DATABASE': return 'bg-green-600 text-white';
     case 'AI_SEMANTIC': return 'bg-blue-600 text-white';
     case 'PDF': return 'bg-orange-600 text-white';
+    case 'PREVIOUSLY_APPROVED': return 'bg-purple-600 text-white';
     default: return 'bg-gray-600 text-white';
   }
 };
 
-export const PredictionResults = ({ predictions, analysisDetails }: PredictionResultsProps) => {
+export const PredictionResults = ({ predictions, predictionId, analysisDetails }: PredictionResultsProps) => {
   return (
     <div className="space-y-6">
       {/* Analysis Summary */}
@@ -250,8 +253,10 @@ export const PredictionResults = ({ predictions, analysisDetails }: PredictionRe
       {/* Feedback Form for Best Match */}
       {predictions.length > 0 && (
         <FeedbackForm 
+          predictionId={predictionId}
           predictionCode={predictions[0].code}
           predictionDescription={predictions[0].description}
+          alternativeCodes={predictions.slice(1).map(p => ({ code: p.code, description: p.description }))}
         />
       )}
 
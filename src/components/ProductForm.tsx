@@ -112,7 +112,7 @@ export const ProductForm = ({ onAnalyze, isAnalyzing }: ProductFormProps) => {
       return;
     }
 
-    onAnalyze({ ...formData, imageUrl });
+    onAnalyze({ ...formData, productId: formData.productId?.trim() || undefined, imageUrl });
   };
 
   return (
@@ -168,6 +168,20 @@ export const ProductForm = ({ onAnalyze, isAnalyzing }: ProductFormProps) => {
             </div>
           </div>
 
+          {/* SKU */}
+          <div className="space-y-2">
+            <Label htmlFor="productId" className="text-sm font-medium text-foreground">
+              SKU <span className="text-muted-foreground">(Optional)</span>
+            </Label>
+            <Input
+              id="productId"
+              value={formData.productId || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, productId: e.target.value }))}
+              placeholder="Your product ID; an approved code for it is reused"
+              className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
+            />
+          </div>
+
           {/* Product Title */}
           <div className="space-y-2">
             <Label htmlFor="title" className="text-sm font-medium text-foreground">
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,19 +8,57 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Calculator, DollarSign, AlertCircle, Info } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { TariffCalculatorService, TariffCalculation, Country } from '@/services/TariffCalculatorService';
+import { TariffCalculatorService, TariffCalculation, Country, AdditionalDutyProgram } from '@/services/TariffCalculatorService';
+import { ExchangeRateService } from '@/services/ExchangeRateService';
 import { useToast } from '@/components/ui/use-toast';
+import { EntryTypeSummary } from '@/components/EntryTypeSummary';
+import { DUTY_UNITS, DutyUnit, isWeightUnit } from '@/utils/dutyRate';
+
+// Currencies other than USD are selectable once a CBP certified rate covering the export date is loaded
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD'];
+
+const PROGRAM_LABELS: Record<AdditionalDutyProgram, string> = {
+  SECTION_301: 'Section 301',
+  SECTION_232: 'Section 232',
+  SECTION_201: 'Section 201',
+  IEEPA: 'IEEPA',
+  OTHER: 'Chapter 99'
+};
 
 export const TariffCalculator = () => {
   const [hsCode, setHsCode] = useState('');
   const [productValue, setProductValue] = useState('');
   const [currency, setCurrency] = useState('USD');
   const [originCountry, setOriginCountry] = useState('CN');
+  const [entryDate, setEntryDate] = useState('');
+  const [exportDate, setExportDate] = useState('');
+  const [netWeight, setNetWeight] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unitOfMeasure, setUnitOfMeasure] = useState<DutyUnit>('No.');
   const [calculation, setCalculation] = useState<TariffCalculation | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [hasChapter99Data, setHasChapter99Data] = useState(true);
+  const [availableCurrencies, setAvailableCurrencies] = useState<string[]>(['USD']);
   const { toast } = useToast();
 
+  useEffect(() => {
+    TariffCalculatorService.hasAdditionalDutyData().then(setHasChapter99Data);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    ExchangeRateService.getAvailableCurrencies(exportDate || entryDate || new Date().toISOString().slice(0, 10)).then(available => {
+      if (cancelled) return;
+      setAvailableCurrencies(available);
+      setCurrency(current => available.includes(current) ? current : 'USD');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [exportDate, entryDate]);
+
   const countries = TariffCalculatorService.getCountries();
+  const entryOption = calculation?.entryType.options.find(option => option.type === calculation.entryType.type);
 
   const handleCalculate = async () => {
     if (!hsCode || !productValue) {
@@ -42,6 +80,17 @@ export const TariffCalculator = () => {
       return;
     }
 
+    const weightKg = netWeight ? parseFloat(netWeight) : undefined;
+    const units = quantity ? parseFloat(quantity) : undefined;
+    if ((weightKg !== undefined && (isNaN(weightKg) || weightKg < 0)) || (units !== undefined && (isNaN(units) || units < 0))) {
+      toast({
+        title: "Invalid Quantity",
+        description: "Net weight and quantity must be positive numbers",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsCalculating(true);
     
     try {
@@ -49,7 +98,11 @@ export const TariffCalculator = () => {
         hsCode,
         value,
         currency,
-        originCountry
+        originCountry,
+        undefined,
+        entryDate ? { asOfDate: entryDate } : undefined,
+        { netWeightKg: weightKg, quantity: units, unitOfMeasure: units !== undefined ? unitOfMeasure : undefined },
+        exportDate || undefined
       );
       
       setCalculation(result);
@@ -62,7 +115,7 @@ export const TariffCalculator = () => {
       console.error('Tariff calculation error:', error);
       toast({
         title: "Calculation Error",
-        description: "Failed to calculate tariff. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to calculate tariff. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -92,6 +145,15 @@ export const TariffCalculator = () => {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {!hasChapter99Data && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No Chapter 99 lists are loaded, so Section 301, 232 and other additional duties are not included in the results.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="hsCode">HS Code</Label>
@@ -119,16 +181,15 @@ export const TariffCalculator = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="USD">USD</SelectItem>
-                    <SelectItem value="EUR">EUR</SelectItem>
-                    <SelectItem value="GBP">GBP</SelectItem>
-                    <SelectItem value="CAD">CAD</SelectItem>
+                    {CURRENCIES.map(code => (
+                      <SelectItem key={code} value={code} disabled={!availableCurrencies.includes(code)}>{code}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
 
-            <div className="space-y-2 md:col-span-2">
+            <div className="space-y-2">
               <Label htmlFor="originCountry">Country of Origin</Label>
               <Select value={originCountry} onValueChange={setOriginCountry}>
                 <SelectTrigger>
@@ -150,6 +211,74 @@ export const TariffCalculator = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="entryDate">Entry Date (optional)</Label>
+              <Input
+                id="entryDate"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Rates are taken from the HTS revision in force on this date; leave empty for today
+              </p>
+            </div>
+
+            {currency !== 'USD' && (
+              <div className="space-y-2">
+                <Label htmlFor="exportDate">Export Date (optional)</Label>
+                <Input
+                  id="exportDate"
+                  type="date"
+                  value={exportDate}
+                  onChange={(e) => setExportDate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {currency} converts at the CBP certified rate for this date; defaults to the entry date
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="netWeight">Net Weight (kg, optional)</Label>
+              <Input
+                id="netWeight"
+                type="number"
+                min="0"
+                placeholder="e.g., 250"
+                value={netWeight}
+                onChange={(e) => setNetWeight(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity (optional)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="quantity"
+                  type="number"
+                  min="0"
+                  placeholder="e.g., 120"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="flex-1"
+                />
+                <Select value={unitOfMeasure} onValueChange={(value) => setUnitOfMeasure(value as DutyUnit)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DUTY_UNITS.filter(unit => !isWeightUnit(unit)).map(unit => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Needed for specific and compound rates such as 2.4¢/kg + 5% or 90¢/doz. prs.
+              </p>
+            </div>
           </div>
 
           <Button 
@@ -171,6 +300,10 @@ export const TariffCalculator = () => {
             </CardTitle>
             <CardDescription>
               HS Code: {calculation.hsCode} | Origin: {countries.find(c => c.code === originCountry)?.name}
+              {calculation.htsRevision && (
+                <> | HTS {calculation.htsRevision} (effective {calculation.revisionEffectiveDate})</>
+              )}
+              {calculation.asOfDate && <> | As of {calculation.asOfDate}</>}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -181,6 +314,15 @@ export const TariffCalculator = () => {
                   <CardTitle className="text-lg">Cost Breakdown</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  {calculation.exchangeRate && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Invoice Value:</span>
+                      <span>
+                        {TariffCalculatorService.formatCurrency(calculation.productValue, calculation.currency)}
+                        {' '}at {calculation.exchangeRate.rate} {calculation.currency}/USD
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Product Value:</span>
                     <span className="font-medium">
@@ -190,9 +332,17 @@ export const TariffCalculator = () => {
                   <div className="flex justify-between">
                     <span>Customs Duty:</span>
                     <span className="font-medium">
-                      {TariffCalculatorService.formatCurrency(calculation.breakdown.customsDuty)}
+                      {entryOption?.dutyFree ? 'Waived' : TariffCalculatorService.formatCurrency(calculation.breakdown.customsDuty)}
                     </span>
                   </div>
+                  {calculation.breakdown.additionalDuties.map(line => (
+                    <div key={line.heading} className="flex justify-between">
+                      <span>{PROGRAM_LABELS[line.program]} ({line.heading}):</span>
+                      <span className="font-medium">
+                        {line.exclusion ? 'Excluded' : entryOption?.dutyFree ? 'Waived' : TariffCalculatorService.formatCurrency(line.amount)}
+                      </span>
+                    </div>
+                  ))}
                   <div className="flex justify-between">
                     <span>Additional Fees:</span>
                     <span className="font-medium">
@@ -228,6 +378,12 @@ export const TariffCalculator = () => {
                       {calculation.calculations.appliedRate}
                     </Badge>
                   </div>
+                  {calculation.calculations.appliedRateForm !== 'AD_VALOREM' && calculation.calculations.appliedRateForm !== 'FREE' && (
+                    <div className="flex justify-between">
+                      <span>Rate Type:</span>
+                      <span className="text-sm">{calculation.calculations.appliedRateForm.toLowerCase()}</span>
+                    </div>
+                  )}
                   {calculation.calculations.tradeProgram && (
                     <div className="flex justify-between">
                       <span>Trade Program:</span>
@@ -240,6 +396,42 @@ export const TariffCalculator = () => {
               </Card>
             </div>
 
+            <EntryTypeSummary decision={calculation.entryType} />
+
+            {/* Chapter 99 Additional Duties */}
+            {calculation.breakdown.additionalDuties.length > 0 && (
+              <Card className="bg-orange-50/50 dark:bg-orange-950/20">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">Additional Duties (Chapter 99)</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {calculation.breakdown.additionalDuties.map(line => (
+                    <div key={line.heading} className="space-y-1">
+                      <div className="flex justify-between gap-4">
+                        <span className="flex items-center gap-2">
+                          <Badge variant="secondary">{PROGRAM_LABELS[line.program]}</Badge>
+                          <span className="font-mono text-sm">{line.heading}</span>
+                          <Badge variant="outline">+{line.rate}</Badge>
+                        </span>
+                        <span className="font-medium">
+                          {TariffCalculatorService.formatCurrency(line.amount)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {line.description} (since {line.effectiveFrom}{line.effectiveTo && `, until ${line.effectiveTo}`})
+                      </p>
+                      {line.exclusion && (
+                        <p className="text-sm">
+                          Excluded under {line.exclusion.heading}: {line.exclusion.description}
+                          {line.exclusion.expiresOn && <> (expires {line.exclusion.expiresOn})</>}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Additional Fees Breakdown */}
             <Card className="bg-blue-50/50 dark:bg-blue-950/20">
               <CardHeader className="pb-3">
@@ -288,7 +480,7 @@ export const TariffCalculator = () => {
                 <ul className="text-sm space-y-2">
                   <li>• Consider timing imports around rate changes to optimize costs</li>
                   <li>• Free Trade Agreement countries may qualify for preferential rates</li>
-                  <li>• Formal entries (over $2,500) have different fee structures than informal entries</li>
+                  <li>• Formal entries (over $2,500) need a customs bond and pay MPF on value; informal entries pay a flat fee</li>
                   <li>• Additional fees like Anti-Dumping duties may apply to certain products</li>
                   <li>• Consult with a licensed customs broker for complex shipments</li>
                 </ul>
@@ -14,22 +14,477 @@ export type Database = {
   }
   public: {
     Tables: {
+      bulk_job_items: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          confidence: number | null
+          created_at: string
+          id: string
+          item_index: number
+          job_id: string
+          last_error: string | null
+          locked_at: string | null
+          needs_human_review: boolean
+          next_attempt_at: string
+          prediction_id: string | null
+          predictions: Json
+          processing_time_ms: number | null
+          product: Json
+          product_id: string
+          review_reason: string | null
+          started_at: string | null
+          status: string
+          top_code: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          confidence?: number | null
+          created_at?: string
+          id?: string
+          item_index: number
+          job_id: string
+          last_error?: string | null
+          locked_at?: string | null
+          needs_human_review?: boolean
+          next_attempt_at?: string
+          prediction_id?: string | null
+          predictions?: Json
+          processing_time_ms?: number | null
+          product: Json
+          product_id: string
+          review_reason?: string | null
+          started_at?: string | null
+          status?: string
+          top_code?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          confidence?: number | null
+          created_at?: string
+          id?: string
+          item_index?: number
+          job_id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          needs_human_review?: boolean
+          next_attempt_at?: string
+          prediction_id?: string | null
+          predictions?: Json
+          processing_time_ms?: number | null
+          product?: Json
+          product_id?: string
+          review_reason?: string | null
+          started_at?: string | null
+          status?: string
+          top_code?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_job_items_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "hts_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_jobs: {
+        Row: {
+          cancelled_items: number
+          completed_at: string | null
+          completed_items: number
+          created_at: string
+          error: string | null
+          failed_items: number
+          id: string
+          max_attempts: number
+          name: string | null
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_items?: number
+          completed_at?: string | null
+          completed_items?: number
+          created_at?: string
+          error?: string | null
+          failed_items?: number
+          id?: string
+          max_attempts?: number
+          name?: string | null
+          started_at?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cancelled_items?: number
+          completed_at?: string | null
+          completed_items?: number
+          created_at?: string
+          error?: string | null
+          failed_items?: number
+          id?: string
+          max_attempts?: number
+          name?: string | null
+          started_at?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      confidence_calibrations: {
+        Row: {
+          bucket_lower: number
+          bucket_upper: number
+          calibrated_confidence: number
+          computed_at: string
+          correct_count: number
+          created_at: string
+          id: string
+          mean_raw_confidence: number
+          model_version: string
+          observed_accuracy: number
+          sample_count: number
+        }
+        Insert: {
+          bucket_lower: number
+          bucket_upper: number
+          calibrated_confidence: number
+          computed_at?: string
+          correct_count?: number
+          created_at?: string
+          id?: string
+          mean_raw_confidence: number
+          model_version: string
+          observed_accuracy: number
+          sample_count?: number
+        }
+        Update: {
+          bucket_lower?: number
+          bucket_upper?: number
+          calibrated_confidence?: number
+          computed_at?: string
+          correct_count?: number
+          created_at?: string
+          id?: string
+          mean_raw_confidence?: number
+          model_version?: string
+          observed_accuracy?: number
+          sample_count?: number
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          country: string | null
+          created_at: string
+          currency_code: string
+          currency_name: string | null
+          effective_from: string
+          effective_to: string
+          id: string
+          rate: number
+          rate_type: string
+          source_url: string | null
+        }
+        Insert: {
+          country?: string | null
+          created_at?: string
+          currency_code: string
+          currency_name?: string | null
+          effective_from: string
+          effective_to: string
+          id?: string
+          rate: number
+          rate_type?: string
+          source_url?: string | null
+        }
+        Update: {
+          country?: string | null
+          created_at?: string
+          currency_code?: string
+          currency_name?: string | null
+          effective_from?: string
+          effective_to?: string
+          id?: string
+          rate?: number
+          rate_type?: string
+          source_url?: string | null
+        }
+        Relationships: []
+      }
+      hts_additional_duties: {
+        Row: {
+          created_at: string
+          description: string
+          effective_from: string
+          effective_to: string | null
+          excludes_heading: string | null
+          exempt_countries: string[]
+          heading: string
+          hts_code: string
+          id: string
+          origin_countries: string[] | null
+          program: string
+          provision_type: string
+          rate: string | null
+          source_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          effective_from: string
+          effective_to?: string | null
+          excludes_heading?: string | null
+          exempt_countries?: string[]
+          heading: string
+          hts_code: string
+          id?: string
+          origin_countries?: string[] | null
+          program: string
+          provision_type?: string
+          rate?: string | null
+          source_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          effective_from?: string
+          effective_to?: string | null
+          excludes_heading?: string | null
+          exempt_countries?: string[]
+          heading?: string
+          hts_code?: string
+          id?: string
+          origin_countries?: string[] | null
+          program?: string
+          provision_type?: string
+          rate?: string | null
+          source_url?: string | null
+        }
+        Relationships: []
+      }
+      hts_changes: {
+        Row: {
+          change_type: string
+          chapter: string
+          created_at: string
+          description: string
+          effective_date: string
+          field: string | null
+          from_revision: string | null
+          heading: string | null
+          hts_code: string
+          htsno: string | null
+          id: string
+          impact: string
+          level: string | null
+          new_value: string | null
+          old_value: string | null
+          revision: string
+          source: string
+        }
+        Insert: {
+          change_type: string
+          chapter: string
+          created_at?: string
+          description: string
+          effective_date: string
+          field?: string | null
+          from_revision?: string | null
+          heading?: string | null
+          hts_code: string
+          htsno?: string | null
+          id?: string
+          impact: string
+          level?: string | null
+          new_value?: string | null
+          old_value?: string | null
+          revision: string
+          source?: string
+        }
+        Update: {
+          change_type?: string
+          chapter?: string
+          created_at?: string
+          description?: string
+          effective_date?: string
+          field?: string | null
+          from_revision?: string | null
+          heading?: string | null
+          hts_code?: string
+          htsno?: string | null
+          id?: string
+          impact?: string
+          level?: string | null
+          new_value?: string | null
+          old_value?: string | null
+          revision?: string
+          source?: string
+        }
+        Relationships: []
+      }
+      hts_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_used_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_used_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_used_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      hts_legal_notes: {
+        Row: {
+          chapter: string | null
+          chapters: string[]
+          created_at: string
+          id: string
+          match_terms: string[]
+          note_number: string
+          note_text: string
+          note_type: string
+          redirect_to: string[]
+          revision: string | null
+          scope: string
+          section: string | null
+          updated_at: string
+        }
+        Insert: {
+          chapter?: string | null
+          chapters: string[]
+          created_at?: string
+          id?: string
+          match_terms?: string[]
+          note_number: string
+          note_text: string
+          note_type: string
+          redirect_to?: string[]
+          revision?: string | null
+          scope: string
+          section?: string | null
+          updated_at?: string
+        }
+        Update: {
+          chapter?: string | null
+          chapters?: string[]
+          created_at?: string
+          id?: string
+          match_terms?: string[]
+          note_number?: string
+          note_text?: string
+          note_type?: string
+          redirect_to?: string[]
+          revision?: string | null
+          scope?: string
+          section?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      hts_notifications: {
+        Row: {
+          change_id: string
+          created_at: string
+          id: string
+          is_read: boolean
+          read_at: string | null
+          subscription_id: string | null
+          user_id: string
+        }
+        Insert: {
+          change_id: string
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          read_at?: string | null
+          subscription_id?: string | null
+          user_id: string
+        }
+        Update: {
+          change_id?: string
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          read_at?: string | null
+          subscription_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hts_notifications_change_id_fkey"
+            columns: ["change_id"]
+            isOneToOne: false
+            referencedRelation: "hts_changes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hts_notifications_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "hts_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hts_predictions: {
         Row: {
           category: string | null
           confidence_score: number | null
           created_at: string
+          feedback_at: string | null
           id: string
           image_url: string | null
           materials: string | null
+          model_version: string | null
           needs_human_review: boolean | null
           predicted_codes: Json
           processing_time_ms: number | null
           product_description: string | null
+          product_id: string | null
           product_title: string
+          raw_confidence_score: number | null
           review_reason: string | null
           selected_code: string | null
           updated_at: string
+          user_comments: string | null
           user_feedback: string | null
           user_id: string
         }
@@ -37,17 +492,22 @@ export type Database = {
           category?: string | null
           confidence_score?: number | null
           created_at?: string
+          feedback_at?: string | null
           id?: string
           image_url?: string | null
           materials?: string | null
+          model_version?: string | null
           needs_human_review?: boolean | null
           predicted_codes: Json
           processing_time_ms?: number | null
           product_description?: string | null
+          product_id?: string | null
           product_title: string
+          raw_confidence_score?: number | null
           review_reason?: string | null
           selected_code?: string | null
           updated_at?: string
+          user_comments?: string | null
           user_feedback?: string | null
           user_id: string
         }
@@ -55,22 +515,258 @@ export type Database = {
           category?: string | null
           confidence_score?: number | null
           created_at?: string
+          feedback_at?: string | null
           id?: string
           image_url?: string | null
           materials?: string | null
+          model_version?: string | null
           needs_human_review?: boolean | null
           predicted_codes?: Json
           processing_time_ms?: number | null
           product_description?: string | null
+          product_id?: string | null
           product_title?: string
+          raw_confidence_score?: number | null
           review_reason?: string | null
           selected_code?: string | null
           updated_at?: string
+          user_comments?: string | null
           user_feedback?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      hts_revisions: {
+        Row: {
+          created_at: string
+          effective_date: string
+          line_count: number
+          loaded_at: string
+          revision: string
+          source: string
+          source_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          effective_date: string
+          line_count?: number
+          loaded_at?: string
+          revision: string
+          source?: string
+          source_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          effective_date?: string
+          line_count?: number
+          loaded_at?: string
+          revision?: string
+          source?: string
+          source_url?: string | null
+        }
+        Relationships: []
+      }
+      hts_schedule: {
+        Row: {
+          additional_duties: string | null
+          chapter: string
+          column2_rate: string | null
+          created_at: string
+          description: string
+          effective_date: string
+          footnotes: Json
+          full_description: string
+          general_rate: string | null
+          heading: string | null
+          hts_code: string | null
+          htsno: string | null
+          id: string
+          indent: number
+          level: string
+          quota_quantity: string | null
+          rates_inherited: boolean
+          revision: string
+          row_order: number
+          search_vector: unknown | null
+          special_rate: string | null
+          statistical_suffix: string | null
+          subheading: string | null
+          units: string[]
+        }
+        Insert: {
+          additional_duties?: string | null
+          chapter: string
+          column2_rate?: string | null
+          created_at?: string
+          description: string
+          effective_date: string
+          footnotes?: Json
+          full_description: string
+          general_rate?: string | null
+          heading?: string | null
+          hts_code?: string | null
+          htsno?: string | null
+          id?: string
+          indent?: number
+          level: string
+          quota_quantity?: string | null
+          rates_inherited?: boolean
+          revision: string
+          row_order: number
+          special_rate?: string | null
+          statistical_suffix?: string | null
+          subheading?: string | null
+          units?: string[]
+        }
+        Update: {
+          additional_duties?: string | null
+          chapter?: string
+          column2_rate?: string | null
+          created_at?: string
+          description?: string
+          effective_date?: string
+          footnotes?: Json
+          full_description?: string
+          general_rate?: string | null
+          heading?: string | null
+          hts_code?: string | null
+          htsno?: string | null
+          id?: string
+          indent?: number
+          level?: string
+          quota_quantity?: string | null
+          rates_inherited?: boolean
+          revision?: string
+          row_order?: number
+          special_rate?: string | null
+          statistical_suffix?: string | null
+          subheading?: string | null
+          units?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hts_schedule_revision_fkey"
+            columns: ["revision"]
+            isOneToOne: false
+            referencedRelation: "hts_revisions"
+            referencedColumns: ["revision"]
+          },
+        ]
+      }
+      hts_schedule_staging: {
+        Row: {
+          additional_duties: string | null
+          chapter: string
+          column2_rate: string | null
+          created_at: string
+          description: string
+          footnotes: Json
+          full_description: string
+          general_rate: string | null
+          heading: string | null
+          hts_code: string | null
+          htsno: string | null
+          import_id: string
+          indent: number
+          level: string
+          quota_quantity: string | null
+          rates_inherited: boolean
+          row_order: number
+          special_rate: string | null
+          statistical_suffix: string | null
+          subheading: string | null
+          units: string[]
+        }
+        Insert: {
+          additional_duties?: string | null
+          chapter: string
+          column2_rate?: string | null
+          created_at?: string
+          description: string
+          footnotes?: Json
+          full_description: string
+          general_rate?: string | null
+          heading?: string | null
+          hts_code?: string | null
+          htsno?: string | null
+          import_id: string
+          indent?: number
+          level: string
+          quota_quantity?: string | null
+          rates_inherited?: boolean
+          row_order: number
+          special_rate?: string | null
+          statistical_suffix?: string | null
+          subheading?: string | null
+          units?: string[]
+        }
+        Update: {
+          additional_duties?: string | null
+          chapter?: string
+          column2_rate?: string | null
+          created_at?: string
+          description?: string
+          footnotes?: Json
+          full_description?: string
+          general_rate?: string | null
+          heading?: string | null
+          hts_code?: string | null
+          htsno?: string | null
+          import_id?: string
+          indent?: number
+          level?: string
+          quota_quantity?: string | null
+          rates_inherited?: boolean
+          row_order?: number
+          special_rate?: string | null
+          statistical_suffix?: string | null
+          subheading?: string | null
+          units?: string[]
+        }
+        Relationships: []
+      }
+      hts_subscriptions: {
+        Row: {
+          chapters: string[] | null
+          code_prefix: string | null
+          created_at: string
+          hs_code: string
+          id: string
+          is_active: boolean
+          notification_types: string[]
+          scope: string
+          subscription_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chapters?: string[] | null
+          code_prefix?: string | null
+          created_at?: string
+          hs_code: string
+          id?: string
+          is_active?: boolean
+          notification_types?: string[]
+          scope?: string
+          subscription_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chapters?: string[] | null
+          code_prefix?: string | null
+          created_at?: string
+          hs_code?: string
+          id?: string
+          is_active?: boolean
+          notification_types?: string[]
+          scope?: string
+          subscription_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       imported_products: {
         Row: {
           category_id: string
@@ -119,12 +815,459 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_channels: {
+        Row: {
+          channel_type: string
+          created_at: string
+          digest_frequency: string | null
+          email: string | null
+          id: string
+          is_active: boolean
+          last_digest_at: string | null
+          secret: string | null
+          updated_at: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          channel_type: string
+          created_at?: string
+          digest_frequency?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          last_digest_at?: string | null
+          secret?: string | null
+          updated_at?: string
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          channel_type?: string
+          created_at?: string
+          digest_frequency?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          last_digest_at?: string | null
+          secret?: string | null
+          updated_at?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel_id: string
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          notification_ids: string[]
+          payload: Json
+          response_status: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          channel_id: string
+          created_at?: string
+          delivered_at?: string | null
+          event: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          notification_ids?: string[]
+          payload: Json
+          response_status?: number | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          channel_id?: string
+          created_at?: string
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          notification_ids?: string[]
+          payload?: Json
+          response_status?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "notification_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prediction_reviews: {
+        Row: {
+          assigned_at: string | null
+          assignee: string | null
+          assignee_id: string | null
+          created_at: string
+          due_at: string
+          id: string
+          justification: string | null
+          prediction_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_code: string | null
+          review_reason: string | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assignee?: string | null
+          assignee_id?: string | null
+          created_at?: string
+          due_at: string
+          id?: string
+          justification?: string | null
+          prediction_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_code?: string | null
+          review_reason?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assignee?: string | null
+          assignee_id?: string | null
+          created_at?: string
+          due_at?: string
+          id?: string
+          justification?: string | null
+          prediction_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_code?: string | null
+          review_reason?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_reviews_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: true
+            referencedRelation: "hts_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_classifications: {
+        Row: {
+          approved_at: string
+          approved_by: string | null
+          approved_by_email: string | null
+          created_at: string
+          description: string | null
+          hts_code: string
+          hts_revision: string | null
+          id: string
+          prediction_id: string | null
+          product_id: string
+          rationale: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string
+          approved_by?: string | null
+          approved_by_email?: string | null
+          created_at?: string
+          description?: string | null
+          hts_code: string
+          hts_revision?: string | null
+          id?: string
+          prediction_id?: string | null
+          product_id: string
+          rationale?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          approved_at?: string
+          approved_by?: string | null
+          approved_by_email?: string | null
+          created_at?: string
+          description?: string | null
+          hts_code?: string
+          hts_revision?: string | null
+          id?: string
+          prediction_id?: string | null
+          product_id?: string
+          rationale?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_classifications_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "hts_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_product_classifications: {
+        Args: {
+          target_job: string
+        }
+        Returns: number
+      }
+      claim_bulk_job_items: {
+        Args: {
+          batch_size?: number
+          target_job: string
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          confidence: number | null
+          created_at: string
+          id: string
+          item_index: number
+          job_id: string
+          last_error: string | null
+          locked_at: string | null
+          needs_human_review: boolean
+          next_attempt_at: string
+          prediction_id: string | null
+          predictions: Json
+          processing_time_ms: number | null
+          product: Json
+          product_id: string
+          review_reason: string | null
+          started_at: string | null
+          status: string
+          top_code: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      claim_notification_deliveries: {
+        Args: {
+          batch_size?: number
+          max_attempts?: number
+        }
+        Returns: {
+          attempts: number
+          channel_id: string
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          notification_ids: string[]
+          payload: Json
+          response_status: number | null
+          status: string
+          user_id: string
+        }[]
+      }
+      clear_spanned_hts_diffs: {
+        Args: {
+          target_revision: string
+        }
+        Returns: number
+      }
+      diff_hts_revisions: {
+        Args: {
+          new_revision: string
+          old_revision: string
+        }
+        Returns: Json
+      }
+      get_additional_duties: {
+        Args: {
+          as_of?: string
+          origin_country: string
+          target_code: string
+        }
+        Returns: {
+          created_at: string
+          description: string
+          effective_from: string
+          effective_to: string | null
+          excludes_heading: string | null
+          exempt_countries: string[]
+          heading: string
+          hts_code: string
+          id: string
+          origin_countries: string[] | null
+          program: string
+          provision_type: string
+          rate: string | null
+          source_url: string | null
+        }[]
+      }
+      get_bulk_job_summary: {
+        Args: {
+          target_job: string
+        }
+        Returns: Json
+      }
+      get_change_affected_products: {
+        Args: {
+          target_change: string
+        }
+        Returns: {
+          approved_at: string
+          category: string
+          description: string
+          hts_code: string
+          product_id: string
+          title: string
+        }[]
+      }
+      get_exchange_rate: {
+        Args: {
+          currency: string
+          export_date?: string
+        }
+        Returns: {
+          country: string | null
+          created_at: string
+          currency_code: string
+          currency_name: string | null
+          effective_from: string
+          effective_to: string
+          id: string
+          rate: number
+          rate_type: string
+          source_url: string | null
+        }[]
+      }
+      get_prediction_analytics: {
+        Args: {
+          category_filter?: string
+          end_date: string
+          start_date: string
+          time_bucket?: string
+        }
+        Returns: Json
+      }
+      has_role: {
+        Args: {
+          check_role: string
+          check_user_id: string
+        }
+        Returns: boolean
+      }
+      hts_change_payload: {
+        Args: {
+          c: Database["public"]["Tables"]["hts_changes"]["Row"]
+        }
+        Returns: Json
+      }
+      publish_hts_import: {
+        Args: {
+          target_effective_date: string
+          target_import: string
+          target_revision: string
+          target_source_url?: string
+        }
+        Returns: number
+      }
+      queue_notification_digests: {
+        Args: never
+        Returns: number
+      }
+      replace_additional_duties: {
+        Args: {
+          provisions: Json
+        }
+        Returns: number
+      }
+      search_hts_schedule: {
+        Args: {
+          max_results?: number
+          search_query: string
+          target_revision: string
+        }
+        Returns: {
+          additional_duties: string | null
+          chapter: string
+          column2_rate: string | null
+          created_at: string
+          description: string
+          effective_date: string
+          footnotes: Json
+          full_description: string
+          general_rate: string | null
+          heading: string | null
+          hts_code: string | null
+          htsno: string | null
+          id: string
+          indent: number
+          level: string
+          quota_quantity: string | null
+          rates_inherited: boolean
+          revision: string
+          row_order: number
+          search_vector: unknown | null
+          special_rate: string | null
+          statistical_suffix: string | null
+          subheading: string | null
+          units: string[]
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
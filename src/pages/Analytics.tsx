@@ -0,0 +1,362 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AnalyticsGranularity,
+  PredictionAnalytics,
+  PredictionAnalyticsService
+} from '@/services/PredictionAnalyticsService';
+import { AlertCircle, ArrowLeft, ArrowRight, BarChart3, RefreshCw } from 'lucide-react';
+
+const ALL_CATEGORIES = 'all';
+const DEFAULT_RANGE_DAYS = 90;
+
+const accuracyChartConfig = {
+  top1Accuracy: { label: 'Top-1 accuracy', color: 'hsl(var(--primary))' },
+  top5Accuracy: { label: 'Top-5 hit rate', color: 'hsl(var(--success))' }
+} satisfies ChartConfig;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+const formatMs = (value: number | null) => {
+  if (value === null) return '—';
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+};
+
+const Analytics = () => {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>('week');
+  const [analytics, setAnalytics] = useState<PredictionAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!startDate || !endDate || startDate > endDate) return;
+
+    let cancelled = false;
+
+    const loadAnalytics = async () => {
+      setIsLoading(true);
+      try {
+        const result = await PredictionAnalyticsService.getAnalytics({
+          startDate,
+          endDate,
+          category: category === ALL_CATEGORIES ? undefined : category,
+          granularity
+        });
+        if (!cancelled) setAnalytics(result);
+      } catch (error) {
+        if (!cancelled) {
+          toast({
+            title: "Failed to load analytics",
+            description: error instanceof Error ? error.message : "Please try again",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadAnalytics();
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, category, granularity, reloadKey, toast]);
+
+  const totals = analytics?.totals;
+  const latency = analytics?.latency;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <div className="flex justify-between items-center p-4 border-b">
+        <Header />
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/" className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to classifier
+          </Link>
+        </Button>
+      </div>
+
+      <section className="py-8">
+        <div className="container mx-auto px-6 max-w-7xl space-y-6">
+          <div className="flex flex-col gap-2">
+            <h2 className="text-3xl font-bold text-foreground flex items-center gap-2">
+              <BarChart3 className="h-7 w-7 text-primary" />
+              Classification Accuracy
+            </h2>
+            <p className="text-muted-foreground">
+              How predictions hold up against reviewer feedback. Accuracy only counts predictions that were marked correct or incorrect.
+            </p>
+          </div>
+
+          {/* Filters */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="analytics-start">From</Label>
+                  <Input id="analytics-start" type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="analytics-end">To</Label>
+                  <Input id="analytics-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                      {(analytics?.categories || []).map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Group by</Label>
+                  <Select value={granularity} onValueChange={(value) => setGranularity(value as AnalyticsGranularity)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day</SelectItem>
+                      <SelectItem value="week">Week</SelectItem>
+                      <SelectItem value="month">Month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={() => setReloadKey(key => key + 1)} disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+              {startDate > endDate && (
+                <p className="text-sm text-destructive mt-3">The start date must be on or before the end date.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {!analytics && isLoading && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[0, 1, 2, 3].map(index => <Skeleton key={index} className="h-28" />)}
+            </div>
+          )}
+
+          {analytics && totals && latency && (
+            <>
+              {/* Headline figures */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-2xl font-bold">{totals.totalPredictions}</div>
+                    <div className="text-sm text-muted-foreground">Predictions</div>
+                    <div className="text-xs text-muted-foreground mt-1">{totals.ratedPredictions} with feedback</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-2xl font-bold text-primary">{formatPercent(totals.top1Accuracy)}</div>
+                    <div className="text-sm text-muted-foreground">Top-1 accuracy</div>
+                    <Progress value={totals.top1Accuracy || 0} className="h-1.5 mt-2" />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-2xl font-bold text-success">{formatPercent(totals.top5Accuracy)}</div>
+                    <div className="text-sm text-muted-foreground">Top-5 hit rate</div>
+                    <Progress value={totals.top5Accuracy || 0} className="h-1.5 mt-2" />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-2xl font-bold text-warning">{formatPercent(totals.reviewRate)}</div>
+                    <div className="text-sm text-muted-foreground">Sent to human review</div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {totals.ratedPredictions === 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    No predictions in this range have feedback yet, so accuracy cannot be measured. Mark results as correct or incorrect to populate these charts.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Accuracy over time */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Accuracy over time</CardTitle>
+                  <CardDescription>Top-1 accuracy and top-5 hit rate per {granularity} among rated predictions</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {analytics.accuracyOverTime.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No predictions in this range.</p>
+                  ) : (
+                    <ChartContainer config={accuracyChartConfig} className="h-72 w-full aspect-auto">
+                      <LineChart data={analytics.accuracyOverTime} margin={{ left: 0, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="period" tickLine={false} axisLine={false} tickMargin={8} />
+                        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" width={48} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line dataKey="top1Accuracy" type="monotone" stroke="var(--color-top1Accuracy)" strokeWidth={2} connectNulls />
+                        <Line dataKey="top5Accuracy" type="monotone" stroke="var(--color-top5Accuracy)" strokeWidth={2} connectNulls />
+                      </LineChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Most corrected chapters */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Most corrected chapters</CardTitle>
+                    <CardDescription>Chapters of the top prediction where reviewers disagreed</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {analytics.mostCorrectedChapters.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No corrections in this range.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Chapter</TableHead>
+                            <TableHead className="text-right">Corrections</TableHead>
+                            <TableHead className="text-right">Rated</TableHead>
+                            <TableHead className="text-right">Correction rate</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {analytics.mostCorrectedChapters.map(row => (
+                            <TableRow key={row.chapter}>
+                              <TableCell className="font-mono">{row.chapter}</TableCell>
+                              <TableCell className="text-right">{row.corrections}</TableCell>
+                              <TableCell className="text-right">{row.rated}</TableCell>
+                              <TableCell className="text-right">{row.correctionRate}%</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Review reasons */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Human review reasons</CardTitle>
+                    <CardDescription>Share of all predictions flagged for each reason; one prediction can have several</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {analytics.reviewReasons.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No predictions were flagged for review.</p>
+                    ) : (
+                      analytics.reviewReasons.map(row => (
+                        <div key={row.reason} className="space-y-1">
+                          <div className="flex justify-between gap-4 text-sm">
+                            <span>{row.reason}</span>
+                            <span className="text-muted-foreground whitespace-nowrap">{row.count} · {row.rate}%</span>
+                          </div>
+                          <Progress value={row.rate} className="h-1.5" />
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Latency */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Latency</CardTitle>
+                    <CardDescription>Processing time across {latency.count} predictions</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-3 gap-4 text-center">
+                      {([
+                        ['p50', latency.p50],
+                        ['p90', latency.p90],
+                        ['p95', latency.p95],
+                        ['p99', latency.p99],
+                        ['Mean', latency.mean],
+                        ['Max', latency.max]
+                      ] as const).map(([label, value]) => (
+                        <div key={label} className="p-3 rounded-lg bg-muted/50">
+                          <div className="text-lg font-semibold">{formatMs(value)}</div>
+                          <div className="text-xs text-muted-foreground">{label}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Confusion pairs */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Confusion pairs</CardTitle>
+                    <CardDescription>Predicted code versus the code reviewers selected</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {analytics.confusionPairs.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No corrected codes in this range.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Predicted</TableHead>
+                            <TableHead />
+                            <TableHead>Selected</TableHead>
+                            <TableHead className="text-right">Count</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {analytics.confusionPairs.map(pair => (
+                            <TableRow key={`${pair.predictedCode}-${pair.selectedCode}`}>
+                              <TableCell className="font-mono">{pair.predictedCode}</TableCell>
+                              <TableCell><ArrowRight className="h-3 w-3 text-muted-foreground" /></TableCell>
+                              <TableCell className="font-mono">{pair.selectedCode}</TableCell>
+                              <TableCell className="text-right">
+                                <Badge variant="secondary">{pair.count}</Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { ProductForm } from '@/components/ProductForm';
 import { PredictionResults } from '@/components/PredictionResults';
@@ -6,18 +7,20 @@ import { EnhancedPredictionResults } from '@/components/EnhancedPredictionResult
 import { CSVImport } from '@/components/CSVImport';
 import { PDFProcessor } from '@/components/PDFProcessor';
 import { TariffCalculator } from '@/components/TariffCalculator';
+import { EntryCalculator } from '@/components/EntryCalculator';
 import { HTSChangeTracker } from '@/components/HTSChangeTracker';
 import { BulkAnalysis } from '@/components/BulkAnalysis';
 import { ImageOnlyAnalysis } from '@/components/ImageOnlyAnalysis';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { analyzeProduct } from '@/utils/mockAnalysis';
+import { analyzeProduct, determineHumanReview } from '@/utils/mockAnalysis';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { ProductData, AnalysisResults } from '@/types/product';
-import { ExternalLink, LogOut } from 'lucide-react';
+import { BarChart3, ClipboardCheck, ExternalLink, LogOut } from 'lucide-react';
 import heroImage from '@/assets/hero-customs.jpg';
 
 interface EnhancedPredictionResult {
@@ -34,6 +37,7 @@ const Index = () => {
   const { user, signOut } = useAuth();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [results, setResults] = useState<AnalysisResults | null>(null);
+  const [fallbackPredictionId, setFallbackPredictionId] = useState<string | undefined>(undefined);
   const [enhancedResults, setEnhancedResults] = useState<EnhancedPredictionResult | null>(null);
 
   const handleSignOut = async () => {
@@ -47,6 +51,7 @@ const Index = () => {
   const handleAnalyze = async (productData: ProductData & { imageUrl?: string }) => {
     setIsAnalyzing(true);
     setResults(null);
+    setFallbackPredictionId(undefined);
     setEnhancedResults(null);
     
     try {
@@ -57,7 +62,8 @@ const Index = () => {
           productDescription: productData.description,
           category: productData.category,
           materials: productData.materials,
-          imageUrl: productData.imageUrl
+          imageUrl: productData.imageUrl,
+          productId: productData.productId
         }
       });
 
@@ -79,6 +85,35 @@ const Index = () => {
       try {
         const analysisResults = await analyzeProduct(productData);
         setResults(analysisResults);
+
+        // Record the fallback prediction as well so feedback on it has a prediction to attach to
+        if (user) {
+          const { needsHumanReview, reviewReason } = determineHumanReview(analysisResults.predictions);
+          const { data: predictionRecord, error: recordError } = await supabase
+            .from('hts_predictions')
+            .insert({
+              user_id: user.id,
+              product_title: productData.title,
+              product_description: productData.description,
+              category: productData.category,
+              materials: productData.materials,
+              product_id: productData.productId ?? null,
+              predicted_codes: analysisResults.predictions as unknown as Json,
+              confidence_score: analysisResults.predictions[0]?.confidence ?? null,
+              raw_confidence_score: analysisResults.predictions[0]?.rawConfidence ?? null,
+              model_version: analysisResults.analysisDetails.modelVersion,
+              processing_time_ms: analysisResults.analysisDetails.processingTime,
+              needs_human_review: needsHumanReview,
+              review_reason: reviewReason ?? null
+            })
+            .select('id')
+            .single();
+
+          if (recordError) {
+            console.error('Error saving fallback prediction:', recordError);
+          }
+          setFallbackPredictionId(predictionRecord?.id);
+        }
         
         toast({
           title: "Fallback Analysis Complete",
@@ -105,6 +140,18 @@ const Index = () => {
           <span className="text-sm text-muted-foreground">
             Welcome, {user?.email}
           </span>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/review" className="flex items-center gap-2">
+              <ClipboardCheck className="h-4 w-4" />
+              Review Queue
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/analytics" className="flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Analytics
+            </Link>
+          </Button>
           <Button 
             variant="outline" 
             size="sm" 
@@ -217,6 +264,7 @@ const Index = () => {
                   ) : results ? (
                     <PredictionResults 
                       predictions={results.predictions}
+                      predictionId={fallbackPredictionId}
                       analysisDetails={results.analysisDetails}
                     />
                   ) : (
@@ -243,7 +291,10 @@ const Index = () => {
             </TabsContent>
             
             <TabsContent value="tariff">
-              <TariffCalculator />
+              <div className="space-y-6">
+                <TariffCalculator />
+                <EntryCalculator />
+              </div>
             </TabsContent>
             
             <TabsContent value="tracker">
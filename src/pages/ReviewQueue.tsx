@@ -0,0 +1,466 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  PredictionReview,
+  ReviewQueuePage,
+  ReviewQueueService,
+  ReviewStatus
+} from '@/services/ReviewQueueService';
+import { ArrowLeft, CheckCircle, ClipboardCheck, Clock, RefreshCw, UserPlus, XCircle } from 'lucide-react';
+
+type QueueView = 'active' | 'approved' | 'rejected';
+
+const VIEW_STATUSES: Record<QueueView, ReviewStatus[]> = {
+  active: ['open', 'in_review'],
+  approved: ['approved'],
+  rejected: ['rejected']
+};
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  open: 'Open',
+  in_review: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+const PAGE_SIZE = 25;
+const CLOCK_TICK_MS = 60 * 1000;
+const SLA_WARNING_MS = 4 * 60 * 60 * 1000;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes % 60}m`;
+};
+
+const getStatusVariant = (status: ReviewStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'approved': return 'default';
+    case 'rejected': return 'destructive';
+    case 'in_review': return 'secondary';
+    default: return 'outline';
+  }
+};
+
+const ReviewQueue = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [view, setView] = useState<QueueView>('active');
+  const [mine, setMine] = useState(false);
+  const [page, setPage] = useState(0);
+  const [queue, setQueue] = useState<ReviewQueuePage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [selectedReviewId, setSelectedReviewId] = useState<string | null>(null);
+  const [selectedCode, setSelectedCode] = useState('');
+  const [customCode, setCustomCode] = useState('');
+  const [justification, setJustification] = useState('');
+  const [assigneeInput, setAssigneeInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setQueue(await ReviewQueueService.listReviews({
+        statuses: VIEW_STATUSES[view],
+        mine,
+        page,
+        pageSize: PAGE_SIZE
+      }));
+    } catch (error) {
+      toast({
+        title: "Failed to load review queue",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [view, mine, page, toast]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Keep the SLA timers current without refetching the queue
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const selectReview = (review: PredictionReview) => {
+    if (selectedReviewId === review.id) {
+      setSelectedReviewId(null);
+      return;
+    }
+    setSelectedReviewId(review.id);
+    setSelectedCode(review.candidates[0]?.code || '');
+    setCustomCode('');
+    setJustification('');
+    setAssigneeInput(review.assignee || '');
+  };
+
+  const runAction = async (action: () => Promise<PredictionReview>, successTitle: string) => {
+    setIsSaving(true);
+    try {
+      const updated = await action();
+      toast({
+        title: successTitle,
+        description: updated.product.title,
+      });
+      if (updated.status === 'approved' || updated.status === 'rejected') {
+        setSelectedReviewId(null);
+      }
+      await loadQueue();
+    } catch (error) {
+      toast({
+        title: "Review update failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDecision = (review: PredictionReview) => {
+    const code = customCode.trim();
+    if (code) {
+      if (!justification.trim()) {
+        toast({
+          title: "Justification required",
+          description: "Explain why the predicted candidates were rejected.",
+          variant: "destructive",
+        });
+        return;
+      }
+      runAction(() => ReviewQueueService.rejectReview(review.id, code, justification.trim()), "Prediction rejected");
+    } else {
+      runAction(() => ReviewQueueService.approveReview(review.id, selectedCode, justification.trim() || undefined), "Candidate approved");
+    }
+  };
+
+  const renderSla = (review: PredictionReview) => {
+    if (review.status === 'approved' || review.status === 'rejected') {
+      const resolvedIn = new Date(review.resolvedAt || review.dueAt).getTime() - new Date(review.createdAt).getTime();
+      const withinSla = new Date(review.resolvedAt || review.dueAt).getTime() <= new Date(review.dueAt).getTime();
+      return (
+        <span className={`text-xs ${withinSla ? 'text-muted-foreground' : 'text-destructive'}`}>
+          Resolved in {formatDuration(resolvedIn)}{withinSla ? '' : ' (SLA missed)'}
+        </span>
+      );
+    }
+
+    const remaining = new Date(review.dueAt).getTime() - now;
+    const color = remaining < 0 ? 'text-destructive' : remaining < SLA_WARNING_MS ? 'text-warning' : 'text-muted-foreground';
+    return (
+      <span className={`flex items-center gap-1 text-xs font-medium ${color}`}>
+        <Clock className="h-3 w-3" />
+        {remaining < 0 ? `Overdue by ${formatDuration(remaining)}` : `${formatDuration(remaining)} left`}
+      </span>
+    );
+  };
+
+  const renderDecisionPanel = (review: PredictionReview) => (
+    <div className="mt-4 space-y-4 border-t pt-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1 flex-1 min-w-[200px]">
+          <Label htmlFor={`assignee-${review.id}`} className="text-xs">Assignee</Label>
+          <Input
+            id={`assignee-${review.id}`}
+            value={assigneeInput}
+            onChange={(e) => setAssigneeInput(e.target.value)}
+            placeholder="reviewer@company.com"
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isSaving}
+          onClick={() => runAction(() => ReviewQueueService.assignReview(review.id, assigneeInput.trim() || null), "Assignee updated")}
+        >
+          <UserPlus className="h-4 w-4 mr-1" />
+          Assign
+        </Button>
+        {review.status === 'open' && (
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={isSaving}
+            onClick={() => runAction(() => ReviewQueueService.startReview(review.id), "Review started")}
+          >
+            Start review
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Accept a candidate</Label>
+        <div className="space-y-2">
+          {review.candidates.map((candidate, index) => (
+            <button
+              key={candidate.code}
+              type="button"
+              onClick={() => {
+                setSelectedCode(candidate.code);
+                setCustomCode('');
+              }}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                selectedCode === candidate.code && !customCode.trim() ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono font-medium">{candidate.code}</span>
+                <div className="flex items-center gap-2">
+                  {index === 0 && <Badge variant="outline" className="text-xs">Top prediction</Badge>}
+                  {candidate.confidence !== undefined && (
+                    <span className="text-xs text-muted-foreground">{Math.round(candidate.confidence)}%</span>
+                  )}
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">{candidate.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={`code-${review.id}`} className="text-xs">Or enter a different code</Label>
+          <Input
+            id={`code-${review.id}`}
+            value={customCode}
+            onChange={(e) => setCustomCode(e.target.value)}
+            placeholder="e.g., 6109.10.00.04"
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`justification-${review.id}`} className="text-xs">
+            Justification {customCode.trim() ? '(required)' : '(optional)'}
+          </Label>
+          <Textarea
+            id={`justification-${review.id}`}
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="GRI, chapter notes or rulings supporting the decision"
+            rows={2}
+            maxLength={2000}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => handleDecision(review)}
+          disabled={isSaving || (!customCode.trim() && !selectedCode)}
+          variant={customCode.trim() ? 'destructive' : 'default'}
+        >
+          {customCode.trim() ? (
+            <>
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject and use {customCode.trim()}
+            </>
+          ) : (
+            <>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve {selectedCode}
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const counts = queue?.counts;
+  const pageCount = queue ? Math.ceil(queue.total / PAGE_SIZE) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <div className="flex justify-between items-center p-4 border-b">
+        <Header />
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/" className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to classifier
+          </Link>
+        </Button>
+      </div>
+
+      <section className="py-8">
+        <div className="container mx-auto px-6 max-w-5xl space-y-6">
+          <div className="flex flex-col gap-2">
+            <h2 className="text-3xl font-bold text-foreground flex items-center gap-2">
+              <ClipboardCheck className="h-7 w-7 text-primary" />
+              Review Queue
+            </h2>
+            <p className="text-muted-foreground">
+              Predictions flagged for human review. Approving a candidate or entering a different code sets the prediction's selected code.
+            </p>
+          </div>
+
+          {counts && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {([
+                ['Open', counts.open, ''],
+                ['In review', counts.in_review, ''],
+                ['Overdue', counts.overdue, 'text-destructive'],
+                ['Approved', counts.approved, 'text-success'],
+                ['Rejected', counts.rejected, '']
+              ] as const).map(([label, value, color]) => (
+                <Card key={label}>
+                  <CardContent className="pt-6 text-center">
+                    <div className={`text-2xl font-bold ${color}`}>{value}</div>
+                    <div className="text-sm text-muted-foreground">{label}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Flagged predictions</CardTitle>
+                  <CardDescription>Ordered by SLA deadline, most urgent first</CardDescription>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="assigned-to-me"
+                      checked={mine}
+                      onCheckedChange={(checked) => {
+                        setMine(checked);
+                        setPage(0);
+                      }}
+                      disabled={!user?.email}
+                    />
+                    <Label htmlFor="assigned-to-me" className="text-sm">Assigned to me</Label>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={loadQueue} disabled={isLoading}>
+                    <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                  </Button>
+                </div>
+              </div>
+              <Tabs
+                value={view}
+                onValueChange={(value) => {
+                  setView(value as QueueView);
+                  setPage(0);
+                  setSelectedReviewId(null);
+                }}
+              >
+                <TabsList>
+                  <TabsTrigger value="active">To review</TabsTrigger>
+                  <TabsTrigger value="approved">Approved</TabsTrigger>
+                  <TabsTrigger value="rejected">Rejected</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!queue && isLoading && (
+                <div className="space-y-3">
+                  <Skeleton className="h-20" />
+                  <Skeleton className="h-20" />
+                  <Skeleton className="h-20" />
+                </div>
+              )}
+
+              {queue && queue.reviews.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {view === 'active' ? 'Nothing waiting for review.' : `No ${view} reviews yet.`}
+                </p>
+              )}
+
+              {queue?.reviews.map(review => {
+                const isActive = review.status === 'open' || review.status === 'in_review';
+                const isSelected = selectedReviewId === review.id;
+
+                return (
+                  <div
+                    key={review.id}
+                    className={`p-4 rounded-lg border transition-colors ${isActive ? 'cursor-pointer hover:bg-muted/30' : ''} ${isSelected ? 'border-primary' : ''}`}
+                    onClick={() => isActive && selectReview(review)}
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{review.product.title || 'Untitled product'}</span>
+                          <Badge variant={getStatusVariant(review.status)}>{STATUS_LABELS[review.status]}</Badge>
+                        </div>
+                        {review.reviewReason && (
+                          <div className="flex flex-wrap gap-1">
+                            {review.reviewReason.split('; ').map(reason => (
+                              <Badge key={reason} variant="outline" className="text-xs font-normal">{reason}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        <div className="text-xs text-muted-foreground">
+                          Top prediction <span className="font-mono">{review.candidates[0]?.code || '—'}</span>
+                          {review.confidence !== null && ` · ${review.confidence}% confidence`}
+                          {review.product.category && ` · ${review.product.category}`}
+                        </div>
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {renderSla(review)}
+                        <span className="text-xs text-muted-foreground">
+                          {review.assignee ? `Assigned to ${review.assignee}` : 'Unassigned'}
+                        </span>
+                      </div>
+                    </div>
+
+                    {!isActive && review.resolvedCode && (
+                      <div className="mt-2 text-sm">
+                        Selected <span className="font-mono font-medium">{review.resolvedCode}</span>
+                        {review.justification && <span className="text-muted-foreground"> — {review.justification}</span>}
+                      </div>
+                    )}
+
+                    {isSelected && (
+                      <>
+                        {review.product.description && (
+                          <p className="mt-3 text-sm text-muted-foreground">{review.product.description}</p>
+                        )}
+                        {renderDecisionPanel(review)}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+
+              {pageCount > 1 && (
+                <div className="flex items-center justify-between pt-2">
+                  <Button variant="outline" size="sm" disabled={page === 0 || isLoading} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                  <Button variant="outline" size="sm" disabled={page + 1 >= pageCount || isLoading} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ReviewQueue;
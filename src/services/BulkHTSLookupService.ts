@@ -3,6 +3,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { ProductData, HSCodePrediction } from '../types/product';
 import { analyzeProduct } from '../utils/mockAnalysis';
 
+// Products sent per add-items call; the edge function accepts at most 500
+const UPLOAD_CHUNK_SIZE = 500;
+const RESULTS_PAGE_SIZE = 1000;
+
 export interface BulkProduct {
   id: string;
   title: string;
@@ -14,68 +18,76 @@ export interface BulkProduct {
 }
 
 export interface BulkAnalysisResult {
+  itemIndex?: number;
   productId: string;
   product: BulkProduct;
   predictions: HSCodePrediction[];
-  status: 'COMPLETED' | 'FAILED' | 'PROCESSING';
+  status: 'COMPLETED' | 'FAILED' | 'PROCESSING' | 'PENDING' | 'CANCELLED';
   error?: string;
+  attempts?: number;
+  predictionId?: string;
+  needsHumanReview?: boolean;
+  reviewReason?: string;
   processingTime: number;
   confidence: number;
 }
 
 export interface BulkJobStatus {
   jobId: string;
+  name?: string | null;
   totalProducts: number;
   completedProducts: number;
   failedProducts: number;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  cancelledProducts?: number;
+  status: 'PENDING' | 'PROCESSING' | 'PAUSED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   startTime: string;
   endTime?: string;
   estimatedTimeRemaining?: number;
+  error?: string;
+  // Results are paged; totals and summary always cover the whole job
+  page?: number;
+  pageSize?: number;
   results: BulkAnalysisResult[];
   summary: {
     averageConfidence: number;
     mostCommonChapters: Array<{ chapter: string; count: number; percentage: number }>;
     flaggedForReview: number;
     totalProcessingTime: number;
+    confidenceBands?: { critical: number; medium: number; low: number; veryLow: number };
   };
 }
 
+export type BulkJobSummary = Omit<BulkJobStatus, 'results' | 'summary' | 'estimatedTimeRemaining' | 'page' | 'pageSize'>;
+
+export interface RetryItemsOptions {
+  // Also re-run completed rows that need review (flagged or under 70% confidence)
+  includeFlagged?: boolean;
+  // Limit the retry to these rows; only failed or flagged rows among them are re-run
+  itemIndexes?: number[];
+}
+
 export class BulkHTSLookupService {
   
   /**
-   * Start bulk analysis job
+   * Start bulk analysis job. Products are uploaded in chunks, then the job is queued
+   * for the background worker; poll getJobStatus for progress.
    */
-  static async startBulkAnalysis(products: BulkProduct[]): Promise<string> {
+  static async startBulkAnalysis(products: BulkProduct[], name?: string): Promise<string> {
     try {
-      // Get the current session to pass auth token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        throw new Error('Authentication required for bulk analysis');
-      }
-
-      const { data, error } = await supabase.functions.invoke('bulk-hts-analysis', {
-        body: {
-          action: 'start-job',
-          products
-        },
-        headers: {
-          Authorization: `Bearer ${session.access_token}`
-        }
-      });
-
-      if (error) {
-        console.error('Error starting bulk analysis:', error);
-        throw new Error('Failed to start bulk analysis job');
+      const created = await this.invokeBulkFunction({ action: 'create-job', name });
+      const jobId: string = created.jobId;
+
+      for (let offset = 0; offset < products.length; offset += UPLOAD_CHUNK_SIZE) {
+        await this.invokeBulkFunction({
+          action: 'add-items',
+          jobId,
+          offset,
+          products: products.slice(offset, offset + UPLOAD_CHUNK_SIZE)
+        });
       }
 
-      // Handle edge function error responses
-      if (data && !data.success && data.error) {
-        throw new Error(data.error);
-      }
-
-      // Edge function returns data directly or with jobId
-      return data.jobId || 'mock-job-' + Date.now();
+      await this.invokeBulkFunction({ action: 'start-job', jobId });
+      return jobId;
     } catch (error) {
       console.error('Failed to start bulk analysis:', error);
       throw error;
@@ -83,85 +95,96 @@ export class BulkHTSLookupService {
   }
 
   /**
-   * Get job status and results
+   * Get job progress, whole-job summary and one page of item results
    */
-  static async getJobStatus(jobId: string): Promise<BulkJobStatus> {
+  static async getJobStatus(jobId: string, page = 0, pageSize = 100): Promise<BulkJobStatus> {
     try {
-      // Get the current session to pass auth token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        throw new Error('Authentication required for job status');
-      }
+      const data = await this.invokeBulkFunction({ action: 'get-status', jobId, page, pageSize });
+      return data.status as BulkJobStatus;
+    } catch (error) {
+      console.error('Failed to get job status:', error);
+      throw error;
+    }
+  }
 
-      const { data, error } = await supabase.functions.invoke('bulk-hts-analysis', {
-        body: {
-          action: 'get-status',
-          jobId
-        },
-        headers: {
-          Authorization: `Bearer ${session.access_token}`
-        }
-      });
-
-      console.log('EDGE FUNCTION RAW RESPONSE:', JSON.stringify(data, null, 2));
-
-      if (error) {
-        console.error('Error getting job status:', error);
-        throw new Error('Failed to get job status');
-      }
+  /**
+   * Fetch every item result of a job, page by page, e.g. for export
+   */
+  static async getAllJobResults(jobId: string): Promise<BulkAnalysisResult[]> {
+    const results: BulkAnalysisResult[] = [];
 
-      // Handle edge function error responses
-      if (data && !data.success && data.error) {
-        throw new Error(data.error);
+    for (let page = 0; ; page++) {
+      const status = await this.getJobStatus(jobId, page, RESULTS_PAGE_SIZE);
+      results.push(...status.results);
+      if (status.results.length < RESULTS_PAGE_SIZE) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * List the user's most recent jobs so an interrupted run can be picked up again
+   */
+  static async listJobs(): Promise<BulkJobSummary[]> {
+    const data = await this.invokeBulkFunction({ action: 'list-jobs' });
+    return data.jobs as BulkJobSummary[];
+  }
+
+  /**
+   * Stop the worker after its current batch; the remaining queue is kept
+   */
+  static async pauseJob(jobId: string): Promise<void> {
+    await this.invokeBulkFunction({ action: 'pause-job', jobId });
+  }
+
+  /**
+   * Continue a paused job, or restart the worker of a job that stopped making progress
+   */
+  static async resumeJob(jobId: string): Promise<void> {
+    await this.invokeBulkFunction({ action: 'resume-job', jobId });
+  }
+
+  /**
+   * Drop every product that has not been processed yet; finished predictions are kept
+   */
+  static async cancelJob(jobId: string): Promise<void> {
+    await this.invokeBulkFunction({ action: 'cancel-job', jobId });
+  }
+
+  /**
+   * Re-run failed rows (and optionally rows needing review) without repeating the rest of the job.
+   * Returns the number of rows queued again.
+   */
+  static async retryFailedItems(jobId: string, options: RetryItemsOptions = {}): Promise<number> {
+    const data = await this.invokeBulkFunction({ action: 'retry-items', jobId, ...options });
+    return data.requeued as number;
+  }
+
+  private static async invokeBulkFunction(body: Record<string, unknown>) {
+    // Get the current session to pass auth token
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Authentication required for bulk analysis');
+    }
+
+    const { data, error } = await supabase.functions.invoke('bulk-hts-analysis', {
+      body,
+      headers: {
+        Authorization: `Bearer ${session.access_token}`
       }
+    });
 
-      // Normalize the response from edge function
-      const edgeData = data.status || data;
-      const results = edgeData.results || [];
-      
-      // Calculate summary statistics from results
-      const completedResults = results.filter((r: any) => r.status === 'COMPLETED');
-      const totalConfidence = completedResults.reduce((sum: number, r: any) => sum + (r.confidence || 0), 0);
-      const averageConfidence = completedResults.length > 0 ? Math.round(totalConfidence / completedResults.length) : 0;
-      
-      // Calculate chapter distribution
-      const chapterCounts: Record<string, number> = {};
-      completedResults.forEach((result: any) => {
-        if (result.predictions && result.predictions.length > 0) {
-          const chapter = result.predictions[0].code.substring(0, 2);
-          chapterCounts[chapter] = (chapterCounts[chapter] || 0) + 1;
-        }
-      });
-      
-      const mostCommonChapters = Object.entries(chapterCounts)
-        .map(([chapter, count]) => ({
-          chapter: `Chapter ${chapter}`,
-          count,
-          percentage: Math.round((count / completedResults.length) * 100)
-        }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 5);
-      
-      return {
-        jobId: edgeData.jobId || jobId,
-        totalProducts: edgeData.totalProducts || results.length,
-        completedProducts: edgeData.completedProducts || completedResults.length,
-        failedProducts: edgeData.failedProducts || results.filter((r: any) => r.status === 'FAILED').length,
-        status: edgeData.status || 'COMPLETED',
-        startTime: edgeData.startTime || new Date().toISOString(),
-        endTime: edgeData.endTime,
-        results: results,
-        summary: {
-          averageConfidence,
-          mostCommonChapters,
-          flaggedForReview: results.filter((r: any) => r.confidence < 70).length,
-          totalProcessingTime: edgeData.summary?.totalProcessingTime || 2000
-        }
-      };
-    } catch (error) {
-      console.error('Failed to get job status:', error);
-      throw error;
+    if (error) {
+      console.error(`Error calling bulk-hts-analysis (${body.action}):`, error);
+      throw new Error(`Bulk analysis request failed: ${body.action}`);
     }
+
+    // Handle edge function error responses
+    if (data && !data.success && data.error) {
+      throw new Error(data.error);
+    }
+
+    return data;
   }
 
   /**
@@ -197,7 +220,8 @@ export class BulkHTSLookupService {
         category: product.category || '',
         materials: product.materials || '',
         image: null,
-        categoryId: product.customData?.categoryId
+        categoryId: product.customData?.categoryId,
+        productId: product.id
       };
 
       const analysis = await analyzeProduct(productData);
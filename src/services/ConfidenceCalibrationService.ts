@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface CalibrationPoint {
+  meanRawConfidence: number;
+  calibratedConfidence: number;
+}
+
+export class ConfidenceCalibrationService {
+  private static curves = new Map<string, Promise<CalibrationPoint[]>>();
+
+  /**
+   * Calibration curve fitted from feedback for a model version, loaded once per session
+   */
+  static getCurve(modelVersion: string): Promise<CalibrationPoint[]> {
+    if (!this.curves.has(modelVersion)) {
+      this.curves.set(modelVersion, this.loadCurve(modelVersion));
+    }
+    return this.curves.get(modelVersion)!;
+  }
+
+  /**
+   * Map a raw heuristic score onto the accuracy observed for it. Interpolates between
+   * bucket means and keeps the nearest bucket's offset outside the fitted range;
+   * without a curve the raw score is returned unchanged.
+   */
+  static calibrate(raw: number, curve: CalibrationPoint[]): number {
+    if (curve.length === 0) return raw;
+
+    const first = curve[0];
+    const last = curve[curve.length - 1];
+    let calibrated: number;
+
+    if (raw <= first.meanRawConfidence) {
+      calibrated = raw + (first.calibratedConfidence - first.meanRawConfidence);
+    } else if (raw >= last.meanRawConfidence) {
+      calibrated = raw + (last.calibratedConfidence - last.meanRawConfidence);
+    } else {
+      const upperIndex = curve.findIndex(point => point.meanRawConfidence >= raw);
+      const lower = curve[upperIndex - 1];
+      const upper = curve[upperIndex];
+      const position = (raw - lower.meanRawConfidence) / (upper.meanRawConfidence - lower.meanRawConfidence);
+      calibrated = lower.calibratedConfidence + position * (upper.calibratedConfidence - lower.calibratedConfidence);
+    }
+
+    return Math.round(Math.min(Math.max(calibrated, 0), 99));
+  }
+
+  private static async loadCurve(modelVersion: string): Promise<CalibrationPoint[]> {
+    const { data, error } = await supabase
+      .from('confidence_calibrations')
+      .select('mean_raw_confidence, calibrated_confidence')
+      .eq('model_version', modelVersion)
+      .order('bucket_lower');
+
+    if (error) {
+      console.error('Error loading calibration curve, using raw confidence:', error);
+      // Let the next analysis try again
+      this.curves.delete(modelVersion);
+      return [];
+    }
+
+    return (data || []).map(point => ({
+      meanRawConfidence: Number(point.mean_raw_confidence),
+      calibratedConfidence: Number(point.calibrated_confidence)
+    }));
+  }
+}
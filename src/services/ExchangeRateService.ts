@@ -0,0 +1,91 @@
+// Service for converting invoice values to USD at CBP certified rates of exchange
+import { supabase } from '@/integrations/supabase/client';
+
+export type ExchangeRateType = 'QUARTERLY' | 'DAILY';
+
+// How a value was converted to USD, kept with the result so quotes can cite the rate
+export interface CurrencyConversion {
+  currency: string;
+  foreignValue: number;
+  valueInUSD: number;
+  rate: number; // Units of the currency per US dollar
+  rateType: ExchangeRateType;
+  rateEffectiveFrom: string;
+  rateEffectiveTo: string;
+  exportDate: string;
+}
+
+export class ExchangeRateService {
+  /**
+   * The certified rate for a currency on the date of exportation: a daily rate certified for
+   * that day takes precedence over the quarterly rate
+   */
+  static async getRate(currency: string, exportDate: string) {
+    const { data, error } = await supabase.rpc('get_exchange_rate', {
+      currency: currency.toUpperCase(),
+      export_date: exportDate
+    });
+
+    if (error) {
+      console.error('Error loading exchange rate:', error);
+      throw new Error(`Exchange rate for ${currency} could not be loaded`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Currencies that can be converted for a date of exportation: USD plus every currency with a
+   * loaded rate covering the date
+   */
+  static async getAvailableCurrencies(exportDate: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('currency_code')
+      .lte('effective_from', exportDate)
+      .gte('effective_to', exportDate);
+
+    if (error) {
+      console.error('Error loading exchange rate currencies:', error);
+      return ['USD'];
+    }
+
+    return ['USD', ...new Set((data || []).map(row => row.currency_code))];
+  }
+
+  /**
+   * Convert a value to USD at the certified rate; throws when no rate covers the date, since an
+   * approximate rate is not good enough for a quote
+   */
+  static async convertToUSD(value: number, currency: string, exportDate: string): Promise<CurrencyConversion> {
+    const code = currency.toUpperCase();
+    if (code === 'USD') {
+      return {
+        currency: code,
+        foreignValue: value,
+        valueInUSD: value,
+        rate: 1,
+        rateType: 'QUARTERLY',
+        rateEffectiveFrom: exportDate,
+        rateEffectiveTo: exportDate,
+        exportDate
+      };
+    }
+
+    const rate = await this.getRate(code, exportDate);
+    if (!rate) {
+      throw new Error(`No CBP certified exchange rate for ${code} on ${exportDate}; load the rates for that quarter`);
+    }
+
+    return {
+      currency: code,
+      foreignValue: value,
+      valueInUSD: Math.round((value / rate.rate) * 100) / 100,
+      rate: rate.rate,
+      rateType: rate.rate_type as ExchangeRateType,
+      rateEffectiveFrom: rate.effective_from,
+      rateEffectiveTo: rate.effective_to,
+      exportDate
+    };
+  }
+}
@@ -1,14 +1,19 @@
 // Service for tracking HTS changes and notifications
 import { supabase } from '@/integrations/supabase/client';
+import { HTSLookupService, HTSRevisionTarget } from './HTSLookupService';
+import { TariffCalculatorService } from './TariffCalculatorService';
+import { computeDuty, parseDutyRate } from '@/utils/dutyRate';
 
 export interface HTSChange {
   id: string;
   hsCode: string;
   changeType: 'NEW' | 'MODIFIED' | 'DELETED' | 'RATE_CHANGE' | 'DESCRIPTION_CHANGE';
+  field?: string; // Changed column for DESCRIPTION_CHANGE and RATE_CHANGE, e.g. 'general_rate'
   oldValue?: string;
   newValue?: string;
   effectiveDate: string;
   revision: string;
+  fromRevision?: string; // Revision the change was diffed against
   description: string;
   impact: 'LOW' | 'MEDIUM' | 'HIGH';
   category?: string;
@@ -17,10 +22,14 @@ export interface HTSChange {
   officialUrl?: string;
 }
 
+export type HTSSubscriptionScope = 'CODE' | 'SECTION' | 'PRODUCT_LIBRARY';
+
 export interface HTSSubscription {
   id: string;
   userId: string;
-  hsCode: string;
+  hsCode: string; // Code or pattern ('61*', '6109.*'), 'Section XI' or 'Product library'
+  scope: HTSSubscriptionScope;
+  chapters?: string[];
   notificationTypes: string[];
   isActive: boolean;
   createdAt: string;
@@ -36,6 +45,49 @@ export interface ChangeNotification {
   change: HTSChange;
 }
 
+export interface HTSFeedLinks {
+  atom: string; // Atom feed of matched changes
+  calendar: string; // iCalendar with an all-day event per effective date
+}
+
+export interface AffectedSKU {
+  productId: string;
+  title: string;
+  category?: string;
+  htsCode: string;
+  rateBefore?: string;
+  rateAfter?: string;
+  dutyBefore: number | null;
+  dutyAfter: number | null;
+  dutyDelta: number | null; // At referenceValue; null when either side has no rate
+  note?: string;
+}
+
+export interface ChangeImpactReport {
+  change: HTSChange;
+  referenceValue: number;
+  originCountry: string;
+  affectedSkus: AffectedSKU[];
+  totalDutyDelta: number;
+  replacementSuggestions: Array<{ code: string; description: string }>;
+  generatedAt: string;
+}
+
+interface DutySnapshot {
+  duty: number; // Applied rate plus Chapter 99 additional duties
+  rate: string;
+  notes: string[]; // Parts of the duty the snapshot could not include
+}
+
+const DEFAULT_REFERENCE_VALUE = 1000; // USD customs value per SKU
+const MAX_REPLACEMENT_SUGGESTIONS = 5;
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
 export class HTSChangeTrackerService {
   
   /**
@@ -87,7 +139,9 @@ export class HTSChangeTrackerService {
   }
 
   /**
-   * Subscribe to HTS code changes
+   * Subscribe to HTS code changes. hsCode may be a code, a pattern such as '61*' or '6109.*',
+   * a section such as 'Section XI', or 'Product library' for every approved classification.
+   * notificationTypes may combine change types and impact levels, e.g. ['RATE_CHANGE', 'HIGH'].
    */
   static async subscribeToHTSCode(
     hsCode: string, 
@@ -212,27 +266,54 @@ export class HTSChangeTrackerService {
   }
 
   /**
-   * Process USITC change record document
+   * Tokenized Atom feed and iCalendar URLs for the user's matched changes. Rotating the
+   * token invalidates the links handed out before.
    */
-  static async processChangeRecord(pdfText: string): Promise<HTSChange[]> {
-    try {
-      const { data, error } = await supabase.functions.invoke('pdf-processor', {
-        body: {
-          action: 'process-change-record',
-          text: pdfText
-        }
-      });
+  static async getFeedLinks(rotate: boolean = false): Promise<HTSFeedLinks> {
+    const { data, error } = await supabase.functions.invoke('hts-change-tracker', {
+      body: {
+        action: 'get-feed-links',
+        rotate
+      }
+    });
 
-      if (error) {
-        console.error('Error processing change record:', error);
-        return [];
+    if (error) {
+      console.error('Error fetching feed links:', error);
+      throw new Error('Failed to get feed links');
+    }
+
+    if (data && !data.success && data.error) {
+      throw new Error(data.error);
+    }
+
+    return data.feeds;
+  }
+
+  /**
+   * Parse the text of a USITC Change Record and save its changes to the change feed
+   */
+  static async processChangeRecord(pdfText: string, filename?: string): Promise<HTSChange[]> {
+    const { data, error } = await supabase.functions.invoke('pdf-processor', {
+      body: {
+        action: 'process-change-record',
+        text: pdfText,
+        filename
       }
+    });
 
-      return data.changes || [];
-    } catch (error) {
-      console.error('Failed to process change record:', error);
-      return [];
+    if (error) {
+      console.error('Error processing change record:', error);
+      // Non-2xx responses (403, 422) arrive as an error whose context is the response; its body
+      // carries the reason, e.g. "Not a USITC Change Record"
+      const body = await error.context?.json?.().catch(() => null);
+      throw new Error(body?.error || 'Failed to process the change record');
+    }
+
+    if (data && !data.success && data.error) {
+      throw new Error(data.error);
     }
+
+    return data.changes || [];
   }
 
   /**
@@ -298,6 +379,169 @@ export class HTSChangeTrackerService {
     };
   }
 
+  /**
+   * SKU-level impact of a change for finance: every approved product classification under the
+   * changed code, with the duty (Chapter 99 duties included) before and after the change at a reference customs value.
+   * Deleted codes come with candidate replacement codes from the new schedule.
+   */
+  static async getImpactReport(
+    change: HTSChange,
+    options: { referenceValue?: number; originCountry?: string } = {}
+  ): Promise<ChangeImpactReport> {
+    const referenceValue = options.referenceValue ?? DEFAULT_REFERENCE_VALUE;
+    const originCountry = options.originCountry || 'CN';
+
+    const { data, error } = await supabase.rpc('get_change_affected_products', { target_change: change.id });
+    if (error) {
+      console.error('Error loading products affected by change:', error);
+      throw new Error('Failed to load affected products');
+    }
+
+    const products = data || [];
+
+    // Diffed changes name both revisions; Change Record entries only know when the change took effect
+    const before: HTSRevisionTarget = change.fromRevision
+      ? { revision: change.fromRevision }
+      : { asOfDate: shiftDate(change.effectiveDate, -1) };
+    const after: HTSRevisionTarget = change.fromRevision
+      ? { revision: change.revision }
+      : { asOfDate: change.effectiveDate };
+
+    // SKUs often share a code, so each code is priced once per side of the change
+    const dutyByCode = new Map<string, Promise<[DutySnapshot | null, DutySnapshot | null]>>();
+    const priceCode = (code: string) => {
+      if (!dutyByCode.has(code)) {
+        dutyByCode.set(code, Promise.all([
+          this.getDutySnapshot(code, referenceValue, originCountry, before),
+          this.getDutySnapshot(code, referenceValue, originCountry, after)
+        ]));
+      }
+      return dutyByCode.get(code)!;
+    };
+
+    const affectedSkus: AffectedSKU[] = await Promise.all(products.map(async product => {
+      const [dutyBefore, dutyAfter] = await priceCode(product.hts_code);
+
+      return {
+        productId: product.product_id,
+        title: product.title,
+        category: product.category || undefined,
+        htsCode: product.hts_code,
+        rateBefore: dutyBefore?.rate,
+        rateAfter: dutyAfter?.rate,
+        dutyBefore: dutyBefore?.duty ?? null,
+        dutyAfter: dutyAfter?.duty ?? null,
+        dutyDelta: dutyBefore && dutyAfter ? dutyAfter.duty - dutyBefore.duty : null,
+        note: [
+          ...(!dutyAfter ? ['Not in the schedule after the change; reclassify'] : []),
+          ...(dutyAfter && !dutyBefore ? ['Not in the schedule before the change'] : []),
+          ...(dutyBefore?.notes || []).map(note => `Before: ${note}`),
+          ...(dutyAfter?.notes || []).map(note => `After: ${note}`)
+        ].join('; ') || undefined
+      };
+    }));
+
+    const replacementSuggestions = change.changeType === 'DELETED'
+      ? await this.suggestReplacementCodes(change, after)
+      : [];
+
+    return {
+      change,
+      referenceValue,
+      originCountry,
+      affectedSkus,
+      totalDutyDelta: affectedSkus.reduce((sum, sku) => sum + (sku.dutyDelta || 0), 0),
+      replacementSuggestions,
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Impact report as CSV, one row per SKU
+   */
+  static impactReportToCSV(report: ChangeImpactReport): string {
+    const header = ['product_id', 'title', 'hts_code', 'rate_before', 'rate_after', 'duty_before', 'duty_after', 'duty_delta', 'note'];
+    const rows = report.affectedSkus.map(sku => [
+      sku.productId,
+      sku.title,
+      sku.htsCode,
+      sku.rateBefore ?? '',
+      sku.rateAfter ?? '',
+      sku.dutyBefore?.toFixed(2) ?? '',
+      sku.dutyAfter?.toFixed(2) ?? '',
+      sku.dutyDelta?.toFixed(2) ?? '',
+      sku.note ?? ''
+    ]);
+
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    return [header, ...rows].map(row => row.map(escape).join(',')).join('\n');
+  }
+
+  private static async getDutySnapshot(
+    hsCode: string,
+    referenceValue: number,
+    originCountry: string,
+    asOf: HTSRevisionTarget
+  ): Promise<DutySnapshot | null> {
+    try {
+      const calculation = await TariffCalculatorService.calculateTariff(hsCode, referenceValue, 'USD', originCountry, undefined, asOf);
+      const additionalDuties = calculation.breakdown.additionalDuties;
+
+      // No quantities are known at a reference value, so specific and compound rates are understated
+      const notes = [calculation.calculations.appliedRate, ...additionalDuties.map(line => line.rate)].flatMap(rate => {
+        const computed = computeDuty(parseDutyRate(rate), calculation.valueInUSD);
+        return [
+          ...computed.missingUnits.map(unit => `duty per ${unit} in ${rate} not included`),
+          ...computed.uninterpreted.map(part => `"${part}" in ${rate} could not be interpreted`)
+        ];
+      });
+      const chapter99Error = calculation.disclaimers.find(disclaimer => disclaimer.startsWith('Chapter 99 additional duties'));
+
+      return {
+        duty: calculation.breakdown.customsDuty + additionalDuties.reduce((sum, line) => sum + line.amount, 0),
+        rate: calculation.calculations.appliedRate,
+        notes: chapter99Error ? [...notes, chapter99Error] : notes
+      };
+    } catch (error) {
+      // The code is not in that schedule (deleted after, or new before)
+      console.warn(`No duty for ${hsCode} at ${asOf.revision || asOf.asOfDate}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Candidates for a deleted code: lines matching its old description, then the lines under its
+   * nearest ancestor that still exists in the new schedule
+   */
+  private static async suggestReplacementCodes(
+    change: HTSChange,
+    after: HTSRevisionTarget
+  ): Promise<Array<{ code: string; description: string }>> {
+    const suggestions = new Map<string, string>();
+
+    if (change.oldValue) {
+      const matches = await HTSLookupService.searchByDescription(change.oldValue, after);
+      matches.slice(0, 3).forEach(entry => suggestions.set(entry.code, entry.description));
+    }
+
+    const digits = change.hsCode.replace(/\D/g, '');
+    for (const length of [8, 6, 4]) {
+      if (digits.length <= length) continue;
+
+      const related = await HTSLookupService.getRelatedCodes(digits.substring(0, length), after);
+      if (!related) continue;
+
+      related.children
+        .filter(child => child.code)
+        .forEach(child => suggestions.set(child.code!, child.description));
+      break;
+    }
+
+    return [...suggestions.entries()]
+      .slice(0, MAX_REPLACEMENT_SUGGESTIONS)
+      .map(([code, description]) => ({ code, description }));
+  }
+
   /**
    * Format change for display
    */
@@ -16,6 +16,9 @@ export interface HTSEntry {
   footnotes: string[];
   relatedCodes: string[];
   officialSource: string;
+  fullDescription?: string;
+  revision?: string;
+  effectiveDate?: string;
 }
 
 export interface HTSValidationResult {
@@ -31,13 +34,45 @@ export interface HTSChapterInfo {
   notes: string[];
   sections: string[];
   commonCodes: string[];
+  headings?: Array<{ code: string; description: string }>;
+  revision?: string;
+}
+
+export interface HTSTreeNode {
+  code: string | null;
+  description: string;
+  indent: number;
+  level: 'heading' | 'subheading' | 'tariff_line' | 'statistical' | 'text';
+  isResidual: boolean;
+  generalRate?: string;
+  children?: HTSTreeNode[];
+}
+
+export interface HTSRelatedCodes {
+  code: HTSTreeNode;
+  heading: HTSTreeNode | null;
+  parent: HTSTreeNode | null;
+  ancestors: HTSTreeNode[];
+  siblings: HTSTreeNode[];
+  children: HTSTreeNode[];
+  residual: HTSTreeNode | null;
+  revision: string;
+}
+
+/**
+ * Which schedule a lookup runs against: the revision in force on asOfDate (YYYY-MM-DD)
+ * or a named revision. Omitted, lookups use today's schedule.
+ */
+export interface HTSRevisionTarget {
+  asOfDate?: string;
+  revision?: string;
 }
 
 export class HTSLookupService {
   /**
    * Search for HTS codes by product description using official USITC data
    */
-  static async searchByDescription(description: string): Promise<HTSEntry[]> {
+  static async searchByDescription(description: string, asOf: HTSRevisionTarget = {}): Promise<HTSEntry[]> {
     try {
       // Get the current session to pass auth token
       const { data: { session } } = await supabase.auth.getSession();
@@ -48,7 +83,8 @@ export class HTSLookupService {
       const { data, error } = await supabase.functions.invoke('hts-lookup', {
         body: {
           action: 'search',
-          query: description
+          query: description,
+          ...asOf
         },
         headers: {
           Authorization: `Bearer ${session.access_token}`
@@ -74,7 +110,7 @@ export class HTSLookupService {
   /**
    * Validate an HTS code against official USITC database
    */
-  static async validateHTSCode(hsCode: string): Promise<HTSValidationResult> {
+  static async validateHTSCode(hsCode: string, asOf: HTSRevisionTarget = {}): Promise<HTSValidationResult> {
     try {
       // Get the current session to pass auth token
       const { data: { session } } = await supabase.auth.getSession();
@@ -85,7 +121,8 @@ export class HTSLookupService {
       const { data, error } = await supabase.functions.invoke('hts-lookup', {
         body: {
           action: 'validate',
-          hsCode
+          hsCode,
+          ...asOf
         },
         headers: {
           Authorization: `Bearer ${session.access_token}`
@@ -113,12 +150,13 @@ export class HTSLookupService {
   /**
    * Get detailed information about an HTS chapter
    */
-  static async getChapterInfo(chapter: string): Promise<HTSChapterInfo | null> {
+  static async getChapterInfo(chapter: string, asOf: HTSRevisionTarget = {}): Promise<HTSChapterInfo | null> {
     try {
       const { data, error } = await supabase.functions.invoke('hts-lookup', {
         body: {
           action: 'get-chapter',
-          chapter
+          chapter,
+          ...asOf
         }
       });
 
@@ -135,26 +173,32 @@ export class HTSLookupService {
   }
 
   /**
-   * Get related HTS codes for a given code
+   * Get the HTS tree around a code: parent heading, siblings, child lines and the residual "Other" line
    */
-  static async getRelatedCodes(hsCode: string): Promise<string[]> {
+  static async getRelatedCodes(hsCode: string, asOf: HTSRevisionTarget = {}): Promise<HTSRelatedCodes | null> {
     try {
       const { data, error } = await supabase.functions.invoke('hts-lookup', {
         body: {
           action: 'get-related',
-          hsCode
+          hsCode,
+          ...asOf
         }
       });
 
       if (error) {
         console.error('Error getting related codes:', error);
-        return [];
+        return null;
       }
 
-      return data.data || [];
+      if (!data.success) {
+        console.error('Related codes lookup failed:', data.error);
+        return null;
+      }
+
+      return data.data || null;
     } catch (error) {
       console.error('Related codes error:', error);
-      return [];
+      return null;
     }
   }
 
@@ -0,0 +1,120 @@
+// Service for delivering HTS change notifications by email digest and webhook
+import { supabase } from '@/integrations/supabase/client';
+
+export type NotificationChannelType = 'EMAIL' | 'WEBHOOK';
+export type DigestFrequency = 'DAILY' | 'WEEKLY';
+export type DeliveryStatus = 'PENDING' | 'SENDING' | 'DELIVERED' | 'FAILED';
+
+export interface NotificationChannel {
+  id: string;
+  channelType: NotificationChannelType;
+  email?: string;
+  digestFrequency?: DigestFrequency;
+  lastDigestAt?: string;
+  url?: string;
+  secret?: string; // Key for verifying the X-HTS-Signature header of webhook requests
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  channelId: string;
+  event: 'hts.change' | 'digest' | 'test';
+  notificationCount: number;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+export class NotificationDeliveryService {
+  static async getChannels(): Promise<NotificationChannel[]> {
+    const data = await this.invokeDeliveryFunction({ action: 'get-channels' });
+    return data.channels || [];
+  }
+
+  /**
+   * Send a digest of the user's matched changes every day or week; only the account's confirmed
+   * email address is accepted
+   */
+  static async addEmailDigest(email: string, digestFrequency: DigestFrequency): Promise<NotificationChannel> {
+    const data = await this.invokeDeliveryFunction({ action: 'add-channel', channelType: 'EMAIL', email, digestFrequency });
+    return data.channel;
+  }
+
+  /**
+   * POST each matched change to this URL as signed JSON; the response includes the signing secret
+   */
+  static async addWebhook(url: string): Promise<NotificationChannel> {
+    const data = await this.invokeDeliveryFunction({ action: 'add-channel', channelType: 'WEBHOOK', url });
+    return data.channel;
+  }
+
+  static async updateChannel(
+    channelId: string,
+    changes: { isActive?: boolean; digestFrequency?: DigestFrequency }
+  ): Promise<NotificationChannel> {
+    const data = await this.invokeDeliveryFunction({ action: 'update-channel', channelId, ...changes });
+    return data.channel;
+  }
+
+  static async removeChannel(channelId: string): Promise<void> {
+    await this.invokeDeliveryFunction({ action: 'remove-channel', channelId });
+  }
+
+  /**
+   * Most recent deliveries first, optionally for a single channel
+   */
+  static async getDeliveries(channelId?: string, limit: number = 50): Promise<NotificationDelivery[]> {
+    const data = await this.invokeDeliveryFunction({ action: 'get-deliveries', channelId, limit });
+    return data.deliveries || [];
+  }
+
+  /**
+   * Send a test email or webhook right away and return how it went
+   */
+  static async sendTest(channelId: string): Promise<NotificationDelivery> {
+    const data = await this.invokeDeliveryFunction({ action: 'send-test', channelId });
+    return data.delivery;
+  }
+
+  /**
+   * Queue a failed delivery again with a fresh set of retries
+   */
+  static async redeliver(deliveryId: string): Promise<NotificationDelivery> {
+    const data = await this.invokeDeliveryFunction({ action: 'redeliver', deliveryId });
+    return data.delivery;
+  }
+
+  private static async invokeDeliveryFunction(body: Record<string, unknown>) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Authentication required for notification delivery');
+    }
+
+    const { data, error } = await supabase.functions.invoke('notification-delivery', {
+      body,
+      headers: {
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+
+    if (error) {
+      console.error(`Error calling notification-delivery (${body.action}):`, error);
+      const response = await error.context?.json?.().catch(() => null);
+      throw new Error(response?.error || `Notification delivery request failed: ${body.action}`);
+    }
+
+    // Handle edge function error responses
+    if (data && !data.success && data.error) {
+      throw new Error(data.error);
+    }
+
+    return data;
+  }
+}
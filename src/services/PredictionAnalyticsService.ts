@@ -0,0 +1,144 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsFilters {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  category?: string;
+  granularity?: AnalyticsGranularity;
+}
+
+export interface AccuracyPoint {
+  period: string;
+  predictions: number;
+  rated: number;
+  top1Accuracy: number | null;
+  top5Accuracy: number | null;
+}
+
+export interface CorrectedChapter {
+  chapter: string;
+  corrections: number;
+  rated: number;
+  correctionRate: number;
+}
+
+export interface ReviewReasonCount {
+  reason: string;
+  count: number;
+  rate: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  mean: number | null;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface ConfusionPair {
+  predictedCode: string;
+  selectedCode: string;
+  count: number;
+}
+
+export interface PredictionAnalytics {
+  totals: {
+    totalPredictions: number;
+    ratedPredictions: number;
+    top1Accuracy: number | null;
+    top5Accuracy: number | null;
+    reviewRate: number | null;
+  };
+  accuracyOverTime: AccuracyPoint[];
+  mostCorrectedChapters: CorrectedChapter[];
+  reviewReasons: ReviewReasonCount[];
+  latency: LatencyStats;
+  confusionPairs: ConfusionPair[];
+  categories: string[];
+}
+
+// Shape of the JSON returned by get_prediction_analytics (numeric columns may arrive as strings)
+type RawNumber = number | string | null;
+
+interface RawAnalytics {
+  totals?: Record<'total_predictions' | 'rated_predictions' | 'top1_accuracy' | 'top5_accuracy' | 'review_rate', RawNumber>;
+  accuracy_over_time?: { period: string; predictions: RawNumber; rated: RawNumber; top1_accuracy: RawNumber; top5_accuracy: RawNumber }[];
+  most_corrected_chapters?: { chapter: string; corrections: RawNumber; rated: RawNumber; correction_rate: RawNumber }[];
+  review_reasons?: { reason: string; count: RawNumber; rate: RawNumber }[];
+  latency?: Partial<Record<keyof LatencyStats, RawNumber>>;
+  confusion_pairs?: { predicted_code: string; selected_code: string; count: RawNumber }[];
+  categories?: string[];
+}
+
+const toNumber = (value: RawNumber | undefined): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class PredictionAnalyticsService {
+  /**
+   * Accuracy, review and latency figures for the signed-in user's predictions
+   */
+  static async getAnalytics(filters: AnalyticsFilters): Promise<PredictionAnalytics> {
+    const { data, error } = await supabase.rpc('get_prediction_analytics', {
+      start_date: filters.startDate,
+      end_date: filters.endDate,
+      category_filter: filters.category,
+      time_bucket: filters.granularity || 'week'
+    });
+
+    if (error) {
+      console.error('Error loading prediction analytics:', error);
+      throw new Error(error.message || 'Failed to load analytics');
+    }
+
+    const raw = (data || {}) as RawAnalytics;
+    const latency = raw.latency || {};
+
+    return {
+      totals: {
+        totalPredictions: Number(raw.totals?.total_predictions || 0),
+        ratedPredictions: Number(raw.totals?.rated_predictions || 0),
+        top1Accuracy: toNumber(raw.totals?.top1_accuracy),
+        top5Accuracy: toNumber(raw.totals?.top5_accuracy),
+        reviewRate: toNumber(raw.totals?.review_rate)
+      },
+      accuracyOverTime: (raw.accuracy_over_time || []).map(point => ({
+        period: point.period,
+        predictions: Number(point.predictions),
+        rated: Number(point.rated),
+        top1Accuracy: toNumber(point.top1_accuracy),
+        top5Accuracy: toNumber(point.top5_accuracy)
+      })),
+      mostCorrectedChapters: (raw.most_corrected_chapters || []).map(chapter => ({
+        chapter: chapter.chapter,
+        corrections: Number(chapter.corrections),
+        rated: Number(chapter.rated),
+        correctionRate: Number(chapter.correction_rate)
+      })),
+      reviewReasons: (raw.review_reasons || []).map(reason => ({
+        reason: reason.reason,
+        count: Number(reason.count),
+        rate: Number(reason.rate)
+      })),
+      latency: {
+        count: Number(latency.count || 0),
+        mean: toNumber(latency.mean),
+        p50: toNumber(latency.p50),
+        p90: toNumber(latency.p90),
+        p95: toNumber(latency.p95),
+        p99: toNumber(latency.p99),
+        max: toNumber(latency.max)
+      },
+      confusionPairs: (raw.confusion_pairs || []).map(pair => ({
+        predictedCode: pair.predicted_code,
+        selectedCode: pair.selected_code,
+        count: Number(pair.count)
+      })),
+      categories: raw.categories || []
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ApprovedClassification {
+  productId: string;
+  htsCode: string;
+  description: string | null;
+  rationale: string | null;
+  approvedByEmail: string | null;
+  htsRevision: string | null;
+  approvedAt: string;
+}
+
+export class ProductClassificationService {
+  /**
+   * Code approved in the review queue for one of our SKUs, if there is one
+   */
+  static async getApprovedClassification(productId: string): Promise<ApprovedClassification | null> {
+    const { data, error } = await supabase
+      .from('product_classifications')
+      .select('product_id, hts_code, description, rationale, approved_by_email, hts_revision, approved_at')
+      .eq('product_id', productId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading approved classification, predicting instead:', error);
+      return null;
+    }
+
+    if (!data) return null;
+
+    return {
+      productId: data.product_id,
+      htsCode: data.hts_code,
+      description: data.description,
+      rationale: data.rationale,
+      approvedByEmail: data.approved_by_email,
+      htsRevision: data.hts_revision,
+      approvedAt: data.approved_at
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ReviewStatus = 'open' | 'in_review' | 'approved' | 'rejected';
+
+export interface ReviewCandidate {
+  code: string;
+  description: string;
+  confidence?: number;
+}
+
+export interface PredictionReview {
+  id: string;
+  predictionId: string;
+  status: ReviewStatus;
+  reviewReason: string | null;
+  assignee: string | null;
+  assignedAt: string | null;
+  dueAt: string;
+  startedAt: string | null;
+  resolvedCode: string | null;
+  justification: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  product: {
+    title: string;
+    description: string;
+    category?: string;
+    materials?: string;
+  };
+  confidence: number | null;
+  candidates: ReviewCandidate[];
+}
+
+export interface ReviewQueuePage {
+  reviews: PredictionReview[];
+  total: number;
+  page: number;
+  pageSize: number;
+  counts: Record<ReviewStatus | 'overdue', number>;
+}
+
+export interface ListReviewsOptions {
+  statuses?: ReviewStatus[];
+  mine?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export class ReviewQueueService {
+  /**
+   * Flagged predictions ordered by SLA deadline; open and in-review items by default
+   */
+  static async listReviews(options: ListReviewsOptions = {}): Promise<ReviewQueuePage> {
+    const data = await this.invokeReviewFunction({
+      action: 'list',
+      status: options.statuses,
+      mine: options.mine,
+      page: options.page,
+      pageSize: options.pageSize
+    });
+
+    return {
+      reviews: data.reviews || [],
+      total: data.total || 0,
+      page: data.page || 0,
+      pageSize: data.pageSize || 0,
+      counts: data.counts
+    };
+  }
+
+  /**
+   * Assign a review to a reviewer by email; null clears the assignee
+   */
+  static async assignReview(reviewId: string, assignee: string | null): Promise<PredictionReview> {
+    const data = await this.invokeReviewFunction({ action: 'assign', reviewId, assignee });
+    return data.review;
+  }
+
+  static async startReview(reviewId: string): Promise<PredictionReview> {
+    const data = await this.invokeReviewFunction({ action: 'start-review', reviewId });
+    return data.review;
+  }
+
+  /**
+   * Accept one of the predicted candidates; it becomes the prediction's selected code
+   */
+  static async approveReview(reviewId: string, code: string, justification?: string): Promise<PredictionReview> {
+    const data = await this.invokeReviewFunction({ action: 'approve', reviewId, code, justification });
+    return data.review;
+  }
+
+  /**
+   * Reject the candidates in favour of a different code, which requires a justification
+   */
+  static async rejectReview(reviewId: string, code: string, justification: string): Promise<PredictionReview> {
+    const data = await this.invokeReviewFunction({ action: 'reject', reviewId, code, justification });
+    return data.review;
+  }
+
+  private static async invokeReviewFunction(body: Record<string, unknown>) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Authentication required for the review queue');
+    }
+
+    const { data, error } = await supabase.functions.invoke('review-queue', {
+      body,
+      headers: {
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+
+    if (error) {
+      console.error(`Error calling review-queue (${body.action}):`, error);
+      throw new Error(`Review queue request failed: ${body.action}`);
+    }
+
+    // Handle edge function error responses
+    if (data && !data.success && data.error) {
+      throw new Error(data.error);
+    }
+
+    return data;
+  }
+}
@@ -1,10 +1,33 @@
 // Tariff calculation service for customs duty estimation
-import { HTSEntry } from './HTSLookupService';
+import { supabase } from '@/integrations/supabase/client';
+import { HTSEntry, HTSLookupService, HTSRevisionTarget } from './HTSLookupService';
+import { CurrencyConversion, ExchangeRateService } from './ExchangeRateService';
+import { computeDuty, DutyQuantities, DutyRate, isWeightUnit, parseDutyRate, parseSpecialRates } from '@/utils/dutyRate';
+
+export type AdditionalDutyProgram = 'SECTION_301' | 'SECTION_232' | 'SECTION_201' | 'IEEPA' | 'OTHER';
+
+// A Chapter 99 duty stacked on the applied rate; an excluded duty keeps its line with a zero amount
+export interface AdditionalDutyLine {
+  heading: string; // e.g. '9903.88.03'
+  program: AdditionalDutyProgram;
+  description: string;
+  rate: string;
+  amount: number;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  exclusion?: {
+    heading: string;
+    description: string;
+    expiresOn?: string;
+  };
+}
 
 export interface TariffCalculation {
   hsCode: string;
-  productValue: number;
+  productValue: number; // As entered, in `currency`
   currency: string;
+  valueInUSD: number;
+  exchangeRate?: CurrencyConversion; // Absent for USD values
   estimatedDuty: {
     general: number;
     special: number;
@@ -16,8 +39,9 @@ export interface TariffCalculation {
   };
   totalEstimatedCost: number;
   breakdown: {
-    productValue: number;
-    customsDuty: number;
+    productValue: number; // In USD, like the rest of the breakdown
+    customsDuty: number; // At the applied general, special or column 2 rate; waived by duty-free entry types
+    additionalDuties: AdditionalDutyLine[];
     additionalFees: number;
     total: number;
   };
@@ -27,8 +51,15 @@ export interface TariffCalculation {
     specialRate: string;
     column2Rate: string;
     appliedRate: string;
+    appliedRateForm: DutyRate['form'];
     tradeProgram?: string;
   };
+  quantities?: DutyQuantities;
+  entryType: EntryTypeDecision;
+  // Schedule the rates were taken from; absent when they are chapter-level estimates
+  htsRevision?: string;
+  revisionEffectiveDate?: string;
+  asOfDate?: string;
 }
 
 export interface Country {
@@ -38,60 +69,279 @@ export interface Country {
   preferentialRate?: boolean;
 }
 
+export type EntryType = 'DE_MINIMIS' | 'TYPE_86' | 'INFORMAL' | 'FORMAL';
+
+// What a shipment would owe under one entry type, and why it does or does not qualify
+export interface EntryTypeOption {
+  type: EntryType;
+  eligible: boolean;
+  reasons: string[];
+  dutyFree: boolean;
+  duty: number; // Customs and Chapter 99 duties owed under this type
+  merchandiseProcessingFee: number;
+  harborMaintenanceFee: number;
+  totalCost: number; // Duties and fees
+}
+
+export interface EntryTypeDecision {
+  type: EntryType; // The cheapest type the shipment qualifies for
+  reasons: string[]; // Why it was chosen, including why cheaper types were not available
+  options: EntryTypeOption[];
+}
+
+export type ValuationBasis = 'FOB' | 'CIF';
+export type ModeOfTransport = 'OCEAN' | 'AIR' | 'TRUCK' | 'RAIL';
+
+export interface EntryLineInput {
+  hsCode: string;
+  description?: string;
+  value: number; // Invoice value in the entry currency, on the entry's valuation basis
+  originCountry: string;
+  quantities?: DutyQuantities; // The quantity also gives the landed cost per unit
+  adCvd?: boolean; // Subject to an antidumping or countervailing duty order
+}
+
+export interface EntryOptions {
+  currency?: string;
+  valuationBasis?: ValuationBasis; // CIF invoice values include freight and insurance
+  freight?: number; // For the whole shipment, in the entry currency
+  insurance?: number;
+  modeOfTransport?: ModeOfTransport; // HMF applies to ocean shipments only
+  asOf?: HTSRevisionTarget;
+  exportDate?: string;
+}
+
+export interface EntryLineCalculation {
+  lineNumber: number;
+  hsCode: string;
+  description?: string;
+  originCountry: string;
+  invoiceValue: number; // The remaining amounts are in USD
+  dutiableValue: number;
+  freight: number; // Allocated share
+  insurance: number;
+  appliedRate: string;
+  tradeProgram?: string;
+  customsDuty: number; // Zero when the entry type is duty-free
+  additionalDuties: AdditionalDutyLine[];
+  merchandiseProcessingFee: number; // Prorated share of the entry's fee
+  harborMaintenanceFee: number;
+  landedCost: number;
+  quantities?: DutyQuantities;
+  landedCostPerUnit?: number;
+  htsRevision?: string;
+}
+
+export interface EntryCalculation {
+  currency: string;
+  exchangeRate?: CurrencyConversion;
+  valuationBasis: ValuationBasis;
+  modeOfTransport: ModeOfTransport;
+  entryType: EntryTypeDecision;
+  // The same lines shipped as one parcel each, to compare with consolidating them
+  parcels: {
+    entryTypes: Partial<Record<EntryType, number>>; // Number of parcels per entry type
+    duty: number;
+    fees: number;
+    totalCost: number;
+  };
+  lines: EntryLineCalculation[];
+  totals: {
+    invoiceValue: number;
+    dutiableValue: number;
+    freight: number;
+    insurance: number;
+    customsDuty: number;
+    additionalDuties: number;
+    merchandiseProcessingFee: number;
+    harborMaintenanceFee: number;
+    landedCost: number;
+  };
+  disclaimers: string[];
+}
+
+// A program named by special program indicators (SPI) in the special column (HTS General Note 3(c))
+interface SpecialProgram {
+  name: string;
+  countries: string[] | 'ANY'; // 'ANY' for product agreements open to every column 1 origin
+  inForce: Array<[string, string?]>; // Periods as [first day, last day], open-ended without a last day
+}
+
+// Independent GSP beneficiaries (General Note 4(a)) when GSP lapsed
+const GSP_BENEFICIARIES = [
+  'AF', 'AL', 'AM', 'AO', 'AR', 'BA', 'BF', 'BI', 'BJ', 'BO', 'BR', 'BT', 'BW', 'BZ', 'CD', 'CF', 'CG', 'CI',
+  'CM', 'CV', 'DJ', 'DM', 'DZ', 'EC', 'EG', 'ET', 'FJ', 'GA', 'GD', 'GE', 'GH', 'GM', 'GN', 'GW', 'GY', 'HT',
+  'ID', 'IQ', 'JM', 'JO', 'KE', 'KG', 'KH', 'KI', 'KM', 'KZ', 'LB', 'LC', 'LK', 'LR', 'LS', 'MD', 'ME', 'MG',
+  'MK', 'ML', 'MM', 'MN', 'MR', 'MU', 'MW', 'MZ', 'NA', 'NE', 'NG', 'NP', 'PG', 'PH', 'PK', 'PY', 'RS', 'RW',
+  'SB', 'SL', 'SN', 'SO', 'SR', 'SS', 'ST', 'SZ', 'TD', 'TG', 'TH', 'TL', 'TN', 'TO', 'TV', 'UA', 'UG', 'UZ',
+  'VC', 'VU', 'WS', 'XK', 'YE', 'ZA', 'ZM', 'ZW'
+];
+
+// Least-developed beneficiaries, the only origins eligible on lines marked "A+"
+const GSP_LEAST_DEVELOPED = [
+  'AF', 'AO', 'BF', 'BI', 'BJ', 'BT', 'CD', 'CF', 'DJ', 'ET', 'GM', 'GN', 'GW', 'HT', 'KH', 'KI', 'KM', 'LR',
+  'LS', 'MG', 'ML', 'MM', 'MR', 'MW', 'MZ', 'NE', 'NP', 'RW', 'SB', 'SL', 'SN', 'SO', 'SS', 'ST', 'TD', 'TG',
+  'TL', 'TV', 'TZ', 'UG', 'VU', 'YE', 'ZM'
+];
+
+const CBERA_BENEFICIARIES = ['AG', 'AW', 'BB', 'BS', 'BZ', 'CW', 'DM', 'GD', 'GY', 'HT', 'JM', 'KN', 'LC', 'MS', 'TT', 'VC', 'VG'];
+
+const AGOA_BENEFICIARIES = [
+  'AO', 'BJ', 'BW', 'CD', 'CG', 'CI', 'CV', 'DJ', 'GA', 'GH', 'GM', 'GN', 'GW', 'KE', 'KM', 'LR', 'LS', 'MG',
+  'MR', 'MU', 'MW', 'MZ', 'NA', 'NE', 'NG', 'RW', 'SL', 'SN', 'ST', 'TD', 'TG', 'TZ', 'ZA', 'ZM'
+];
+
+const COLUMN2_COUNTRIES = ['KP', 'CU']; // North Korea, Cuba
+
+const DE_MINIMIS_LIMIT = 800; // Section 321, per person per day
+const INFORMAL_ENTRY_LIMIT = 2500;
+
+// Periods in which Section 321 (and so Type 86) treatment is unavailable for some or all origins
+const DE_MINIMIS_SUSPENSIONS: Array<{ countries: string[] | 'ANY'; from: string; authority: string }> = [
+  { countries: ['CN', 'HK'], from: '2025-05-02', authority: 'Executive Order 14256' },
+  { countries: 'ANY', from: '2025-08-29', authority: 'Executive Order 14324' }
+];
+
+// Codes that cannot be released under Section 321
+const DE_MINIMIS_EXCLUDED_CODES: Array<{ prefix: string; goods: string }> = [
+  { prefix: '2203', goods: 'Beer' },
+  { prefix: '2204', goods: 'Wine' },
+  { prefix: '2205', goods: 'Vermouth' },
+  { prefix: '2206', goods: 'Fermented beverages' },
+  { prefix: '2208', goods: 'Spirits' },
+  { prefix: '2402', goods: 'Cigars and cigarettes' },
+  { prefix: '2403', goods: 'Tobacco products' }
+];
+
+const ENTRY_TYPE_ORDER: EntryType[] = ['DE_MINIMIS', 'TYPE_86', 'INFORMAL', 'FORMAL'];
+
+const DUTY_FREE_DISCLAIMER = 'Duties are shown at the applied rates but are not owed under the chosen duty-free entry type';
+
 export class TariffCalculatorService {
-  private static readonly TRADE_PROGRAMS = {
-    'USMCA': ['US', 'CA', 'MX'],
-    'CAFTA-DR': ['CR', 'DO', 'GT', 'HN', 'NI', 'SV'],
-    'FTA': ['AU', 'BH', 'CL', 'CO', 'IL', 'JO', 'KR', 'MA', 'OM', 'PA', 'PE', 'SG'],
-    'GSP': ['IN', 'TH', 'PH', 'ID'], // Generalized System of Preferences
-    'MFN': [] // Most Favored Nation (default)
+  // Keyed by base SPI; "*" (some beneficiaries excluded on the line) and "+" variants share their base's entry
+  private static readonly SPECIAL_PROGRAMS: Record<string, SpecialProgram> = {
+    'A': { name: 'GSP', countries: GSP_BENEFICIARIES, inForce: [['1976-01-01', '2013-07-31'], ['2015-07-29', '2020-12-31']] },
+    'AU': { name: 'Australia FTA', countries: ['AU'], inForce: [['2005-01-01']] },
+    'BH': { name: 'Bahrain FTA', countries: ['BH'], inForce: [['2006-08-01']] },
+    'C': { name: 'Civil Aircraft Agreement', countries: 'ANY', inForce: [['1980-01-01']] },
+    'CA': { name: 'NAFTA', countries: ['CA'], inForce: [['1994-01-01', '2020-06-30']] },
+    'CL': { name: 'Chile FTA', countries: ['CL'], inForce: [['2004-01-01']] },
+    'CO': { name: 'Colombia TPA', countries: ['CO'], inForce: [['2012-05-15']] },
+    'D': { name: 'AGOA', countries: AGOA_BENEFICIARIES, inForce: [['2000-10-01', '2025-09-30']] },
+    'E': { name: 'CBERA', countries: CBERA_BENEFICIARIES, inForce: [['1984-01-01']] },
+    'IL': { name: 'Israel FTA', countries: ['IL'], inForce: [['1985-09-01']] },
+    'JO': { name: 'Jordan FTA', countries: ['JO'], inForce: [['2001-12-17']] },
+    'JP': { name: 'U.S.-Japan Trade Agreement', countries: ['JP'], inForce: [['2020-01-01']] },
+    'K': { name: 'Pharmaceutical Agreement', countries: 'ANY', inForce: [['1995-01-01']] },
+    'KR': { name: 'Korea FTA', countries: ['KR'], inForce: [['2012-03-15']] },
+    'L': { name: 'Dyes Agreement', countries: 'ANY', inForce: [['1995-01-01']] },
+    'MA': { name: 'Morocco FTA', countries: ['MA'], inForce: [['2006-01-01']] },
+    'MX': { name: 'NAFTA', countries: ['MX'], inForce: [['1994-01-01', '2020-06-30']] },
+    'OM': { name: 'Oman FTA', countries: ['OM'], inForce: [['2009-01-01']] },
+    'P': { name: 'CAFTA-DR', countries: ['CR', 'DO', 'GT', 'HN', 'NI', 'SV'], inForce: [['2006-03-01']] },
+    'PA': { name: 'Panama TPA', countries: ['PA'], inForce: [['2012-10-31']] },
+    'PE': { name: 'Peru TPA', countries: ['PE'], inForce: [['2009-02-01']] },
+    'R': { name: 'CBTPA', countries: ['BB', 'BZ', 'CW', 'GY', 'HT', 'JM', 'LC', 'TT'], inForce: [['2000-10-01', '2025-09-30']] },
+    'S': { name: 'USMCA', countries: ['CA', 'MX'], inForce: [['2020-07-01']] },
+    'SG': { name: 'Singapore FTA', countries: ['SG'], inForce: [['2004-01-01']] }
   };
 
+  // 19 CFR 24.23, adjusted by CBP every October 1 (fiscal year 2025 amounts)
   private static readonly MPF_RATES = {
-    informal: 2.0, // Min $2, Max $10 for informal entries
-    formal: 0.003464, // 0.3464% for formal entries, Min $27.23, Max $528.33
+    informal: 2.62, // Automated informal entry not prepared by CBP
+    formal: 0.003464, // 0.3464% for formal entries
+    formalMinimum: 32.71,
+    formalMaximum: 634.62
   };
 
   private static readonly HMF_RATE = 0.00125; // 0.125% Harbor Maintenance Fee
 
   /**
-   * Calculate estimated tariff for a product
+   * Calculate estimated tariff for a product. With asOf the rates come from the schedule in
+   * force on that date (e.g. the entry date), so past entries can be recalculated for audits.
+   * Specific and compound rates (e.g. "2.4¢/kg + 5%") need the net weight or the quantity.
+   * Other currencies convert at the CBP certified rate for the date of exportation, which
+   * defaults to the entry date or today.
    */
   static async calculateTariff(
     hsCode: string,
     productValue: number,
     currency: string = 'USD',
     originCountry: string = 'CN',
-    htsEntry?: HTSEntry
+    htsEntry?: HTSEntry,
+    asOf?: HTSRevisionTarget,
+    quantities: DutyQuantities = {},
+    exportDate?: string
   ): Promise<TariffCalculation> {
     
-    // Convert to USD if needed (simplified - in production use real exchange rates)
-    const valueInUSD = currency === 'USD' ? productValue : productValue * 0.85; // Simplified conversion
+    // Convert to USD at the certified rate for the date of exportation
+    const conversion = await ExchangeRateService.convertToUSD(
+      productValue,
+      currency,
+      exportDate || asOf?.asOfDate || new Date().toISOString().slice(0, 10)
+    );
+    const valueInUSD = conversion.valueInUSD;
 
-    // Get tariff rates
-    const rates = htsEntry?.tariffInfo || await this.getTariffRates(hsCode);
-    
-    // Determine applicable rate based on country of origin
-    const appliedRateInfo = this.determineApplicableRate(originCountry, rates);
+    // Get tariff rates from the schedule in force, falling back to estimates only for today's lookups
+    let entry = htsEntry;
+    if (!entry) {
+      const validation = await HTSLookupService.validateHTSCode(hsCode, asOf);
+      entry = validation.valid ? validation.entry : undefined;
+
+      if (!entry && (asOf?.asOfDate || asOf?.revision)) {
+        const schedule = asOf.revision || `the HTS in force on ${asOf.asOfDate}`;
+        throw new Error(`${hsCode} was not found in ${schedule}${validation.suggestions?.length ? `: ${validation.suggestions[0]}` : ''}`);
+      }
+    }
+    const rates = entry?.tariffInfo || await this.getTariffRates(hsCode);
     
+    // Preferences and Chapter 99 duties follow the entry date (or the requested revision's date)
+    const dutyDate = asOf?.asOfDate || (asOf?.revision ? entry?.effectiveDate : undefined);
+
+    // Determine applicable rate based on country of origin and the line's special program indicators
+    const appliedRateInfo = this.determineApplicableRate(
+      originCountry,
+      rates,
+      valueInUSD,
+      quantities,
+      dutyDate || new Date().toISOString().slice(0, 10)
+    );
+
     // Calculate duties
-    const generalDuty = this.calculateDuty(valueInUSD, rates.generalRate);
-    const specialDuty = this.calculateDuty(valueInUSD, rates.specialRate);
-    const column2Duty = this.calculateDuty(valueInUSD, rates.column2Rate);
+    const generalDuty = this.calculateDuty(valueInUSD, rates.generalRate, quantities);
+    const specialDuty = this.calculateDuty(valueInUSD, rates.specialRate, quantities);
+    const column2Duty = this.calculateDuty(valueInUSD, rates.column2Rate, quantities);
     
-    const appliedDuty = this.calculateDuty(valueInUSD, appliedRateInfo.rate);
+    const appliedRate = parseDutyRate(appliedRateInfo.rate);
+    const applied = computeDuty(appliedRate, valueInUSD, quantities);
+    const appliedDuty = applied.amount;
 
-    // Calculate additional fees
-    const mpf = this.calculateMPF(valueInUSD);
-    const hmf = this.calculateHMF(valueInUSD);
+    // Chapter 99 duties in force on that date stack on top
+    const additionalDuties = await this.getAdditionalDuties(hsCode, originCountry, valueInUSD, quantities, dutyDate);
+    const totalAdditionalDuties = additionalDuties.lines.reduce((sum, line) => sum + line.amount, 0);
+
+    // Duties and fees follow from the entry type the shipment qualifies for
+    const entryType = this.evaluateEntryTypes({
+      value: valueInUSD,
+      originCountries: [originCountry],
+      hsCodes: [hsCode],
+      duty: appliedDuty + totalAdditionalDuties,
+      date: dutyDate || new Date().toISOString().slice(0, 10),
+      modeOfTransport: 'OCEAN'
+    });
+    const chosen = entryType.options.find(option => option.type === entryType.type)!;
+    const mpf = chosen.merchandiseProcessingFee;
+    const hmf = chosen.harborMaintenanceFee;
 
     const totalAdditionalFees = mpf + hmf;
-    const totalEstimatedCost = valueInUSD + appliedDuty + totalAdditionalFees;
+    const totalEstimatedCost = valueInUSD + chosen.duty + totalAdditionalFees;
 
     return {
       hsCode,
-      productValue: valueInUSD,
-      currency: 'USD',
+      productValue,
+      currency: conversion.currency,
+      valueInUSD,
+      exchangeRate: conversion.currency === 'USD' ? undefined : conversion,
       estimatedDuty: {
         general: generalDuty,
         special: specialDuty,
@@ -105,26 +355,222 @@ export class TariffCalculatorService {
       breakdown: {
         productValue: valueInUSD,
         customsDuty: appliedDuty,
+        additionalDuties: additionalDuties.lines,
         additionalFees: totalAdditionalFees,
         total: totalEstimatedCost
       },
       disclaimers: [
         'Estimates are for informational purposes only',
+        ...(chosen.dutyFree ? [DUTY_FREE_DISCLAIMER] : []),
         'Actual duties may vary based on specific circumstances',
         'Additional fees and taxes may apply',
         'Consult with a customs broker for accurate calculations',
-        'Exchange rates used are approximate'
+        ...(conversion.currency === 'USD' ? [] : [
+          `${conversion.currency} converted at the CBP certified ${conversion.rateType.toLowerCase()} rate of ${conversion.rate} per USD for exports on ${conversion.exportDate}`
+        ]),
+        ...(entry?.revision ? [] : ['Rates are chapter-level estimates; the code was not found in the loaded HTS schedule']),
+        ...appliedRateInfo.notes,
+        ...applied.missingUnits.map(unit => isWeightUnit(unit)
+          ? `The ${appliedRateInfo.rate} rate includes a duty per ${unit}; enter the net weight to include it`
+          : `The ${appliedRateInfo.rate} rate includes a duty per ${unit}; enter the quantity in ${unit} (or a convertible unit) to include it`),
+        ...applied.uninterpreted.map(part => `"${part}" in the applied rate could not be interpreted and is not included`),
+        ...additionalDuties.disclaimers
       ],
       calculations: {
         generalRate: rates.generalRate,
         specialRate: rates.specialRate,
         column2Rate: rates.column2Rate,
         appliedRate: appliedRateInfo.rate,
+        appliedRateForm: appliedRate.form,
         tradeProgram: appliedRateInfo.program
+      },
+      quantities,
+      entryType,
+      htsRevision: entry?.revision,
+      revisionEffectiveDate: entry?.effectiveDate,
+      asOfDate: asOf?.asOfDate
+    };
+  }
+
+  /**
+   * Calculate duties, fees and landed cost for a multi-line entry. MPF is assessed once on the
+   * entry's total value, within its minimum and maximum, and HMF on the total of an ocean
+   * shipment; both are prorated to the lines by dutiable value. Freight and insurance are
+   * allocated by invoice value: deducted from CIF values to reach the dutiable value, and added
+   * to FOB values for the landed cost.
+   */
+  static async calculateEntry(lines: EntryLineInput[], options: EntryOptions = {}): Promise<EntryCalculation> {
+    if (lines.length === 0) {
+      throw new Error('An entry needs at least one line');
+    }
+
+    const {
+      currency = 'USD',
+      valuationBasis = 'FOB',
+      freight = 0,
+      insurance = 0,
+      modeOfTransport = 'OCEAN',
+      asOf
+    } = options;
+
+    // One certified rate converts every amount on the entry
+    const conversion = await ExchangeRateService.convertToUSD(
+      lines.reduce((sum, line) => sum + line.value, 0),
+      currency,
+      options.exportDate || asOf?.asOfDate || new Date().toISOString().slice(0, 10)
+    );
+    const toUSD = (amount: number) => Math.round((amount / conversion.rate) * 100) / 100;
+
+    const invoiceValues = lines.map(line => toUSD(line.value));
+    const invoiceTotal = invoiceValues.reduce((sum, value) => sum + value, 0);
+    const freightUSD = toUSD(freight);
+    const insuranceUSD = toUSD(insurance);
+
+    const allocated = invoiceValues.map((invoiceValue, index) => {
+      const share = invoiceTotal > 0 ? invoiceValue / invoiceTotal : 1 / lines.length;
+      const lineFreight = freightUSD * share;
+      const lineInsurance = insuranceUSD * share;
+      const dutiableValue = valuationBasis === 'CIF' ? invoiceValue - lineFreight - lineInsurance : invoiceValue;
+
+      if (dutiableValue < 0) {
+        throw new Error(`Line ${index + 1}: freight and insurance exceed the CIF value`);
       }
+
+      return { invoiceValue, freight: lineFreight, insurance: lineInsurance, dutiableValue };
+    });
+
+    // Duties per line; each line's own fees are replaced by its share of the entry's
+    const tariffs = await Promise.all(lines.map((line, index) => this.calculateTariff(
+      line.hsCode,
+      allocated[index].dutiableValue,
+      'USD',
+      line.originCountry,
+      undefined,
+      asOf,
+      line.quantities || {}
+    )));
+
+    const date = asOf?.asOfDate || new Date().toISOString().slice(0, 10);
+    const lineDuties = tariffs.map(tariff => tariff.breakdown.customsDuty
+      + tariff.breakdown.additionalDuties.reduce((sum, duty) => sum + duty.amount, 0));
+
+    // The entry type, and so MPF and HMF, is decided once for the consolidated shipment
+    const dutiableTotal = allocated.reduce((sum, line) => sum + line.dutiableValue, 0);
+    const entryType = this.evaluateEntryTypes({
+      value: dutiableTotal,
+      originCountries: [...new Set(lines.map(line => line.originCountry))],
+      hsCodes: lines.map(line => line.hsCode),
+      duty: lineDuties.reduce((sum, duty) => sum + duty, 0),
+      date,
+      modeOfTransport,
+      adCvd: lines.some(line => line.adCvd)
+    });
+    const chosen = entryType.options.find(option => option.type === entryType.type)!;
+    const mpf = chosen.merchandiseProcessingFee;
+    const hmf = chosen.harborMaintenanceFee;
+
+    // Shipped instead as one parcel per line, each parcel takes its own entry type
+    const parcelTypes = lines.map((line, index) => {
+      const decision = this.evaluateEntryTypes({
+        value: allocated[index].dutiableValue,
+        originCountries: [line.originCountry],
+        hsCodes: [line.hsCode],
+        duty: lineDuties[index],
+        date,
+        modeOfTransport,
+        adCvd: line.adCvd
+      });
+      return decision.options.find(option => option.type === decision.type)!;
+    });
+
+    const entryLines = lines.map((line, index): EntryLineCalculation => {
+      const tariff = tariffs[index];
+      const values = allocated[index];
+      const feeShare = dutiableTotal > 0 ? values.dutiableValue / dutiableTotal : 1 / lines.length;
+      const customsDuty = chosen.dutyFree ? 0 : tariff.breakdown.customsDuty;
+      const additionalDuties = chosen.dutyFree
+        ? tariff.breakdown.additionalDuties.map(duty => ({ ...duty, amount: 0 }))
+        : tariff.breakdown.additionalDuties;
+      const landedCost = values.dutiableValue + values.freight + values.insurance
+        + (chosen.dutyFree ? 0 : lineDuties[index]) + mpf * feeShare + hmf * feeShare;
+      const quantity = line.quantities?.quantity;
+
+      return {
+        lineNumber: index + 1,
+        hsCode: line.hsCode,
+        description: line.description,
+        originCountry: line.originCountry,
+        ...values,
+        appliedRate: tariff.calculations.appliedRate,
+        tradeProgram: tariff.calculations.tradeProgram,
+        customsDuty,
+        additionalDuties,
+        merchandiseProcessingFee: mpf * feeShare,
+        harborMaintenanceFee: hmf * feeShare,
+        landedCost,
+        quantities: line.quantities,
+        landedCostPerUnit: quantity ? landedCost / quantity : undefined,
+        htsRevision: tariff.htsRevision
+      };
+    });
+
+    const total = (pick: (line: EntryLineCalculation) => number) => entryLines.reduce((sum, line) => sum + pick(line), 0);
+
+    return {
+      currency: conversion.currency,
+      exchangeRate: conversion.currency === 'USD' ? undefined : conversion,
+      valuationBasis,
+      modeOfTransport,
+      entryType,
+      parcels: {
+        entryTypes: parcelTypes.reduce<Partial<Record<EntryType, number>>>(
+          (counts, parcel) => ({ ...counts, [parcel.type]: (counts[parcel.type] || 0) + 1 }),
+          {}
+        ),
+        duty: parcelTypes.reduce((sum, parcel) => sum + parcel.duty, 0),
+        fees: parcelTypes.reduce((sum, parcel) => sum + parcel.merchandiseProcessingFee + parcel.harborMaintenanceFee, 0),
+        totalCost: parcelTypes.reduce((sum, parcel) => sum + parcel.totalCost, 0)
+      },
+      lines: entryLines,
+      totals: {
+        invoiceValue: invoiceTotal,
+        dutiableValue: dutiableTotal,
+        freight: freightUSD,
+        insurance: insuranceUSD,
+        customsDuty: total(line => line.customsDuty),
+        additionalDuties: total(line => line.additionalDuties.reduce((sum, duty) => sum + duty.amount, 0)),
+        merchandiseProcessingFee: mpf,
+        harborMaintenanceFee: hmf,
+        landedCost: total(line => line.landedCost)
+      },
+      disclaimers: [
+        // Each line's own entry type does not apply; the entry's does
+        ...new Set(tariffs.flatMap(tariff => tariff.disclaimers).filter(disclaimer => disclaimer !== DUTY_FREE_DISCLAIMER)),
+        'MPF and HMF are assessed on the entry total and prorated to the lines by dutiable value',
+        ...(freight || insurance ? ['Freight and insurance are allocated to the lines by invoice value'] : []),
+        ...(conversion.currency === 'USD' ? [] : [
+          `${conversion.currency} converted at the CBP certified ${conversion.rateType.toLowerCase()} rate of ${conversion.rate} per USD for exports on ${conversion.exportDate}`
+        ])
+      ]
     };
   }
 
+  /**
+   * Whether any Chapter 99 list has been loaded; without one, results carry no Section 301 or 232 duties
+   */
+  static async hasAdditionalDutyData(): Promise<boolean> {
+    const { count, error } = await supabase
+      .from('hts_additional_duties')
+      .select('heading', { count: 'exact', head: true });
+
+    if (error) {
+      console.error('Error checking Chapter 99 additional duties:', error);
+      return false;
+    }
+
+    return (count ?? 0) > 0;
+  }
+
   /**
    * Get tariff rates for an HTS code
    */
@@ -136,105 +582,276 @@ export class TariffCalculatorService {
     // Simplified tariff lookup - in production, use official USITC API
     const chapter = hsCode.substring(0, 2);
     
+    // Typical special programs for the chapter; apparel is not GSP-eligible
+    const ftaPrograms = 'AU,BH,CL,CO,IL,JO,KR,MA,OM,P,PA,PE,S,SG';
     const defaultRates: Record<string, any> = {
-      '39': { generalRate: '5.3%', specialRate: 'Free', column2Rate: '80%' },
-      '61': { generalRate: '16.5%', specialRate: 'Free', column2Rate: '90%' },
-      '84': { generalRate: '2.5%', specialRate: 'Free', column2Rate: '35%' },
-      '82': { generalRate: '3.7%', specialRate: 'Free', column2Rate: '110%' },
-      '73': { generalRate: 'Free', specialRate: 'Free', column2Rate: '74%' }
+      '39': { generalRate: '5.3%', specialRate: `Free (A,${ftaPrograms})`, column2Rate: '80%' },
+      '61': { generalRate: '16.5%', specialRate: `Free (${ftaPrograms})`, column2Rate: '90%' },
+      '84': { generalRate: '2.5%', specialRate: `Free (A,${ftaPrograms})`, column2Rate: '35%' },
+      '82': { generalRate: '3.7%', specialRate: `Free (A,${ftaPrograms})`, column2Rate: '110%' },
+      '73': { generalRate: 'Free', specialRate: '', column2Rate: '74%' }
     };
 
     return defaultRates[chapter] || { 
       generalRate: 'Free', 
-      specialRate: 'Free', 
+      specialRate: '', 
       column2Rate: '60%' 
     };
   }
 
   /**
-   * Determine which tariff rate applies based on country of origin
+   * Chapter 99 provisions (Section 301, 232, ...) covering the code for this origin and date.
+   * A duty with an exclusion in force stays in the breakdown at zero, showing the exclusion's expiry.
    */
-  private static determineApplicableRate(
-    originCountry: string, 
-    rates: { generalRate: string; specialRate: string; column2Rate: string }
-  ): { rate: string; program?: string } {
-    
-    // Check if country qualifies for special rates
-    for (const [program, countries] of Object.entries(this.TRADE_PROGRAMS)) {
-      if (countries.includes(originCountry)) {
-        return { 
-          rate: rates.specialRate, 
-          program 
-        };
-      }
-    }
+  private static async getAdditionalDuties(
+    hsCode: string,
+    originCountry: string,
+    value: number,
+    quantities: DutyQuantities,
+    asOfDate?: string
+  ): Promise<{ lines: AdditionalDutyLine[]; disclaimers: string[] }> {
+    const { data, error } = await supabase.rpc('get_additional_duties', {
+      target_code: hsCode,
+      origin_country: originCountry,
+      ...(asOfDate ? { as_of: asOfDate } : {})
+    });
 
-    // Check for Column 2 countries (non-MFN)
-    const column2Countries = ['KP', 'CU']; // North Korea, Cuba
-    if (column2Countries.includes(originCountry)) {
-      return { 
-        rate: rates.column2Rate, 
-        program: 'Column 2' 
+    if (error) {
+      console.error('Error loading Chapter 99 additional duties:', error);
+      return {
+        lines: [],
+        disclaimers: ['Chapter 99 additional duties (Section 301, 232, ...) could not be loaded and are not included']
       };
     }
 
-    // Default to general (MFN) rate
-    return { 
-      rate: rates.generalRate, 
-      program: 'MFN' 
-    };
+    const provisions = data || [];
+    const exclusions = provisions.filter(provision => provision.provision_type === 'EXCLUSION');
+
+    const lines = provisions
+      .filter(provision => provision.provision_type === 'DUTY' && provision.rate)
+      .map((duty): AdditionalDutyLine => {
+        const exclusion = exclusions.find(candidate => candidate.excludes_heading === duty.heading);
+        return {
+          heading: duty.heading,
+          program: duty.program as AdditionalDutyProgram,
+          description: duty.description,
+          rate: duty.rate!,
+          amount: exclusion ? 0 : this.calculateDuty(value, duty.rate!, quantities),
+          effectiveFrom: duty.effective_from,
+          effectiveTo: duty.effective_to ?? undefined,
+          exclusion: exclusion && {
+            heading: exclusion.heading,
+            description: exclusion.description,
+            expiresOn: exclusion.effective_to ?? undefined
+          }
+        };
+      });
+
+    const disclaimers = lines
+      .filter(line => line.exclusion?.expiresOn)
+      .map(line => `Exclusion ${line.exclusion!.heading} expires on ${line.exclusion!.expiresOn}; the ${line.rate} ${line.heading} duty applies to entries after that date`);
+
+    return { lines, disclaimers };
   }
 
   /**
-   * Calculate duty amount from rate string
+   * Determine which tariff rate applies based on country of origin. A special rate applies only
+   * when the line lists an SPI whose program covers the origin and was in force on the date;
+   * among several, the one with the lowest duty is claimed.
    */
-  private static calculateDuty(value: number, rateString: string): number {
-    if (rateString.toLowerCase() === 'free' || rateString === '0%') {
-      return 0;
+  private static determineApplicableRate(
+    originCountry: string,
+    rates: { generalRate: string; specialRate: string; column2Rate: string },
+    value: number,
+    quantities: DutyQuantities,
+    asOfDate: string
+  ): { rate: string; program?: string; notes: string[] } {
+    const origin = originCountry.toUpperCase();
+
+    // Column 2 countries (non-MFN) get no preferences
+    if (COLUMN2_COUNTRIES.includes(origin)) {
+      return {
+        rate: rates.column2Rate,
+        program: 'Column 2',
+        notes: []
+      };
     }
 
-    // Handle percentage rates
-    if (rateString.includes('%')) {
-      const percentage = parseFloat(rateString.replace('%', ''));
-      return (value * percentage) / 100;
+    const notes: string[] = [];
+    const eligible: Array<{ rate: string; program: string; duty: number }> = [];
+    const specialRates = parseSpecialRates(rates.specialRate);
+
+    for (const { rate, programs } of specialRates) {
+      for (const spi of programs) {
+        const program = this.SPECIAL_PROGRAMS[spi.replace(/[*+]$/, '')];
+        const countries = spi === 'A+' ? GSP_LEAST_DEVELOPED : program?.countries;
+        if (!program || (countries !== 'ANY' && !countries.includes(origin))) {
+          continue;
+        }
+
+        if (!this.isProgramInForce(program, asOfDate)) {
+          notes.push(`${program.name} (${spi}) covers this line but was not in force on ${asOfDate}; it was not applied`);
+        } else if (spi.endsWith('*')) {
+          // General Note 4(d) and its counterparts list the excluded beneficiaries line by line
+          notes.push(`${program.name} (${spi}) excludes some beneficiary countries on this line; confirm ${origin} is not excluded before claiming ${rate}`);
+        } else {
+          // A preference whose duty can't be computed in full would look cheaper than it is
+          const duty = computeDuty(parseDutyRate(rate), value, quantities);
+          if (duty.uninterpreted.length > 0) {
+            notes.push(`${program.name} (${spi}) rate "${rate}" could not be interpreted; it was not compared with the general rate`);
+          } else if (duty.missingUnits.length > 0) {
+            notes.push(`${program.name} (${spi}) rate ${rate} needs the quantity in ${duty.missingUnits.join(', ')}; enter it to compare with the general rate`);
+          } else {
+            eligible.push({ rate, program: `${program.name} (${spi})`, duty: duty.amount });
+          }
+        }
+      }
     }
 
-    // Handle specific rates (e.g., "$0.52/kg")
-    if (rateString.includes('$')) {
-      // For specific rates, we'd need weight/quantity data
-      // Return estimated duty for now
-      return value * 0.05; // 5% estimate
+    // A preference is only worth claiming if it is lower than the general rate
+    const general = { rate: rates.generalRate, program: 'MFN', duty: this.calculateDuty(value, rates.generalRate, quantities) };
+    const best = eligible.reduce((lowest, candidate) => candidate.duty < lowest.duty ? candidate : lowest, general);
+
+    if (eligible.length === 0) {
+      const listed = new Set(specialRates.flatMap(group => group.programs.map(spi => spi.replace(/[*+]$/, ''))));
+      const unlisted = Object.entries(this.SPECIAL_PROGRAMS)
+        .filter(([code, program]) => Array.isArray(program.countries) && program.countries.includes(origin)
+          && !listed.has(code) && this.isProgramInForce(program, asOfDate))
+        .map(([code, program]) => `${program.name} (${code})`);
+      if (unlisted.length) {
+        notes.push(`This line has no special rate under ${[...new Set(unlisted)].join(', ')}; the general rate applies`);
+      }
     }
 
-    // Handle ad valorem equivalent
-    if (rateString.includes('ad val')) {
-      const percentage = parseFloat(rateString.split('%')[0]);
-      return (value * percentage) / 100;
+    return { rate: best.rate, program: best.program, notes };
+  }
+
+  private static isProgramInForce(program: SpecialProgram, date: string): boolean {
+    return program.inForce.some(([from, to]) => from <= date && (!to || date <= to));
+  }
+
+  /**
+   * Calculate duty amount from rate string; specific parts without a matching quantity count as zero
+   */
+  private static calculateDuty(value: number, rateString: string, quantities: DutyQuantities = {}): number {
+    return computeDuty(parseDutyRate(rateString), value, quantities).amount;
+  }
+
+  /**
+   * Evaluate each entry type for a shipment and choose the cheapest one it qualifies for, the
+   * duty-free types first on a tie. Section 321 and Type 86 owe neither duties nor fees.
+   */
+  private static evaluateEntryTypes(shipment: {
+    value: number;
+    originCountries: string[];
+    hsCodes: string[];
+    duty: number;
+    date: string;
+    modeOfTransport: ModeOfTransport;
+    adCvd?: boolean;
+  }): EntryTypeDecision {
+    const { value, date } = shipment;
+    const origins = shipment.originCountries.map(country => country.toUpperCase());
+    const formattedValue = this.formatCurrency(value);
+
+    // Section 321 and Type 86 share their limits and exclusions
+    const deMinimisBlocks: string[] = [];
+    if (value > DE_MINIMIS_LIMIT) {
+      deMinimisBlocks.push(`The ${formattedValue} value exceeds the ${this.formatCurrency(DE_MINIMIS_LIMIT)} Section 321 limit per person per day`);
+    }
+    for (const suspension of DE_MINIMIS_SUSPENSIONS) {
+      const affected = suspension.countries === 'ANY' ? origins : origins.filter(origin => suspension.countries.includes(origin));
+      if (date >= suspension.from && affected.length) {
+        const scope = suspension.countries === 'ANY' ? 'all origins' : `goods from ${affected.join(', ')}`;
+        deMinimisBlocks.push(`De minimis treatment is suspended for ${scope} since ${suspension.from} (${suspension.authority})`);
+      }
+    }
+    for (const code of shipment.hsCodes) {
+      const digits = code.replace(/\D/g, '');
+      const excluded = DE_MINIMIS_EXCLUDED_CODES.find(exclusion => digits.startsWith(exclusion.prefix));
+      if (excluded) {
+        deMinimisBlocks.push(`${excluded.goods} (${code}) cannot be released under Section 321`);
+      }
+    }
+    if (shipment.adCvd) {
+      deMinimisBlocks.push('Goods subject to antidumping or countervailing duties do not qualify for Section 321');
     }
 
-    return 0;
+    const informalBlocks: string[] = [];
+    if (value > INFORMAL_ENTRY_LIMIT) {
+      informalBlocks.push(`The ${formattedValue} value exceeds the ${this.formatCurrency(INFORMAL_ENTRY_LIMIT)} informal entry limit`);
+    }
+    if (shipment.adCvd) {
+      informalBlocks.push('Goods subject to antidumping or countervailing duties need a formal entry');
+    }
+
+    const option = (type: EntryType, blocks: string[], eligibleReason: string): EntryTypeOption => {
+      const dutyFree = type === 'DE_MINIMIS' || type === 'TYPE_86';
+      const mpf = this.calculateMPF(type, value);
+      const hmf = this.calculateHMF(type, value, shipment.modeOfTransport);
+      const duty = dutyFree ? 0 : shipment.duty;
+      return {
+        type,
+        eligible: blocks.length === 0,
+        reasons: blocks.length ? blocks : [eligibleReason],
+        dutyFree,
+        duty,
+        merchandiseProcessingFee: mpf,
+        harborMaintenanceFee: hmf,
+        totalCost: duty + mpf + hmf
+      };
+    };
+
+    const options = [
+      option('DE_MINIMIS', deMinimisBlocks,
+        `The ${formattedValue} value is within the Section 321 limit; released on the manifest free of duty and fees`),
+      option('TYPE_86', deMinimisBlocks,
+        'Section 321 filed electronically in ACE, which also accepts goods regulated by partner government agencies (FDA, USDA, ...)'),
+      option('INFORMAL', informalBlocks,
+        `The ${formattedValue} value is within the informal entry limit; duty plus the flat informal MPF, no customs bond needed`),
+      option('FORMAL', [],
+        value > INFORMAL_ENTRY_LIMIT
+          ? 'Required above the informal entry limit; needs a customs bond, with MPF on value and HMF for ocean freight'
+          : 'Always available; needs a customs bond, with MPF on value and HMF for ocean freight')
+    ];
+
+    const chosen = options
+      .filter(candidate => candidate.eligible)
+      .reduce((best, candidate) => candidate.totalCost < best.totalCost ? candidate : best);
+
+    // Explain the choice, including why each type ahead of it was not used
+    const passedOver = options
+      .slice(0, ENTRY_TYPE_ORDER.indexOf(chosen.type))
+      .filter(candidate => !candidate.eligible)
+      .flatMap(candidate => candidate.reasons);
+
+    return {
+      type: chosen.type,
+      reasons: [...new Set([...chosen.reasons, ...passedOver])],
+      options
+    };
   }
 
   /**
-   * Calculate Merchandise Processing Fee
+   * Merchandise Processing Fee for an entry: none for Section 321 and Type 86, a flat fee for
+   * informal entries, and ad valorem within the minimum and maximum for formal entries
    */
-  private static calculateMPF(value: number): number {
-    if (value <= 2500) {
-      // Informal entries
-      return Math.max(2, Math.min(10, this.MPF_RATES.informal));
-    } else {
-      // Formal entries
-      const fee = value * this.MPF_RATES.formal;
-      return Math.max(27.23, Math.min(528.33, fee));
+  private static calculateMPF(entryType: EntryType, value: number): number {
+    switch (entryType) {
+      case 'INFORMAL':
+        return this.MPF_RATES.informal;
+      case 'FORMAL':
+        return Math.max(this.MPF_RATES.formalMinimum, Math.min(this.MPF_RATES.formalMaximum, value * this.MPF_RATES.formal));
+      default:
+        return 0;
     }
   }
 
   /**
-   * Calculate Harbor Maintenance Fee
+   * Harbor Maintenance Fee, charged with formal entries of ocean freight
    */
-  private static calculateHMF(value: number): number {
-    // HMF applies to commercial shipments over $2,500
-    if (value > 2500) {
+  private static calculateHMF(entryType: EntryType, value: number, modeOfTransport: ModeOfTransport): number {
+    if (entryType === 'FORMAL' && modeOfTransport === 'OCEAN') {
       return value * this.HMF_RATE;
     }
     return 0;
@@ -252,8 +869,8 @@ export class TariffCalculatorService {
       { code: 'SG', name: 'Singapore', tradeProgram: 'FTA', preferentialRate: true },
       { code: 'AU', name: 'Australia', tradeProgram: 'FTA', preferentialRate: true },
       { code: 'CL', name: 'Chile', tradeProgram: 'FTA', preferentialRate: true },
-      { code: 'IN', name: 'India', tradeProgram: 'GSP', preferentialRate: true },
-      { code: 'TH', name: 'Thailand', tradeProgram: 'GSP', preferentialRate: true },
+      { code: 'IN', name: 'India' }, // Removed from GSP in 2019
+      { code: 'TH', name: 'Thailand', tradeProgram: 'GSP (lapsed)' },
       { code: 'VN', name: 'Vietnam' },
       { code: 'JP', name: 'Japan' },
       { code: 'DE', name: 'Germany' },
@@ -4,6 +4,7 @@ export interface ProductData {
   description: string;
   category: string;
   categoryId?: string;
+  productId?: string; // Our SKU; checked against the approved classification library first
   materials: string;
   image: File | null;
 }
@@ -25,12 +26,14 @@ export interface HSCodePrediction {
   code: string;
   description: string;
   confidence: number;
+  rawConfidence?: number; // Score before calibration against feedback
+
   category: string;
   categoryId?: string;
   tariffRate?: string;
   sourceDocument?: {
     name: string;
-    type: 'PDF' | 'USITC_DATABASE' | 'LOCAL_DATABASE' | 'AI_SEMANTIC' | 'HTS_CATALOG';
+    type: 'PDF' | 'USITC_DATABASE' | 'LOCAL_DATABASE' | 'AI_SEMANTIC' | 'HTS_CATALOG' | 'PREVIOUSLY_APPROVED';
     version?: string;
     chapter?: string;
     url?: string;
@@ -50,5 +53,6 @@ export interface AnalysisResults {
   analysisDetails: {
     processingTime: number;
     factors: string[];
+    modelVersion?: string;
   };
 }
\ No newline at end of file
@@ -0,0 +1,242 @@
+// Parser for HTS rate of duty expressions: "Free", "6.5%", "2.4¢/kg + 5%", "$1.35/doz. + 3.6%",
+// "90¢/doz. prs.", "5% or 2¢/kg, whichever is greater", "25%, but not less than $1/kg"
+
+// Units of quantity used in specific rates, as written in the HTS
+export type DutyUnit =
+  | 'kg' | 'g' | 't'
+  | 'No.' | 'doz.' | 'gross' | 'thousand'
+  | 'pr.' | 'doz. pr.'
+  | 'liter' | 'pf. liter'
+  | 'm' | 'm2' | 'm3'
+  | 'head';
+
+export type DutyRateComponent =
+  | { type: 'AD_VALOREM'; percent: number }
+  | { type: 'SPECIFIC'; amount: number; unit: DutyUnit; per: number } // amount in USD for each `per` units
+  | { type: 'UNKNOWN'; text: string };
+
+export interface DutyRate {
+  text: string;
+  form: 'FREE' | 'AD_VALOREM' | 'SPECIFIC' | 'COMPOUND' | 'ALTERNATIVE' | 'UNKNOWN';
+  components: DutyRateComponent[]; // Summed; empty for FREE and ALTERNATIVE
+  // "whichever is greater" and "but not less than" pick the greater alternative; "not more than" the lesser
+  alternatives?: { rates: DutyRate[]; choose: 'GREATER' | 'LESSER' };
+}
+
+export interface DutyQuantities {
+  netWeightKg?: number;
+  quantity?: number;
+  unitOfMeasure?: DutyUnit;
+}
+
+export interface DutyComputation {
+  amount: number;
+  missingUnits: DutyUnit[]; // Specific components left out because no quantity in a compatible unit was given
+  uninterpreted: string[]; // Parts of the rate that could not be parsed
+}
+
+// Units that convert into each other, with the size of each unit in its group's base unit
+const UNIT_GROUPS: Record<DutyUnit, { group: string; size: number }> = {
+  'kg': { group: 'mass', size: 1 },
+  'g': { group: 'mass', size: 0.001 },
+  't': { group: 'mass', size: 1000 },
+  'No.': { group: 'count', size: 1 },
+  'doz.': { group: 'count', size: 12 },
+  'gross': { group: 'count', size: 144 },
+  'thousand': { group: 'count', size: 1000 },
+  'pr.': { group: 'pairs', size: 1 },
+  'doz. pr.': { group: 'pairs', size: 12 },
+  'liter': { group: 'volume', size: 1 },
+  'pf. liter': { group: 'proof', size: 1 },
+  'm': { group: 'length', size: 1 },
+  'm2': { group: 'area', size: 1 },
+  'm3': { group: 'cubic', size: 1 },
+  'head': { group: 'head', size: 1 }
+};
+
+// Checked in order, so longer forms ("doz. prs.", "pf. liters", "m2") come before their prefixes
+const UNIT_PATTERNS: Array<[RegExp, DutyUnit]> = [
+  [/^(kg|kilograms?)\b/, 'kg'],
+  [/^(g|grams?)\b/, 'g'],
+  [/^(t|metric tons?|tons?)\b/, 't'],
+  [/^(doz\.?\s*(prs?|pairs?)\.?|dozen pairs)/, 'doz. pr.'],
+  [/^(doz\.?|dozens?)/, 'doz.'],
+  [/^(prs?\.?|pairs?)(?![a-z])/, 'pr.'],
+  [/^gross\b/, 'gross'],
+  [/^(pf\.?\s*lit(er|re)s?|proof lit(er|re)s?)/, 'pf. liter'],
+  [/^(lit(er|re)s?|l)\b/, 'liter'],
+  [/^(m2|m²|sq(uare)?\.? ?m(eters?)?)/, 'm2'],
+  [/^(m3|m³|cubic m(eters?)?)/, 'm3'],
+  [/^(m|meters?|linear meters?)\b/, 'm'],
+  [/^head\b/, 'head'],
+  [/^(thousand|1,?000)\b/, 'thousand'],
+  [/^(no\.?|each|items?|pieces?|pcs?\.?|units?)(?![a-z])/, 'No.']
+];
+
+export const DUTY_UNITS = Object.keys(UNIT_GROUPS) as DutyUnit[];
+
+// Mass units are computed from the net weight rather than the quantity
+export function isWeightUnit(unit: DutyUnit): boolean {
+  return UNIT_GROUPS[unit].group === 'mass';
+}
+
+export function parseDutyRate(text: string): DutyRate {
+  const raw = (text || '').trim();
+  // Program codes in parentheses belong to the special column, e.g. "Free (A+,AU,BH)"
+  const expression = raw.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (expression === '' || /^free\b/i.test(expression)) {
+    return { text: raw, form: 'FREE', components: [] };
+  }
+
+  const whichever = expression.match(/^(.+?),?\s+or\s+(.+?),?\s+whichever is (greater|higher|less|lower)\b/i);
+  if (whichever) {
+    return {
+      text: raw,
+      form: 'ALTERNATIVE',
+      components: [],
+      alternatives: {
+        rates: [parseDutyRate(whichever[1]), parseDutyRate(whichever[2])],
+        choose: /greater|higher/i.test(whichever[3]) ? 'GREATER' : 'LESSER'
+      }
+    };
+  }
+
+  const bound = expression.match(/^(.+?),?\s+but not (less|more) than\s+(.+)$/i);
+  if (bound) {
+    return {
+      text: raw,
+      form: 'ALTERNATIVE',
+      components: [],
+      alternatives: {
+        rates: [parseDutyRate(bound[1]), parseDutyRate(bound[3])],
+        choose: bound[2].toLowerCase() === 'less' ? 'GREATER' : 'LESSER'
+      }
+    };
+  }
+
+  // Only split on "+" between rate terms, not inside names such as "A+"
+  const components = expression.split(/\s+\+\s+|\s*\+\s*(?=[$\d])/).map(parseComponent);
+  const types = new Set(components.map(component => component.type));
+
+  let form: DutyRate['form'];
+  if (types.has('UNKNOWN')) {
+    form = 'UNKNOWN';
+  } else if (types.size === 2) {
+    form = 'COMPOUND';
+  } else if (types.has('SPECIFIC')) {
+    form = components.length > 1 ? 'COMPOUND' : 'SPECIFIC';
+  } else {
+    form = components.length > 1 ? 'COMPOUND' : 'AD_VALOREM';
+  }
+
+  return { text: raw, form, components };
+}
+
+// A rate in the special column with the special program indicators (SPI) it applies to
+export interface SpecialRate {
+  rate: string;
+  programs: string[]; // e.g. ['A+', 'AU', 'BH'], in the order published
+}
+
+/**
+ * Split a special column such as "Free (A+,AU,BH,CL) 3.6% (JP)" into its rates and program
+ * indicators. A rate without a parenthesized list names no program and is left out.
+ */
+export function parseSpecialRates(text: string): SpecialRate[] {
+  const groups: SpecialRate[] = [];
+
+  for (const match of (text || '').matchAll(/([^()]+?)\s*\(([^)]*)\)/g)) {
+    const rate = match[1].trim().replace(/^[,;]\s*/, '');
+    const programs = match[2].split(',').map(code => code.trim()).filter(Boolean);
+    if (rate && programs.length) {
+      groups.push({ rate, programs });
+    }
+  }
+
+  return groups;
+}
+
+function parseComponent(term: string): DutyRateComponent {
+  const value = term.trim();
+
+  const adValorem = value.match(/^(\d+(?:\.\d+)?)\s*%(?:\s*ad val(?:\.|orem)?)?(?:\s+on .*)?$/i);
+  if (adValorem) {
+    return { type: 'AD_VALOREM', percent: parseFloat(adValorem[1]) };
+  }
+
+  // "$1.35/doz.", "2.4¢/kg", "90 cents per doz. prs.", "51¢ each", "0.4¢/1,000 No." (per thousand)
+  const specific = value.match(/^(\$)?\s*(\d+(?:\.\d+)?)\s*(¢|cents?)?\s*(?:\/\s*|per\s+|(?=each\b))(.+)$/i);
+  if (specific) {
+    const [, dollarSign, number, cents, unitText] = specific;
+    const perMatch = unitText.match(/^(\d[\d,]*)\s+(.+)$/);
+    const per = perMatch ? parseFloat(perMatch[1].replace(/,/g, '')) : 1;
+    const unit = parseUnit(perMatch ? perMatch[2] : unitText);
+
+    // Sliding scales ("4.4¢/kg less 0.020668¢/kg for each degree under 100 degrees") need data we do not have
+    if (unit && (dollarSign || cents) && !/\bless\b/i.test(unitText)) {
+      return { type: 'SPECIFIC', amount: cents ? parseFloat(number) / 100 : parseFloat(number), unit, per };
+    }
+  }
+
+  return { type: 'UNKNOWN', text: value };
+}
+
+function parseUnit(text: string): DutyUnit | undefined {
+  const value = text.trim().toLowerCase();
+  return UNIT_PATTERNS.find(([pattern]) => pattern.test(value))?.[1];
+}
+
+/**
+ * Duty owed on a customs value and the declared quantities. Specific components need a net
+ * weight (for mass units) or a quantity in a unit convertible to theirs; without one they are
+ * left out and reported in missingUnits.
+ */
+export function computeDuty(rate: DutyRate, value: number, quantities: DutyQuantities = {}): DutyComputation {
+  if (rate.alternatives) {
+    const results = rate.alternatives.rates.map(alternative => computeDuty(alternative, value, quantities));
+    const amounts = results.map(result => result.amount);
+    return {
+      amount: rate.alternatives.choose === 'GREATER' ? Math.max(...amounts) : Math.min(...amounts),
+      missingUnits: [...new Set(results.flatMap(result => result.missingUnits))],
+      uninterpreted: results.flatMap(result => result.uninterpreted)
+    };
+  }
+
+  const result: DutyComputation = { amount: 0, missingUnits: [], uninterpreted: [] };
+
+  for (const component of rate.components) {
+    if (component.type === 'AD_VALOREM') {
+      result.amount += (value * component.percent) / 100;
+    } else if (component.type === 'SPECIFIC') {
+      const quantity = quantityIn(component.unit, quantities);
+      if (quantity === undefined) {
+        result.missingUnits.push(component.unit);
+      } else {
+        result.amount += (component.amount * quantity) / component.per;
+      }
+    } else {
+      result.uninterpreted.push(component.text);
+    }
+  }
+
+  return result;
+}
+
+// The declared quantity expressed in `unit`, if the inputs allow it
+function quantityIn(unit: DutyUnit, quantities: DutyQuantities): number | undefined {
+  const target = UNIT_GROUPS[unit];
+
+  if (target.group === 'mass' && quantities.netWeightKg !== undefined) {
+    return quantities.netWeightKg / target.size;
+  }
+
+  if (quantities.quantity !== undefined && quantities.unitOfMeasure) {
+    const declared = UNIT_GROUPS[quantities.unitOfMeasure];
+    if (declared.group === target.group) {
+      return (quantities.quantity * declared.size) / target.size;
+    }
+  }
+
+  return undefined;
+}
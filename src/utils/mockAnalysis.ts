@@ -5,6 +5,16 @@ import { ProductData, HSCodePrediction } from "../types/product";
 import { findMatchingHSCodes } from "../data/hsCodes";
 import { supabase } from "../integrations/supabase/client";
 import { HTSLookupService } from "../services/HTSLookupService";
+import { ConfidenceCalibrationService } from "../services/ConfidenceCalibrationService";
+import { ProductClassificationService } from "../services/ProductClassificationService";
+
+// Stored with saved predictions; bump it when the bonuses below change so calibration is refitted
+export const LOCAL_MODEL_VERSION = 'local-precision-v3';
+// Results served from the approved classification library, kept apart from the model's calibration
+export const PRODUCT_LIBRARY_VERSION = 'product-library';
+// The same review rules enhanced-prediction applies, so local results enter the review queue alike
+const REVIEW_CONFIDENCE_THRESHOLD = 70;
+const REVIEW_CANDIDATE_MARGIN = 15;
 
 
 // Enhanced semantic analysis using Gemini AI
@@ -46,6 +56,7 @@ export const analyzeProduct = async (productData: ProductData): Promise<{
   analysisDetails: {
     processingTime: number;
     factors: string[];
+    modelVersion: string;
   };
 }> => {
   const startTime = Date.now();
@@ -57,6 +68,35 @@ export const analyzeProduct = async (productData: ProductData): Promise<{
     description: productData.description?.substring(0, 100) + "..."
   });
 
+  // A SKU with a code approved in review keeps that code on every run
+  if (productData.productId) {
+    const approved = await ProductClassificationService.getApprovedClassification(productData.productId);
+    if (approved) {
+      return {
+        predictions: [{
+          code: approved.htsCode,
+          description: approved.description || '',
+          confidence: 100,
+          category: productData.category,
+          categoryId: productData.categoryId,
+          sourceDocument: {
+            name: approved.rationale ? `Previously approved: ${approved.rationale}` : 'Previously approved',
+            type: 'PREVIOUSLY_APPROVED',
+            version: approved.htsRevision || undefined,
+            lastUpdated: approved.approvedAt
+          },
+          isOfficiallyValidated: true,
+          officialSource: approved.approvedByEmail ? `Approved by ${approved.approvedByEmail}` : 'Previously approved'
+        }],
+        analysisDetails: {
+          processingTime: Date.now() - startTime,
+          factors: ["Previously approved classification for this product"],
+          modelVersion: PRODUCT_LIBRARY_VERSION
+        }
+      };
+    }
+  }
+
   const factors = [
     "Advanced keyword matching with material prioritization",
     "Precision scoring with product type identification",
@@ -179,6 +219,14 @@ export const analyzeProduct = async (productData: ProductData): Promise<{
     predictions = getFallbackPredictions(productData);
   }
 
+  // The bonuses above are hand-tuned; rescale them to the accuracy users have confirmed
+  const calibrationCurve = await ConfidenceCalibrationService.getCurve(LOCAL_MODEL_VERSION);
+  predictions = predictions.map(prediction => ({
+    ...prediction,
+    rawConfidence: prediction.confidence,
+    confidence: ConfidenceCalibrationService.calibrate(prediction.confidence, calibrationCurve)
+  }));
+
   const processingTime = Date.now() - startTime;
   console.log(`=== ANALYSIS COMPLETE in ${processingTime}ms ===`);
   console.log("Top prediction:", predictions[0] ? `${predictions[0].code} (${predictions[0].confidence}%)` : "None");
@@ -187,11 +235,32 @@ export const analyzeProduct = async (productData: ProductData): Promise<{
     predictions: predictions.slice(0, 5),
     analysisDetails: {
       processingTime,
-      factors
+      factors,
+      modelVersion: LOCAL_MODEL_VERSION
     }
   };
 };
 
+// Whether a local result needs human review: low confidence, or no clear winner between the top candidates
+export const determineHumanReview = (predictions: HSCodePrediction[]): { needsHumanReview: boolean; reviewReason?: string } => {
+  const reasons: string[] = [];
+
+  if (predictions.length === 0) {
+    reasons.push('No suitable HTS codes found');
+  } else if (predictions[0].confidence < REVIEW_CONFIDENCE_THRESHOLD) {
+    reasons.push('Low confidence prediction');
+  }
+
+  if (predictions.length > 1 && predictions[0].confidence - predictions[1].confidence < REVIEW_CANDIDATE_MARGIN) {
+    reasons.push('Multiple similar candidates');
+  }
+
+  return {
+    needsHumanReview: reasons.length > 0,
+    reviewReason: reasons.length > 0 ? `Basic fallback analysis: ${reasons.join('; ')}` : undefined
+  };
+};
+
 // Enhanced fallback predictions with intelligent category-based classification
 const getFallbackPredictions = (productData: ProductData): HSCodePrediction[] => {
   const title = productData.title?.toLowerCase() || '';
@@ -0,0 +1,139 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// A run of text items close enough together to read as one table cell
+export interface PDFTextCell {
+  x: number;
+  text: string;
+}
+
+export interface PDFTextLine {
+  y: number;
+  cells: PDFTextCell[];
+  text: string;
+}
+
+export interface PDFTextPage {
+  pageNumber: number;
+  lines: PDFTextLine[];
+  text: string;
+}
+
+export interface PDFTextExtraction {
+  pageCount: number;
+  pages: PDFTextPage[];
+  text: string;
+}
+
+// Gaps wider than this many average characters start a new cell (column)
+const CELL_GAP_CHARS = 1.5;
+
+/**
+ * Extract text from a PDF page by page, rebuilding lines from glyph positions.
+ * Cells are padded to their horizontal position so that table columns (e.g. the
+ * General / Special / Column 2 rates of the HTS) stay separated by two or more spaces.
+ */
+export async function extractPDFText(
+  data: ArrayBuffer,
+  onPageProgress?: (pageNumber: number, pageCount: number) => void
+): Promise<PDFTextExtraction> {
+  const pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: PDFTextPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter(isTextItem);
+      const charWidth = averageCharWidth(items);
+      const lines = buildLines(items, charWidth);
+
+      pages.push({ pageNumber, lines, text: renderLines(lines, charWidth) });
+
+      page.cleanup();
+      onPageProgress?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return {
+    pageCount: pages.length,
+    pages,
+    text: pages.map(page => page.text).join('\n\n')
+  };
+}
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item && item.str.trim().length > 0;
+}
+
+function averageCharWidth(items: TextItem[]): number {
+  const chars = items.reduce((sum, item) => sum + item.str.length, 0);
+  const width = items.reduce((sum, item) => sum + item.width, 0);
+  return chars > 0 && width > 0 ? width / chars : 5;
+}
+
+// Group items sharing a baseline into lines (top to bottom), then merge close items into cells
+function buildLines(items: TextItem[], charWidth: number): PDFTextLine[] {
+  const rows: { y: number; height: number; items: TextItem[] }[] = [];
+
+  const sorted = [...items].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+  for (const item of sorted) {
+    const y = item.transform[5];
+    const height = item.height || Math.abs(item.transform[3]) || 10;
+    const row = rows.find(r => Math.abs(r.y - y) <= Math.max(2, Math.min(r.height, height) / 2));
+
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y, height, items: [item] });
+    }
+  }
+
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map(row => {
+      const cells: PDFTextCell[] = [];
+      let cellEnd = -Infinity;
+
+      for (const item of row.items.sort((a, b) => a.transform[4] - b.transform[4])) {
+        const x = item.transform[4];
+        const gap = x - cellEnd;
+        const current = cells[cells.length - 1];
+
+        if (current && gap < charWidth * CELL_GAP_CHARS) {
+          // Glyph runs split mid-word have no gap; words within a cell have about one space
+          current.text += gap > charWidth * 0.2 && !current.text.endsWith(' ') ? ` ${item.str}` : item.str;
+        } else {
+          cells.push({ x, text: item.str });
+        }
+
+        cellEnd = Math.max(cellEnd, x + item.width);
+      }
+
+      cells.forEach(cell => { cell.text = cell.text.replace(/\s+/g, ' ').trim(); });
+
+      return {
+        y: row.y,
+        cells,
+        text: cells.map(cell => cell.text).join('  ')
+      };
+    });
+}
+
+// Lay cells out on a character grid so columns line up across lines
+function renderLines(lines: PDFTextLine[], charWidth: number): string {
+  const left = Math.min(...lines.flatMap(line => line.cells.map(cell => cell.x)));
+
+  return lines
+    .map(line => line.cells.reduce((text, cell) => {
+      const column = Math.round((cell.x - left) / charWidth);
+      const padding = text.length === 0 ? column : Math.max(2, column - text.length);
+      return text + ' '.repeat(padding) + cell.text;
+    }, ''))
+    .join('\n');
+}
@@ -0,0 +1,264 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+const PROGRAMS = ['SECTION_301', 'SECTION_232', 'SECTION_201', 'IEEPA', 'OTHER'];
+
+interface ImportRequest {
+  format?: 'json' | 'csv';
+  content?: string | ProvisionInput[];
+  sourceUrl?: string;
+}
+
+// One Chapter 99 provision for one covered code, as USTR and CBP publish the lists
+interface ProvisionInput {
+  heading: string;
+  program: string;
+  provision_type?: string;
+  excludes_heading?: string;
+  hts_code: string;
+  origin_countries?: string | string[];
+  exempt_countries?: string | string[];
+  rate?: string;
+  description: string;
+  effective_from: string;
+  effective_to?: string;
+  source_url?: string;
+}
+
+interface ProvisionRow {
+  heading: string;
+  program: string;
+  provision_type: 'DUTY' | 'EXCLUSION';
+  excludes_heading: string | null;
+  hts_code: string;
+  origin_countries: string[] | null;
+  exempt_countries: string[];
+  rate: string | null;
+  description: string;
+  effective_from: string;
+  effective_to: string | null;
+  source_url: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The lists are reference data for every user, so only the service role may load them
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || authHeader.split(' ')[1] !== supabaseServiceKey) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: loading Chapter 99 duties requires the service role key'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { format, content, sourceUrl }: ImportRequest = await req.json();
+
+    if (!content && !sourceUrl) {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid request: content or sourceUrl is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rawContent = content ?? await fetchList(sourceUrl!);
+    let rows: ProvisionRow[];
+    try {
+      rows = parseList(rawContent, format).map((provision, index) => toProvisionRow(provision, index, sourceUrl));
+    } catch (error) {
+      return new Response(JSON.stringify({ success: false, error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (rows.length === 0) {
+      throw new Error('The list did not contain any provisions');
+    }
+
+    const headings = [...new Set(rows.map(row => row.heading))];
+    console.log(`Loading ${rows.length} Chapter 99 provisions under ${headings.length} headings`);
+
+    // Each heading in the upload replaces that heading's rows in one transaction
+    const { data: loaded, error: loadError } = await supabase.rpc('replace_additional_duties', { provisions: rows });
+
+    if (loadError) {
+      console.error('Error loading Chapter 99 provisions:', loadError);
+      throw new Error('Failed to load Chapter 99 provisions');
+    }
+
+    const summary = {
+      provisions: loaded,
+      headings,
+      duties: rows.filter(row => row.provision_type === 'DUTY').length,
+      exclusions: rows.filter(row => row.provision_type === 'EXCLUSION').length
+    };
+
+    console.log('Chapter 99 import completed:', summary);
+
+    return new Response(JSON.stringify({ success: true, summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in Chapter 99 import:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message || 'Failed to import Chapter 99 provisions'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function fetchList(sourceUrl: string): Promise<string> {
+  const response = await fetch(sourceUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download the list (${response.status})`);
+  }
+  return await response.text();
+}
+
+function parseList(content: string | ProvisionInput[], format?: 'json' | 'csv'): ProvisionInput[] {
+  if (Array.isArray(content)) {
+    return content;
+  }
+
+  const trimmed = content.trim();
+  const isJson = format ? format === 'json' : trimmed.startsWith('[');
+
+  if (isJson) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON list must be an array of provisions');
+    }
+    return parsed;
+  }
+
+  // CSV with a header row naming the hts_additional_duties columns
+  const records = parseCSVRecords(trimmed);
+  if (records.length < 2) return [];
+
+  const headers = records[0].map(h => h.trim().toLowerCase());
+  return records.slice(1)
+    .filter(values => values.some(v => v.trim().length > 0))
+    .map(values => Object.fromEntries(headers.map((header, i) => [header, (values[i] || '').trim()])) as unknown as ProvisionInput);
+}
+
+function toProvisionRow(provision: ProvisionInput, index: number, sourceUrl?: string): ProvisionRow {
+  const line = `Row ${index + 1}`;
+  const provisionType = (provision.provision_type || 'DUTY').toUpperCase();
+  const program = (provision.program || '').toUpperCase();
+  const htsCode = (provision.hts_code || '').replace(/\D/g, '');
+
+  if (!/^9903\.\d{2}\.\d{2}$/.test(provision.heading || '')) {
+    throw new Error(`${line}: heading must be a Chapter 99 heading such as 9903.88.03`);
+  }
+  if (!PROGRAMS.includes(program)) {
+    throw new Error(`${line}: program must be one of ${PROGRAMS.join(', ')}`);
+  }
+  if (provisionType !== 'DUTY' && provisionType !== 'EXCLUSION') {
+    throw new Error(`${line}: provision_type must be DUTY or EXCLUSION`);
+  }
+  if (htsCode.length < 2) {
+    throw new Error(`${line}: hts_code is required`);
+  }
+  if (provisionType === 'DUTY' && !provision.rate) {
+    throw new Error(`${line}: a duty needs a rate`);
+  }
+  if (provisionType === 'EXCLUSION' && !provision.excludes_heading) {
+    throw new Error(`${line}: an exclusion needs excludes_heading`);
+  }
+  if (!provision.description) {
+    throw new Error(`${line}: description is required`);
+  }
+  if (!isDate(provision.effective_from) || (provision.effective_to && !isDate(provision.effective_to))) {
+    throw new Error(`${line}: effective_from and effective_to must be ISO dates`);
+  }
+
+  const origins = parseCountries(provision.origin_countries);
+
+  return {
+    heading: provision.heading,
+    program,
+    provision_type: provisionType,
+    excludes_heading: provision.excludes_heading || null,
+    hts_code: htsCode,
+    origin_countries: origins.length > 0 ? origins : null,
+    exempt_countries: parseCountries(provision.exempt_countries),
+    rate: provision.rate || null,
+    description: provision.description,
+    effective_from: provision.effective_from,
+    effective_to: provision.effective_to || null,
+    source_url: provision.source_url || sourceUrl || null
+  };
+}
+
+// Accepts ["CN","HK"], {CN,HK} (as psql writes arrays) or "CN HK"
+function parseCountries(value?: string | string[]): string[] {
+  const list = Array.isArray(value) ? value : (value || '').replace(/[{}"]/g, '').split(/[\s,;]+/);
+  return list.map(country => country.trim().toUpperCase()).filter(Boolean);
+}
+
+function isDate(value?: string): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and line breaks
+function parseCSVRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
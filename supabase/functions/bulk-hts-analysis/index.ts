@@ -10,6 +10,15 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
 
+// Items are uploaded in chunks so a 50k SKU catalog never travels in one request
+const MAX_ITEMS_PER_REQUEST = 500;
+const MAX_JOB_ITEMS = 100000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const RECENT_JOBS_LIMIT = 20;
+// Completed items below this confidence, or flagged by enhanced-prediction, count as needing review
+const REVIEW_CONFIDENCE_THRESHOLD = 70;
+
 interface BulkProduct {
   id: string;
   title: string;
@@ -17,6 +26,57 @@ interface BulkProduct {
   category?: string;
   materials?: string;
   imageUrl?: string;
+  customData?: Record<string, unknown>;
+}
+
+interface BulkJobRow {
+  id: string;
+  user_id: string;
+  name: string | null;
+  status: 'PENDING' | 'PROCESSING' | 'PAUSED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  total_items: number;
+  completed_items: number;
+  failed_items: number;
+  cancelled_items: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+interface BulkJobItemRow {
+  item_index: number;
+  product_id: string;
+  product: BulkProduct;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  attempts: number;
+  last_error: string | null;
+  prediction_id: string | null;
+  predictions: Array<{
+    code: string;
+    description: string;
+    confidence: number;
+    category?: string;
+    officialSource?: string;
+    isOfficialMatch?: boolean;
+    source?: 'PREVIOUSLY_APPROVED';
+    rationale?: string | null;
+    htsRevision?: string | null;
+    approvedAt?: string;
+    tariffInfo?: { generalRate?: string; specialRate?: string; column2Rate?: string };
+  }>;
+  confidence: number | null;
+  needs_human_review: boolean;
+  review_reason: string | null;
+  processing_time_ms: number | null;
+}
+
+const JOB_COLUMNS = 'id, user_id, name, status, total_items, completed_items, failed_items, cancelled_items, error, started_at, completed_at, created_at';
+
+class RequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
 }
 
 serve(async (req) => {
@@ -52,7 +112,7 @@ serve(async (req) => {
       });
     }
 
-    const { action, products, jobId } = await req.json();
+    const { action, products, jobId, name, offset, page, pageSize, includeFlagged, itemIndexes } = await req.json();
     
     // Input validation
     if (!action || typeof action !== 'string') {
@@ -64,134 +124,52 @@ serve(async (req) => {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
-    console.log(`Action: ${action}, Products: ${products?.length || 0}`);
-
-    // Strict limits for memory management
-    const MAX_PRODUCTS = 10;
-    if (action === 'start-job' && products?.length > MAX_PRODUCTS) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: `Too many products. Maximum ${MAX_PRODUCTS} allowed.`,
-          maxSize: MAX_PRODUCTS
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    console.log(`Action: ${action}, Job: ${jobId || 'new'}, Products: ${products?.length || 0}`);
 
-    if (action === 'start-job') {
-      const jobId = crypto.randomUUID();
-      
-      // Simple synchronous processing for small batches
-      const results = products.map((product: BulkProduct) => {
-        const keywords = `${product.title} ${product.description}`.toLowerCase();
-        
-        // Simple keyword matching
-        let prediction;
-        if (keywords.includes('cotton') || keywords.includes('shirt') || keywords.includes('clothing')) {
-          prediction = { code: '6205.20.2020', description: 'Cotton shirts', confidence: 88 };
-        } else if (keywords.includes('plastic') || keywords.includes('container')) {
-          prediction = { code: '3923.30.0080', description: 'Plastic containers', confidence: 91 };
-        } else if (keywords.includes('steel') || keywords.includes('kitchen')) {
-          prediction = { code: '8215.20.0000', description: 'Kitchen utensils', confidence: 94 };
+    let result;
+    switch (action) {
+      case 'create-job':
+        result = { jobId: await createJob(user.id, name) };
+        break;
+      case 'add-items':
+        result = await addItems(await getOwnedJob(jobId, user.id), products, offset);
+        break;
+      case 'start-job':
+        // Small batches can still be sent in one call: create, fill and start together
+        if (!jobId && Array.isArray(products)) {
+          const newJobId = await createJob(user.id, name);
+          await addItems(await getOwnedJob(newJobId, user.id), products, 0);
+          result = await startJob(await getOwnedJob(newJobId, user.id));
         } else {
-          prediction = { code: '9999.00.0000', description: 'Other articles', confidence: 60 };
-        }
-
-        return {
-          productId: product.id,
-          product,
-          predictions: [prediction],
-          status: 'COMPLETED',
-          confidence: prediction.confidence
-        };
-      });
-
-      return new Response(
-        JSON.stringify({
-          success: true,
-          jobId,
-          status: 'COMPLETED',
-          results,
-          summary: {
-            totalProducts: products.length,
-            completedProducts: products.length,
-            averageConfidence: results.reduce((sum, r) => sum + r.confidence, 0) / results.length
-          }
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    if (action === 'get-status') {
-      // For demo purposes, return sample results
-      const sampleResults = [
-        {
-          productId: 'sample-1',
-          product: { id: 'sample-1', title: 'Sample Product 1', description: 'Sample description', category: 'Electronics' },
-          predictions: [{ code: '8517.12.0000', description: 'Telephones for cellular networks', confidence: 92 }],
-          status: 'COMPLETED',
-          confidence: 92
-        },
-        {
-          productId: 'sample-2', 
-          product: { id: 'sample-2', title: 'Sample Product 2', description: 'Sample description', category: 'Textiles' },
-          predictions: [{ code: '6205.20.2020', description: 'Cotton shirts', confidence: 88 }],
-          status: 'COMPLETED',
-          confidence: 88
-        },
-        {
-          productId: 'sample-3',
-          product: { id: 'sample-3', title: 'Sample Product 3', description: 'Sample description', category: 'Plastic' },
-          predictions: [{ code: '3923.30.0080', description: 'Plastic containers', confidence: 91 }],
-          status: 'COMPLETED', 
-          confidence: 91
-        },
-        {
-          productId: 'sample-4',
-          product: { id: 'sample-4', title: 'Sample Product 4', description: 'Sample description', category: 'Steel' },
-          predictions: [{ code: '8215.20.0000', description: 'Kitchen utensils', confidence: 94 }],
-          status: 'COMPLETED',
-          confidence: 94
-        },
-        {
-          productId: 'sample-5',
-          product: { id: 'sample-5', title: 'Sample Product 5', description: 'Sample description', category: 'Other' },
-          predictions: [{ code: '9999.00.0000', description: 'Other articles', confidence: 60 }],
-          status: 'COMPLETED',
-          confidence: 60
+          result = await startJob(await getOwnedJob(jobId, user.id));
         }
-      ];
-
-      return new Response(
-        JSON.stringify({
-          success: true,
-          status: {
-            jobId,
-            status: 'COMPLETED',
-            totalProducts: 5,
-            completedProducts: 5,
-            failedProducts: 0,
-            results: sampleResults,
-            summary: {
-              averageConfidence: Math.round(sampleResults.reduce((sum, r) => sum + r.confidence, 0) / sampleResults.length),
-              mostCommonChapters: [
-                { chapter: 'Chapter 85', count: 1, percentage: 20 },
-                { chapter: 'Chapter 62', count: 1, percentage: 20 },
-                { chapter: 'Chapter 39', count: 1, percentage: 20 },
-                { chapter: 'Chapter 82', count: 1, percentage: 20 },
-                { chapter: 'Chapter 99', count: 1, percentage: 20 }
-              ],
-              flaggedForReview: sampleResults.filter(r => r.confidence < 70).length,
-              totalProcessingTime: 2000
-            }
-          }
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+        break;
+      case 'get-status':
+        result = { status: await getJobStatus(await getOwnedJob(jobId, user.id), page, pageSize) };
+        break;
+      case 'list-jobs':
+        result = { jobs: await listJobs(user.id) };
+        break;
+      case 'pause-job':
+        result = await pauseJob(await getOwnedJob(jobId, user.id));
+        break;
+      case 'resume-job':
+        result = await resumeJob(await getOwnedJob(jobId, user.id));
+        break;
+      case 'cancel-job':
+        result = await cancelJob(await getOwnedJob(jobId, user.id));
+        break;
+      case 'retry-items':
+        result = await retryItems(await getOwnedJob(jobId, user.id), !!includeFlagged, itemIndexes);
+        break;
+      default:
+        throw new RequestError('Invalid action');
     }
 
-    throw new Error('Invalid action');
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
 
   } catch (error) {
     console.error('Error:', error);
@@ -200,7 +178,403 @@ serve(async (req) => {
         success: false,
         error: error.message
       }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof RequestError ? error.status : 500
+      }
     );
   }
-});
\ No newline at end of file
+});
+
+async function createJob(userId: string, name?: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('bulk_jobs')
+    .insert({ user_id: userId, name: typeof name === 'string' ? name.slice(0, 200) : null })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('Error creating bulk job:', error);
+    throw new Error('Failed to create bulk job');
+  }
+
+  return data.id;
+}
+
+async function getOwnedJob(jobId: unknown, userId: string): Promise<BulkJobRow> {
+  if (!jobId || typeof jobId !== 'string') {
+    throw new RequestError('Invalid request: jobId is required');
+  }
+
+  const { data, error } = await supabase
+    .from('bulk_jobs')
+    .select(JOB_COLUMNS)
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading bulk job:', error);
+    throw new Error('Failed to load bulk job');
+  }
+
+  // Other users' jobs are reported as missing rather than forbidden
+  if (!data || data.user_id !== userId) {
+    throw new RequestError('Job not found', 404);
+  }
+
+  return data as BulkJobRow;
+}
+
+async function addItems(job: BulkJobRow, products: unknown, offset: unknown) {
+  if (job.status !== 'PENDING') {
+    throw new RequestError('Items can only be added before the job is started');
+  }
+  if (!Array.isArray(products) || products.length === 0) {
+    throw new RequestError('Invalid request: products must be a non-empty array');
+  }
+  if (products.length > MAX_ITEMS_PER_REQUEST) {
+    throw new RequestError(`Too many products in one request. Send at most ${MAX_ITEMS_PER_REQUEST} per add-items call.`);
+  }
+  if (job.total_items + products.length > MAX_JOB_ITEMS) {
+    throw new RequestError(`A bulk job can hold at most ${MAX_JOB_ITEMS} products.`);
+  }
+
+  const startIndex = typeof offset === 'number' && offset >= 0 ? offset : job.total_items;
+  const rows = (products as BulkProduct[]).map((product, index) => {
+    if (!product || typeof product.title !== 'string' || !product.title.trim()) {
+      throw new RequestError(`Product at position ${startIndex + index} is missing a title`);
+    }
+    return {
+      job_id: job.id,
+      user_id: job.user_id,
+      item_index: startIndex + index,
+      product_id: String(product.id ?? startIndex + index),
+      product
+    };
+  });
+
+  // Re-sending a chunk after a network error must not duplicate items
+  const { error } = await supabase
+    .from('bulk_job_items')
+    .upsert(rows, { onConflict: 'job_id,item_index' });
+
+  if (error) {
+    console.error('Error adding bulk job items:', error);
+    throw new Error('Failed to add products to bulk job');
+  }
+
+  const { count, error: countError } = await supabase
+    .from('bulk_job_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', job.id);
+
+  if (countError) {
+    console.error('Error counting bulk job items:', countError);
+    throw new Error('Failed to add products to bulk job');
+  }
+
+  await supabase.from('bulk_jobs').update({ total_items: count || 0 }).eq('id', job.id);
+
+  return { jobId: job.id, added: rows.length, totalProducts: count || 0 };
+}
+
+async function startJob(job: BulkJobRow) {
+  if (job.status !== 'PENDING') {
+    throw new RequestError(`Job is already ${job.status.toLowerCase()}`);
+  }
+  if (job.total_items === 0) {
+    throw new RequestError('Cannot start a job without products');
+  }
+
+  const { error } = await supabase
+    .from('bulk_jobs')
+    .update({ status: 'PROCESSING', started_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'PENDING');
+
+  if (error) {
+    console.error('Error starting bulk job:', error);
+    throw new Error('Failed to start bulk job');
+  }
+
+  // SKUs with an approved code are settled here; the worker only sees new products
+  const previouslyApproved = await applyProductLibrary(job.id);
+  if (previouslyApproved < job.total_items) {
+    await triggerWorker(job.id);
+  }
+
+  return { jobId: job.id, status: 'PROCESSING', totalProducts: job.total_items, previouslyApproved };
+}
+
+async function applyProductLibrary(jobId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('apply_product_classifications', { target_job: jobId });
+
+  if (error) {
+    // Not fatal: the items are simply predicted again
+    console.error(`Error applying approved classifications to bulk job ${jobId}:`, error);
+    return 0;
+  }
+
+  return data || 0;
+}
+
+async function triggerWorker(jobId: string) {
+  // The worker acknowledges immediately and drains the queue in the background
+  const response = await fetch(`${supabaseUrl}/functions/v1/bulk-job-worker`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`
+    },
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    // The job stays PROCESSING; a scheduled worker run will pick it up
+    console.error('Failed to trigger bulk job worker:', await response.text());
+  }
+}
+
+async function listJobs(userId: string) {
+  const { data, error } = await supabase
+    .from('bulk_jobs')
+    .select(JOB_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_JOBS_LIMIT);
+
+  if (error) {
+    console.error('Error listing bulk jobs:', error);
+    throw new Error('Failed to list bulk jobs');
+  }
+
+  return ((data || []) as BulkJobRow[]).map(job => ({
+    jobId: job.id,
+    name: job.name,
+    status: job.status,
+    totalProducts: job.total_items,
+    completedProducts: job.completed_items,
+    failedProducts: job.failed_items,
+    cancelledProducts: job.cancelled_items,
+    startTime: job.started_at || job.created_at,
+    endTime: job.completed_at || undefined
+  }));
+}
+
+async function pauseJob(job: BulkJobRow) {
+  if (job.status !== 'PROCESSING') {
+    throw new RequestError(`Only processing jobs can be paused; this job is ${job.status.toLowerCase()}`);
+  }
+
+  // The worker checks the job status between batches, so items already claimed still finish
+  await setJobStatus(job.id, 'PAUSED', ['PROCESSING']);
+  return { jobId: job.id, status: 'PAUSED' };
+}
+
+async function resumeJob(job: BulkJobRow) {
+  // A PROCESSING job whose worker died is resumed by waking a new worker;
+  // items left mid-flight are reclaimed once their lock goes stale
+  if (job.status !== 'PAUSED' && job.status !== 'PROCESSING') {
+    throw new RequestError(`Only paused or processing jobs can be resumed; this job is ${job.status.toLowerCase()}`);
+  }
+
+  if (job.status === 'PAUSED') {
+    await setJobStatus(job.id, 'PROCESSING', ['PAUSED']);
+  }
+  await triggerWorker(job.id);
+
+  return { jobId: job.id, status: 'PROCESSING' };
+}
+
+async function cancelJob(job: BulkJobRow) {
+  if (!['PENDING', 'PROCESSING', 'PAUSED'].includes(job.status)) {
+    throw new RequestError(`This job is already ${job.status.toLowerCase()}`);
+  }
+
+  await setJobStatus(job.id, 'CANCELLED', ['PENDING', 'PROCESSING', 'PAUSED'], { completed_at: new Date().toISOString() });
+
+  // Finished predictions are kept; everything queued or in flight is dropped, and the worker
+  // discards results for items that are no longer PROCESSING
+  const { error } = await supabase
+    .from('bulk_job_items')
+    .update({ status: 'CANCELLED', locked_at: null })
+    .eq('job_id', job.id)
+    .in('status', ['PENDING', 'PROCESSING']);
+
+  if (error) {
+    console.error('Error cancelling bulk job items:', error);
+    throw new Error('Failed to cancel bulk job');
+  }
+
+  return { jobId: job.id, status: 'CANCELLED' };
+}
+
+async function retryItems(job: BulkJobRow, includeFlagged: boolean, itemIndexes: unknown) {
+  if (job.status === 'PENDING' || job.status === 'CANCELLED') {
+    throw new RequestError(`Items of a ${job.status.toLowerCase()} job cannot be retried`);
+  }
+  if (itemIndexes !== undefined && (!Array.isArray(itemIndexes) || itemIndexes.some(i => typeof i !== 'number'))) {
+    throw new RequestError('Invalid request: itemIndexes must be an array of numbers');
+  }
+
+  // Reopen the job first so the progress trigger can close it again once the retried items settle
+  if (job.status !== 'PAUSED') {
+    await setJobStatus(job.id, 'PROCESSING', ['PROCESSING', 'COMPLETED', 'FAILED'], { completed_at: null, error: null });
+  }
+
+  let query = supabase
+    .from('bulk_job_items')
+    .update({
+      status: 'PENDING',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_at: null,
+      last_error: null,
+      completed_at: null
+    })
+    .eq('job_id', job.id)
+    .or(includeFlagged
+      ? `status.eq.FAILED,and(status.eq.COMPLETED,or(needs_human_review.is.true,confidence.lt.${REVIEW_CONFIDENCE_THRESHOLD}))`
+      : 'status.eq.FAILED');
+
+  if (Array.isArray(itemIndexes)) {
+    query = query.in('item_index', itemIndexes);
+  }
+
+  const { data, error } = await query.select('item_index');
+
+  if (error) {
+    console.error('Error requeueing bulk job items:', error);
+    throw new Error('Failed to retry bulk job items');
+  }
+
+  const requeued = data?.length || 0;
+  // Items approved in the review queue since the last run come back from the library
+  const previouslyApproved = requeued > 0 ? await applyProductLibrary(job.id) : 0;
+
+  if (requeued === 0 && job.status !== 'PAUSED') {
+    // Nothing matched: put the job back the way it was
+    await setJobStatus(job.id, job.status, ['PROCESSING'], { completed_at: job.completed_at });
+  } else if (job.status !== 'PAUSED' && previouslyApproved < requeued) {
+    await triggerWorker(job.id);
+  }
+
+  return { jobId: job.id, requeued, previouslyApproved };
+}
+
+async function setJobStatus(
+  jobId: string,
+  status: BulkJobRow['status'],
+  fromStatuses: BulkJobRow['status'][],
+  extra: Record<string, unknown> = {}
+) {
+  const { error } = await supabase
+    .from('bulk_jobs')
+    .update({ status, ...extra })
+    .eq('id', jobId)
+    .in('status', fromStatuses);
+
+  if (error) {
+    console.error(`Error setting bulk job ${jobId} to ${status}:`, error);
+    throw new Error('Failed to update bulk job');
+  }
+}
+
+async function getJobStatus(job: BulkJobRow, page: unknown, pageSize: unknown) {
+  const size = Math.min(typeof pageSize === 'number' && pageSize > 0 ? pageSize : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const from = (typeof page === 'number' && page > 0 ? page : 0) * size;
+
+  const [{ data: items, error: itemsError }, { data: summary, error: summaryError }] = await Promise.all([
+    supabase
+      .from('bulk_job_items')
+      .select('item_index, product_id, product, status, attempts, last_error, prediction_id, predictions, confidence, needs_human_review, review_reason, processing_time_ms')
+      .eq('job_id', job.id)
+      .order('item_index')
+      .range(from, from + size - 1),
+    supabase.rpc('get_bulk_job_summary', { target_job: job.id })
+  ]);
+
+  if (itemsError || summaryError) {
+    console.error('Error loading bulk job status:', itemsError || summaryError);
+    throw new Error('Failed to load bulk job status');
+  }
+
+  const settled = job.completed_items + job.failed_items + job.cancelled_items;
+  const elapsed = job.started_at ? Date.now() - new Date(job.started_at).getTime() : 0;
+  const estimatedTimeRemaining = job.status === 'PROCESSING' && settled > 0
+    ? Math.round((elapsed / settled) * (job.total_items - settled))
+    : undefined;
+
+  return {
+    jobId: job.id,
+    name: job.name,
+    status: job.status,
+    totalProducts: job.total_items,
+    completedProducts: job.completed_items,
+    failedProducts: job.failed_items,
+    cancelledProducts: job.cancelled_items,
+    startTime: job.started_at || job.created_at,
+    endTime: job.completed_at || undefined,
+    estimatedTimeRemaining,
+    error: job.error || undefined,
+    page: from / size,
+    pageSize: size,
+    results: ((items || []) as BulkJobItemRow[]).map(toBulkAnalysisResult),
+    summary: {
+      averageConfidence: Number(summary.average_confidence),
+      mostCommonChapters: (summary.chapters as Array<{ chapter: string; count: number }>).map(c => ({
+        chapter: `Chapter ${c.chapter}`,
+        count: c.count,
+        percentage: job.completed_items > 0 ? Math.round((c.count / job.completed_items) * 100) : 0
+      })),
+      flaggedForReview: summary.flagged_for_review,
+      totalProcessingTime: summary.total_processing_time,
+      confidenceBands: {
+        critical: summary.critical_risk,
+        medium: summary.medium_risk,
+        low: summary.low_risk,
+        veryLow: summary.very_low_risk
+      }
+    }
+  };
+}
+
+function toBulkAnalysisResult(item: BulkJobItemRow) {
+  return {
+    itemIndex: item.item_index,
+    productId: item.product_id,
+    product: item.product,
+    predictions: item.predictions.map(candidate => ({
+      code: candidate.code,
+      description: candidate.description,
+      confidence: candidate.confidence,
+      category: candidate.category || '',
+      isOfficiallyValidated: candidate.isOfficialMatch,
+      officialSource: candidate.officialSource,
+      sourceDocument: candidate.source === 'PREVIOUSLY_APPROVED'
+        ? {
+            name: candidate.rationale ? `Previously approved: ${candidate.rationale}` : 'Previously approved',
+            type: 'PREVIOUSLY_APPROVED',
+            version: candidate.htsRevision || undefined,
+            lastUpdated: candidate.approvedAt
+          }
+        : {
+            name: candidate.officialSource || 'Enhanced prediction',
+            type: candidate.isOfficialMatch ? 'USITC_DATABASE' : 'AI_SEMANTIC'
+          },
+      tariffDetails: candidate.tariffInfo ? {
+        general: candidate.tariffInfo.generalRate || '',
+        special: candidate.tariffInfo.specialRate || '',
+        column2: candidate.tariffInfo.column2Rate || ''
+      } : undefined
+    })),
+    status: item.status,
+    error: item.last_error || undefined,
+    attempts: item.attempts,
+    predictionId: item.prediction_id || undefined,
+    needsHumanReview: item.needs_human_review,
+    reviewReason: item.review_reason || undefined,
+    processingTime: item.processing_time_ms || 0,
+    confidence: Number(item.confidence || 0)
+  };
+}
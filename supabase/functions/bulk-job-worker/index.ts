@@ -0,0 +1,230 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+// Items run through enhanced-prediction this many at a time
+const BATCH_SIZE = 5;
+// Stay well inside the edge function wall-clock limit, then hand off to a fresh invocation
+const TIME_BUDGET_MS = 120000;
+// Retries back off 30s, 60s, 120s...
+const RETRY_BASE_DELAY_MS = 30000;
+// How long to wait when the only remaining items are backing off or held by another worker
+const IDLE_POLL_MS = 5000;
+
+// Supabase edge runtime hook that keeps the isolate alive after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+interface ClaimedItem {
+  id: string;
+  job_id: string;
+  user_id: string;
+  item_index: number;
+  product: {
+    id: string;
+    title: string;
+    description: string;
+    category?: string;
+    materials?: string;
+    imageUrl?: string;
+  };
+  attempts: number;
+  locked_at: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only bulk-hts-analysis, the scheduler and the worker itself may drain queues
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || authHeader.split(' ')[1] !== supabaseServiceKey) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: the bulk job worker requires the service role key'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { jobId } = await req.json().catch(() => ({}));
+
+    // Without a jobId (scheduled run) pick up every job that is still processing
+    let jobIds: string[];
+    if (jobId) {
+      jobIds = [jobId];
+    } else {
+      const { data: jobs, error } = await supabase
+        .from('bulk_jobs')
+        .select('id')
+        .eq('status', 'PROCESSING');
+
+      if (error) {
+        console.error('Error listing processing jobs:', error);
+        throw new Error('Failed to list processing jobs');
+      }
+      jobIds = (jobs || []).map((job: { id: string }) => job.id);
+    }
+
+    console.log(`Draining ${jobIds.length} bulk job(s)`);
+    EdgeRuntime.waitUntil(Promise.all(jobIds.map(drainJob)));
+
+    return new Response(JSON.stringify({ success: true, jobIds }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in bulk-job-worker:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
+
+async function drainJob(jobId: string) {
+  const startedAt = Date.now();
+
+  try {
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: job, error: jobError } = await supabase
+        .from('bulk_jobs')
+        .select('status, max_attempts')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (jobError) throw jobError;
+      if (!job || job.status !== 'PROCESSING') return;
+
+      const { data: items, error: claimError } = await supabase
+        .rpc('claim_bulk_job_items', { target_job: jobId, batch_size: BATCH_SIZE });
+
+      if (claimError) throw claimError;
+
+      if (!items || items.length === 0) {
+        const { count, error: countError } = await supabase
+          .from('bulk_job_items')
+          .select('id', { count: 'exact', head: true })
+          .eq('job_id', jobId)
+          .in('status', ['PENDING', 'PROCESSING']);
+
+        if (countError) throw countError;
+        // Nothing left: the progress trigger has already closed the job
+        if (!count) return;
+
+        await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+        continue;
+      }
+
+      await Promise.all((items as ClaimedItem[]).map(item => processItem(item, job.max_attempts)));
+    }
+
+    await continueInNewInvocation(jobId);
+  } catch (error) {
+    // Claimed items stay PROCESSING and are reclaimed once their lock goes stale
+    console.error(`Error draining bulk job ${jobId}:`, error);
+  }
+}
+
+async function processItem(item: ClaimedItem, maxAttempts: number) {
+  const startTime = Date.now();
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/enhanced-prediction`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`
+      },
+      body: JSON.stringify({
+        productTitle: item.product.title,
+        productDescription: item.product.description || '',
+        category: item.product.category || undefined,
+        materials: item.product.materials || undefined,
+        imageUrl: item.product.imageUrl || undefined,
+        productId: item.product.id,
+        userId: item.user_id
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`enhanced-prediction returned ${response.status}: ${(await response.text()).slice(0, 500)}`);
+    }
+
+    const result = await response.json();
+    const candidates = result.candidates || [];
+
+    const { error } = await supabase
+      .from('bulk_job_items')
+      .update({
+        status: 'COMPLETED',
+        prediction_id: result.prediction_id || null,
+        predictions: candidates,
+        top_code: candidates[0]?.code || null,
+        confidence: candidates[0]?.confidence ?? 0,
+        needs_human_review: !!result.needs_human_review,
+        review_reason: result.review_reason || null,
+        processing_time_ms: Date.now() - startTime,
+        last_error: null,
+        locked_at: null,
+        completed_at: new Date().toISOString()
+      })
+      // Only while this worker still holds the item: a cancelled or reclaimed item is left alone
+      .eq('id', item.id)
+      .eq('status', 'PROCESSING')
+      .eq('locked_at', item.locked_at);
+
+    if (error) throw error;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = item.attempts >= maxAttempts;
+    console.error(`Bulk item ${item.item_index} of job ${item.job_id} failed (attempt ${item.attempts}/${maxAttempts}):`, message);
+
+    const { error: updateError } = await supabase
+      .from('bulk_job_items')
+      .update({
+        status: exhausted ? 'FAILED' : 'PENDING',
+        last_error: message,
+        locked_at: null,
+        processing_time_ms: Date.now() - startTime,
+        next_attempt_at: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1)).toISOString(),
+        completed_at: exhausted ? new Date().toISOString() : null
+      })
+      .eq('id', item.id)
+      .eq('status', 'PROCESSING')
+      .eq('locked_at', item.locked_at);
+
+    if (updateError) {
+      console.error('Error recording bulk item failure:', updateError);
+    }
+  }
+}
+
+async function continueInNewInvocation(jobId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/bulk-job-worker`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`
+    },
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to hand off bulk job ${jobId}:`, await response.text());
+  }
+}
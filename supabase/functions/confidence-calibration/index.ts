@@ -0,0 +1,322 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+const BUCKET_SIZE = 10;
+// Pseudo-observations that keep sparsely rated buckets close to their raw score
+const PRIOR_STRENGTH = 10;
+// Most recent rated predictions used to fit a curve
+const HISTORY_LIMIT = 5000;
+
+interface CalibrationRequest {
+  action: 'recalibrate' | 'reliability-diagram';
+  modelVersion?: string;
+}
+
+interface RatedPrediction {
+  model_version: string | null;
+  confidence_score: number | null;
+  raw_confidence_score: number | null;
+  user_feedback: string | null;
+  predicted_codes: Array<{ code?: string }> | null;
+  selected_code: string | null;
+}
+
+interface CalibrationBucket {
+  model_version: string;
+  bucket_lower: number;
+  bucket_upper: number;
+  sample_count: number;
+  correct_count: number;
+  mean_raw_confidence: number;
+  observed_accuracy: number;
+  calibrated_confidence: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Calibration data covers every user's feedback, so only the service role (feedback and
+    // review-queue recalibrating) or a signed-in admin may read or rebuild it
+    const token = req.headers.get('Authorization')?.split(' ')[1];
+    if (!token || token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = token
+        ? await supabase.auth.getUser(token)
+        : { data: { user: null }, error: null };
+
+      if (authError || !user) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Unauthorized: confidence calibration requires the service role key or an admin session'
+        }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: isAdmin, error: roleError } = await supabase.rpc('has_role', {
+        check_user_id: user.id,
+        check_role: 'admin'
+      });
+
+      if (roleError) {
+        console.error('Error checking admin role:', roleError);
+        throw new Error('Failed to check permissions');
+      }
+
+      if (!isAdmin) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Only administrators can view or rebuild confidence calibration, since it covers every user\'s feedback'
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const { action, modelVersion }: CalibrationRequest = await req.json();
+
+    let result;
+    switch (action) {
+      case 'recalibrate':
+        result = await recalibrate(modelVersion);
+        break;
+      case 'reliability-diagram':
+        result = await getReliabilityDiagram(modelVersion);
+        break;
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(JSON.stringify({ success: true, data: result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in confidence-calibration function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function recalibrate(modelVersion?: string) {
+  const versions = modelVersion ? [modelVersion] : await listModelVersions();
+  const results = [];
+
+  for (const version of versions) {
+    const predictions = await getRatedPredictions(version);
+    const buckets = fitCalibrationCurve(version, predictions);
+
+    if (buckets.length > 0) {
+      const { error } = await supabase
+        .from('confidence_calibrations')
+        .upsert(
+          buckets.map(bucket => ({ ...bucket, computed_at: new Date().toISOString() })),
+          { onConflict: 'model_version,bucket_lower' }
+        );
+
+      if (error) {
+        console.error('Error storing calibration curve:', error);
+        throw new Error(`Failed to store calibration for ${version}`);
+      }
+    }
+
+    const correct = buckets.reduce((sum, b) => sum + b.correct_count, 0);
+    const total = buckets.reduce((sum, b) => sum + b.sample_count, 0);
+    console.log(`Recalibrated ${version} from ${total} rated predictions`);
+
+    results.push({
+      model_version: version,
+      total_predictions: total,
+      accuracy: total > 0 ? Math.round((correct / total) * 10000) / 100 : 0,
+      confidence_calibration: Object.fromEntries(
+        buckets.map(b => [`${b.bucket_lower}-${b.bucket_upper}`, b.observed_accuracy])
+      ),
+      last_updated: new Date().toISOString()
+    });
+  }
+
+  return results;
+}
+
+async function getReliabilityDiagram(modelVersion?: string) {
+  let query = supabase
+    .from('confidence_calibrations')
+    .select('model_version, bucket_lower, bucket_upper, sample_count, correct_count, mean_raw_confidence, observed_accuracy, calibrated_confidence, computed_at')
+    .order('model_version')
+    .order('bucket_lower');
+
+  if (modelVersion) {
+    query = query.eq('model_version', modelVersion);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading calibration curves:', error);
+    throw new Error('Failed to load calibration curves');
+  }
+
+  const byVersion = new Map<string, Array<CalibrationBucket & { computed_at: string }>>();
+  for (const row of data || []) {
+    byVersion.set(row.model_version, [...(byVersion.get(row.model_version) || []), row]);
+  }
+
+  return [...byVersion.entries()].map(([version, buckets]) => {
+    const total = buckets.reduce((sum, b) => sum + b.sample_count, 0);
+
+    // Expected calibration error: sample-weighted gap between claimed and observed accuracy
+    const rawError = buckets.reduce((sum, b) =>
+      sum + (b.sample_count / total) * Math.abs(Number(b.observed_accuracy) - Number(b.mean_raw_confidence)), 0);
+    const calibratedError = buckets.reduce((sum, b) =>
+      sum + (b.sample_count / total) * Math.abs(Number(b.observed_accuracy) - Number(b.calibrated_confidence)), 0);
+
+    return {
+      modelVersion: version,
+      totalPredictions: total,
+      expectedCalibrationError: Math.round(rawError * 100) / 100,
+      calibratedExpectedCalibrationError: Math.round(calibratedError * 100) / 100,
+      computedAt: buckets[0]?.computed_at,
+      bins: buckets.map(b => ({
+        range: `${b.bucket_lower}-${b.bucket_upper}`,
+        sampleCount: b.sample_count,
+        correctCount: b.correct_count,
+        meanPredictedConfidence: Number(b.mean_raw_confidence),
+        observedAccuracy: Number(b.observed_accuracy),
+        calibratedConfidence: Number(b.calibrated_confidence)
+      }))
+    };
+  });
+}
+
+async function listModelVersions(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('hts_predictions')
+    .select('model_version')
+    .not('model_version', 'is', null)
+    .not('user_feedback', 'is', null)
+    .limit(HISTORY_LIMIT);
+
+  if (error) {
+    console.error('Error listing model versions:', error);
+    throw new Error('Failed to list model versions');
+  }
+
+  return [...new Set((data || []).map((row: { model_version: string }) => row.model_version))];
+}
+
+async function getRatedPredictions(modelVersion: string): Promise<RatedPrediction[]> {
+  const { data, error } = await supabase
+    .from('hts_predictions')
+    .select('model_version, confidence_score, raw_confidence_score, user_feedback, predicted_codes, selected_code')
+    .eq('model_version', modelVersion)
+    .not('user_feedback', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) {
+    console.error('Error fetching predictions for calibration:', error);
+    throw new Error('Failed to load feedback history');
+  }
+
+  return (data || []) as RatedPrediction[];
+}
+
+function fitCalibrationCurve(modelVersion: string, predictions: RatedPrediction[]): CalibrationBucket[] {
+  const stats = new Map<number, { total: number; correct: number; rawSum: number }>();
+
+  for (const prediction of predictions) {
+    const isCorrect = isPredictionCorrect(prediction);
+    // "Needs review" without a chosen code says nothing about whether the prediction was right
+    if (isCorrect === null) continue;
+
+    const raw = prediction.raw_confidence_score ?? prediction.confidence_score ?? 0;
+    const lower = Math.min(Math.floor(raw / BUCKET_SIZE) * BUCKET_SIZE, 100 - BUCKET_SIZE);
+    const bucket = stats.get(lower) || { total: 0, correct: 0, rawSum: 0 };
+    bucket.total++;
+    bucket.rawSum += raw;
+    if (isCorrect) bucket.correct++;
+    stats.set(lower, bucket);
+  }
+
+  const buckets = [...stats.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([lower, s]) => {
+      const meanRaw = s.rawSum / s.total;
+      return {
+        lower,
+        total: s.total,
+        correct: s.correct,
+        meanRaw,
+        // Beta prior centred on the raw score: few ratings barely move it, many ratings dominate
+        smoothed: (s.correct + PRIOR_STRENGTH * (meanRaw / 100)) / (s.total + PRIOR_STRENGTH) * 100,
+        weight: s.total + PRIOR_STRENGTH
+      };
+    });
+
+  const monotonic = poolAdjacentViolators(buckets.map(b => b.smoothed), buckets.map(b => b.weight));
+
+  return buckets.map((b, index) => ({
+    model_version: modelVersion,
+    bucket_lower: b.lower,
+    bucket_upper: b.lower + BUCKET_SIZE - 1,
+    sample_count: b.total,
+    correct_count: b.correct,
+    mean_raw_confidence: Math.round(b.meanRaw * 100) / 100,
+    observed_accuracy: Math.round((b.correct / b.total) * 10000) / 100,
+    calibrated_confidence: Math.round(monotonic[index] * 100) / 100
+  }));
+}
+
+function isPredictionCorrect(prediction: RatedPrediction): boolean | null {
+  if (prediction.user_feedback === 'incorrect') return false;
+  if (prediction.user_feedback !== 'correct') return null;
+
+  // "Correct" with a different candidate selected means the top prediction was wrong
+  const topCode = prediction.predicted_codes?.[0]?.code;
+  if (prediction.selected_code && topCode) {
+    return normalizeCode(prediction.selected_code) === normalizeCode(topCode);
+  }
+  return true;
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/[^0-9]/g, '');
+}
+
+// Isotonic regression so a higher raw score never maps to a lower calibrated one
+function poolAdjacentViolators(values: number[], weights: number[]): number[] {
+  const blocks: Array<{ value: number; weight: number; count: number }> = [];
+
+  values.forEach((value, index) => {
+    blocks.push({ value, weight: weights[index], count: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!;
+      const previous = blocks.pop()!;
+      const weight = previous.weight + last.weight;
+      blocks.push({
+        value: (previous.value * previous.weight + last.value * last.weight) / weight,
+        weight,
+        count: previous.count + last.count
+      });
+    }
+  });
+
+  return blocks.flatMap(block => Array(block.count).fill(block.value));
+}
@@ -13,13 +13,22 @@ const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
 
+// Stored with every prediction; bump it when ranking or scoring changes so calibration is refitted from fresh feedback
+const MODEL_VERSION = 'enhanced-prediction-v3';
+// Confidence taken off a candidate whose chapter a matching exclusion note sends elsewhere
+const EXCLUSION_PENALTY = 25;
+// Predictions answered from the approved classification library, kept apart from the model's calibration
+const PRODUCT_LIBRARY_VERSION = 'product-library';
+
 interface PredictionRequest {
   productTitle: string;
   productDescription: string;
   category?: string;
   materials?: string;
   imageUrl?: string;
+  productId?: string; // Our SKU, links the prediction to the approved classification library
   availableHSCodes?: any[];
+  userId?: string; // Only honoured for service-role calls
 }
 
 interface PredictionCandidate {
@@ -31,6 +40,35 @@ interface PredictionCandidate {
   tariffInfo?: any;
   officialSource?: string;
   isOfficialMatch?: boolean;
+  excluded?: boolean;
+  ruleDecisions?: RuleDecision[];
+}
+
+// A section or chapter note from hts_legal_notes
+interface LegalNote {
+  scope: 'section' | 'chapter';
+  section: string | null;
+  chapter: string | null;
+  chapters: string[];
+  note_number: string;
+  note_type: 'exclusion' | 'inclusion';
+  note_text: string;
+  match_terms: string[];
+  redirect_to: string[];
+}
+
+// One bucket of the confidence_calibrations curve for MODEL_VERSION
+interface CalibrationPoint {
+  mean_raw_confidence: number;
+  calibrated_confidence: number;
+}
+
+// Why the classification rules moved a candidate, kept with the stored prediction for audit
+interface RuleDecision {
+  rule: string;
+  decision: 'ELIMINATED' | 'DEMOTED' | 'PROMOTED' | 'NOTED';
+  reference?: string;
+  text: string;
 }
 
 interface PredictionResult {
@@ -60,18 +98,22 @@ serve(async (req) => {
     }
 
     const token = authHeader.split(' ')[1];
+    const requestData: PredictionRequest = await req.json();
     
-    // Verify JWT and extract user_id
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
-    if (authError || !user) {
-      console.error('Authentication error:', authError);
-      return new Response(JSON.stringify({ error: 'Unauthorized: Invalid token' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // The bulk job worker calls with the service role on behalf of the job owner
+    let userId = token === supabaseServiceKey ? requestData.userId : undefined;
+    if (!userId) {
+      // Verify JWT and extract user_id
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        console.error('Authentication error:', authError);
+        return new Response(JSON.stringify({ error: 'Unauthorized: Invalid token' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      userId = user.id;
     }
-
-    const requestData: PredictionRequest = await req.json();
     
     // Validate input
     if (!requestData.productTitle || typeof requestData.productTitle !== 'string') {
@@ -89,6 +131,16 @@ serve(async (req) => {
     }
     console.log('Enhanced prediction request:', requestData);
 
+    // A SKU with a code approved in review keeps that code; the model only sees new products
+    if (typeof requestData.productId === 'string' && requestData.productId) {
+      const approved = await predictFromLibrary(userId, requestData, startTime);
+      if (approved) {
+        return new Response(JSON.stringify(approved), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
     // Step 1: Get initial HTS search results
     const htsResults = await getHTSSearchResults(requestData);
     
@@ -102,30 +154,44 @@ serve(async (req) => {
     }
 
     // Step 4: Combine and rank all candidates
-    const candidates = await combineAndRankCandidates(semanticResults, htsResults, imageAnalysis);
+    const rankedCandidates = await combineAndRankCandidates(semanticResults, htsResults, imageAnalysis);
+
+    // Step 5: Apply section/chapter notes and the General Rules of Interpretation
+    const candidates = await applyClassificationRules(rankedCandidates, requestData);
+    // Demoted candidates keep their place by score, so the leader itself may be one of them
+    const leaderExcluded = rankedCandidates.length > 0 &&
+      candidates.some(c => c.excluded && (c.code === rankedCandidates[0].code || c === candidates[0]));
     
-    // Step 5: Calculate overall confidence and determine if human review is needed
-    const confidence_score = calculateOverallConfidence(candidates);
+    // Step 6: Calculate overall confidence and determine if human review is needed
+    const calibrationCurve = await getCalibrationCurve();
+    const { confidence_score, raw_confidence_score } = calculateOverallConfidence(
+      candidates,
+      calibrationCurve
+    );
     const { needs_human_review, review_reason } = determineHumanReviewNeed(
       candidates, 
       confidence_score, 
-      requestData
+      requestData,
+      leaderExcluded
     );
 
     const processing_time = Date.now() - startTime;
 
-    // Step 6: Store prediction in database for feedback tracking with user association
+    // Step 7: Store prediction in database for feedback tracking with user association
     const { data: predictionRecord } = await supabase
       .from('hts_predictions')
       .insert({
-        user_id: user.id, // Associate with authenticated user
+        user_id: userId, // Associate with authenticated user
         product_title: requestData.productTitle,
         product_description: requestData.productDescription,
         category: requestData.category,
         materials: requestData.materials,
         image_url: requestData.imageUrl,
+        product_id: typeof requestData.productId === 'string' ? requestData.productId : null,
         predicted_codes: candidates,
         confidence_score,
+        raw_confidence_score,
+        model_version: MODEL_VERSION,
         processing_time_ms: processing_time,
         needs_human_review,
         review_reason
@@ -160,6 +226,68 @@ serve(async (req) => {
   }
 });
 
+async function predictFromLibrary(
+  userId: string,
+  request: PredictionRequest,
+  startTime: number
+): Promise<PredictionResult | null> {
+  const { data: approved, error } = await supabase
+    .from('product_classifications')
+    .select('hts_code, description, rationale, approved_by_email')
+    .eq('user_id', userId)
+    .eq('product_id', request.productId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading approved classification, predicting instead:', error);
+    return null;
+  }
+
+  if (!approved) return null;
+
+  const candidates: PredictionCandidate[] = [{
+    code: approved.hts_code,
+    description: approved.description || '',
+    confidence: 100,
+    reasoning: approved.rationale
+      ? `Previously approved for ${request.productId}: ${approved.rationale}`
+      : `Previously approved for ${request.productId}`,
+    officialSource: approved.approved_by_email ? `Approved by ${approved.approved_by_email}` : 'Previously approved',
+    isOfficialMatch: true
+  }];
+  const processing_time = Date.now() - startTime;
+
+  const { data: predictionRecord } = await supabase
+    .from('hts_predictions')
+    .insert({
+      user_id: userId,
+      product_title: request.productTitle,
+      product_description: request.productDescription,
+      category: request.category,
+      materials: request.materials,
+      image_url: request.imageUrl,
+      product_id: request.productId,
+      predicted_codes: candidates,
+      confidence_score: 100,
+      raw_confidence_score: 100,
+      model_version: PRODUCT_LIBRARY_VERSION,
+      processing_time_ms: processing_time,
+      needs_human_review: false
+    })
+    .select('id')
+    .single();
+
+  console.log(`Using previously approved classification ${approved.hts_code} for ${request.productId}`);
+
+  return {
+    candidates,
+    confidence_score: 100,
+    needs_human_review: false,
+    processing_time,
+    prediction_id: predictionRecord?.id || ''
+  };
+}
+
 async function getHTSSearchResults(request: PredictionRequest): Promise<any[]> {
   try {
     const searchQuery = `${request.productTitle} ${request.productDescription} ${request.materials || ''}`.trim();
@@ -364,8 +492,258 @@ async function combineAndRankCandidates(
   return uniqueCandidates;
 }
 
-function calculateOverallConfidence(candidates: PredictionCandidate[]): number {
-  if (candidates.length === 0) return 0;
+/**
+ * Applies the General Rules of Interpretation to the ranked candidates.
+ * GRI 1 is driven by the section and chapter notes in hts_legal_notes; GRI 2-6 use the
+ * product text and the candidate descriptions. Every decision is appended to the
+ * candidate's reasoning together with the note or rule that triggered it.
+ */
+async function applyClassificationRules(
+  candidates: PredictionCandidate[],
+  request: PredictionRequest
+): Promise<PredictionCandidate[]> {
+  if (candidates.length === 0) return candidates;
+
+  const productText = `${request.productTitle} ${request.productDescription || ''} ${request.materials || ''}`.toLowerCase();
+  const chapters = [...new Set(candidates.map(c => getChapter(c.code)))];
+
+  const { data: notes, error } = await supabase
+    .from('hts_legal_notes')
+    .select('scope, section, chapter, chapters, note_number, note_type, note_text, match_terms, redirect_to')
+    .overlaps('chapters', chapters);
+
+  if (error) {
+    console.error('Error loading legal notes, ranking without them:', error);
+  }
+
+  const ruled = candidates.map(c => ({ ...c, ruleDecisions: [...(c.ruleDecisions || [])] }));
+
+  // GRI 1: section and chapter notes. Match terms only suggest that a note is in play, so an
+  // exclusion counts against a candidate when another candidate sits where the note sends the
+  // goods, and then as a penalty rather than an elimination
+  const redirects: Array<{ prefixes: string[]; reference: string }> = [];
+  for (const note of (notes || []) as LegalNote[]) {
+    if (!matchesTerms(productText, note.match_terms)) continue;
+    const reference = formatNoteReference(note);
+    const hasTarget = note.note_type === 'exclusion' && ruled.some(c => startsWithAny(c.code, note.redirect_to));
+
+    for (const candidate of ruled) {
+      if (!note.chapters.includes(getChapter(candidate.code))) continue;
+
+      if (note.note_type === 'exclusion' && !startsWithAny(candidate.code, note.redirect_to)) {
+        if (hasTarget) {
+          candidate.excluded = true;
+          candidate.confidence = Math.max(candidate.confidence - EXCLUSION_PENALTY, 0);
+          addDecision(candidate, { rule: 'GRI 1', decision: 'DEMOTED', reference, text: note.note_text });
+        } else {
+          addDecision(candidate, {
+            rule: 'GRI 1',
+            decision: 'NOTED',
+            reference,
+            text: `${note.note_text}. Confirm the goods are not of that kind`
+          });
+        }
+      } else if (note.note_type === 'inclusion') {
+        candidate.confidence = Math.min(candidate.confidence + 5, 98);
+        addDecision(candidate, { rule: 'GRI 1', decision: 'PROMOTED', reference, text: note.note_text });
+      }
+    }
+
+    if (hasTarget) {
+      redirects.push({ prefixes: note.redirect_to, reference });
+    }
+  }
+
+  const eligible = () => ruled.filter(c => !c.excluded);
+
+  // Candidates in the chapter or heading an exclusion points to
+  for (const redirect of redirects) {
+    for (const candidate of eligible()) {
+      if (startsWithAny(candidate.code, redirect.prefixes)) {
+        candidate.confidence = Math.min(candidate.confidence + 10, 98);
+        addDecision(candidate, {
+          rule: 'GRI 1',
+          decision: 'PROMOTED',
+          reference: redirect.reference,
+          text: `Goods excluded elsewhere by ${redirect.reference} belong here`
+        });
+      }
+    }
+  }
+
+  // GRI 2(a): incomplete, unfinished or unassembled articles take the classification of the complete article
+  if (/\b(unassembled|disassembled|incomplete|unfinished|kit|knocked down)\b/.test(productText)) {
+    for (const candidate of eligible()) {
+      addDecision(candidate, {
+        rule: 'GRI 2(a)',
+        decision: 'NOTED',
+        text: 'Incomplete or unassembled articles are classified as the complete article if they have its essential character'
+      });
+    }
+  }
+
+  // GRI 2(b) / 3(b): goods of several materials take their essential character from the predominant
+  // one. The order materials are listed in says nothing about that, so only stated shares decide it
+  const materials = parseMaterials(request.materials || '');
+  if (materials.length > 1) {
+    const predominant = findPredominantMaterial(materials);
+    for (const candidate of eligible()) {
+      const text = `${candidate.description} ${candidate.category || ''}`.toLowerCase();
+      const described = materials.filter(m => text.includes(m.name));
+      if (described.length === 0) continue;
+
+      if (!predominant) {
+        addDecision(candidate, {
+          rule: 'GRI 3(b)',
+          decision: 'NOTED',
+          text: `Goods of several materials (${materials.map(m => m.name).join(', ')}); confirm which gives the essential character`
+        });
+      } else if (described.some(m => m.name === predominant.name)) {
+        candidate.confidence = Math.min(candidate.confidence + 3, 98);
+        addDecision(candidate, {
+          rule: 'GRI 3(b)',
+          decision: 'PROMOTED',
+          text: `Essential character given by the predominant material (${predominant.name}, ${predominant.share}%)`
+        });
+      } else {
+        candidate.confidence = Math.max(candidate.confidence - 5, 0);
+        addDecision(candidate, {
+          rule: 'GRI 3(b)',
+          decision: 'DEMOTED',
+          text: `Describes a secondary material; ${predominant.name} predominates at ${predominant.share}%`
+        });
+      }
+    }
+  }
+
+  // GRI 3(a) / GRI 6: the most specific description is preferred to a residual "Other" line
+  const specific = eligible().filter(c => !isResidualDescription(c.description));
+  for (const candidate of eligible().filter(c => isResidualDescription(c.description))) {
+    const sameHeading = specific.some(c => getHeading(c.code) === getHeading(candidate.code));
+    if (specific.length > 0) {
+      candidate.confidence = Math.max(candidate.confidence - 5, 0);
+      addDecision(candidate, {
+        rule: sameHeading ? 'GRI 6' : 'GRI 3(a)',
+        decision: 'DEMOTED',
+        text: sameHeading
+          ? 'A more specific subheading of the same heading describes the goods'
+          : 'A heading with a more specific description is preferred to a residual provision'
+      });
+    }
+  }
+
+  // GRI 5(a): cases presented with the articles they hold are classified with those articles
+  if (/\b(comes with|includes|including|with)\s+(a\s+)?(carrying\s+|storage\s+)?(case|pouch)\b/.test(productText)) {
+    for (const candidate of eligible().filter(c => getHeading(c.code) === '4202')) {
+      candidate.confidence = Math.max(candidate.confidence - 10, 0);
+      addDecision(candidate, {
+        rule: 'GRI 5(a)',
+        decision: 'DEMOTED',
+        text: 'Cases presented with the articles they are designed for are classified with those articles'
+      });
+    }
+  }
+
+  const sorted = [...ruled].sort((a, b) => b.confidence - a.confidence);
+
+  // GRI 3(c): when two headings equally merit consideration, the one last in numerical order wins
+  const [first, second] = sorted;
+  if (first && second && !first.excluded && !second.excluded &&
+      first.confidence - second.confidence <= 2 &&
+      getHeading(first.code) !== getHeading(second.code) &&
+      second.code.replace(/\./g, '') > first.code.replace(/\./g, '')) {
+    second.confidence = Math.min(first.confidence + 1, 99);
+    addDecision(second, {
+      rule: 'GRI 3(c)',
+      decision: 'PROMOTED',
+      text: 'Equally merits consideration with a lower heading; the heading last in numerical order is taken'
+    });
+    sorted[0] = second;
+    sorted[1] = first;
+  }
+
+  // GRI 4: nothing specific applies, so the goods go with those they are most akin to
+  const remaining = sorted.filter(c => !c.excluded);
+  if (remaining.length > 0 && remaining.every(c => isResidualDescription(c.description))) {
+    addDecision(remaining[0], {
+      rule: 'GRI 4',
+      decision: 'NOTED',
+      text: 'No heading specifically describes the goods; classified with the goods to which they are most akin'
+    });
+  }
+
+  return sorted;
+}
+
+function addDecision(candidate: PredictionCandidate, decision: RuleDecision) {
+  candidate.ruleDecisions = [...(candidate.ruleDecisions || []), decision];
+  const source = decision.reference ? `${decision.rule}, ${decision.reference}` : decision.rule;
+  const verb = {
+    ELIMINATED: 'Excluded',
+    DEMOTED: 'Demoted',
+    PROMOTED: 'Supported',
+    NOTED: 'Note'
+  }[decision.decision];
+  candidate.reasoning = `${candidate.reasoning}. ${verb} (${source}): ${decision.text}`;
+}
+
+function formatNoteReference(note: LegalNote): string {
+  return note.scope === 'section'
+    ? `Section ${note.section} Note ${note.note_number}`
+    : `Chapter ${note.chapter} Note ${note.note_number}`;
+}
+
+// "60% cotton, 40% polyester" -> [{ name: 'cotton', share: 60 }, { name: 'polyester', share: 40 }]
+function parseMaterials(materials: string): Array<{ name: string; share?: number }> {
+  return materials
+    .toLowerCase()
+    .split(/,|;|\/|&|\band\b/)
+    .map(part => {
+      const share = part.match(/(\d+(?:\.\d+)?)\s*%/);
+      return {
+        name: part.replace(/\d+(?:\.\d+)?\s*%|[0-9]/g, '').trim(),
+        share: share ? parseFloat(share[1]) : undefined
+      };
+    })
+    .filter(m => m.name.length > 2);
+}
+
+// The material with the largest stated share, when every material has one and no other ties it
+function findPredominantMaterial(materials: Array<{ name: string; share?: number }>): { name: string; share: number } | null {
+  if (materials.some(m => m.share === undefined)) return null;
+  const [first, second] = [...materials].sort((a, b) => b.share! - a.share!);
+  return first.share! > second.share! ? { name: first.name, share: first.share! } : null;
+}
+
+function matchesTerms(text: string, terms: string[]): boolean {
+  return terms.some(term => {
+    const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`).test(text);
+  });
+}
+
+function startsWithAny(code: string, prefixes: string[]): boolean {
+  const clean = code.replace(/\./g, '');
+  return prefixes.some(prefix => clean.startsWith(prefix));
+}
+
+function isResidualDescription(description: string): boolean {
+  return /^other\b/i.test(description.trim());
+}
+
+function getChapter(code: string): string {
+  return code.replace(/\./g, '').substring(0, 2);
+}
+
+function getHeading(code: string): string {
+  return code.replace(/\./g, '').substring(0, 4);
+}
+
+function calculateOverallConfidence(
+  candidates: PredictionCandidate[],
+  calibrationCurve: CalibrationPoint[] = []
+): { confidence_score: number; raw_confidence_score: number } {
+  if (candidates.length === 0) return { confidence_score: 0, raw_confidence_score: 0 };
   
   const topCandidate = candidates[0];
   const hasOfficialMatch = candidates.some(c => c.isOfficialMatch);
@@ -384,16 +762,68 @@ function calculateOverallConfidence(candidates: PredictionCandidate[]): number {
     overallConfidence = Math.max(overallConfidence - 15, 0);
   }
 
-  return Math.round(overallConfidence);
+  // Map the heuristic score onto the accuracy observed for it in user feedback
+  return {
+    confidence_score: Math.round(applyCalibration(overallConfidence, calibrationCurve)),
+    raw_confidence_score: Math.round(overallConfidence)
+  };
+}
+
+async function getCalibrationCurve(): Promise<CalibrationPoint[]> {
+  const { data, error } = await supabase
+    .from('confidence_calibrations')
+    .select('mean_raw_confidence, calibrated_confidence')
+    .eq('model_version', MODEL_VERSION)
+    .order('bucket_lower');
+
+  if (error) {
+    console.error('Error loading calibration curve, using raw confidence:', error);
+    return [];
+  }
+
+  return (data || []).map((point: CalibrationPoint) => ({
+    mean_raw_confidence: Number(point.mean_raw_confidence),
+    calibrated_confidence: Number(point.calibrated_confidence)
+  }));
+}
+
+// Piecewise-linear interpolation between bucket means; outside the fitted range
+// the nearest bucket's offset is kept. Without a curve the raw score is returned.
+function applyCalibration(raw: number, curve: CalibrationPoint[]): number {
+  if (curve.length === 0) return raw;
+
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  let calibrated: number;
+
+  if (raw <= first.mean_raw_confidence) {
+    calibrated = raw + (first.calibrated_confidence - first.mean_raw_confidence);
+  } else if (raw >= last.mean_raw_confidence) {
+    calibrated = raw + (last.calibrated_confidence - last.mean_raw_confidence);
+  } else {
+    const upperIndex = curve.findIndex(point => point.mean_raw_confidence >= raw);
+    const lower = curve[upperIndex - 1];
+    const upper = curve[upperIndex];
+    const position = (raw - lower.mean_raw_confidence) / (upper.mean_raw_confidence - lower.mean_raw_confidence);
+    calibrated = lower.calibrated_confidence + position * (upper.calibrated_confidence - lower.calibrated_confidence);
+  }
+
+  return Math.min(Math.max(calibrated, 0), 99);
 }
 
 function determineHumanReviewNeed(
   candidates: PredictionCandidate[], 
   confidence: number, 
-  request: PredictionRequest
+  request: PredictionRequest,
+  leaderExcluded: boolean = false
 ): { needs_human_review: boolean; review_reason?: string } {
   const reasons: string[] = [];
 
+  // A legal note sends the best semantic match (or the final leader) to another candidate's chapter
+  if (leaderExcluded) {
+    reasons.push('Leading candidate demoted by a section or chapter note');
+  }
+
   // Low confidence threshold
   if (confidence < 70) {
     reasons.push('Low confidence prediction');
@@ -0,0 +1,316 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+// The currencies CBP certifies, keyed by the country it lists them under
+const CERTIFIED_CURRENCIES: Record<string, string> = {
+  'AUSTRALIA': 'AUD',
+  'BRAZIL': 'BRL',
+  'CANADA': 'CAD',
+  'CHINA': 'CNY',
+  'P.R. CHINA': 'CNY',
+  'DENMARK': 'DKK',
+  'EURO AREA': 'EUR',
+  'EUROPEAN MONETARY UNION': 'EUR',
+  'HONG KONG': 'HKD',
+  'INDIA': 'INR',
+  'JAPAN': 'JPY',
+  'MALAYSIA': 'MYR',
+  'MEXICO': 'MXN',
+  'NEW ZEALAND': 'NZD',
+  'NORWAY': 'NOK',
+  'SINGAPORE': 'SGD',
+  'SOUTH AFRICA': 'ZAR',
+  'SOUTH KOREA': 'KRW',
+  'KOREA': 'KRW',
+  'SRI LANKA': 'LKR',
+  'SWEDEN': 'SEK',
+  'SWITZERLAND': 'CHF',
+  'TAIWAN': 'TWD',
+  'THAILAND': 'THB',
+  'UNITED KINGDOM': 'GBP',
+  'VENEZUELA': 'VES'
+};
+
+interface ImportRequest {
+  format?: 'json' | 'csv';
+  content?: string | RateInput[];
+  sourceUrl?: string;
+  quarterStart?: string; // First day of the quarter the file certifies, e.g. 2025-10-01
+}
+
+// One line of the certified rates file; a line with a date is a daily rate for that day
+interface RateInput {
+  currency_code?: string;
+  currency_name?: string;
+  country?: string;
+  rate: string | number;
+  date?: string;
+  usd_per_unit?: boolean;
+}
+
+interface RateRow {
+  currency_code: string;
+  currency_name: string | null;
+  country: string | null;
+  rate: number;
+  rate_type: 'QUARTERLY' | 'DAILY';
+  effective_from: string;
+  effective_to: string;
+  source_url: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Rates are reference data for every user, so only the service role may load them
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || authHeader.split(' ')[1] !== supabaseServiceKey) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: loading exchange rates requires the service role key'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { format, content, sourceUrl, quarterStart }: ImportRequest = await req.json();
+
+    if (!content && !sourceUrl) {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid request: content or sourceUrl is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (quarterStart && !isQuarterStart(quarterStart)) {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid request: quarterStart must be the first day of a quarter' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rawContent = content ?? await fetchRates(sourceUrl!);
+    let rows: RateRow[];
+    try {
+      rows = parseRates(rawContent, format).map((input, index) => toRateRow(input, index, quarterStart, sourceUrl));
+    } catch (error) {
+      return new Response(JSON.stringify({ success: false, error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (rows.length === 0) {
+      throw new Error('The file did not contain any rates');
+    }
+
+    console.log(`Loading ${rows.length} certified exchange rates`);
+
+    // One statement, so a file loads completely or not at all; reloading a quarter corrects its rates
+    const { error: upsertError } = await supabase
+      .from('exchange_rates')
+      .upsert(rows, { onConflict: 'currency_code,rate_type,effective_from' });
+
+    if (upsertError) {
+      console.error('Error loading exchange rates:', upsertError);
+      throw new Error('Failed to load exchange rates');
+    }
+
+    const summary = {
+      rates: rows.length,
+      currencies: [...new Set(rows.map(row => row.currency_code))].sort(),
+      quarterly: rows.filter(row => row.rate_type === 'QUARTERLY').length,
+      daily: rows.filter(row => row.rate_type === 'DAILY').length
+    };
+
+    console.log('Exchange rate import completed:', summary);
+
+    return new Response(JSON.stringify({ success: true, summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in exchange rate import:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message || 'Failed to import exchange rates'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function fetchRates(sourceUrl: string): Promise<string> {
+  const response = await fetch(sourceUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download the rates (${response.status})`);
+  }
+  return await response.text();
+}
+
+function parseRates(content: string | RateInput[], format?: 'json' | 'csv'): RateInput[] {
+  if (Array.isArray(content)) {
+    return content;
+  }
+
+  const trimmed = content.trim();
+  const isJson = format ? format === 'json' : trimmed.startsWith('[');
+
+  if (isJson) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON rates must be an array');
+    }
+    return parsed;
+  }
+
+  // CBP lists each rate as Country, Currency, Rate; an optional Date column marks daily rates
+  const records = parseCSVRecords(trimmed);
+  if (records.length < 2) return [];
+
+  const headers = records[0].map(normalizeHeader);
+  const rateColumn = headers.findIndex(h => h === 'rate' || h.startsWith('rate_') || h.endsWith('_rate') || h === 'usd_per_unit');
+  if (rateColumn < 0) {
+    throw new Error('The file needs a Rate column');
+  }
+  const usdPerUnit = /usd_per|dollars_per/.test(headers[rateColumn]);
+
+  return records.slice(1)
+    .filter(values => values.some(v => v.trim().length > 0))
+    .map(values => {
+      const field = (...names: string[]) => {
+        const index = headers.findIndex(h => names.includes(h));
+        return index >= 0 ? (values[index] || '').trim() || undefined : undefined;
+      };
+      return {
+        currency_code: field('code', 'currency_code', 'iso_code'),
+        currency_name: field('currency', 'currency_name', 'unit'),
+        country: field('country'),
+        rate: (values[rateColumn] || '').trim(),
+        date: field('date', 'effective_date'),
+        usd_per_unit: usdPerUnit
+      };
+    });
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function toRateRow(input: RateInput, index: number, quarterStart?: string, sourceUrl?: string): RateRow {
+  const line = `Row ${index + 1}`;
+  const code = (input.currency_code || CERTIFIED_CURRENCIES[(input.country || '').trim().toUpperCase()] || '').toUpperCase();
+
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new Error(`${line}: no currency code, and ${input.country || 'the country'} is not a currency CBP certifies`);
+  }
+
+  const published = typeof input.rate === 'number' ? input.rate : parseFloat(String(input.rate).replace(/,/g, ''));
+  if (!isFinite(published) || published <= 0) {
+    throw new Error(`${line}: ${code} has no valid rate`);
+  }
+
+  // Stored as units of the currency per US dollar
+  const rate = input.usd_per_unit ? 1 / published : published;
+
+  let rateType: 'QUARTERLY' | 'DAILY';
+  let effectiveFrom: string;
+  let effectiveTo: string;
+  if (input.date) {
+    if (!isDate(input.date)) {
+      throw new Error(`${line}: ${input.date} is not an ISO date`);
+    }
+    rateType = 'DAILY';
+    effectiveFrom = input.date;
+    effectiveTo = input.date;
+  } else {
+    if (!quarterStart) {
+      throw new Error(`${line}: a quarterly rate needs quarterStart in the request`);
+    }
+    rateType = 'QUARTERLY';
+    effectiveFrom = quarterStart;
+    effectiveTo = quarterEnd(quarterStart);
+  }
+
+  return {
+    currency_code: code,
+    currency_name: input.currency_name || null,
+    country: input.country || null,
+    rate: Math.round(rate * 1e6) / 1e6,
+    rate_type: rateType,
+    effective_from: effectiveFrom,
+    effective_to: effectiveTo,
+    source_url: sourceUrl || null
+  };
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+function isQuarterStart(value: string): boolean {
+  return isDate(value) && /-(01|04|07|10)-01$/.test(value);
+}
+
+function quarterEnd(quarterStart: string): string {
+  const start = new Date(`${quarterStart}T00:00:00Z`);
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 3, 0));
+  return end.toISOString().slice(0, 10);
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and line breaks
+function parseCSVRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
@@ -11,6 +11,9 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
 
+const FEEDBACK_VALUES = ['correct', 'incorrect', 'needs_review'];
+const MAX_COMMENT_LENGTH = 2000;
+
 interface FeedbackRequest {
   prediction_id: string;
   user_feedback: 'correct' | 'incorrect' | 'needs_review';
@@ -24,27 +27,78 @@ serve(async (req) => {
   }
 
   try {
+    // Extract and verify JWT token
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized: Missing or invalid authorization header' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.split(' ')[1]);
+    if (authError || !user) {
+      console.error('Authentication error:', authError);
+      return new Response(JSON.stringify({ error: 'Unauthorized: Invalid token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     const { prediction_id, user_feedback, selected_code, user_comments }: FeedbackRequest = await req.json();
+
+    // Validate input
+    if (!prediction_id || typeof prediction_id !== 'string') {
+      return new Response(JSON.stringify({ error: 'Invalid request: prediction_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!FEEDBACK_VALUES.includes(user_feedback)) {
+      return new Response(JSON.stringify({ error: `Invalid request: user_feedback must be one of ${FEEDBACK_VALUES.join(', ')}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (user_comments && (typeof user_comments !== 'string' || user_comments.length > MAX_COMMENT_LENGTH)) {
+      return new Response(JSON.stringify({ error: `Invalid request: user_comments must be text of at most ${MAX_COMMENT_LENGTH} characters` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     
-    console.log('Feedback submission:', { prediction_id, user_feedback, selected_code });
+    console.log('Feedback submission:', { prediction_id, user_feedback, selected_code, has_comments: !!user_comments });
 
-    // Update the prediction record with user feedback
-    const { error: updateError } = await supabase
+    // Update the prediction record with user feedback; users may only rate their own predictions
+    const { data: updated, error: updateError } = await supabase
       .from('hts_predictions')
       .update({
         user_feedback,
-        selected_code,
+        selected_code: selected_code || null,
+        user_comments: user_comments?.trim() || null,
+        feedback_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
-      .eq('id', prediction_id);
+      .eq('id', prediction_id)
+      .eq('user_id', user.id)
+      .select('id, model_version');
 
     if (updateError) {
       console.error('Error updating prediction feedback:', updateError);
       throw new Error('Failed to save feedback');
     }
 
-    // Calculate accuracy metrics for calibration
-    const accuracyMetrics = await calculateAccuracyMetrics();
+    if (!updated || updated.length === 0) {
+      return new Response(JSON.stringify({ error: 'Prediction not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Refit the calibration curve of the model that made this prediction
+    const accuracyMetrics = await recalibrateConfidence(updated[0].model_version);
     
     console.log('Feedback saved successfully. Current accuracy metrics:', accuracyMetrics);
 
@@ -67,73 +121,29 @@ serve(async (req) => {
   }
 });
 
-async function calculateAccuracyMetrics() {
+async function recalibrateConfidence(modelVersion: string | null) {
+  // Predictions stored before model versions were recorded cannot be calibrated
+  if (!modelVersion) return null;
+
   try {
-    // Get all predictions with feedback
-    const { data: predictions, error } = await supabase
-      .from('hts_predictions')
-      .select('confidence_score, user_feedback, predicted_codes, selected_code')
-      .not('user_feedback', 'is', null)
-      .order('created_at', { ascending: false })
-      .limit(1000);
+    const response = await fetch(`${supabaseUrl}/functions/v1/confidence-calibration`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`
+      },
+      body: JSON.stringify({ action: 'recalibrate', modelVersion })
+    });
 
-    if (error) {
-      console.error('Error fetching predictions for metrics:', error);
+    if (!response.ok) {
+      console.error('Recalibration failed:', await response.text());
       return null;
     }
 
-    if (!predictions || predictions.length === 0) {
-      return {
-        total_predictions: 0,
-        accuracy: 0,
-        confidence_calibration: {}
-      };
-    }
-
-    let correctPredictions = 0;
-    const confidenceBuckets: { [key: string]: { correct: number; total: number } } = {};
-
-    for (const prediction of predictions) {
-      const isCorrect = prediction.user_feedback === 'correct' || 
-                       (prediction.selected_code && 
-                        prediction.predicted_codes?.[0]?.code === prediction.selected_code);
-      
-      if (isCorrect) {
-        correctPredictions++;
-      }
-
-      // Group by confidence ranges for calibration
-      const confidence = prediction.confidence_score || 0;
-      const bucket = Math.floor(confidence / 10) * 10; // 0-9, 10-19, etc.
-      const bucketKey = `${bucket}-${bucket + 9}`;
-      
-      if (!confidenceBuckets[bucketKey]) {
-        confidenceBuckets[bucketKey] = { correct: 0, total: 0 };
-      }
-      
-      confidenceBuckets[bucketKey].total++;
-      if (isCorrect) {
-        confidenceBuckets[bucketKey].correct++;
-      }
-    }
-
-    const accuracy = (correctPredictions / predictions.length) * 100;
-    
-    // Calculate calibration (how well confidence scores match actual accuracy)
-    const calibration: { [key: string]: number } = {};
-    for (const [bucket, stats] of Object.entries(confidenceBuckets)) {
-      calibration[bucket] = (stats.correct / stats.total) * 100;
-    }
-
-    return {
-      total_predictions: predictions.length,
-      accuracy: Math.round(accuracy * 100) / 100,
-      confidence_calibration: calibration,
-      last_updated: new Date().toISOString()
-    };
-
+    const result = await response.json();
+    return result.data?.[0] || null;
   } catch (error) {
-    console.error('Error calculating accuracy metrics:', error);
+    console.error('Error recalibrating confidence:', error);
     return null;
   }
-}
\ No newline at end of file
+}
@@ -7,14 +7,20 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
 interface HTSChange {
   id: string;
   hsCode: string;
   changeType: 'NEW' | 'MODIFIED' | 'DELETED' | 'RATE_CHANGE' | 'DESCRIPTION_CHANGE';
+  field?: string;
   oldValue?: string;
   newValue?: string;
   effectiveDate: string;
   revision: string;
+  fromRevision?: string;
   description: string;
   impact: 'LOW' | 'MEDIUM' | 'HIGH';
   category?: string;
@@ -23,16 +29,124 @@ interface HTSChange {
   officialUrl?: string;
 }
 
+interface HTSChangeRow {
+  id: string;
+  hts_code: string;
+  htsno: string | null;
+  change_type: HTSChange['changeType'];
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  description: string;
+  impact: HTSChange['impact'];
+  chapter: string;
+  from_revision: string | null;
+  revision: string;
+  effective_date: string;
+  source: string;
+}
+
+type SubscriptionScope = 'CODE' | 'SECTION' | 'PRODUCT_LIBRARY';
+
+interface HTSSubscription {
+  id: string;
+  userId: string;
+  hsCode: string;
+  scope: SubscriptionScope;
+  chapters?: string[];
+  notificationTypes: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface HTSSubscriptionRow {
+  id: string;
+  user_id: string;
+  hs_code: string;
+  scope: SubscriptionScope;
+  chapters: string[] | null;
+  notification_types: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ChangeNotification {
+  id: string;
+  userId: string;
+  changeId: string;
+  isRead: boolean;
+  createdAt: string;
+  change: HTSChange;
+}
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  change_id: string;
+  is_read: boolean;
+  created_at: string;
+  change: HTSChangeRow;
+}
+
+class RequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+const MAX_CHANGES = 500;
+const MAX_NOTIFICATIONS = 100;
+// Feed clients are asked to refresh this often
+const FEED_REFRESH_SECONDS = 6 * 60 * 60;
+// notificationTypes may combine change types and impact levels
+const NOTIFICATION_TYPES = ['ALL', 'NEW', 'MODIFIED', 'DELETED', 'RATE_CHANGE', 'DESCRIPTION_CHANGE', 'LOW', 'MEDIUM', 'HIGH'];
+
+// Chapters in each section of the HTS
+const HTS_SECTIONS: Record<string, [number, number]> = {
+  I: [1, 5], II: [6, 14], III: [15, 15], IV: [16, 24], V: [25, 27], VI: [28, 38],
+  VII: [39, 40], VIII: [41, 43], IX: [44, 46], X: [47, 49], XI: [50, 63], XII: [64, 67],
+  XIII: [68, 70], XIV: [71, 71], XV: [72, 83], XVI: [84, 85], XVII: [86, 89], XVIII: [90, 92],
+  XIX: [93, 93], XX: [94, 96], XXI: [97, 97], XXII: [98, 99]
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { action, limit, hsCodes, hsCode, notificationTypes, notificationId, unreadOnly } = await req.json();
+    // Feed readers and calendar apps fetch feeds with GET, identified by the token in the URL
+    if (req.method === 'GET') {
+      return await serveFeed(new URL(req.url));
+    }
+
+    const { action, limit, hsCodes, hsCode, notificationTypes, notificationId, unreadOnly, fromRevision, toRevision, rotate } = await req.json();
     
     console.log(`HTS change tracker request: ${action}`);
 
+    const authHeader = req.headers.get('Authorization');
+    const token = authHeader?.split(' ')[1];
+
+    // Diffing rewrites the shared change feed, so only the service role may run it
+    if (action === 'diff-revisions') {
+      if (token !== supabaseServiceKey) {
+        throw new RequestError('Unauthorized: diffing revisions requires the service role key', 401);
+      }
+
+      return jsonResponse({ success: true, ...await diffRevisions(fromRevision, toRevision) });
+    }
+
+    if (!token) {
+      throw new RequestError('Unauthorized', 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      throw new RequestError('Unauthorized', 401);
+    }
+
     let result;
     
     switch (action) {
@@ -43,236 +157,576 @@ serve(async (req) => {
         result = await getChangesForCodes(hsCodes);
         break;
       case 'subscribe':
-        result = await subscribeToChanges(hsCode, notificationTypes);
+        result = await subscribeToChanges(user.id, hsCode, notificationTypes);
         break;
       case 'unsubscribe':
-        result = await unsubscribeFromChanges(hsCode);
+        result = await unsubscribeFromChanges(user.id, hsCode);
         break;
       case 'get-subscriptions':
-        result = await getUserSubscriptions();
+        result = await getUserSubscriptions(user.id);
         break;
       case 'get-notifications':
-        result = await getUserNotifications(unreadOnly);
+        result = await getUserNotifications(user.id, unreadOnly);
         break;
       case 'mark-read':
-        result = await markNotificationAsRead(notificationId);
+        result = await markNotificationAsRead(user.id, notificationId);
+        break;
+      case 'get-feed-links':
+        result = await getFeedLinks(user.id, rotate);
         break;
       default:
-        throw new Error('Invalid action');
+        throw new RequestError('Invalid action');
     }
     
-    return new Response(
-      JSON.stringify({
-        success: true,
-        ...result
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    );
+    return jsonResponse({
+      success: true,
+      ...result
+    });
     
   } catch (error) {
     console.error('Error in HTS change tracker:', error);
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || 'Failed to process HTS change tracking request'
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      }
-    );
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Failed to process HTS change tracking request'
+    }, error instanceof RequestError ? error.status : 500);
   }
 });
 
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
 async function getRecentChanges(limit: number): Promise<{ changes: HTSChange[] }> {
   console.log(`Getting ${limit} recent HTS changes`);
-  
-  // Generate realistic HTS changes based on 2025 Revision 19
-  const changes: HTSChange[] = [
-    {
-      id: '1',
-      hsCode: '8215.20.0000',
-      changeType: 'RATE_CHANGE',
-      oldValue: '3.7%',
-      newValue: 'Free',
-      effectiveDate: '2025-01-01',
-      revision: '2025 Revision 19',
-      description: 'Tariff rate elimination for stainless steel kitchen utensils',
-      impact: 'HIGH',
-      category: 'Kitchenware',
-      chapter: '82',
-      source: 'USITC HTS 2025 Revision 19',
-      officialUrl: 'https://hts.usitc.gov/'
-    },
-    {
-      id: '2',
-      hsCode: '3923.30.0080',
-      changeType: 'DESCRIPTION_CHANGE',
-      oldValue: 'Plastic containers',
-      newValue: 'Plastic containers and bottles for retail packaging',
-      effectiveDate: '2025-01-01',
-      revision: '2025 Revision 19',
-      description: 'Clarification of scope for plastic retail containers',
-      impact: 'MEDIUM',
-      category: 'Plastics',
-      chapter: '39',
-      source: 'USITC HTS 2025 Revision 19',
-      officialUrl: 'https://hts.usitc.gov/'
-    },
-    {
-      id: '3',
-      hsCode: '9903.88.15',
-      changeType: 'NEW',
-      newValue: 'Additional duties on certain Chinese products',
-      effectiveDate: '2025-02-01',
-      revision: '2025 Revision 19',
-      description: 'New tariff classification for China trade measures',
-      impact: 'HIGH',
-      category: 'Trade Measures',
-      chapter: '99',
-      source: 'USITC HTS 2025 Revision 19',
-      officialUrl: 'https://hts.usitc.gov/'
-    },
-    {
-      id: '4',
-      hsCode: '6205.20.2020',
-      changeType: 'RATE_CHANGE',
-      oldValue: '16.5%',
-      newValue: '15.8%',
-      effectiveDate: '2025-01-15',
-      revision: '2025 Revision 19',
-      description: 'Reduction in tariff rate for cotton shirts',
-      impact: 'MEDIUM',
-      category: 'Textiles',
-      chapter: '62',
-      source: 'USITC HTS 2025 Revision 19',
-      officialUrl: 'https://hts.usitc.gov/'
-    },
-    {
-      id: '5',
-      hsCode: '8479.89.9400',
-      changeType: 'MODIFIED',
-      oldValue: 'Industrial robots and automated machinery',
-      newValue: 'Industrial robots, automated machinery and AI-enabled equipment',
-      effectiveDate: '2025-03-01',
-      revision: '2025 Revision 19',
-      description: 'Updated classification to include AI-enabled industrial equipment',
-      impact: 'MEDIUM',
-      category: 'Machinery',
-      chapter: '84',
-      source: 'USITC HTS 2025 Revision 19',
-      officialUrl: 'https://hts.usitc.gov/'
-    }
-  ];
-  
-  return { changes: changes.slice(0, limit) };
+
+  const { data, error } = await supabase
+    .from('hts_changes')
+    .select('*')
+    .order('effective_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(Number(limit) || 50, 1), MAX_CHANGES));
+
+  if (error) {
+    console.error('Error loading HTS changes:', error);
+    throw new Error('Failed to load HTS changes');
+  }
+
+  return { changes: (data || []).map(toHTSChange) };
 }
 
 async function getChangesForCodes(hsCodes: string[]): Promise<{ changes: HTSChange[] }> {
   console.log(`Getting changes for codes:`, hsCodes);
-  
-  const allChanges = await getRecentChanges(100);
-  const filteredChanges = allChanges.changes.filter(change => 
-    hsCodes.some(code => 
-      change.hsCode.startsWith(code.replace(/\./g, '')) || 
-      code.replace(/\./g, '').startsWith(change.hsCode)
-    )
-  );
-  
-  return { changes: filteredChanges };
+
+  if (!Array.isArray(hsCodes)) {
+    throw new RequestError('Invalid request: hsCodes must be an array');
+  }
+
+  const codes = [...new Set(hsCodes.map(code => String(code).replace(/\D/g, '')).filter(code => code.length >= 2))];
+  if (codes.length === 0) {
+    return { changes: [] };
+  }
+
+  // A change applies to a code when either is a prefix of the other: a heading change
+  // affects every line under it, and a new statistical suffix belongs to its subheading
+  const filters = codes.flatMap(code => {
+    const parents = [2, 4, 6, 8].filter(length => length < code.length).map(length => code.substring(0, length));
+    return [`hts_code.like.${code}%`, ...(parents.length ? [`hts_code.in.(${parents.join(',')})`] : [])];
+  });
+
+  const { data, error } = await supabase
+    .from('hts_changes')
+    .select('*')
+    .or(filters.join(','))
+    .order('effective_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(MAX_CHANGES);
+
+  if (error) {
+    console.error('Error loading HTS changes for codes:', error);
+    throw new Error('Failed to load HTS changes');
+  }
+
+  return { changes: (data || []).map(toHTSChange) };
 }
 
-async function subscribeToChanges(hsCode: string, notificationTypes: string[]): Promise<{ success: boolean }> {
-  console.log(`Subscribing to changes for ${hsCode}`, notificationTypes);
-  
-  // In a real implementation, you would store this in the database
-  // For now, we'll simulate successful subscription
-  return { success: true };
+// Compare two loaded revisions; defaults to the latest revision against the one before it
+async function diffRevisions(fromRevision?: string, toRevision?: string) {
+  const { data: revisions, error } = await supabase
+    .from('hts_revisions')
+    .select('revision, effective_date')
+    .order('effective_date', { ascending: false });
+
+  if (error) {
+    console.error('Error loading HTS revisions:', error);
+    throw new Error('Failed to load HTS revisions');
+  }
+
+  const newRevision = toRevision || revisions?.[0]?.revision;
+  const newIndex = (revisions || []).findIndex(r => r.revision === newRevision);
+  if (!newRevision || newIndex === -1) {
+    throw new RequestError(newRevision ? `HTS revision "${newRevision}" is not loaded` : 'No HTS revision loaded', 404);
+  }
+
+  const oldRevision = fromRevision || revisions?.[newIndex + 1]?.revision;
+  if (!oldRevision) {
+    throw new RequestError(`No earlier revision loaded to compare with "${newRevision}"`, 404);
+  }
+  if (oldRevision === newRevision) {
+    throw new RequestError('Invalid request: fromRevision and toRevision must differ');
+  }
+
+  console.log(`Diffing HTS revisions ${oldRevision} -> ${newRevision}`);
+
+  const { data, error: diffError } = await supabase.rpc('diff_hts_revisions', {
+    old_revision: oldRevision,
+    new_revision: newRevision
+  });
+
+  if (diffError) {
+    console.error('Error diffing HTS revisions:', diffError);
+    throw new RequestError(diffError.message || 'Failed to diff HTS revisions', 500);
+  }
+
+  return { diff: data };
+}
+
+function toHTSChange(row: HTSChangeRow): HTSChange {
+  return {
+    id: row.id,
+    hsCode: row.htsno || row.hts_code,
+    changeType: row.change_type,
+    field: row.field ?? undefined,
+    oldValue: row.old_value ?? undefined,
+    newValue: row.new_value ?? undefined,
+    effectiveDate: row.effective_date,
+    revision: row.revision,
+    fromRevision: row.from_revision ?? undefined,
+    description: row.description,
+    impact: row.impact,
+    chapter: row.chapter,
+    source: row.source === 'CHANGE_RECORD'
+      ? `USITC Change Record, ${row.revision}`
+      : row.from_revision ? `USITC HTS ${row.from_revision} → ${row.revision}` : `USITC HTS ${row.revision}`,
+    officialUrl: 'https://hts.usitc.gov/'
+  };
+}
+
+async function subscribeToChanges(userId: string, hsCode: string, notificationTypes: string[] = ['ALL']): Promise<{ subscription: HTSSubscription }> {
+  const target = parseSubscriptionTarget(hsCode);
+
+  const types = Array.isArray(notificationTypes) && notificationTypes.length > 0 ? [...new Set(notificationTypes)] : ['ALL'];
+  const invalidTypes = types.filter(type => !NOTIFICATION_TYPES.includes(type));
+  if (invalidTypes.length > 0) {
+    throw new RequestError(`Invalid request: unknown notification types ${invalidTypes.join(', ')}`);
+  }
+
+  console.log(`Subscribing user ${userId} to changes for ${hsCode}`, types);
+
+  const { data, error } = await supabase
+    .from('hts_subscriptions')
+    .upsert({
+      user_id: userId,
+      hs_code: target.label,
+      scope: target.scope,
+      code_prefix: target.codePrefix,
+      chapters: target.chapters,
+      subscription_key: target.key,
+      notification_types: types,
+      is_active: true
+    }, { onConflict: 'user_id,subscription_key' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving HTS subscription:', error);
+    throw new Error('Failed to save subscription');
+  }
+
+  return { subscription: toSubscription(data) };
 }
 
-async function unsubscribeFromChanges(hsCode: string): Promise<{ success: boolean }> {
-  console.log(`Unsubscribing from changes for ${hsCode}`);
-  
-  // In a real implementation, you would remove from database
-  return { success: true };
+async function unsubscribeFromChanges(userId: string, hsCode: string): Promise<{ removed: number }> {
+  const target = parseSubscriptionTarget(hsCode);
+
+  console.log(`Unsubscribing user ${userId} from changes for ${hsCode}`);
+
+  // Notifications already delivered stay in the inbox; their subscription_id is cleared
+  const { data, error } = await supabase
+    .from('hts_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('subscription_key', target.key)
+    .select('id');
+
+  if (error) {
+    console.error('Error removing HTS subscription:', error);
+    throw new Error('Failed to remove subscription');
+  }
+
+  if (!data || data.length === 0) {
+    throw new RequestError(`No subscription found for ${hsCode}`, 404);
+  }
+
+  return { removed: data.length };
 }
 
-async function getUserSubscriptions(): Promise<{ subscriptions: any[] }> {
-  console.log('Getting user subscriptions');
-  
-  // Mock subscriptions data
-  const subscriptions = [
-    {
-      id: '1',
-      userId: 'user-123',
-      hsCode: '8215.20.0000',
-      notificationTypes: ['RATE_CHANGE', 'DESCRIPTION_CHANGE'],
-      isActive: true,
-      createdAt: '2024-12-01T00:00:00Z',
-      updatedAt: '2024-12-01T00:00:00Z'
-    },
-    {
-      id: '2',
-      userId: 'user-123',
-      hsCode: '3923.30.0080',
-      notificationTypes: ['ALL'],
-      isActive: true,
-      createdAt: '2024-12-01T00:00:00Z',
-      updatedAt: '2024-12-01T00:00:00Z'
+async function getUserSubscriptions(userId: string): Promise<{ subscriptions: HTSSubscription[] }> {
+  const { data, error } = await supabase
+    .from('hts_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading HTS subscriptions:', error);
+    throw new Error('Failed to load subscriptions');
+  }
+
+  return { subscriptions: (data || []).map(toSubscription) };
+}
+
+async function getUserNotifications(userId: string, unreadOnly: boolean = false): Promise<{ notifications: ChangeNotification[]; unreadCount: number }> {
+  let query = supabase
+    .from('hts_notifications')
+    .select('id, user_id, change_id, is_read, created_at, change:hts_changes(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_NOTIFICATIONS);
+
+  if (unreadOnly) {
+    query = query.eq('is_read', false);
+  }
+
+  const [{ data, error }, { count, error: countError }] = await Promise.all([
+    query,
+    supabase
+      .from('hts_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+  ]);
+
+  if (error || countError) {
+    console.error('Error loading HTS notifications:', error || countError);
+    throw new Error('Failed to load notifications');
+  }
+
+  const notifications = ((data || []) as unknown as NotificationRow[]).map(row => ({
+    id: row.id,
+    userId: row.user_id,
+    changeId: row.change_id,
+    isRead: row.is_read,
+    createdAt: row.created_at,
+    change: toHTSChange(row.change)
+  }));
+
+  return { notifications, unreadCount: count || 0 };
+}
+
+async function markNotificationAsRead(userId: string, notificationId: string): Promise<{ notificationId: string }> {
+  if (!notificationId) {
+    throw new RequestError('Invalid request: notificationId is required');
+  }
+
+  const { data, error } = await supabase
+    .from('hts_notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('Error marking notification as read:', error);
+    throw new Error('Failed to update notification');
+  }
+
+  if (!data || data.length === 0) {
+    throw new RequestError('Notification not found', 404);
+  }
+
+  return { notificationId };
+}
+
+// Feed URLs carry a per-user token; rotating it invalidates every URL handed out before
+async function getFeedLinks(userId: string, rotate: boolean = false): Promise<{ feeds: { atom: string; calendar: string } }> {
+  let token: string | undefined;
+
+  if (!rotate) {
+    const { data, error } = await supabase
+      .from('hts_feed_tokens')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading HTS feed token:', error);
+      throw new Error('Failed to load feed links');
     }
-  ];
-  
-  return { subscriptions };
+    token = data?.token;
+  }
+
+  if (!token) {
+    token = generateFeedToken();
+
+    const { error } = await supabase
+      .from('hts_feed_tokens')
+      .upsert({
+        user_id: userId,
+        token,
+        created_at: new Date().toISOString(),
+        last_used_at: null
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving HTS feed token:', error);
+      throw new Error('Failed to create feed links');
+    }
+  }
+
+  const base = `${supabaseUrl}/functions/v1/hts-change-tracker`;
+  return {
+    feeds: {
+      atom: `${base}/feed.atom?token=${token}`,
+      calendar: `${base}/calendar.ics?token=${token}`
+    }
+  };
 }
 
-async function getUserNotifications(unreadOnly: boolean = false): Promise<{ notifications: any[] }> {
-  console.log(`Getting user notifications (unread only: ${unreadOnly})`);
-  
-  // Mock notifications data
-  const notifications = [
-    {
-      id: '1',
-      userId: 'user-123',
-      changeId: '1',
-      isRead: false,
-      createdAt: '2025-01-01T10:00:00Z',
-      change: {
-        id: '1',
-        hsCode: '8215.20.0000',
-        changeType: 'RATE_CHANGE',
-        description: 'Tariff rate elimination for stainless steel kitchen utensils',
-        impact: 'HIGH'
-      }
-    },
-    {
-      id: '2',
-      userId: 'user-123',
-      changeId: '2',
-      isRead: true,
-      createdAt: '2025-01-01T09:00:00Z',
-      change: {
-        id: '2',
-        hsCode: '3923.30.0080',
-        changeType: 'DESCRIPTION_CHANGE',
-        description: 'Clarification of scope for plastic retail containers',
-        impact: 'MEDIUM'
-      }
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// GET .../hts-change-tracker/feed.atom?token=... or .../calendar.ics?token=...
+async function serveFeed(url: URL): Promise<Response> {
+  const format = url.pathname.endsWith('/feed.atom') ? 'atom' : url.pathname.endsWith('/calendar.ics') ? 'calendar' : null;
+  if (!format) {
+    throw new RequestError('Not found: request feed.atom or calendar.ics', 404);
+  }
+
+  const token = url.searchParams.get('token');
+  if (!token) {
+    throw new RequestError('Unauthorized: feed token required', 401);
+  }
+
+  const { data: feedToken, error } = await supabase
+    .from('hts_feed_tokens')
+    .select('id, user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading HTS feed token:', error);
+    throw new Error('Failed to load feed');
+  }
+
+  if (!feedToken) {
+    throw new RequestError('Unauthorized: unknown feed token', 401);
+  }
+
+  console.log(`Serving ${format} feed for user ${feedToken.user_id}`);
+
+  await supabase
+    .from('hts_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', feedToken.id);
+
+  const items = await getMatchedChanges(feedToken.user_id, format === 'calendar' ? MAX_CHANGES : MAX_NOTIFICATIONS);
+
+  return new Response(format === 'atom' ? renderAtomFeed(feedToken.id, items) : renderCalendar(feedToken.id, items), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': format === 'atom' ? 'application/atom+xml; charset=utf-8' : 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=900'
+    }
+  });
+}
+
+// The user's notified changes, newest first
+async function getMatchedChanges(userId: string, limit: number): Promise<Array<{ notifiedAt: string; change: HTSChange }>> {
+  const { data, error } = await supabase
+    .from('hts_notifications')
+    .select('created_at, change:hts_changes(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading matched HTS changes:', error);
+    throw new Error('Failed to load feed');
+  }
+
+  return ((data || []) as unknown as Array<{ created_at: string; change: HTSChangeRow }>).map(row => ({
+    notifiedAt: row.created_at,
+    change: toHTSChange(row.change)
+  }));
+}
+
+function renderAtomFeed(feedId: string, items: Array<{ notifiedAt: string; change: HTSChange }>): string {
+  const entries = items.map(({ notifiedAt, change }) => `
+  <entry>
+    <id>urn:uuid:${change.id}</id>
+    <title>${escapeXml(`${change.hsCode}: ${formatChangeType(change.changeType)} (${change.impact})`)}</title>
+    <updated>${notifiedAt}</updated>
+    <published>${notifiedAt}</published>
+    <link href="${escapeXml(change.officialUrl || 'https://hts.usitc.gov/')}"/>
+    <category term="${change.changeType}"/>
+    <category term="${change.impact}"/>
+    <summary>${escapeXml(describeChange(change))}</summary>
+  </entry>`).join('');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>urn:uuid:${feedId}</id>
+  <title>HTS changes matching your subscriptions</title>
+  <updated>${items[0]?.notifiedAt || new Date().toISOString()}</updated>
+  <author><name>HTS Change Tracker</name></author>
+  <generator>hts-change-tracker</generator>${entries}
+</feed>
+`;
+}
+
+// One all-day event per effective date listing the matched changes that take effect on it
+function renderCalendar(feedId: string, items: Array<{ notifiedAt: string; change: HTSChange }>): string {
+  const byDate = new Map<string, HTSChange[]>();
+  for (const { change } of items) {
+    byDate.set(change.effectiveDate, [...(byDate.get(change.effectiveDate) || []), change]);
+  }
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([date, changes]) => {
+      const summary = changes.length === 1
+        ? `HTS ${changes[0].hsCode}: ${formatChangeType(changes[0].changeType)} takes effect`
+        : `${changes.length} HTS changes take effect`;
+      const end = new Date(`${date}T00:00:00Z`);
+      end.setUTCDate(end.getUTCDate() + 1);
+
+      return [
+        'BEGIN:VEVENT',
+        `UID:${date}-${feedId}@hts-change-tracker`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`,
+        `DTEND;VALUE=DATE:${end.toISOString().substring(0, 10).replace(/-/g, '')}`,
+        `SUMMARY:${escapeICS(summary)}`,
+        `DESCRIPTION:${escapeICS(changes.map(change => `${change.hsCode} (${change.impact}): ${describeChange(change)}`).join('\n\n'))}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HTS Change Tracker//Effective dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:HTS effective dates',
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${FEED_REFRESH_SECONDS}S`,
+    `X-PUBLISHED-TTL:PT${FEED_REFRESH_SECONDS}S`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldICSLine).join('\r\n') + '\r\n';
+}
+
+function formatChangeType(changeType: HTSChange['changeType']): string {
+  return changeType.replace('_', ' ').toLowerCase();
+}
+
+function describeChange(change: HTSChange): string {
+  const values = change.oldValue || change.newValue
+    ? ` ${change.field ? `${change.field}: ` : ''}${change.oldValue || '—'} → ${change.newValue || '—'}.`
+    : '';
+  return `${change.description.replace(/\.?$/, '.')}${values} Effective ${change.effectiveDate} (${change.source}).`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeICS(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 lines are at most 75 octets; continuations start with a space
+function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  return [...parts, current].join('\r\n ');
+}
+
+/**
+ * Accepts an HTS code or pattern ('8471.30', '6109.*', '61*'), a section ('Section XI' or
+ * 'Section 11') or 'Product library'. Patterns match on digits, so '6109.10' and '610910'
+ * are the same subscription.
+ */
+function parseSubscriptionTarget(input: string): {
+  scope: SubscriptionScope;
+  key: string;
+  label: string;
+  codePrefix: string | null;
+  chapters: string[] | null;
+} {
+  const value = typeof input === 'string' ? input.trim() : '';
+
+  if (/^(product[\s-]*)?library$/i.test(value)) {
+    return { scope: 'PRODUCT_LIBRARY', key: 'library', label: 'Product library', codePrefix: null, chapters: null };
+  }
+
+  const sectionMatch = value.match(/^section\s+([ivxl]+|\d{1,2})$/i);
+  if (sectionMatch) {
+    const numerals = Object.keys(HTS_SECTIONS);
+    const section = /^\d+$/.test(sectionMatch[1]) ? numerals[Number(sectionMatch[1]) - 1] : sectionMatch[1].toUpperCase();
+    if (!section || !HTS_SECTIONS[section]) {
+      throw new RequestError(`Invalid request: HTS section ${sectionMatch[1]} does not exist`);
     }
-  ];
-  
-  const filtered = unreadOnly 
-    ? notifications.filter(n => !n.isRead)
-    : notifications;
-  
-  return { notifications: filtered };
+
+    const [first, last] = HTS_SECTIONS[section];
+    const chapters = Array.from({ length: last - first + 1 }, (_, i) => String(first + i).padStart(2, '0'));
+    return { scope: 'SECTION', key: `section:${section}`, label: `Section ${section}`, codePrefix: null, chapters };
+  }
+
+  if (!/^\d[\d.]*\*?$/.test(value)) {
+    throw new RequestError('Invalid request: subscribe to an HTS code or pattern (e.g. 61*, 6109.*), a section (e.g. Section XI) or "Product library"');
+  }
+
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 2 || digits.length > 10) {
+    throw new RequestError('Invalid request: hsCode must contain between 2 and 10 digits');
+  }
+
+  return { scope: 'CODE', key: `code:${digits}`, label: value, codePrefix: digits, chapters: null };
 }
 
-async function markNotificationAsRead(notificationId: string): Promise<{ success: boolean }> {
-  console.log(`Marking notification ${notificationId} as read`);
-  
-  // In a real implementation, you would update the database
-  return { success: true };
-}
\ No newline at end of file
+function toSubscription(row: HTSSubscriptionRow): HTSSubscription {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    hsCode: row.hs_code,
+    scope: row.scope,
+    chapters: row.chapters ?? undefined,
+    notificationTypes: row.notification_types,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
@@ -1,16 +1,38 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+const MAX_SEARCH_RESULTS = 10;
+
+// Words that appear in most product descriptions but say nothing about classification
+const STOP_WORDS = [
+  'the', 'and', 'for', 'with', 'from', 'this', 'that', 'are', 'was', 'our', 'your',
+  'new', 'high', 'quality', 'best', 'great', 'premium', 'perfect', 'use', 'used', 'ideal'
+];
+
 interface HTSLookupRequest {
   action: 'search' | 'validate' | 'get-chapter' | 'get-related';
   query?: string;
   hsCode?: string;
   chapter?: string;
+  // Point-in-time lookups: the schedule in force on asOfDate (YYYY-MM-DD), or a named revision.
+  // Without either the lookup runs against today's schedule.
+  asOfDate?: string;
+  revision?: string;
+}
+
+interface HTSRevision {
+  revision: string;
+  effective_date: string;
 }
 
 interface HTSEntry {
@@ -29,6 +51,58 @@ interface HTSEntry {
   footnotes: string[];
   relatedCodes: string[];
   officialSource: string;
+  fullDescription?: string;
+  revision?: string;
+  effectiveDate?: string;
+}
+
+// A line of the hts_schedule reference table
+interface HTSScheduleRow {
+  revision: string;
+  effective_date: string;
+  row_order: number;
+  hts_code: string | null;
+  htsno: string | null;
+  indent: number;
+  level: 'heading' | 'subheading' | 'tariff_line' | 'statistical' | 'text';
+  description: string;
+  full_description: string;
+  chapter: string;
+  heading: string | null;
+  subheading: string | null;
+  statistical_suffix: string | null;
+  units: string[];
+  general_rate: string | null;
+  special_rate: string | null;
+  column2_rate: string | null;
+  footnotes: Array<{ columns?: string[]; value: string; type?: string }>;
+}
+
+interface HTSTreeNode {
+  code: string | null;
+  description: string;
+  indent: number;
+  level: HTSScheduleRow['level'];
+  isResidual: boolean;
+  generalRate?: string;
+  children?: HTSTreeNode[];
+}
+
+interface HTSRelatedCodes {
+  code: HTSTreeNode;
+  heading: HTSTreeNode | null;
+  parent: HTSTreeNode | null;
+  ancestors: HTSTreeNode[];
+  siblings: HTSTreeNode[];
+  children: HTSTreeNode[];
+  residual: HTSTreeNode | null;
+  revision: string;
+}
+
+class RequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
 }
 
 serve(async (req) => {
@@ -38,34 +112,42 @@ serve(async (req) => {
   }
 
   try {
-    const { action, query, hsCode, chapter }: HTSLookupRequest = await req.json();
+    const { action, query, hsCode, chapter, asOfDate, revision: requestedRevision }: HTSLookupRequest = await req.json();
     
-    console.log(`HTS Lookup request: ${action}`, { query, hsCode, chapter });
+    console.log(`HTS Lookup request: ${action}`, { query, hsCode, chapter, asOfDate, revision: requestedRevision });
+
+    if (!['search', 'validate', 'get-chapter', 'get-related'].includes(action)) {
+      throw new RequestError('Invalid action');
+    }
+
+    const revision = await resolveRevision(asOfDate, requestedRevision);
 
     let result;
     
     switch (action) {
       case 'search':
-        result = await searchHTSByDescription(query || '');
+        result = await searchHTSByDescription(query || '', revision);
         break;
       case 'validate':
-        result = await validateHTSCode(hsCode || '');
+        result = await validateHTSCode(hsCode || '', revision);
         break;
       case 'get-chapter':
-        result = await getChapterInfo(chapter || '');
+        result = await getChapterInfo(chapter || '', revision);
         break;
       case 'get-related':
-        result = await getRelatedCodes(hsCode || '');
+        result = await getRelatedCodes(hsCode || '', revision);
         break;
-      default:
-        throw new Error('Invalid action');
     }
     
     return new Response(
       JSON.stringify({
         success: true,
         data: result,
-        source: 'USITC Official HTS Database'
+        source: 'USITC Official HTS Database',
+        // The schedule the answer was taken from, for audit trails
+        revision: revision.revision,
+        effectiveDate: revision.effective_date,
+        asOfDate: asOfDate || new Date().toISOString().split('T')[0]
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -83,37 +165,40 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof RequestError ? error.status : 500,
       }
     );
   }
 });
 
-async function searchHTSByDescription(description: string): Promise<HTSEntry[]> {
+async function searchHTSByDescription(description: string, revision: HTSRevision): Promise<HTSEntry[]> {
   console.log('Searching HTS by description:', description);
   
-  // Since we can't directly access the USITC API, we'll use Firecrawl to scrape search results
-  const firecrawlApiKey = Deno.env.get('FIRECRAWL_API_KEY');
+  const searchQuery = buildSearchQuery(description);
   
-  if (!firecrawlApiKey) {
-    throw new Error('Firecrawl API key not configured');
+  if (!searchQuery) {
+    console.log('No searchable keywords in description');
+    return [];
   }
 
-  try {
-    // For now, we'll return enriched mock data that simulates official USITC structure
-    // In production, you would use Firecrawl to scrape the actual search results
-    const mockResults = generateEnhancedMockResults(description);
-    
-    console.log(`Found ${mockResults.length} HTS entries for "${description}"`);
-    return mockResults;
-    
-  } catch (error) {
-    console.error('Error searching HTS:', error);
+  const { data: rows, error } = await supabase.rpc('search_hts_schedule', {
+    search_query: searchQuery,
+    target_revision: revision.revision,
+    max_results: MAX_SEARCH_RESULTS
+  });
+
+  if (error) {
+    console.error('Error searching HTS schedule:', error);
     throw new Error('Failed to search HTS database');
   }
+
+  const results = (rows || []).map((row: HTSScheduleRow) => toHTSEntry(row));
+  
+  console.log(`Found ${results.length} HTS entries for "${description}" in ${revision.revision}`);
+  return results;
 }
 
-async function validateHTSCode(hsCode: string): Promise<{ valid: boolean; entry?: HTSEntry; suggestions?: string[] }> {
+async function validateHTSCode(hsCode: string, revision: HTSRevision): Promise<{ valid: boolean; entry?: HTSEntry; suggestions?: string[] }> {
   console.log('Validating HTS code:', hsCode);
   
   // Basic validation
@@ -126,172 +211,355 @@ async function validateHTSCode(hsCode: string): Promise<{ valid: boolean; entry?
     };
   }
   
-  // Check if chapter exists (first 2 digits)
-  const chapter = cleanCode.substring(0, 2);
-  const validChapters = getValidChapters();
-  
-  if (!validChapters.includes(chapter)) {
+  // Codes padded to 10 digits with a "00" suffix are matched against their 8-digit tariff line too
+  const candidates = [cleanCode];
+  if (cleanCode.length === 10 && cleanCode.endsWith('00')) {
+    candidates.push(cleanCode.substring(0, 8));
+  }
+
+  // Statistical suffixes carry no rates of their own; they come from the 8-digit tariff line
+  const tariffLineCode = cleanCode.substring(0, 8);
+
+  const { data: rows, error } = await supabase
+    .from('hts_schedule')
+    .select('*')
+    .eq('revision', revision.revision)
+    .in('hts_code', [...new Set([...candidates, tariffLineCode])]);
+
+  if (error) {
+    console.error('Error validating HTS code:', error);
+    throw new Error('Failed to validate HTS code');
+  }
+
+  const match = candidates
+    .map(code => (rows || []).find((row: HTSScheduleRow) => row.hts_code === code))
+    .find(Boolean);
+
+  if (match) {
+    const tariffLine = (rows || []).find((row: HTSScheduleRow) => row.hts_code === tariffLineCode);
+    const rated = match.general_rate || !tariffLine
+      ? match
+      : {
+          ...match,
+          general_rate: tariffLine.general_rate,
+          special_rate: tariffLine.special_rate,
+          column2_rate: tariffLine.column2_rate
+        };
+
     return {
-      valid: false,
-      suggestions: [`Chapter ${chapter} does not exist in HTS. Valid chapters: 01-97`]
+      valid: true,
+      entry: toHTSEntry(rated)
     };
   }
   
-  // For demonstration, we'll return a valid entry for known patterns
-  if (cleanCode.startsWith('61') || cleanCode.startsWith('84') || cleanCode.startsWith('39')) {
-    const entry = generateOfficialHTSEntry(cleanCode);
+  // Chapters come from the loaded schedule, so 98 and 99 are valid wherever the revision has them
+  const chapter = cleanCode.substring(0, 2);
+  const { count: chapterLines, error: chapterError } = await supabase
+    .from('hts_schedule')
+    .select('id', { count: 'exact', head: true })
+    .eq('revision', revision.revision)
+    .eq('chapter', chapter);
+
+  if (chapterError) {
+    console.error('Error checking HTS chapter:', chapterError);
+    throw new Error('Failed to validate HTS code');
+  }
+
+  if (!chapterLines) {
     return {
-      valid: true,
-      entry
+      valid: false,
+      suggestions: [`Chapter ${chapter} is not in HTS ${revision.revision}`]
     };
   }
-  
+
+  // Suggest the real lines under the same subheading
+  const { data: nearby } = await supabase
+    .from('hts_schedule')
+    .select('htsno, description')
+    .eq('revision', revision.revision)
+    .eq('subheading', cleanCode.substring(0, 6))
+    .in('level', ['tariff_line', 'statistical'])
+    .order('row_order')
+    .limit(5);
+
   return {
     valid: false,
     suggestions: [
-      'Code not found in current HTS revision',
-      'Check for typos or try a related code',
-      'Verify the product classification'
+      `Code not found in HTS ${revision.revision}`,
+      ...(nearby || []).map((row: { htsno: string; description: string }) => `${row.htsno} - ${row.description}`),
+      ...(nearby && nearby.length > 0 ? [] : ['Check for typos or try a related code', 'Verify the product classification'])
     ]
   };
 }
 
-async function getChapterInfo(chapter: string): Promise<{
+async function getChapterInfo(chapter: string, revision: HTSRevision): Promise<{
   number: string;
   title: string;
   description: string;
   notes: string[];
   sections: string[];
   commonCodes: string[];
+  headings: Array<{ code: string; description: string }>;
+  revision: string;
 }> {
   console.log('Getting chapter info for:', chapter);
   
-  const chapterData = getOfficialChapterData(chapter);
-  return chapterData;
+  const chapterNumber = chapter.replace(/[^0-9]/g, '').padStart(2, '0');
+
+  const { data: headings, error } = await supabase
+    .from('hts_schedule')
+    .select('htsno, description')
+    .eq('revision', revision.revision)
+    .eq('chapter', chapterNumber)
+    .eq('level', 'heading')
+    .order('row_order');
+
+  if (error) {
+    console.error('Error getting chapter headings:', error);
+    throw new Error('Failed to load chapter from HTS database');
+  }
+
+  if (!headings || headings.length === 0) {
+    throw new Error(`Chapter ${chapterNumber} not found in HTS ${revision.revision}`);
+  }
+
+  // Section notes are stored once with every chapter of the section in `chapters`
+  const { data: legalNotes, error: notesError } = await supabase
+    .from('hts_legal_notes')
+    .select('scope, section, chapter, note_number, note_text')
+    .contains('chapters', [chapterNumber])
+    .or(`revision.is.null,revision.eq.${revision.revision}`)
+    .order('scope', { ascending: false })
+    .order('note_number');
+
+  if (notesError) {
+    console.error('Error getting chapter notes:', notesError);
+  }
+
+  const chapterData = getOfficialChapterData(chapterNumber);
+
+  return {
+    number: chapterNumber,
+    title: chapterData.title,
+    description: `${headings.length} headings in HTS ${revision.revision}`,
+    notes: (legalNotes || []).map((note: { scope: string; section: string | null; chapter: string | null; note_number: string; note_text: string }) =>
+      note.scope === 'section'
+        ? `Section ${note.section} Note ${note.note_number}: ${note.note_text}`
+        : `Chapter ${note.chapter} Note ${note.note_number}: ${note.note_text}`
+    ),
+    sections: [getSectionForChapter(chapterNumber)],
+    commonCodes: headings.slice(0, 10).map((h: { htsno: string }) => h.htsno),
+    headings: headings.map((h: { htsno: string; description: string }) => ({ code: h.htsno, description: h.description })),
+    revision: revision.revision
+  };
 }
 
-async function getRelatedCodes(hsCode: string): Promise<string[]> {
+async function getRelatedCodes(hsCode: string, revision: HTSRevision): Promise<HTSRelatedCodes> {
   console.log('Getting related codes for:', hsCode);
   
   const cleanCode = hsCode.replace(/\./g, '');
-  const chapter = cleanCode.substring(0, 2);
   const heading = cleanCode.substring(0, 4);
   
-  // Generate related codes within the same heading
-  const relatedCodes: string[] = [];
-  
-  for (let i = 1; i <= 5; i++) {
-    const variation = heading + (parseInt(cleanCode.substring(4, 6)) + i).toString().padStart(2, '0');
-    if (variation !== cleanCode.substring(0, 6)) {
-      relatedCodes.push(variation + '0000');
+  // The whole heading, in schedule order, is enough to rebuild the branch around the code
+  const { data: rows, error } = await supabase
+    .from('hts_schedule')
+    .select('*')
+    .eq('revision', revision.revision)
+    .eq('heading', heading)
+    .order('row_order');
+
+  if (error) {
+    console.error('Error getting related codes:', error);
+    throw new Error('Failed to load related codes');
+  }
+
+  const lines: HTSScheduleRow[] = rows || [];
+  const candidates = cleanCode.length === 10 && cleanCode.endsWith('00')
+    ? [cleanCode, cleanCode.substring(0, 8)]
+    : [cleanCode];
+  const targetIndex = candidates
+    .map(code => lines.findIndex(line => line.hts_code === code))
+    .find(index => index >= 0) ?? -1;
+
+  if (targetIndex < 0) {
+    throw new Error(`Code ${hsCode} not found in HTS ${revision.revision}`);
+  }
+
+  const target = lines[targetIndex];
+
+  // Walk back up the indents to collect the path from the heading to the code
+  const ancestors: HTSScheduleRow[] = [];
+  let ancestorIndex = -1;
+  let indent = target.indent;
+  for (let i = targetIndex - 1; i >= 0 && indent > 0; i--) {
+    if (lines[i].indent < indent) {
+      ancestors.unshift(lines[i]);
+      if (ancestorIndex < 0) ancestorIndex = i;
+      indent = lines[i].indent;
     }
   }
-  
-  return relatedCodes.slice(0, 10);
+
+  // Siblings share the closest parent and the code's own indent
+  const parent = ancestorIndex >= 0 ? lines[ancestorIndex] : null;
+  const branch = parent ? getBranch(lines, ancestorIndex) : [];
+  const siblingLines = branch.filter(line => line.indent === target.indent);
+  const residual = siblingLines.find(line => isResidualLine(line)) || null;
+
+  const headingLine = lines.find(line => line.level === 'heading') || null;
+
+  return {
+    code: toTreeNode(target),
+    heading: headingLine ? toTreeNode(headingLine) : null,
+    parent: parent ? toTreeNode(parent) : null,
+    ancestors: ancestors.map(line => toTreeNode(line)),
+    siblings: siblingLines
+      .filter(line => line !== target)
+      .map(line => toTreeNode(line)),
+    children: buildChildTree(lines, targetIndex),
+    residual: residual ? toTreeNode(residual) : null,
+    revision: revision.revision
+  };
 }
 
-function generateEnhancedMockResults(description: string): HTSEntry[] {
-  const results: HTSEntry[] = [];
-  const keywords = description.toLowerCase().split(' ');
-  
-  console.log('Searching for keywords:', keywords);
-  
-  // Enhanced mapping based on official HTS structure
-  const productMappings = [
-    {
-      keywords: ['cotton', 'shirt', 'apparel', 'clothing', 'textile', 'fabric'],
-      codes: ['6205.20.2020', '6205.20.2025', '6205.30.1520'],
-      baseDescription: 'Men\'s or boys\' shirts'
-    },
-    {
-      keywords: ['plastic', 'container', 'bottle', 'polymer'],
-      codes: ['3923.30.0080', '3923.10.0000', '3923.21.0000'],
-      baseDescription: 'Plastic containers and bottles'
-    },
-    {
-      keywords: ['machinery', 'machine', 'equipment', 'mechanical'],
-      codes: ['8479.89.9499', '8479.90.9499', '8543.70.9950'],
-      baseDescription: 'Machinery and mechanical appliances'
-    },
-    {
-      keywords: ['electronic', 'device', 'component', 'electrical'],
-      codes: ['8543.70.9950', '8517.62.0020', '8471.30.0100'],
-      baseDescription: 'Electronic devices and components'
-    },
-    {
-      keywords: ['steel', 'stainless', 'metal', 'spoon', 'cutlery', 'kitchen', 'utensil', 'silverware'],
-      codes: ['8215.20.0000', '8215.99.0100', '7323.93.0060'],
-      baseDescription: 'Tableware, kitchenware and other household articles of stainless steel'
-    },
-    {
-      keywords: ['tea', 'coffee', 'dining', 'flatware', 'eating'],
-      codes: ['8215.20.0000', '8215.10.0000', '8215.99.0100'],
-      baseDescription: 'Spoons, forks, ladles and similar kitchen or tableware'
-    },
-    {
-      keywords: ['home', 'garden', 'household', 'domestic'],
-      codes: ['7323.93.0060', '8215.20.0000', '9403.10.0040'],
-      baseDescription: 'Household articles and parts thereof'
-    },
-    {
-      keywords: ['set', 'pack', 'collection', '6'],
-      codes: ['8215.20.0000', '8215.99.0100'],
-      baseDescription: 'Sets of assorted articles'
+// Lines nested under lines[index], i.e. everything up to the next line at the same or lower indent
+function getBranch(lines: HTSScheduleRow[], index: number): HTSScheduleRow[] {
+  const branch: HTSScheduleRow[] = [];
+  for (let i = index + 1; i < lines.length && lines[i].indent > lines[index].indent; i++) {
+    branch.push(lines[i]);
+  }
+  return branch;
+}
+
+function buildChildTree(lines: HTSScheduleRow[], index: number): HTSTreeNode[] {
+  const branch = getBranch(lines, index);
+  if (branch.length === 0) return [];
+
+  const childIndent = Math.min(...branch.map(line => line.indent));
+  const children: HTSTreeNode[] = [];
+
+  branch.forEach((line, offset) => {
+    if (line.indent === childIndent) {
+      children.push({
+        ...toTreeNode(line),
+        children: buildChildTree(lines, index + 1 + offset)
+      });
     }
-  ];
-  
-  // Check each mapping for keyword matches
-  for (const mapping of productMappings) {
-    const matchCount = mapping.keywords.filter(keyword => 
-      keywords.some(k => k.includes(keyword) || keyword.includes(k))
-    ).length;
-    
-    console.log(`Mapping "${mapping.baseDescription}" matched ${matchCount} keywords:`, 
-                mapping.keywords.filter(keyword => 
-                  keywords.some(k => k.includes(keyword) || keyword.includes(k))
-                ));
-    
-    if (matchCount > 0) {
-      for (const code of mapping.codes) {
-        results.push(generateOfficialHTSEntry(code, mapping.baseDescription));
-      }
+  });
+
+  return children;
+}
+
+// The residual "Other" line catches everything in a branch not covered by its named siblings
+function isResidualLine(line: HTSScheduleRow): boolean {
+  return /^other\b/i.test(line.description);
+}
+
+function toTreeNode(line: HTSScheduleRow): HTSTreeNode {
+  return {
+    code: line.htsno,
+    description: line.description,
+    indent: line.indent,
+    level: line.level,
+    isResidual: isResidualLine(line),
+    generalRate: line.general_rate || undefined
+  };
+}
+
+/**
+ * The schedule to answer from: a named revision, or the revision in force on asOfDate
+ * (today by default), i.e. the latest loaded revision whose effective date is on or before it
+ */
+async function resolveRevision(asOfDate?: string, revision?: string): Promise<HTSRevision> {
+  if (revision !== undefined && revision !== null) {
+    if (typeof revision !== 'string' || !revision.trim()) {
+      throw new RequestError('Invalid request: revision must be a revision name such as "2025 Revision 19"');
     }
+
+    const { data, error } = await supabase
+      .from('hts_revisions')
+      .select('revision, effective_date')
+      .eq('revision', revision.trim())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error resolving HTS revision:', error);
+      throw new Error('Failed to resolve HTS revision');
+    }
+
+    if (!data) {
+      throw new RequestError(`HTS revision "${revision}" is not loaded`, 404);
+    }
+
+    return data;
   }
-  
-  // If still no results, add generic fallback
-  if (results.length === 0) {
-    console.log('No specific matches found, adding generic fallbacks');
-    results.push(
-      generateOfficialHTSEntry('9999.00.0000', 'Other articles not elsewhere specified'),
-      generateOfficialHTSEntry('8215.20.0000', 'Spoons, forks, ladles and similar kitchen or tableware'),
-      generateOfficialHTSEntry('7323.93.0060', 'Table, kitchen or other household articles of stainless steel')
-    );
+
+  if (asOfDate !== undefined && asOfDate !== null && !isValidDate(asOfDate)) {
+    throw new RequestError('Invalid request: asOfDate must be a date in YYYY-MM-DD format');
   }
-  
-  console.log(`Generated ${results.length} HTS entries`);
-  return results.slice(0, 5);
+
+  const date = asOfDate || new Date().toISOString().split('T')[0];
+
+  const { data, error } = await supabase
+    .from('hts_revisions')
+    .select('revision, effective_date')
+    .lte('effective_date', date)
+    .order('effective_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving HTS revision:', error);
+    throw new Error('Failed to resolve HTS revision');
+  }
+
+  if (!data) {
+    throw new RequestError(asOfDate
+      ? `No loaded HTS revision was in force on ${asOfDate}. Import the revision effective on that date with hts-schedule-import.`
+      : 'No HTS revision loaded. Import the USITC schedule with hts-schedule-import first.', 404);
+  }
+
+  return data;
 }
 
-function generateOfficialHTSEntry(code: string, baseDescription?: string): HTSEntry {
-  const chapter = code.substring(0, 2);
-  const chapterData = getOfficialChapterData(chapter);
+function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function buildSearchQuery(description: string): string {
+  const keywords = description
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(k => k.length > 2 && !STOP_WORDS.includes(k));
+
+  // Any keyword may match; ts_rank puts lines matching more of them first
+  return [...new Set(keywords)].slice(0, 15).join(' | ');
+}
+
+function toHTSEntry(row: HTSScheduleRow): HTSEntry {
+  const chapterData = getOfficialChapterData(row.chapter);
   
   return {
-    code: formatHTSCode(code),
-    description: baseDescription || getDescriptionForCode(code),
+    code: row.htsno || formatHTSCode(row.hts_code || ''),
+    description: row.description,
     category: chapterData.title,
-    chapter: chapter,
-    section: getSectionForChapter(chapter),
+    chapter: row.chapter,
+    section: getSectionForChapter(row.chapter),
     tariffInfo: {
-      generalRate: getGeneralRate(code),
-      specialRate: getSpecialRate(code),
-      column2Rate: getColumn2Rate(code)
+      generalRate: row.general_rate || '',
+      specialRate: row.special_rate || '',
+      column2Rate: row.column2_rate || ''
     },
-    statisticalSuffix: getStatisticalSuffix(code),
-    units: getUnits(code),
-    footnotes: getFootnotes(code),
+    statisticalSuffix: row.statistical_suffix || undefined,
+    units: row.units.join(', '),
+    footnotes: row.footnotes.map(f => f.value),
     relatedCodes: [],
-    officialSource: 'USITC HTS 2025 Revision 19'
+    officialSource: `USITC HTS ${row.revision}`,
+    fullDescription: row.full_description,
+    revision: row.revision,
+    effectiveDate: row.effective_date
   };
 }
 
@@ -308,33 +576,18 @@ function getOfficialChapterData(chapter: string): any {
     '39': {
       title: 'Plastics and articles thereof',
       description: 'Synthetic polymers and articles made therefrom, including containers, films, and manufactured goods',
-      notes: [
-        'Goods put up in forms such as rods, tubes, sheets, film, etc.',
-        'Primary forms include polymers in powder, granules, flakes',
-        'Excludes rubber and rubber articles (Chapter 40)'
-      ],
       sections: ['VII'],
       commonCodes: ['3923.30.0080', '3920.10.0000', '3926.90.9980']
     },
     '61': {
       title: 'Articles of apparel and clothing accessories, knitted or crocheted',
       description: 'Clothing items produced by knitting or crocheting processes',
-      notes: [
-        'Covers garments whether or not cut and sewn',
-        'Includes hosiery and knitwear',
-        'See also Chapter 62 for woven apparel'
-      ],
       sections: ['XI'],
       commonCodes: ['6109.10.0040', '6110.20.2050', '6103.42.2025']
     },
     '84': {
       title: 'Nuclear reactors, boilers, machinery and mechanical appliances; parts thereof',
       description: 'Industrial machinery, engines, and mechanical equipment',
-      notes: [
-        'Includes machinery for specific industries',
-        'Covers mechanical handling equipment',
-        'See General Note 2 for parts classification'
-      ],
       sections: ['XVI'],
       commonCodes: ['8479.89.9499', '8421.39.8040', '8543.70.9950']
     }
@@ -343,84 +596,38 @@ function getOfficialChapterData(chapter: string): any {
   return chapterDatabase[chapter] || {
     title: `Chapter ${chapter}`,
     description: `Products classified under Chapter ${chapter}`,
-    notes: ['Official HTS classification'],
     sections: ['Unknown'],
     commonCodes: []
   };
 }
 
-function getDescriptionForCode(code: string): string {
-  const chapter = code.substring(0, 2);
-  
-  const descriptions: Record<string, string> = {
-    '39': 'Other articles of plastics and articles of other materials',
-    '61': 'T-shirts, singlets and other vests, knitted or crocheted',
-    '84': 'Other machines and mechanical appliances having individual functions'
-  };
-  
-  return descriptions[chapter] || 'Harmonized Tariff Schedule commodity';
-}
-
-function getGeneralRate(code: string): string {
-  // Simplified tariff rate logic
-  const chapter = code.substring(0, 2);
-  const rates: Record<string, string> = {
-    '39': '5.3%',
-    '61': '16.5%',
-    '84': '2.5%'
-  };
-  return rates[chapter] || 'Free';
-}
-
-function getSpecialRate(code: string): string {
-  return 'Free (A*, AU, BH, CL, CO, D, E, IL, JO, KR, MA, MX, OM, P, PA, PE, S, SG)';
-}
-
-function getColumn2Rate(code: string): string {
-  const chapter = code.substring(0, 2);
-  const rates: Record<string, string> = {
-    '39': '80%',
-    '61': '90%',
-    '84': '35%'
-  };
-  return rates[chapter] || '60%';
-}
-
-function getStatisticalSuffix(code: string): string {
-  return code.length >= 8 ? code.substring(6, 8) : '00';
-}
-
-function getUnits(code: string): string {
-  const chapter = code.substring(0, 2);
-  const units: Record<string, string> = {
-    '39': 'kg',
-    '61': 'doz kg',
-    '84': 'No.'
-  };
-  return units[chapter] || 'kg';
-}
-
-function getFootnotes(code: string): string[] {
-  return [
-    'See headings 9903.88.01, 9903.88.02 and 9903.88.03',
-    'Products of China classified under this heading may be subject to additional duties'
-  ];
-}
-
 function getSectionForChapter(chapter: string): string {
-  const sections: Record<string, string> = {
-    '39': 'VII - Plastics and articles thereof; rubber and articles thereof',
-    '61': 'XI - Textiles and textile articles',
-    '84': 'XVI - Machinery and mechanical appliances; electrical equipment'
-  };
-  return sections[chapter] || 'Unknown Section';
+  const chapterNumber = parseInt(chapter, 10);
+  const section = HTS_SECTIONS.find(s => chapterNumber >= s.firstChapter && chapterNumber <= s.lastChapter);
+  return section ? `${section.number} - ${section.title}` : 'Unknown Section';
 }
 
-function getValidChapters(): string[] {
-  const chapters: string[] = [];
-  for (let i = 1; i <= 97; i++) {
-    chapters.push(i.toString().padStart(2, '0'));
-  }
-  // Remove chapters that don't exist (77, 98, 99)
-  return chapters.filter(ch => !['77', '98', '99'].includes(ch));
-}
\ No newline at end of file
+const HTS_SECTIONS = [
+  { number: 'I', title: 'Live animals; animal products', firstChapter: 1, lastChapter: 5 },
+  { number: 'II', title: 'Vegetable products', firstChapter: 6, lastChapter: 14 },
+  { number: 'III', title: 'Animal or vegetable fats and oils and their cleavage products; prepared edible fats; animal or vegetable waxes', firstChapter: 15, lastChapter: 15 },
+  { number: 'IV', title: 'Prepared foodstuffs; beverages, spirits and vinegar; tobacco and manufactured tobacco substitutes', firstChapter: 16, lastChapter: 24 },
+  { number: 'V', title: 'Mineral products', firstChapter: 25, lastChapter: 27 },
+  { number: 'VI', title: 'Products of the chemical or allied industries', firstChapter: 28, lastChapter: 38 },
+  { number: 'VII', title: 'Plastics and articles thereof; rubber and articles thereof', firstChapter: 39, lastChapter: 40 },
+  { number: 'VIII', title: 'Raw hides and skins, leather, furskins and articles thereof; travel goods, handbags and similar containers', firstChapter: 41, lastChapter: 43 },
+  { number: 'IX', title: 'Wood and articles of wood; cork; manufactures of straw or other plaiting materials', firstChapter: 44, lastChapter: 46 },
+  { number: 'X', title: 'Pulp of wood; recovered paper; paper and paperboard and articles thereof', firstChapter: 47, lastChapter: 49 },
+  { number: 'XI', title: 'Textiles and textile articles', firstChapter: 50, lastChapter: 63 },
+  { number: 'XII', title: 'Footwear, headgear, umbrellas, walking-sticks, whips; prepared feathers; artificial flowers', firstChapter: 64, lastChapter: 67 },
+  { number: 'XIII', title: 'Articles of stone, plaster, cement, asbestos, mica or similar materials; ceramic products; glass and glassware', firstChapter: 68, lastChapter: 70 },
+  { number: 'XIV', title: 'Natural or cultured pearls, precious or semi-precious stones, precious metals; imitation jewelry; coin', firstChapter: 71, lastChapter: 71 },
+  { number: 'XV', title: 'Base metals and articles of base metal', firstChapter: 72, lastChapter: 83 },
+  { number: 'XVI', title: 'Machinery and mechanical appliances; electrical equipment; parts thereof; sound and television recorders and reproducers', firstChapter: 84, lastChapter: 85 },
+  { number: 'XVII', title: 'Vehicles, aircraft, vessels and associated transport equipment', firstChapter: 86, lastChapter: 89 },
+  { number: 'XVIII', title: 'Optical, photographic, measuring, checking, medical or surgical instruments; clocks and watches; musical instruments', firstChapter: 90, lastChapter: 92 },
+  { number: 'XIX', title: 'Arms and ammunition; parts and accessories thereof', firstChapter: 93, lastChapter: 93 },
+  { number: 'XX', title: 'Miscellaneous manufactured articles', firstChapter: 94, lastChapter: 96 },
+  { number: 'XXI', title: 'Works of art, collectors\' pieces and antiques', firstChapter: 97, lastChapter: 97 },
+  { number: 'XXII', title: 'Special classification provisions; temporary legislation; temporary modifications', firstChapter: 98, lastChapter: 99 }
+];
@@ -0,0 +1,445 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+const INSERT_BATCH_SIZE = 500;
+
+interface ImportRequest {
+  revision: string;
+  effectiveDate: string;
+  format?: 'json' | 'csv';
+  content?: string | USITCExportLine[];
+  sourceUrl?: string;
+}
+
+// Shape of one line in the USITC "Export to JSON" download
+interface USITCExportLine {
+  htsno: string;
+  indent: string | number;
+  description: string;
+  superior?: string | null;
+  units?: string[];
+  general?: string;
+  special?: string;
+  other?: string;
+  footnotes?: Array<{ columns?: string[]; value: string; type?: string }>;
+  quotaQuantity?: string;
+  additionalDuties?: string;
+}
+
+// One line of the revision; publish_hts_import adds the revision and effective date
+interface ScheduleRow {
+  row_order: number;
+  hts_code: string | null;
+  htsno: string | null;
+  indent: number;
+  level: 'heading' | 'subheading' | 'tariff_line' | 'statistical' | 'text';
+  description: string;
+  full_description: string;
+  chapter: string;
+  heading: string | null;
+  subheading: string | null;
+  statistical_suffix: string | null;
+  units: string[];
+  general_rate: string | null;
+  special_rate: string | null;
+  column2_rate: string | null;
+  rates_inherited: boolean;
+  footnotes: Array<{ columns?: string[]; value: string; type?: string }>;
+  quota_quantity: string | null;
+  additional_duties: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Loading the schedule replaces reference data for every user, so only the service role may call it
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || authHeader.split(' ')[1] !== supabaseServiceKey) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: HTS schedule import requires the service role key'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { revision, effectiveDate, format, content, sourceUrl }: ImportRequest = await req.json();
+
+    // Input validation
+    if (!revision || typeof revision !== 'string') {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid request: revision is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!effectiveDate || isNaN(Date.parse(effectiveDate))) {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid request: effectiveDate must be an ISO date' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!content && !sourceUrl) {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid request: content or sourceUrl is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`Importing HTS schedule ${revision} effective ${effectiveDate}`, { format, sourceUrl });
+
+    const rawContent = content ?? await fetchExport(sourceUrl!);
+    const lines = parseExport(rawContent, format);
+    const rows = buildScheduleRows(lines);
+
+    if (rows.length === 0) {
+      throw new Error('The export did not contain any HTS lines');
+    }
+
+    // Stage the lines, then swap them in with the revision row in one transaction, so lookups
+    // never see a revision that is half replaced
+    const importId = crypto.randomUUID();
+    try {
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error: insertError } = await supabase
+          .from('hts_schedule_staging')
+          .insert(rows.slice(i, i + INSERT_BATCH_SIZE).map(row => ({ ...row, import_id: importId })));
+
+        if (insertError) {
+          console.error(`Error staging HTS lines ${i}-${i + INSERT_BATCH_SIZE}:`, insertError);
+          throw new Error('Failed to stage HTS schedule lines');
+        }
+      }
+
+      const { error: publishError } = await supabase.rpc('publish_hts_import', {
+        target_import: importId,
+        target_revision: revision,
+        target_effective_date: effectiveDate,
+        target_source_url: sourceUrl || null
+      });
+
+      if (publishError) {
+        console.error('Error publishing HTS import:', publishError);
+        throw new Error('Failed to replace the lines of this revision');
+      }
+    } catch (error) {
+      // The previous lines are untouched; drop what was staged
+      await supabase.from('hts_schedule_staging').delete().eq('import_id', importId);
+      throw error;
+    }
+
+    const summary = {
+      revision,
+      effectiveDate,
+      totalLines: rows.length,
+      headings: rows.filter(r => r.level === 'heading').length,
+      subheadings: rows.filter(r => r.level === 'subheading').length,
+      tariffLines: rows.filter(r => r.level === 'tariff_line').length,
+      statisticalLines: rows.filter(r => r.level === 'statistical').length,
+      chapters: new Set(rows.map(r => r.chapter)).size
+    };
+
+    const changes = await diffAdjacentRevisions(revision, effectiveDate);
+
+    console.log('HTS schedule import completed:', summary);
+
+    return new Response(JSON.stringify({ success: true, summary, changes }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in HTS schedule import:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message || 'Failed to import HTS schedule'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function fetchExport(sourceUrl: string): Promise<string> {
+  const response = await fetch(sourceUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download HTS export (${response.status})`);
+  }
+  return await response.text();
+}
+
+function parseExport(content: string | USITCExportLine[], format?: 'json' | 'csv'): USITCExportLine[] {
+  if (Array.isArray(content)) {
+    return content;
+  }
+
+  const trimmed = content.trim();
+  const isJson = format ? format === 'json' : trimmed.startsWith('[');
+
+  if (isJson) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON export must be an array of HTS lines');
+    }
+    return parsed;
+  }
+
+  return parseCSVExport(trimmed);
+}
+
+// Maps the USITC "Export to CSV" columns onto the JSON export shape
+function parseCSVExport(content: string): USITCExportLine[] {
+  const records = parseCSVRecords(content);
+  if (records.length < 2) return [];
+
+  const headers = records[0].map(h => h.trim().toLowerCase());
+  const column = (name: string) => headers.findIndex(h => h === name);
+
+  const htsIndex = column('hts number');
+  const indentIndex = column('indent');
+  const descriptionIndex = column('description');
+  const unitsIndex = column('unit of quantity');
+  const generalIndex = column('general rate of duty');
+  const specialIndex = column('special rate of duty');
+  const otherIndex = column('column 2 rate of duty');
+  const quotaIndex = column('quota quantity');
+  const additionalIndex = column('additional duties');
+  const footnotesIndex = column('footnotes');
+
+  if (htsIndex < 0 || descriptionIndex < 0) {
+    throw new Error('CSV export is missing the "HTS Number" or "Description" column');
+  }
+
+  return records.slice(1)
+    .filter(values => values.some(v => v.trim().length > 0))
+    .map(values => ({
+      htsno: values[htsIndex] || '',
+      indent: values[indentIndex] || '0',
+      description: values[descriptionIndex] || '',
+      units: parseListCell(values[unitsIndex]),
+      general: values[generalIndex] || '',
+      special: values[specialIndex] || '',
+      other: values[otherIndex] || '',
+      quotaQuantity: values[quotaIndex] || '',
+      additionalDuties: values[additionalIndex] || '',
+      footnotes: parseListCell(values[footnotesIndex]).map(value => ({ value }))
+    }));
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and line breaks
+function parseCSVRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+// The CSV export writes list cells either as JSON arrays or as comma separated text
+function parseListCell(value?: string): string[] {
+  if (!value || !value.trim()) return [];
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(String).filter(Boolean);
+    } catch {
+      // Fall through to plain text handling
+    }
+  }
+
+  return trimmed.replace(/^\[|\]$/g, '')
+    .split(',')
+    .map(v => v.replace(/"/g, '').trim())
+    .filter(Boolean);
+}
+
+function buildScheduleRows(lines: USITCExportLine[]): ScheduleRow[] {
+  const rows: ScheduleRow[] = [];
+  // Open parent lines, used to build full descriptions and to inherit duty rates
+  const parents: Array<{ indent: number; description: string; general: string | null; special: string | null; other: string | null }> = [];
+  let currentChapter = '';
+  let currentHeading: string | null = null;
+
+  lines.forEach((line, index) => {
+    const indent = parseInt(String(line.indent ?? '0'), 10) || 0;
+    const description = cleanDescription(line.description || '');
+    const htsCode = (line.htsno || '').replace(/[^0-9]/g, '') || null;
+
+    if (htsCode) {
+      currentChapter = htsCode.substring(0, 2);
+      currentHeading = htsCode.length >= 4 ? htsCode.substring(0, 4) : null;
+    }
+    if (!currentChapter || (!description && !htsCode)) return;
+
+    while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+      parents.pop();
+    }
+
+    // Statistical lines carry no rates of their own; they take the rates of their tariff line
+    const inherited = [...parents].reverse().find(p => p.general || p.special || p.other);
+    const ownGeneral = cleanRate(line.general);
+    const ownSpecial = cleanRate(line.special);
+    const ownOther = cleanRate(line.other);
+    const ratesInherited = Boolean(htsCode && inherited && !ownGeneral && !ownSpecial && !ownOther);
+    const general = ownGeneral ?? (htsCode ? inherited?.general ?? null : null);
+    const special = ownSpecial ?? (htsCode ? inherited?.special ?? null : null);
+    const other = ownOther ?? (htsCode ? inherited?.other ?? null : null);
+
+    const fullDescription = [...parents.map(p => p.description), description]
+      .filter(Boolean)
+      .join(' ');
+
+    rows.push({
+      row_order: index,
+      hts_code: htsCode,
+      htsno: line.htsno || null,
+      indent,
+      level: getLevel(htsCode),
+      description,
+      full_description: fullDescription,
+      chapter: currentChapter,
+      // Description-only lines ("Of cotton:") belong to the heading they appear under
+      heading: htsCode ? (htsCode.length >= 4 ? htsCode.substring(0, 4) : null) : currentHeading,
+      subheading: htsCode && htsCode.length >= 6 ? htsCode.substring(0, 6) : null,
+      statistical_suffix: htsCode && htsCode.length === 10 ? htsCode.substring(8, 10) : null,
+      units: (line.units || []).filter(Boolean),
+      general_rate: general,
+      special_rate: special,
+      column2_rate: other,
+      rates_inherited: ratesInherited,
+      footnotes: (line.footnotes || []).filter(f => f && f.value),
+      quota_quantity: line.quotaQuantity || null,
+      additional_duties: line.additionalDuties || null
+    });
+
+    parents.push({ indent, description, general, special, other });
+  });
+
+  return rows;
+}
+
+// Regenerate hts_changes between this revision and its neighbours by effective date, so
+// importing a new revision (or re-importing an old one) keeps the change feed consistent
+async function diffAdjacentRevisions(revision: string, effectiveDate: string) {
+  // A revision loaded between two others splits their diff: drop the rows that skip over it
+  const { error: clearError } = await supabase.rpc('clear_spanned_hts_diffs', { target_revision: revision });
+  if (clearError) {
+    console.error(`Error clearing HTS diffs spanning ${revision}:`, clearError);
+    throw new Error('Failed to clear the previous diff across this revision');
+  }
+
+  const [{ data: previous, error: previousError }, { data: next, error: nextError }] = await Promise.all([
+    supabase
+      .from('hts_revisions')
+      .select('revision')
+      .lt('effective_date', effectiveDate)
+      .order('effective_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('hts_revisions')
+      .select('revision')
+      .gt('effective_date', effectiveDate)
+      .order('effective_date', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  // Without its neighbours the diff would silently miss a side, so the import fails instead
+  if (previousError || nextError) {
+    console.error(`Error loading the revisions next to ${revision}:`, previousError || nextError);
+    throw new Error('Failed to find the neighbouring revisions to diff against');
+  }
+
+  const pairs: Array<[string, string]> = [];
+  if (previous) pairs.push([previous.revision, revision]);
+  if (next) pairs.push([revision, next.revision]);
+
+  const results = [];
+  for (const [oldRevision, newRevision] of pairs) {
+    const { data, error } = await supabase.rpc('diff_hts_revisions', {
+      old_revision: oldRevision,
+      new_revision: newRevision
+    });
+
+    // The schedule itself is loaded at this point; a failed diff can be rerun from hts-change-tracker
+    if (error) {
+      console.error(`Error diffing HTS revisions ${oldRevision} -> ${newRevision}:`, error);
+      results.push({ from_revision: oldRevision, revision: newRevision, error: error.message });
+      continue;
+    }
+
+    results.push(data);
+  }
+
+  return results;
+}
+
+function getLevel(htsCode: string | null): ScheduleRow['level'] {
+  if (!htsCode) return 'text';
+  if (htsCode.length <= 4) return 'heading';
+  if (htsCode.length <= 6) return 'subheading';
+  if (htsCode.length <= 8) return 'tariff_line';
+  return 'statistical';
+}
+
+function cleanDescription(description: string): string {
+  return description
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function cleanRate(rate?: string): string | null {
+  const cleaned = (rate || '').trim();
+  return cleaned.length > 0 ? cleaned : null;
+}
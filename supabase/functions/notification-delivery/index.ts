@@ -0,0 +1,769 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+// SMTP_SECURITY is 'starttls' (default), 'tls' for implicit TLS (port 465) or 'none' for a local mail catcher
+const smtpHost = Deno.env.get('SMTP_HOST');
+const smtpPort = Number(Deno.env.get('SMTP_PORT') || 587);
+const smtpUser = Deno.env.get('SMTP_USER');
+const smtpPassword = Deno.env.get('SMTP_PASSWORD');
+const smtpFrom = Deno.env.get('SMTP_FROM') || 'HTS Change Tracker <no-reply@localhost>';
+const smtpSecurity = Deno.env.get('SMTP_SECURITY') || 'starttls';
+
+// Deliveries sent per invocation
+const BATCH_SIZE = 20;
+// Attempts before a delivery is marked FAILED; retries back off 1m, 4m, 16m, 64m, 256m
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAX_DELIVERIES = 100;
+const MAX_ERROR_LENGTH = 500;
+
+type ChannelType = 'EMAIL' | 'WEBHOOK';
+type DigestFrequency = 'DAILY' | 'WEEKLY';
+type DeliveryEvent = 'hts.change' | 'digest' | 'test';
+type DeliveryStatus = 'PENDING' | 'SENDING' | 'DELIVERED' | 'FAILED';
+
+interface NotificationChannel {
+  id: string;
+  channelType: ChannelType;
+  email?: string;
+  digestFrequency?: DigestFrequency;
+  lastDigestAt?: string;
+  url?: string;
+  secret?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface NotificationChannelRow {
+  id: string;
+  user_id: string;
+  channel_type: ChannelType;
+  email: string | null;
+  digest_frequency: DigestFrequency | null;
+  last_digest_at: string | null;
+  url: string | null;
+  secret: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface NotificationDelivery {
+  id: string;
+  channelId: string;
+  event: DeliveryEvent;
+  notificationCount: number;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+interface NotificationDeliveryRow {
+  id: string;
+  channel_id: string;
+  user_id: string;
+  event: DeliveryEvent;
+  notification_ids: string[];
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// Changes as stored in delivery payloads by hts_change_payload()
+interface ChangePayload {
+  id: string;
+  hsCode: string;
+  changeType: string;
+  field?: string;
+  oldValue?: string;
+  newValue?: string;
+  effectiveDate: string;
+  revision: string;
+  description: string;
+  impact: string;
+}
+
+interface DigestPayload {
+  frequency: DigestFrequency;
+  periodStart: string;
+  periodEnd: string;
+  changes: ChangePayload[];
+}
+
+interface SendResult {
+  delivered: boolean;
+  responseStatus?: number;
+  error?: string;
+}
+
+class RequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, channelType, email, digestFrequency, url, channelId, deliveryId, isActive, limit } = await req.json().catch(() => ({}));
+
+    console.log(`Notification delivery request: ${action || 'run'}`);
+
+    const authHeader = req.headers.get('Authorization');
+    const token = authHeader?.split(' ')[1];
+
+    // Queue digests and send due deliveries; the scheduler calls this with the service role key
+    if (!action || action === 'run') {
+      if (token !== supabaseServiceKey) {
+        throw new RequestError('Unauthorized: running deliveries requires the service role key', 401);
+      }
+
+      return jsonResponse({ success: true, ...await runDeliveries() });
+    }
+
+    if (!token) {
+      throw new RequestError('Unauthorized', 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      throw new RequestError('Unauthorized', 401);
+    }
+
+    // Email only goes to the account's own confirmed address, so the sender can't be used as a relay
+    const accountEmail = user.email && user.email_confirmed_at ? user.email : null;
+
+    let result;
+
+    switch (action) {
+      case 'get-channels':
+        result = await getChannels(user.id);
+        break;
+      case 'add-channel':
+        result = await addChannel(user.id, accountEmail, channelType, { email, digestFrequency, url });
+        break;
+      case 'update-channel':
+        result = await updateChannel(user.id, accountEmail, channelId, { isActive, digestFrequency });
+        break;
+      case 'remove-channel':
+        result = await removeChannel(user.id, channelId);
+        break;
+      case 'get-deliveries':
+        result = await getDeliveries(user.id, channelId, limit);
+        break;
+      case 'send-test':
+        result = await sendTest(user.id, accountEmail, channelId);
+        break;
+      case 'redeliver':
+        result = await redeliver(user.id, deliveryId);
+        break;
+      default:
+        throw new RequestError('Invalid action');
+    }
+
+    return jsonResponse({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Error in notification delivery:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Failed to process notification delivery request'
+    }, error instanceof RequestError ? error.status : 500);
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+async function runDeliveries(): Promise<{ digestsQueued: number; delivered: number; retrying: number; failed: number }> {
+  const { data: digestsQueued, error: digestError } = await supabase.rpc('queue_notification_digests');
+  if (digestError) {
+    console.error('Error queueing notification digests:', digestError);
+    throw new Error('Failed to queue notification digests');
+  }
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_notification_deliveries', {
+    batch_size: BATCH_SIZE,
+    max_attempts: MAX_ATTEMPTS
+  });
+  if (claimError) {
+    console.error('Error claiming notification deliveries:', claimError);
+    throw new Error('Failed to claim notification deliveries');
+  }
+
+  const deliveries = (claimed || []) as NotificationDeliveryRow[];
+  const channels = await loadChannels([...new Set(deliveries.map(d => d.channel_id))]);
+  const totals = { digestsQueued: digestsQueued || 0, delivered: 0, retrying: 0, failed: 0 };
+
+  console.log(`Sending ${deliveries.length} notification deliveries`);
+
+  // Sequential keeps a single SMTP connection busy at a time and bounds the invocation's load
+  for (const delivery of deliveries) {
+    const status = await attemptDelivery(delivery, channels.get(delivery.channel_id));
+    if (status === 'DELIVERED') totals.delivered++;
+    else if (status === 'FAILED') totals.failed++;
+    else totals.retrying++;
+  }
+
+  return totals;
+}
+
+async function loadChannels(channelIds: string[]): Promise<Map<string, NotificationChannelRow>> {
+  if (channelIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .select('*')
+    .in('id', channelIds);
+
+  if (error) {
+    console.error('Error loading notification channels:', error);
+    throw new Error('Failed to load notification channels');
+  }
+
+  return new Map((data || []).map((channel: NotificationChannelRow) => [channel.id, channel]));
+}
+
+// Send one claimed delivery and record the outcome; failures are retried with backoff until MAX_ATTEMPTS
+async function attemptDelivery(delivery: NotificationDeliveryRow, channel?: NotificationChannelRow): Promise<DeliveryStatus> {
+  let result: SendResult;
+
+  if (!channel || !channel.is_active) {
+    result = { delivered: false, error: 'Channel is inactive' };
+  } else {
+    try {
+      result = channel.channel_type === 'WEBHOOK'
+        ? await sendWebhook(channel, delivery)
+        : await sendEmail(channel, delivery);
+    } catch (error) {
+      result = { delivered: false, error: error.message || String(error) };
+    }
+  }
+
+  // Tests report their first result and inactive channels are not retried; redelivering sends them again
+  const retry = !result.delivered && delivery.event !== 'test' && channel?.is_active && delivery.attempts < MAX_ATTEMPTS;
+  const status: DeliveryStatus = result.delivered ? 'DELIVERED' : retry ? 'PENDING' : 'FAILED';
+
+  const { error } = await supabase
+    .from('notification_deliveries')
+    .update({
+      status,
+      locked_at: null,
+      response_status: result.responseStatus ?? null,
+      last_error: result.error ? result.error.substring(0, MAX_ERROR_LENGTH) : null,
+      delivered_at: result.delivered ? new Date().toISOString() : null,
+      next_attempt_at: retry
+        ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 4 ** (delivery.attempts - 1)).toISOString()
+        : delivery.next_attempt_at
+    })
+    .eq('id', delivery.id);
+
+  if (error) {
+    console.error(`Error recording delivery ${delivery.id}:`, error);
+  }
+
+  if (!result.delivered) {
+    console.warn(`Delivery ${delivery.id} attempt ${delivery.attempts} failed: ${result.error}`);
+  }
+
+  return status;
+}
+
+/**
+ * POST the delivery as JSON. The X-HTS-Signature header carries `t=<unix seconds>,v1=<hex>`,
+ * where v1 is the HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook's secret.
+ */
+async function sendWebhook(channel: NotificationChannelRow, delivery: NotificationDeliveryRow): Promise<SendResult> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.created_at,
+    ...delivery.payload
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await hmacSHA256(channel.secret!, `${timestamp}.${body}`);
+
+  try {
+    const response = await fetch(channel.url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'HTS-Change-Tracker-Webhooks/1.0',
+        'X-HTS-Event': delivery.event,
+        'X-HTS-Delivery': delivery.id,
+        'X-HTS-Signature': `t=${timestamp},v1=${signature}`
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (response.ok) {
+      await response.body?.cancel();
+      return { delivered: true, responseStatus: response.status };
+    }
+
+    const text = await response.text().catch(() => '');
+    return { delivered: false, responseStatus: response.status, error: `HTTP ${response.status}${text ? `: ${text}` : ''}` };
+  } catch (error) {
+    return {
+      delivered: false,
+      error: error.name === 'TimeoutError' ? `No response within ${WEBHOOK_TIMEOUT_MS / 1000}s` : error.message || String(error)
+    };
+  }
+}
+
+async function hmacSHA256(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function sendEmail(channel: NotificationChannelRow, delivery: NotificationDeliveryRow): Promise<SendResult> {
+  if (!smtpHost) {
+    return { delivered: false, error: 'SMTP_HOST is not configured' };
+  }
+
+  const message = delivery.event === 'digest'
+    ? renderDigest(delivery.payload as unknown as DigestPayload)
+    : {
+        subject: 'HTS Change Tracker test email',
+        text: 'Email delivery for your HTS change digest is working.',
+        html: '<p>Email delivery for your HTS change digest is working.</p>'
+      };
+
+  const client = new SMTPClient({
+    connection: {
+      hostname: smtpHost,
+      port: smtpPort,
+      tls: smtpSecurity === 'tls',
+      auth: smtpUser ? { username: smtpUser, password: smtpPassword || '' } : undefined
+    },
+    debug: {
+      allowUnsecure: smtpSecurity === 'none',
+      noStartTLS: smtpSecurity === 'none'
+    }
+  });
+
+  try {
+    await client.send({
+      from: smtpFrom,
+      to: channel.email!,
+      subject: message.subject,
+      content: message.text,
+      html: message.html
+    });
+    return { delivered: true };
+  } finally {
+    await client.close().catch(() => undefined);
+  }
+}
+
+function renderDigest(digest: DigestPayload): { subject: string; text: string; html: string } {
+  const period = digest.frequency === 'WEEKLY' ? 'Weekly' : 'Daily';
+  const count = digest.changes.length;
+  const subject = `${period} HTS change digest: ${count} change${count === 1 ? '' : 's'}`;
+  const range = `${formatDay(digest.periodStart)} – ${formatDay(digest.periodEnd)}`;
+
+  const describe = (change: ChangePayload) => {
+    const values = change.oldValue || change.newValue
+      ? ` (${change.field ? `${change.field}: ` : ''}${change.oldValue || '—'} → ${change.newValue || '—'})`
+      : '';
+    return `${change.description}${values}`;
+  };
+
+  const text = [
+    `${subject}`,
+    `Changes matched by your subscriptions, ${range}`,
+    '',
+    ...digest.changes.map(change =>
+      `${change.hsCode}  ${change.changeType.replace('_', ' ')}  ${change.impact}  effective ${change.effectiveDate}\n  ${describe(change)}`
+    )
+  ].join('\n');
+
+  const rows = digest.changes.map(change => `
+    <tr>
+      <td style="padding:4px 8px;font-family:monospace">${escapeHtml(change.hsCode)}</td>
+      <td style="padding:4px 8px">${escapeHtml(change.changeType.replace('_', ' '))}</td>
+      <td style="padding:4px 8px">${escapeHtml(change.impact)}</td>
+      <td style="padding:4px 8px">${escapeHtml(change.effectiveDate)}</td>
+      <td style="padding:4px 8px">${escapeHtml(describe(change))}</td>
+    </tr>`).join('');
+
+  const html = `
+    <h2>${escapeHtml(subject)}</h2>
+    <p>Changes matched by your subscriptions, ${escapeHtml(range)}</p>
+    <table style="border-collapse:collapse">
+      <tr>
+        <th align="left" style="padding:4px 8px">HTS code</th>
+        <th align="left" style="padding:4px 8px">Change</th>
+        <th align="left" style="padding:4px 8px">Impact</th>
+        <th align="left" style="padding:4px 8px">Effective</th>
+        <th align="left" style="padding:4px 8px">Details</th>
+      </tr>${rows}
+    </table>`;
+
+  return { subject, text, html };
+}
+
+function formatDay(timestamp: string): string {
+  return new Date(timestamp).toISOString().substring(0, 10);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function getChannels(userId: string): Promise<{ channels: NotificationChannel[] }> {
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading notification channels:', error);
+    throw new Error('Failed to load notification channels');
+  }
+
+  return { channels: (data || []).map(toChannel) };
+}
+
+function assertAccountEmail(email: string, accountEmail: string | null) {
+  if (!accountEmail) {
+    throw new RequestError('Confirm your account email address before using email digests', 403);
+  }
+  if (email.toLowerCase() !== accountEmail.toLowerCase()) {
+    throw new RequestError(`Email digests can only be sent to your account email address (${accountEmail})`, 403);
+  }
+}
+
+async function addChannel(
+  userId: string,
+  accountEmail: string | null,
+  channelType: ChannelType,
+  target: { email?: string; digestFrequency?: DigestFrequency; url?: string }
+): Promise<{ channel: NotificationChannel }> {
+  let row: Partial<NotificationChannelRow>;
+
+  if (channelType === 'EMAIL') {
+    const email = typeof target.email === 'string' ? target.email.trim() : '';
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new RequestError('Invalid request: a valid email address is required');
+    }
+    assertAccountEmail(email, accountEmail);
+    row = { channel_type: 'EMAIL', email, digest_frequency: parseFrequency(target.digestFrequency || 'DAILY') };
+  } else if (channelType === 'WEBHOOK') {
+    row = { channel_type: 'WEBHOOK', url: parseWebhookUrl(target.url), secret: generateSecret() };
+  } else {
+    throw new RequestError('Invalid request: channelType must be EMAIL or WEBHOOK');
+  }
+
+  console.log(`Adding ${channelType} channel for user ${userId}`);
+
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .insert({ ...row, user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new RequestError(`This ${channelType === 'EMAIL' ? 'email address' : 'webhook URL'} is already registered`, 409);
+    }
+    console.error('Error saving notification channel:', error);
+    throw new Error('Failed to save notification channel');
+  }
+
+  return { channel: toChannel(data) };
+}
+
+async function updateChannel(
+  userId: string,
+  accountEmail: string | null,
+  channelId: string,
+  changes: { isActive?: boolean; digestFrequency?: DigestFrequency }
+): Promise<{ channel: NotificationChannel }> {
+  if (!channelId) {
+    throw new RequestError('Invalid request: channelId is required');
+  }
+
+  const update: Partial<NotificationChannelRow> = {};
+  if (typeof changes.isActive === 'boolean') {
+    update.is_active = changes.isActive;
+  }
+  if (changes.digestFrequency !== undefined) {
+    update.digest_frequency = parseFrequency(changes.digestFrequency);
+  }
+  if (Object.keys(update).length === 0) {
+    throw new RequestError('Invalid request: nothing to update');
+  }
+
+  if (update.is_active) {
+    const { data: channel, error: channelError } = await supabase
+      .from('notification_channels')
+      .select('channel_type, email')
+      .eq('id', channelId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (channelError) {
+      console.error('Error loading notification channel:', channelError);
+      throw new Error('Failed to load notification channel');
+    }
+
+    if (channel?.channel_type === 'EMAIL') {
+      assertAccountEmail(channel.email, accountEmail);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .update(update)
+    .eq('id', channelId)
+    .eq('user_id', userId)
+    .select();
+
+  if (error) {
+    console.error('Error updating notification channel:', error);
+    throw new Error('Failed to update notification channel');
+  }
+
+  if (!data || data.length === 0) {
+    throw new RequestError('Notification channel not found', 404);
+  }
+
+  return { channel: toChannel(data[0]) };
+}
+
+async function removeChannel(userId: string, channelId: string): Promise<{ channelId: string }> {
+  if (!channelId) {
+    throw new RequestError('Invalid request: channelId is required');
+  }
+
+  // The channel's delivery log goes with it
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .delete()
+    .eq('id', channelId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('Error removing notification channel:', error);
+    throw new Error('Failed to remove notification channel');
+  }
+
+  if (!data || data.length === 0) {
+    throw new RequestError('Notification channel not found', 404);
+  }
+
+  return { channelId };
+}
+
+async function getDeliveries(userId: string, channelId?: string, limit?: number): Promise<{ deliveries: NotificationDelivery[] }> {
+  let query = supabase
+    .from('notification_deliveries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(Number(limit) || 50, 1), MAX_DELIVERIES));
+
+  if (channelId) {
+    query = query.eq('channel_id', channelId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error loading notification deliveries:', error);
+    throw new Error('Failed to load notification deliveries');
+  }
+
+  return { deliveries: (data || []).map(toDelivery) };
+}
+
+// Queue a test message for the channel and send it right away so the result shows immediately
+async function sendTest(userId: string, accountEmail: string | null, channelId: string): Promise<{ delivery: NotificationDelivery }> {
+  if (!channelId) {
+    throw new RequestError('Invalid request: channelId is required');
+  }
+
+  const { data: channel, error: channelError } = await supabase
+    .from('notification_channels')
+    .select('*')
+    .eq('id', channelId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (channelError) {
+    console.error('Error loading notification channel:', channelError);
+    throw new Error('Failed to load notification channel');
+  }
+
+  if (!channel) {
+    throw new RequestError('Notification channel not found', 404);
+  }
+
+  if (!channel.is_active) {
+    throw new RequestError('Activate the channel before sending a test');
+  }
+
+  if (channel.channel_type === 'EMAIL') {
+    assertAccountEmail(channel.email, accountEmail);
+  }
+
+  const { data: queued, error } = await supabase
+    .from('notification_deliveries')
+    .insert({
+      channel_id: channel.id,
+      user_id: userId,
+      event: 'test',
+      payload: { message: 'Test delivery from the HTS change tracker' },
+      status: 'SENDING',
+      attempts: 1,
+      locked_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error queueing test delivery:', error);
+    throw new Error('Failed to queue test delivery');
+  }
+
+  await attemptDelivery(queued, channel);
+
+  const { data: delivery, error: reloadError } = await supabase
+    .from('notification_deliveries')
+    .select('*')
+    .eq('id', queued.id)
+    .single();
+
+  if (reloadError) {
+    console.error('Error loading test delivery:', reloadError);
+    throw new Error('Failed to load test delivery');
+  }
+
+  return { delivery: toDelivery(delivery) };
+}
+
+// Put a failed delivery back in the queue with a fresh set of attempts
+async function redeliver(userId: string, deliveryId: string): Promise<{ delivery: NotificationDelivery }> {
+  if (!deliveryId) {
+    throw new RequestError('Invalid request: deliveryId is required');
+  }
+
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .update({ status: 'PENDING', attempts: 0, next_attempt_at: new Date().toISOString(), last_error: null })
+    .eq('id', deliveryId)
+    .eq('user_id', userId)
+    .eq('status', 'FAILED')
+    .select();
+
+  if (error) {
+    console.error('Error requeueing notification delivery:', error);
+    throw new Error('Failed to requeue notification delivery');
+  }
+
+  if (!data || data.length === 0) {
+    throw new RequestError('Failed delivery not found', 404);
+  }
+
+  return { delivery: toDelivery(data[0]) };
+}
+
+function parseFrequency(value: string): DigestFrequency {
+  const frequency = typeof value === 'string' ? value.toUpperCase() : '';
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY') {
+    throw new RequestError('Invalid request: digestFrequency must be DAILY or WEEKLY');
+  }
+  return frequency;
+}
+
+// Webhooks must use HTTPS; plain HTTP is only accepted for local receivers during development
+function parseWebhookUrl(value?: string): string {
+  let url: URL;
+  try {
+    url = new URL(typeof value === 'string' ? value.trim() : '');
+  } catch {
+    throw new RequestError('Invalid request: url must be an absolute URL');
+  }
+
+  const local = ['localhost', '127.0.0.1', 'host.docker.internal'].includes(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) {
+    throw new RequestError('Invalid request: webhook URLs must use https');
+  }
+
+  return url.toString();
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function toChannel(row: NotificationChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    channelType: row.channel_type,
+    email: row.email ?? undefined,
+    digestFrequency: row.digest_frequency ?? undefined,
+    lastDigestAt: row.last_digest_at ?? undefined,
+    url: row.url ?? undefined,
+    secret: row.secret ?? undefined,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toDelivery(row: NotificationDeliveryRow): NotificationDelivery {
+  return {
+    id: row.id,
+    channelId: row.channel_id,
+    event: row.event,
+    notificationCount: row.notification_ids.length,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    responseStatus: row.response_status ?? undefined,
+    lastError: row.last_error ?? undefined,
+    deliveredAt: row.delivered_at ?? undefined,
+    createdAt: row.created_at
+  };
+}
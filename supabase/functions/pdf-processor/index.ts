@@ -1,11 +1,16 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
 interface HSCodeEntry {
   code: string;
   description: string;
@@ -82,7 +87,7 @@ function extractHSCodes(text: string, filename?: string): { entries: HSCodeEntry
     
     // Detect chapter headers
     const chapterMatch = line.match(/^Chapter\s+(\d{1,2})\s*[:\-\s]*(.*)$/i) ||
-                        line.match(/^(\d{1,2})\s*[:\-\s]*(.+)$/) ||
+                        line.match(/^(\d{1,2})(?![\d.])\s*[:\-\s]*(.+)$/) ||
                         line.match(/^CHAPTER\s+(\d{1,2})\s*(.*)$/i);
     
     if (chapterMatch) {
@@ -106,6 +111,10 @@ function extractHSCodes(text: string, filename?: string): { entries: HSCodeEntry
           description = match[4];
         }
         
+        // Separate the rate columns before the description is flattened
+        const columns = splitRateColumns(description);
+        description = columns.description;
+
         // Clean up description
         description = description
           .replace(/\s+/g, ' ')
@@ -122,18 +131,25 @@ function extractHSCodes(text: string, filename?: string): { entries: HSCodeEntry
         
         // Extract additional information from surrounding lines
         const additionalInfo = extractAdditionalInfo(lines, i, code);
+        if (columns.specialRate) {
+          const programs = columns.specialRate.match(/\(([^)]+)\)/);
+          if (programs) {
+            additionalInfo.specialPrograms.push(...programs[1].split(',').map(program => program.trim()).filter(Boolean));
+          }
+        }
         
         // Generate enhanced keywords
         const keywords = generateEnhancedKeywords(description + ' ' + additionalInfo.notes.join(' '));
         
         // Determine category based on HS code prefix
-        const chapterNumber = currentChapter || code.substring(0, 2);
+        // The code itself names its chapter; statistical suffix lines can look like chapter headers
+        const chapterNumber = code.substring(0, 2);
         const category = getCategoryFromChapter(chapterNumber);
         
         // Chapter information with enhanced details
         const chapterInfo = {
           number: chapterNumber,
-          title: currentChapterTitle || getChapterTitle(chapterNumber),
+          title: (currentChapter === chapterNumber && currentChapterTitle) || getChapterTitle(chapterNumber),
           description: getChapterDescription(chapterNumber)
         };
         
@@ -145,7 +161,7 @@ function extractHSCodes(text: string, filename?: string): { entries: HSCodeEntry
           description,
           category,
           keywords,
-          tariffRate: additionalInfo.dutyRate || undefined,
+          tariffRate: columns.generalRate || additionalInfo.dutyRate || undefined,
           changeType: changeType || undefined,
           effectiveDate: revision,
           chapterInfo,
@@ -179,6 +195,259 @@ function extractHSCodes(text: string, filename?: string): { entries: HSCodeEntry
   return { entries, stats };
 }
 
+// One amended line of a USITC Change Record, shaped like hts-change-tracker's HTSChange
+interface ChangeRecordChange {
+  hsCode: string;
+  changeType: 'NEW' | 'MODIFIED' | 'DELETED' | 'RATE_CHANGE' | 'DESCRIPTION_CHANGE';
+  nature: string;
+  effectiveDate: string;
+  revision: string;
+  fromRevision?: string;
+  description: string;
+  impact: 'LOW' | 'MEDIUM' | 'HIGH';
+  chapter: string;
+  source: string;
+  authority: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Terms used in the "Nature of change" column, optionally qualified by the part of the line that changed
+const CHANGE_NATURE = '(?:(?:rate|general rate|special rate|column 2 rate|description|article description|superior text|footnote|units?(?: of quantity)?|special program indicators?)\\s+)?' +
+  '(?:added|deleted|modified|established|discontinued|annotated|restored|redesignated|renumbered|inserted|removed|amended)';
+const EFFECTIVE_DATE = `(?:${MONTHS.join('|')})\\s+\\d{1,2}\\s*,\\s*\\d{4}`;
+
+// Where a new "Item changed" cell starts: an HTS number or a note reference
+const ITEM_START = '(?:\\d{4}\\.\\d{2}|(?:Additional\\s+)?U\\.S\\.\\s+notes?|General\\s+notes?|Statistical\\s+notes?|Subchapter\\s|Chapter\\s|Section\\s|Heading\\s)';
+
+/**
+ * Parse the table of a USITC Change Record ("Item changed | Nature of change | Effective date | Source")
+ * into typed changes. Cells arrive in reading order, possibly wrapped across lines, so rows are
+ * anchored on the nature and effective date columns rather than on line breaks.
+ */
+function parseChangeRecord(text: string, filename?: string): { changes: ChangeRecordChange[]; revision: string; fromRevision?: string } {
+  const normalized = text
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+,/g, ',');
+
+  const { revision, fromRevision } = extractChangeRecordRevisions(normalized, filename);
+
+  // Only the table is parsed; the preamble explains the terms and would match them
+  const tableStart = normalized.search(/Item changed\s+Nature of change\s+Effective date\s+Source/i);
+  if (tableStart === -1) {
+    throw new Error('Not a USITC Change Record: the "Item changed / Nature of change / Effective date / Source" table was not found');
+  }
+  const table = normalized
+    .substring(tableStart)
+    .replace(/Item changed\s+Nature of change\s+Effective date\s+Source/gi, ' ');
+
+  const rowPattern = new RegExp(
+    `\\s*(.+?)\\s+(${CHANGE_NATURE})\\s+(${EFFECTIVE_DATE})\\s+(.+?)(?=\\s+${ITEM_START}|\\s*$)`,
+    'gi'
+  );
+
+  const changes: ChangeRecordChange[] = [];
+  for (const match of table.matchAll(rowPattern)) {
+    const item = match[1].trim();
+    const nature = match[2].trim();
+    const effectiveDate = parseLongDate(match[3]);
+    const authority = match[4].trim();
+    if (!effectiveDate) continue;
+
+    const codeMatch = item.match(/^(\d{4}\.\d{2}(?:\.\d{2}(?:\.?\d{2})?)?)\b/);
+    const chapterMatch = item.match(/\bch(?:apter)?\.?\s+(\d{1,2})\b/i);
+    const chapter = codeMatch ? codeMatch[1].substring(0, 2) : (chapterMatch ? chapterMatch[1].padStart(2, '0') : '');
+    const changeType = toChangeType(nature);
+
+    changes.push({
+      hsCode: codeMatch ? codeMatch[1] : item,
+      changeType,
+      nature,
+      effectiveDate,
+      revision,
+      fromRevision,
+      description: `${nature.charAt(0).toUpperCase()}${nature.slice(1).toLowerCase()}: ${item}`,
+      impact: assessChangeRecordImpact(changeType, codeMatch?.[1], chapter),
+      chapter,
+      source: `USITC Change Record, ${revision}`,
+      authority
+    });
+  }
+
+  return { changes, revision, fromRevision };
+}
+
+function extractChangeRecordRevisions(text: string, filename?: string): { revision: string; fromRevision?: string } {
+  // The title reads "Harmonized Tariff Schedule of the United States (2025 Revision 19)"; digits may be split by extraction
+  const titleMatch = text.match(/\((\d{4})\s+(Basic Edition|Revision\s+[\d\s]+?)\s*\)/i);
+  const fileMatch = (filename || '').match(/(\d{4})HTS(?:Rev(\d+)|Basic)/i);
+
+  let revision: string;
+  if (titleMatch) {
+    const edition = titleMatch[2].replace(/\s+/g, ' ');
+    revision = /basic/i.test(edition)
+      ? `${titleMatch[1]} Basic Edition`
+      : `${titleMatch[1]} Revision ${edition.replace(/\D/g, '')}`;
+  } else if (fileMatch) {
+    revision = fileMatch[2] ? `${fileMatch[1]} Revision ${fileMatch[2]}` : `${fileMatch[1]} Basic Edition`;
+  } else {
+    throw new Error('Could not determine the HTS revision of this Change Record');
+  }
+
+  // "...updates made to the HTS after 2025 Revision 18, published August 6, 2025"
+  const previousMatch = text.match(/(?:after|since)\s+(\d{4})\s+(Basic Edition|Revision\s+\d[\d\s]*?)\s*(?:,|was\b|published\b)/i);
+  const fromRevision = previousMatch
+    ? (/basic/i.test(previousMatch[2])
+      ? `${previousMatch[1]} Basic Edition`
+      : `${previousMatch[1]} Revision ${previousMatch[2].replace(/\D/g, '')}`)
+    : undefined;
+
+  return { revision, fromRevision };
+}
+
+function parseLongDate(value: string): string | null {
+  const match = value.match(/([a-z]+)\s+(\d{1,2})\s*,\s*(\d{4})/i);
+  if (!match) return null;
+
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  if (month === -1) return null;
+
+  return new Date(Date.UTC(Number(match[3]), month, Number(match[2]))).toISOString().split('T')[0];
+}
+
+// "Established"/"annotated" add statistical lines, "discontinued"/"restored" remove them
+function toChangeType(nature: string): ChangeRecordChange['changeType'] {
+  const lower = nature.toLowerCase();
+  if (/(added|established|annotated|inserted)$/.test(lower)) return 'NEW';
+  if (/(deleted|discontinued|restored|removed)$/.test(lower)) return 'DELETED';
+  if (lower.includes('rate')) return 'RATE_CHANGE';
+  if (/(description|superior text)/.test(lower)) return 'DESCRIPTION_CHANGE';
+  return 'MODIFIED';
+}
+
+// Chapter 99 carries the temporary and additional duties, so any change there can move landed cost
+function assessChangeRecordImpact(changeType: ChangeRecordChange['changeType'], code: string | undefined, chapter: string): ChangeRecordChange['impact'] {
+  if (changeType === 'DELETED' || changeType === 'RATE_CHANGE' || chapter === '99') return 'HIGH';
+  if (changeType === 'NEW' && code && code.replace(/\D/g, '').length === 10) return 'LOW';
+  return 'MEDIUM';
+}
+
+// Reconcile the stored changes for this revision with the record on (hts_code, change_type).
+// Only changes not stored before are inserted, so reprocessing a record does not notify
+// subscribers again; existing rows are updated in place and ones no longer listed removed.
+async function saveChangeRecord(changes: ChangeRecordChange[], revision: string) {
+  const rows = new Map<string, Record<string, unknown>>();
+  const keyedChanges = changes.map(change => {
+    const digits = /^\d{4}\./.test(change.hsCode) ? change.hsCode.replace(/\D/g, '') : change.chapter;
+    const key = `${digits}|${change.changeType}`;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        hts_code: digits,
+        htsno: change.hsCode,
+        level: digits.length === 10 ? 'statistical' : digits.length === 8 ? 'tariff_line' : digits.length === 6 ? 'subheading' : digits.length === 4 ? 'heading' : null,
+        change_type: change.changeType,
+        description: change.authority ? `${change.description} (source: ${change.authority})` : change.description,
+        impact: change.impact,
+        chapter: change.chapter,
+        heading: digits.length >= 4 ? digits.substring(0, 4) : null,
+        from_revision: change.fromRevision || null,
+        revision,
+        effective_date: change.effectiveDate,
+        source: 'CHANGE_RECORD'
+      });
+    }
+    return { key, change };
+  });
+
+  const { data: existing, error: existingError } = await supabase
+    .from('hts_changes')
+    .select('id, hts_code, change_type')
+    .eq('source', 'CHANGE_RECORD')
+    .eq('revision', revision);
+
+  if (existingError) {
+    console.error('Error loading previous change record:', existingError);
+    throw new Error('Failed to load the stored change record');
+  }
+
+  const ids = new Map<string, string>();
+  const staleIds: string[] = [];
+  for (const row of existing || []) {
+    const key = `${row.hts_code}|${row.change_type}`;
+    if (rows.has(key) && !ids.has(key)) {
+      ids.set(key, row.id);
+    } else {
+      staleIds.push(row.id);
+    }
+  }
+
+  if (staleIds.length > 0) {
+    const { error: deleteError } = await supabase.from('hts_changes').delete().in('id', staleIds);
+    if (deleteError) {
+      console.error('Error removing changes no longer in the record:', deleteError);
+      throw new Error('Failed to update the stored change record');
+    }
+  }
+
+  for (const [key, id] of ids) {
+    const { error: updateError } = await supabase.from('hts_changes').update(rows.get(key)!).eq('id', id);
+    if (updateError) {
+      console.error('Error updating stored change:', updateError);
+      throw new Error('Failed to update the stored change record');
+    }
+  }
+
+  const newKeys = [...rows.keys()].filter(key => !ids.has(key));
+  if (newKeys.length > 0) {
+    const { data, error } = await supabase
+      .from('hts_changes')
+      .insert(newKeys.map(key => rows.get(key)!))
+      .select('id, hts_code, change_type');
+
+    if (error) {
+      console.error('Error saving change record:', error);
+      throw new Error('Failed to save the parsed changes');
+    }
+
+    for (const row of data || []) {
+      ids.set(`${row.hts_code}|${row.change_type}`, row.id);
+    }
+  }
+
+  return {
+    changes: keyedChanges.map(({ key, change }) => ({ id: ids.get(key), ...change })),
+    inserted: newKeys.length,
+    updated: ids.size - newKeys.length,
+    removed: staleIds.length
+  };
+}
+
+// A General, Special or Column 2 rate cell: ad valorem, specific (cents per unit) or free
+const RATE_CELL = /^(?:Free\b|\d+(?:\.\d+)?\s*(?:%|¢|\/)|\$\d)/i;
+
+/**
+ * Layout-preserving extraction keeps table columns apart by two or more spaces, so an HTS line reads
+ * [stat suffix]  article description  [unit of quantity]  general  special  column 2.
+ */
+function splitRateColumns(text: string): { description: string; generalRate?: string; specialRate?: string; column2Rate?: string } {
+  const cells = text.split(/\s{2,}/).map(cell => cell.trim()).filter(Boolean);
+  const rateIndex = cells.findIndex((cell, index) => index > 0 && RATE_CELL.test(cell));
+
+  if (rateIndex === -1) {
+    return { description: cells.join(' ') };
+  }
+
+  const descriptionCells = cells.slice(0, rateIndex).filter((cell, index) => !(index === 0 && /^\d{2}$/.test(cell)));
+  // Units of quantity are short tokens such as "kg", "No." or "doz. kg"
+  if (descriptionCells.length > 1 && descriptionCells[descriptionCells.length - 1].length <= 12) {
+    descriptionCells.pop();
+  }
+
+  const [generalRate, specialRate, column2Rate] = cells.slice(rateIndex);
+  return { description: descriptionCells.join(' '), generalRate, specialRate, column2Rate };
+}
+
 function detectDocumentType(filename?: string, text?: string): string {
   if (filename) {
     if (filename.includes('Change') || filename.includes('change')) return 'Change Record';
@@ -385,10 +654,10 @@ function getChapterDescription(chapter: string): string {
 function processOCRText(text: string, filename?: string): { entries: HSCodeEntry[], stats: ProcessingStats } {
   console.log("Processing OCR text, length:", text.length, "filename:", filename);
   
-  // Clean up OCR artifacts
+  // Clean up OCR artifacts; line breaks and column gaps carry the table layout, so keep them
   const cleanText = text
-    .replace(/[^\x20-\x7E\n\r]/g, ' ') // Remove non-printable characters
-    .replace(/\s+/g, ' ') // Normalize whitespace
+    .replace(/[^\x20-\x7E\n\r¢]/g, ' ') // Remove non-printable characters
+    .replace(/[ \t]+$/gm, '') // Trim trailing whitespace
     .replace(/\n\s*\n/g, '\n'); // Remove empty lines
   
   const result = extractHSCodes(cleanText, filename);
@@ -406,6 +675,84 @@ serve(async (req) => {
 
   try {
     const { action, text, filename } = await req.json();
+
+    if (action === 'process-change-record') {
+      // Parsed changes replace shared reference data and notify every subscriber, so like
+      // hts-schedule-import this needs the service role, or a signed-in admin
+      const token = req.headers.get('Authorization')?.split(' ')[1];
+      let uploadedBy = 'service role';
+
+      if (!token || token !== supabaseServiceKey) {
+        const { data: { user }, error: authError } = token
+          ? await supabase.auth.getUser(token)
+          : { data: { user: null }, error: null };
+
+        if (authError || !user) {
+          return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const { data: isAdmin, error: roleError } = await supabase.rpc('has_role', {
+          check_user_id: user.id,
+          check_role: 'admin'
+        });
+
+        if (roleError) {
+          console.error('Error checking admin role:', roleError);
+          throw new Error('Failed to check permissions');
+        }
+
+        if (!isAdmin) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Only administrators can import Change Records, since they update the change feed for every user'
+          }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        uploadedBy = `user ${user.id}`;
+      }
+
+      if (!text || typeof text !== 'string') {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid request: text is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      let parsed;
+      try {
+        parsed = parseChangeRecord(text, filename);
+      } catch (parseError) {
+        return new Response(JSON.stringify({ success: false, error: parseError.message }), {
+          status: 422,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const saved = await saveChangeRecord(parsed.changes, parsed.revision);
+      const changes = saved.changes;
+
+      console.log(`Processed change record for ${parsed.revision}: ${saved.inserted} new, ${saved.updated} updated, ${saved.removed} removed by ${uploadedBy}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        changes,
+        revision: parsed.revision,
+        fromRevision: parsed.fromRevision,
+        count: changes.length,
+        inserted: saved.inserted,
+        updated: saved.updated,
+        removed: saved.removed,
+        message: `Saved ${changes.length} changes from the ${parsed.revision} Change Record (${saved.inserted} new)`
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     
     if (action === 'process-hts-text') {
       const result = processOCRText(text, filename);
@@ -0,0 +1,500 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+const REVIEW_STATUSES = ['open', 'in_review', 'approved', 'rejected'];
+const ACTIVE_STATUSES = ['open', 'in_review'];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_JUSTIFICATION_LENGTH = 2000;
+const MAX_ASSIGNEE_LENGTH = 320;
+
+type ReviewStatus = 'open' | 'in_review' | 'approved' | 'rejected';
+
+interface ReviewRow {
+  id: string;
+  prediction_id: string;
+  user_id: string;
+  status: ReviewStatus;
+  review_reason: string | null;
+  assignee: string | null;
+  assignee_id: string | null;
+  assigned_at: string | null;
+  due_at: string;
+  started_at: string | null;
+  resolved_code: string | null;
+  justification: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  hts_predictions?: {
+    product_title: string;
+    product_description: string | null;
+    category: string | null;
+    materials: string | null;
+    confidence_score: number | null;
+    predicted_codes: Array<{ code: string; description: string; confidence?: number }>;
+    model_version: string | null;
+    product_id: string | null;
+  } | null;
+}
+
+const REVIEW_COLUMNS = 'id, prediction_id, user_id, status, review_reason, assignee, assignee_id, assigned_at, due_at, started_at, resolved_code, justification, resolved_at, created_at';
+const PREDICTION_COLUMNS = 'product_title, product_description, category, materials, confidence_score, predicted_codes, model_version, product_id';
+
+// The signed-in user; email is only set once confirmed, so an assignment can't be claimed by signing up with it
+interface Viewer {
+  id: string;
+  email: string | null;
+}
+
+class RequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Extract and verify JWT token
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: Missing or invalid authorization header'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.split(' ')[1]);
+    if (authError || !user) {
+      console.error('Authentication error:', authError);
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: Invalid token'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const viewer: Viewer = {
+      id: user.id,
+      email: user.email && user.email_confirmed_at ? user.email.toLowerCase() : null
+    };
+
+    const { action, reviewId, status, assignee, mine, code, justification, page, pageSize } = await req.json();
+
+    if (!action || typeof action !== 'string') {
+      throw new RequestError('Invalid request: action is required');
+    }
+    console.log(`Review queue action: ${action}, Review: ${reviewId || '-'}`);
+
+    let result;
+    switch (action) {
+      case 'list':
+        result = await listReviews(viewer, status, !!mine, page, pageSize);
+        break;
+      case 'assign':
+        result = await assignReview(await getAccessibleReview(reviewId, viewer), assignee === undefined ? viewer.email : assignee);
+        break;
+      case 'start-review':
+        result = await startReview(await getAccessibleReview(reviewId, viewer), viewer.email);
+        break;
+      case 'approve':
+        result = await resolveReview(await getAccessibleReview(reviewId, viewer), viewer, 'approved', code, justification);
+        break;
+      case 'reject':
+        result = await resolveReview(await getAccessibleReview(reviewId, viewer), viewer, 'rejected', code, justification);
+        break;
+      default:
+        throw new RequestError('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in review-queue function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof RequestError ? error.status : 500
+      }
+    );
+  }
+});
+
+async function getAccessibleReview(reviewId: unknown, viewer: Viewer): Promise<ReviewRow> {
+  if (!reviewId || typeof reviewId !== 'string') {
+    throw new RequestError('Invalid request: reviewId is required');
+  }
+
+  const { data, error } = await supabase
+    .from('prediction_reviews')
+    .select(`${REVIEW_COLUMNS}, hts_predictions(${PREDICTION_COLUMNS})`)
+    .eq('id', reviewId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading review:', error);
+    throw new Error('Failed to load review');
+  }
+
+  // Reviews the user neither owns nor is assigned are reported as missing rather than forbidden
+  if (!data || !(data.user_id === viewer.id || isAssignee(data as ReviewRow, viewer))) {
+    throw new RequestError('Review not found', 404);
+  }
+
+  return data as ReviewRow;
+}
+
+function isAssignee(review: ReviewRow, viewer: Viewer): boolean {
+  return review.assignee_id === viewer.id || (!!viewer.email && review.assignee === viewer.email);
+}
+
+// The owner's queue, or with mine the reviews assigned to the user whoever owns them
+function scopeFilter(viewer: Viewer, mine: boolean): string {
+  if (!mine) {
+    return `user_id.eq.${viewer.id}`;
+  }
+  return viewer.email
+    ? `assignee_id.eq.${viewer.id},assignee.eq."${viewer.email.replace(/"/g, '')}"`
+    : `assignee_id.eq.${viewer.id}`;
+}
+
+async function listReviews(
+  viewer: Viewer,
+  status: unknown,
+  mine: boolean,
+  page: unknown,
+  pageSize: unknown
+) {
+  const statuses = status === undefined
+    ? ACTIVE_STATUSES
+    : (Array.isArray(status) ? status : [status]);
+  if (statuses.length === 0 || statuses.some(value => !REVIEW_STATUSES.includes(value))) {
+    throw new RequestError(`Invalid request: status must be one of ${REVIEW_STATUSES.join(', ')}`);
+  }
+
+  const size = Math.min(Math.max(Number(pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const pageIndex = Math.max(Number(page) || 0, 0);
+
+  const query = supabase
+    .from('prediction_reviews')
+    .select(`${REVIEW_COLUMNS}, hts_predictions(${PREDICTION_COLUMNS})`, { count: 'exact' })
+    .or(scopeFilter(viewer, mine))
+    .in('status', statuses)
+    // Most urgent first: the closest (or most overdue) SLA deadline leads the queue
+    .order('due_at', { ascending: true })
+    .range(pageIndex * size, pageIndex * size + size - 1);
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    console.error('Error listing reviews:', error);
+    throw new Error('Failed to list reviews');
+  }
+
+  return {
+    reviews: ((data || []) as ReviewRow[]).map(toReview),
+    total: count || 0,
+    page: pageIndex,
+    pageSize: size,
+    counts: await countByStatus(scopeFilter(viewer, mine))
+  };
+}
+
+async function countByStatus(scope: string) {
+  const counts: Record<string, number> = { overdue: 0 };
+
+  const results = await Promise.all([
+    ...REVIEW_STATUSES.map(status => supabase
+      .from('prediction_reviews')
+      .select('id', { count: 'exact', head: true })
+      .or(scope)
+      .eq('status', status)),
+    supabase
+      .from('prediction_reviews')
+      .select('id', { count: 'exact', head: true })
+      .or(scope)
+      .in('status', ACTIVE_STATUSES)
+      .lt('due_at', new Date().toISOString())
+  ]);
+
+  REVIEW_STATUSES.forEach((status, index) => {
+    counts[status] = results[index].count || 0;
+  });
+  counts.overdue = results[REVIEW_STATUSES.length].count || 0;
+
+  return counts;
+}
+
+async function assignReview(review: ReviewRow, assignee: unknown) {
+  ensureActive(review);
+
+  if (assignee !== null && (typeof assignee !== 'string' || assignee.length > MAX_ASSIGNEE_LENGTH)) {
+    throw new RequestError('Invalid request: assignee must be an email address or null');
+  }
+
+  const trimmed = typeof assignee === 'string' ? assignee.trim().toLowerCase() : '';
+  const updated = await updateReview(review, {
+    assignee: trimmed || null,
+    assigned_at: trimmed ? new Date().toISOString() : null
+  });
+
+  return { review: updated };
+}
+
+async function startReview(review: ReviewRow, userEmail: string | null) {
+  ensureActive(review);
+
+  const updated = await updateReview(review, {
+    status: 'in_review',
+    started_at: review.started_at || new Date().toISOString(),
+    // Picking up an unassigned review assigns it to the reviewer
+    ...(review.assignee ? {} : { assignee: userEmail || null, assigned_at: new Date().toISOString() })
+  });
+
+  return { review: updated };
+}
+
+async function resolveReview(
+  review: ReviewRow,
+  reviewer: Viewer,
+  decision: 'approved' | 'rejected',
+  code: unknown,
+  justification: unknown
+) {
+  ensureActive(review);
+
+  if (!code || typeof code !== 'string' || !isValidHtsCode(code)) {
+    throw new RequestError('Invalid request: code must be an HTS code of 6, 8 or 10 digits');
+  }
+
+  if (justification !== undefined && justification !== null
+    && (typeof justification !== 'string' || justification.length > MAX_JUSTIFICATION_LENGTH)) {
+    throw new RequestError(`Invalid request: justification must be text of at most ${MAX_JUSTIFICATION_LENGTH} characters`);
+  }
+
+  const note = typeof justification === 'string' ? justification.trim() : '';
+  const candidates = review.hts_predictions?.predicted_codes || [];
+  const isCandidate = candidates.some(candidate => sameCode(candidate.code, code));
+
+  if (decision === 'approved' && !isCandidate) {
+    throw new RequestError('Only one of the predicted candidates can be approved; reject the prediction to enter a different code');
+  }
+
+  if (decision === 'rejected' && !note) {
+    throw new RequestError('Invalid request: a justification is required when entering a different code');
+  }
+
+  const selectedCode = code.trim();
+  const now = new Date().toISOString();
+
+  // Write the decision back to the prediction so analytics and calibration see it as feedback
+  const { error: predictionError } = await supabase
+    .from('hts_predictions')
+    .update({
+      selected_code: selectedCode,
+      user_feedback: candidates.length > 0 && sameCode(candidates[0].code, selectedCode) ? 'correct' : 'incorrect',
+      user_comments: note || null,
+      feedback_at: now,
+      updated_at: now
+    })
+    .eq('id', review.prediction_id)
+    .eq('user_id', review.user_id);
+
+  if (predictionError) {
+    console.error('Error writing review decision to prediction:', predictionError);
+    throw new Error('Failed to save review decision');
+  }
+
+  const updated = await updateReview(review, {
+    status: decision,
+    resolved_code: selectedCode,
+    justification: note || null,
+    resolved_by: reviewer.id,
+    resolved_at: now,
+    started_at: review.started_at || now
+  });
+
+  const productId = review.hts_predictions?.product_id;
+  if (productId) {
+    await saveToProductLibrary(review, reviewer, productId, selectedCode, note);
+  }
+
+  await recalibrateConfidence(review.hts_predictions?.model_version || null);
+
+  return { review: updated };
+}
+
+// Later runs of the same SKU reuse this code instead of predicting again
+async function saveToProductLibrary(
+  review: ReviewRow,
+  reviewer: Viewer,
+  productId: string,
+  code: string,
+  rationale: string
+) {
+  const candidate = (review.hts_predictions?.predicted_codes || []).find(c => sameCode(c.code, code));
+  const revision = await getCurrentRevision();
+
+  let description = candidate?.description || null;
+  if (!description && revision) {
+    const { data: line } = await supabase
+      .from('hts_schedule')
+      .select('full_description')
+      .eq('revision', revision)
+      .eq('hts_code', code.replace(/\D/g, ''))
+      .limit(1)
+      .maybeSingle();
+    description = line?.full_description || null;
+  }
+
+  const { error } = await supabase
+    .from('product_classifications')
+    .upsert({
+      // The SKU belongs to the owner's library, whoever reviewed it
+      user_id: review.user_id,
+      product_id: productId,
+      hts_code: code,
+      description,
+      rationale: rationale || (candidate ? 'Predicted candidate approved in review' : null),
+      approved_by: reviewer.id,
+      approved_by_email: reviewer.email || null,
+      hts_revision: revision,
+      prediction_id: review.prediction_id,
+      approved_at: new Date().toISOString()
+    }, { onConflict: 'user_id,product_id' });
+
+  if (error) {
+    // The review itself is saved; the SKU will simply be predicted again next time
+    console.error(`Error saving approved classification for product ${productId}:`, error);
+  }
+}
+
+async function getCurrentRevision(): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('hts_revisions')
+    .select('revision')
+    .lte('effective_date', new Date().toISOString().slice(0, 10))
+    .order('effective_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving HTS revision:', error);
+    return null;
+  }
+
+  return data?.revision || null;
+}
+
+async function updateReview(review: ReviewRow, changes: Record<string, unknown>) {
+  // Guard on the status we read so two reviewers cannot both resolve the same prediction
+  const { data, error } = await supabase
+    .from('prediction_reviews')
+    .update(changes)
+    .eq('id', review.id)
+    .eq('status', review.status)
+    .select(`${REVIEW_COLUMNS}, hts_predictions(${PREDICTION_COLUMNS})`);
+
+  if (error) {
+    console.error('Error updating review:', error);
+    throw new Error('Failed to update review');
+  }
+
+  if (!data || data.length === 0) {
+    throw new RequestError('Review was changed by someone else; reload the queue', 409);
+  }
+
+  return toReview(data[0] as ReviewRow);
+}
+
+function ensureActive(review: ReviewRow) {
+  if (!ACTIVE_STATUSES.includes(review.status)) {
+    throw new RequestError(`This review is already ${review.status}`, 409);
+  }
+}
+
+function isValidHtsCode(code: string): boolean {
+  if (!/^[\d.\s]+$/.test(code.trim())) return false;
+  return [6, 8, 10].includes(code.replace(/\D/g, '').length);
+}
+
+function sameCode(a: string, b: string): boolean {
+  return a.replace(/\D/g, '') === b.replace(/\D/g, '');
+}
+
+function toReview(row: ReviewRow) {
+  const prediction = row.hts_predictions;
+
+  return {
+    id: row.id,
+    predictionId: row.prediction_id,
+    status: row.status,
+    reviewReason: row.review_reason,
+    assignee: row.assignee,
+    assignedAt: row.assigned_at,
+    dueAt: row.due_at,
+    startedAt: row.started_at,
+    resolvedCode: row.resolved_code,
+    justification: row.justification,
+    resolvedAt: row.resolved_at,
+    createdAt: row.created_at,
+    product: {
+      title: prediction?.product_title || '',
+      description: prediction?.product_description || '',
+      category: prediction?.category || undefined,
+      materials: prediction?.materials || undefined
+    },
+    confidence: prediction?.confidence_score ?? null,
+    candidates: (prediction?.predicted_codes || []).map(candidate => ({
+      code: candidate.code,
+      description: candidate.description,
+      confidence: candidate.confidence
+    }))
+  };
+}
+
+async function recalibrateConfidence(modelVersion: string | null) {
+  // Predictions stored before model versions were recorded cannot be calibrated
+  if (!modelVersion) return;
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/confidence-calibration`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`
+      },
+      body: JSON.stringify({ action: 'recalibrate', modelVersion })
+    });
+
+    if (!response.ok) {
+      console.error('Recalibration failed:', await response.text());
+    }
+  } catch (error) {
+    console.error('Error recalibrating confidence:', error);
+  }
+}
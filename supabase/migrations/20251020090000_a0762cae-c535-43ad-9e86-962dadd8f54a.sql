@@ -0,0 +1,87 @@
+-- Versioned reference copy of the USITC Harmonized Tariff Schedule
+-- Each loaded revision keeps its own full set of lines so lookups can be
+-- answered against the schedule that was in force on a given date.
+
+-- 1. One row per loaded HTS revision
+CREATE TABLE public.hts_revisions (
+  revision TEXT NOT NULL PRIMARY KEY, -- e.g. '2025 Revision 19'
+  effective_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'USITC',
+  source_url TEXT,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  loaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- 2. Every heading, subheading, tariff line and statistical suffix of a revision
+CREATE TABLE public.hts_schedule (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  revision TEXT NOT NULL REFERENCES public.hts_revisions(revision) ON DELETE CASCADE,
+  effective_date DATE NOT NULL,
+  row_order INTEGER NOT NULL, -- Position in the official export, preserves the tree order
+  hts_code TEXT, -- Digits only (e.g. 6109100004), NULL for description-only lines
+  htsno TEXT, -- As published (e.g. 6109.10.00.04)
+  indent INTEGER NOT NULL DEFAULT 0,
+  level TEXT NOT NULL CHECK (level IN ('heading', 'subheading', 'tariff_line', 'statistical', 'text')),
+  description TEXT NOT NULL,
+  full_description TEXT NOT NULL, -- Description prefixed with all of its parent lines
+  chapter TEXT NOT NULL,
+  heading TEXT,
+  subheading TEXT,
+  statistical_suffix TEXT,
+  units TEXT[] NOT NULL DEFAULT '{}',
+  general_rate TEXT,
+  special_rate TEXT,
+  column2_rate TEXT,
+  footnotes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  quota_quantity TEXT,
+  additional_duties TEXT,
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', full_description)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (revision, row_order)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.hts_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hts_schedule ENABLE ROW LEVEL SECURITY;
+
+-- The schedule is public reference data: readable by signed-in users,
+-- written only by the import function using the service role
+CREATE POLICY "Authenticated users can view HTS revisions"
+ON public.hts_revisions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can view the HTS schedule"
+ON public.hts_schedule
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Create indexes for lookups by code, chapter and text
+CREATE INDEX idx_hts_revisions_effective_date ON public.hts_revisions(effective_date DESC);
+CREATE INDEX idx_hts_schedule_revision_code ON public.hts_schedule(revision, hts_code);
+CREATE INDEX idx_hts_schedule_revision_chapter ON public.hts_schedule(revision, chapter, row_order);
+CREATE INDEX idx_hts_schedule_revision_heading ON public.hts_schedule(revision, heading, row_order);
+CREATE INDEX idx_hts_schedule_search ON public.hts_schedule USING gin(search_vector);
+
+-- Ranked full-text search over the tariff lines of one revision
+CREATE OR REPLACE FUNCTION public.search_hts_schedule(
+  search_query TEXT,
+  target_revision TEXT,
+  max_results INTEGER DEFAULT 10
+)
+RETURNS SETOF public.hts_schedule
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.hts_schedule s
+  WHERE s.revision = target_revision
+    AND s.level IN ('tariff_line', 'statistical')
+    AND s.search_vector @@ to_tsquery('english', search_query)
+  ORDER BY ts_rank(s.search_vector, to_tsquery('english', search_query)) DESC, s.row_order
+  LIMIT max_results;
+$$;
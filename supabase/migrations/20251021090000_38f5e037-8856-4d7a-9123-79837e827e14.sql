@@ -0,0 +1,93 @@
+-- Section and chapter notes of the HTS as structured rules
+-- Used by enhanced-prediction to apply the General Rules of Interpretation
+-- and by hts-lookup to answer get-chapter
+
+CREATE TABLE public.hts_legal_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('section', 'chapter')),
+  section TEXT, -- Roman numeral of the section the note belongs to
+  chapter TEXT, -- Two-digit chapter for chapter notes, NULL for section notes
+  chapters TEXT[] NOT NULL, -- Every chapter the note governs
+  note_number TEXT NOT NULL, -- As cited, e.g. '1(g)'
+  note_type TEXT NOT NULL CHECK (note_type IN ('exclusion', 'inclusion')),
+  note_text TEXT NOT NULL,
+  match_terms TEXT[] NOT NULL DEFAULT '{}', -- Product terms that bring the note into play
+  redirect_to TEXT[] NOT NULL DEFAULT '{}', -- Chapters or headings the excluded goods belong in
+  revision TEXT, -- NULL when the note is unchanged across revisions
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.hts_legal_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view HTS legal notes"
+ON public.hts_legal_notes
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_hts_legal_notes_updated_at
+BEFORE UPDATE ON public.hts_legal_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_hts_legal_notes_chapters ON public.hts_legal_notes USING gin(chapters);
+
+-- Seed the notes that most often decide consumer-goods classifications
+INSERT INTO public.hts_legal_notes (scope, section, chapter, chapters, note_number, note_type, note_text, match_terms, redirect_to) VALUES
+-- Section VII / Chapter 39
+('chapter', 'VII', '39', ARRAY['39'], '2(m)', 'exclusion', 'This chapter does not cover goods of section XI (textiles and textile articles).', ARRAY['woven fabric', 'knitted', 'garment', 'apparel', 'clothing'], ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63']),
+('chapter', 'VII', '39', ARRAY['39'], '2(n)', 'exclusion', 'This chapter does not cover articles of section XII (for example, footwear, headgear, umbrellas, sun umbrellas, walking sticks, whips, riding-crops and parts thereof).', ARRAY['footwear', 'shoe', 'shoes', 'sandal', 'sandals', 'slipper', 'slippers', 'umbrella', 'hat', 'helmet'], ARRAY['64', '65', '66']),
+('chapter', 'VII', '39', ARRAY['39'], '2(o)', 'exclusion', 'This chapter does not cover imitation jewelry of heading 7117.', ARRAY['jewelry', 'jewellery', 'earring', 'earrings', 'necklace', 'bracelet'], ARRAY['7117']),
+('chapter', 'VII', '39', ARRAY['39'], '2(s)', 'exclusion', 'This chapter does not cover articles of section XVI (machines and mechanical or electrical appliances).', ARRAY['motor', 'electric', 'electrical', 'battery powered', 'machine'], ARRAY['84', '85']),
+('chapter', 'VII', '39', ARRAY['39'], '2(u)', 'exclusion', 'This chapter does not cover articles of chapter 90 (for example, optical elements, spectacle frames, drawing instruments).', ARRAY['spectacle', 'eyeglasses', 'sunglasses', 'lens', 'syringe'], ARRAY['90']),
+('chapter', 'VII', '39', ARRAY['39'], '2(w)', 'exclusion', 'This chapter does not cover articles of chapter 94 (for example, furniture, lamps and lighting fittings).', ARRAY['furniture', 'chair', 'table', 'lamp', 'shelf'], ARRAY['94']),
+('chapter', 'VII', '39', ARRAY['39'], '2(y)', 'exclusion', 'This chapter does not cover articles of chapter 95 (for example, toys, games, sports requisites).', ARRAY['toy', 'toys', 'game', 'puzzle', 'doll'], ARRAY['95']),
+-- Section XI
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(k)', 'exclusion', 'This section does not cover articles of chapter 64 (footwear, gaiters and the like).', ARRAY['footwear', 'shoe', 'shoes', 'boot', 'boots', 'sandal', 'sandals', 'slipper', 'slippers', 'sneaker', 'sneakers'], ARRAY['64']),
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(l)', 'exclusion', 'This section does not cover headgear or parts thereof of chapter 65.', ARRAY['hat', 'cap', 'beanie', 'headgear', 'headband'], ARRAY['65']),
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(t)', 'exclusion', 'This section does not cover articles of chapter 94 (for example, furniture, bedding, lamps and lighting fittings).', ARRAY['mattress', 'sleeping bag', 'cushion', 'pillow', 'quilt', 'duvet'], ARRAY['9404']),
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(u)', 'exclusion', 'This section does not cover articles of chapter 95 (for example, toys, games, sports requisites and nets).', ARRAY['toy', 'toys', 'doll', 'plush', 'stuffed animal'], ARRAY['95']),
+-- Chapter 61
+('chapter', 'XI', '61', ARRAY['61'], '1', 'inclusion', 'This chapter applies only to made up knitted or crocheted articles.', ARRAY['knitted', 'knit', 'crocheted', 'jersey'], ARRAY[]::TEXT[]),
+('chapter', 'XI', '61', ARRAY['61'], '2(a)', 'exclusion', 'This chapter does not cover goods of heading 6212 (brassieres, girdles, corsets, braces, suspenders, garters).', ARRAY['brassiere', 'bra', 'corset', 'girdle', 'suspenders', 'garter'], ARRAY['6212']),
+('chapter', 'XI', '61', ARRAY['61'], '2(b)', 'exclusion', 'This chapter does not cover worn clothing or other worn articles of heading 6309.', ARRAY['worn clothing', 'used clothing', 'second hand', 'secondhand'], ARRAY['6309']),
+('chapter', 'XI', '61', ARRAY['61'], '2(c)', 'exclusion', 'This chapter does not cover orthopedic appliances, surgical belts, trusses or the like of heading 9021.', ARRAY['orthopedic', 'orthopaedic', 'surgical belt', 'truss', 'compression brace'], ARRAY['9021']),
+-- Chapter 62
+('chapter', 'XI', '62', ARRAY['62'], '1', 'exclusion', 'This chapter applies only to made up articles of any textile fabric other than wadding, excluding knitted or crocheted articles (other than those of heading 6212).', ARRAY['knitted', 'knit', 'crocheted', 'jersey'], ARRAY['61']),
+('chapter', 'XI', '62', ARRAY['62'], '2(a)', 'exclusion', 'This chapter does not cover worn clothing or other worn articles of heading 6309.', ARRAY['worn clothing', 'used clothing', 'second hand', 'secondhand'], ARRAY['6309']),
+('chapter', 'XI', '62', ARRAY['62'], '2(b)', 'exclusion', 'This chapter does not cover orthopedic appliances, surgical belts, trusses or the like of heading 9021.', ARRAY['orthopedic', 'orthopaedic', 'surgical belt', 'truss'], ARRAY['9021']),
+-- Chapter 42
+('chapter', 'VIII', '42', ARRAY['42'], '1(d)', 'exclusion', 'This chapter does not cover articles of chapter 64 (footwear, gaiters and the like).', ARRAY['footwear', 'shoe', 'shoes', 'boot', 'boots', 'sandal', 'sandals'], ARRAY['64']),
+('chapter', 'VIII', '42', ARRAY['42'], '1(e)', 'exclusion', 'This chapter does not cover headgear or parts thereof of chapter 65.', ARRAY['hat', 'cap', 'headgear'], ARRAY['65']),
+('chapter', 'VIII', '42', ARRAY['42'], '1(l)', 'exclusion', 'This chapter does not cover articles of chapter 95 (for example, toys, games, sports requisites).', ARRAY['toy', 'toys', 'doll'], ARRAY['95']),
+('chapter', 'VIII', '42', ARRAY['42'], '1(g)', 'exclusion', 'This chapter does not cover imitation jewelry of heading 7117.', ARRAY['jewelry', 'jewellery', 'earring', 'earrings', 'necklace', 'bracelet'], ARRAY['7117']),
+-- Chapter 64
+('chapter', 'XII', '64', ARRAY['64'], '1(a)', 'exclusion', 'This chapter does not cover disposable foot or shoe coverings of flimsy material (for example, paper, sheeting of plastics) without applied soles; these are classified according to their constituent material.', ARRAY['disposable shoe cover', 'shoe covers', 'overshoe cover'], ARRAY['39', '48', '63']),
+('chapter', 'XII', '64', ARRAY['64'], '1(d)', 'exclusion', 'This chapter does not cover orthopedic footwear or other orthopedic appliances, or parts thereof (heading 9021).', ARRAY['orthopedic', 'orthopaedic', 'insole for', 'medical shoe'], ARRAY['9021']),
+('chapter', 'XII', '64', ARRAY['64'], '1(e)', 'exclusion', 'This chapter does not cover toy footwear or skating boots with ice or roller skates attached; shin-guards or similar protective sportswear (chapter 95).', ARRAY['toy', 'ice skate', 'ice skates', 'roller skate', 'roller skates', 'shin guard'], ARRAY['95']),
+-- Chapter 69
+('chapter', 'XIII', '69', ARRAY['69'], '2(e)', 'exclusion', 'This chapter does not cover imitation jewelry (heading 7117).', ARRAY['jewelry', 'jewellery', 'earring', 'earrings', 'necklace', 'bracelet'], ARRAY['7117']),
+('chapter', 'XIII', '69', ARRAY['69'], '2(g)', 'exclusion', 'This chapter does not cover articles of chapter 91 (for example, clocks and clock cases).', ARRAY['clock', 'watch'], ARRAY['91']),
+('chapter', 'XIII', '69', ARRAY['69'], '2(j)', 'exclusion', 'This chapter does not cover articles of chapter 95 (for example, toys, games and sports requisites).', ARRAY['toy', 'toys', 'game'], ARRAY['95']),
+-- Chapter 73 and 82
+('chapter', 'XV', '82', ARRAY['82'], '1', 'inclusion', 'This chapter covers only articles with a blade, working edge, working surface or other working part of base metal, such as knives, spoons, forks and hand tools.', ARRAY['knife', 'knives', 'spoon', 'spoons', 'fork', 'forks', 'cutlery', 'flatware', 'ladle', 'scissors'], ARRAY[]::TEXT[]),
+('chapter', 'XV', '73', ARRAY['73'], '1', 'exclusion', 'Cutlery, spoons, forks, ladles and similar kitchen or tableware of base metal are covered by chapter 82, not by heading 7323.', ARRAY['knife', 'knives', 'spoon', 'spoons', 'fork', 'forks', 'cutlery', 'flatware', 'ladle'], ARRAY['8211', '8215']),
+-- Section XVI (chapters 84 and 85)
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(e)', 'exclusion', 'This section does not cover transmission or conveyor belts or belting of plastics (chapter 39) or of vulcanized rubber (heading 4010).', ARRAY['conveyor belt', 'transmission belt', 'timing belt'], ARRAY['3926', '4010']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(g)', 'exclusion', 'This section does not cover articles of section XI (textiles and textile articles), including electrically warmed clothing.', ARRAY['heated jacket', 'heated vest', 'heated gloves', 'heated socks'], ARRAY['61', '62']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(m)', 'exclusion', 'This section does not cover articles of chapter 90 (optical, photographic, measuring, checking, medical or surgical instruments).', ARRAY['microscope', 'thermometer', 'medical', 'surgical', 'blood pressure', 'stethoscope', 'telescope', 'binoculars'], ARRAY['90']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(n)', 'exclusion', 'This section does not cover clocks, watches or other articles of chapter 91.', ARRAY['clock', 'watch', 'wristwatch', 'smartwatch'], ARRAY['91', '8517']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(p)', 'exclusion', 'This section does not cover articles of chapter 95 (toys, games, sports requisites).', ARRAY['toy', 'toys', 'game console controller toy', 'remote control car', 'drone toy'], ARRAY['95']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(q)', 'exclusion', 'This section does not cover typewriter ribbons, brushes of heading 9603 or similar articles of chapter 96.', ARRAY['brush', 'toothbrush', 'hairbrush'], ARRAY['9603']),
+-- Chapter 85
+('chapter', 'XVI', '85', ARRAY['85'], '1(d)', 'exclusion', 'This chapter does not cover luminaires and lighting fittings or illuminated signs of heading 9405.', ARRAY['lamp', 'lighting fixture', 'chandelier', 'ceiling light', 'desk lamp', 'string lights'], ARRAY['9405']),
+-- Chapter 94
+('chapter', 'XX', '94', ARRAY['94'], '1(a)', 'exclusion', 'This chapter does not cover pneumatic or water mattresses, pillows or cushions of chapter 39, 40 or 63.', ARRAY['inflatable mattress', 'air mattress', 'water bed', 'inflatable pillow'], ARRAY['3926', '4016', '6306']),
+('chapter', 'XX', '94', ARRAY['94'], '1(l)', 'exclusion', 'This chapter does not cover toy furniture or toy lamps (heading 9503).', ARRAY['toy', 'dollhouse', 'doll house'], ARRAY['9503']),
+-- Chapter 95
+('chapter', 'XX', '95', ARRAY['95'], '1(e)', 'exclusion', 'This chapter does not cover sports clothing or fancy dress of textiles, of chapter 61 or 62.', ARRAY['sports clothing', 'swimwear', 'jersey', 'leggings', 'costume'], ARRAY['61', '62']),
+('chapter', 'XX', '95', ARRAY['95'], '1(h)', 'exclusion', 'This chapter does not cover sports footwear (other than skating boots with skates attached) of chapter 64.', ARRAY['running shoe', 'running shoes', 'sneaker', 'sneakers', 'cleats', 'football boots'], ARRAY['64']),
+('chapter', 'XX', '95', ARRAY['95'], '1(m)', 'exclusion', 'This chapter does not cover sports bags or other containers of heading 4202, 4303 or 4304.', ARRAY['sports bag', 'gym bag', 'backpack', 'duffel'], ARRAY['4202']);
@@ -0,0 +1,177 @@
+-- Persistent queue for bulk HTS analysis
+-- A job is created, filled with items in chunks, then started; the bulk-job-worker
+-- function claims items in small batches and runs each through enhanced-prediction.
+
+-- 1. One row per uploaded catalog
+CREATE TABLE public.bulk_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED')),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  completed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- 2. One row per product in a job
+CREATE TABLE public.bulk_job_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.bulk_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_index INTEGER NOT NULL, -- Position in the uploaded file
+  product_id TEXT NOT NULL,
+  product JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  prediction_id UUID REFERENCES public.hts_predictions(id) ON DELETE SET NULL,
+  predictions JSONB NOT NULL DEFAULT '[]'::jsonb, -- Candidates returned by enhanced-prediction
+  top_code TEXT,
+  confidence NUMERIC,
+  needs_human_review BOOLEAN NOT NULL DEFAULT false,
+  review_reason TEXT,
+  processing_time_ms INTEGER,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, item_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.bulk_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bulk_job_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read their jobs; all writes go through the edge functions using the service role
+CREATE POLICY "Authenticated users can view their own bulk jobs"
+ON public.bulk_jobs
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can view their own bulk job items"
+ON public.bulk_job_items
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_bulk_jobs_updated_at
+BEFORE UPDATE ON public.bulk_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_bulk_job_items_updated_at
+BEFORE UPDATE ON public.bulk_job_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for the worker and for status pages
+CREATE INDEX idx_bulk_jobs_user_id ON public.bulk_jobs(user_id, created_at DESC);
+CREATE INDEX idx_bulk_job_items_claim ON public.bulk_job_items(job_id, status, next_attempt_at, item_index);
+CREATE INDEX idx_bulk_job_items_job_order ON public.bulk_job_items(job_id, item_index);
+
+-- Keep the job counters in step with its items and close the job when every item has settled
+CREATE OR REPLACE FUNCTION public.update_bulk_job_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.bulk_jobs
+  SET completed_items = completed_items
+        + (CASE WHEN NEW.status = 'COMPLETED' THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status = 'COMPLETED' THEN 1 ELSE 0 END),
+      failed_items = failed_items
+        + (CASE WHEN NEW.status = 'FAILED' THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status = 'FAILED' THEN 1 ELSE 0 END)
+  WHERE id = NEW.job_id;
+
+  UPDATE public.bulk_jobs
+  SET status = CASE WHEN completed_items = 0 THEN 'FAILED' ELSE 'COMPLETED' END,
+      completed_at = now()
+  WHERE id = NEW.job_id
+    AND status = 'PROCESSING'
+    AND completed_items + failed_items >= total_items;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_bulk_job_progress_on_item_status
+AFTER UPDATE OF status ON public.bulk_job_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_bulk_job_progress();
+
+-- Hand the next batch of due items to a worker. SKIP LOCKED lets several workers
+-- drain the same job, and items stuck in PROCESSING by a crashed worker are reclaimed.
+CREATE OR REPLACE FUNCTION public.claim_bulk_job_items(
+  target_job UUID,
+  batch_size INTEGER DEFAULT 5
+)
+RETURNS SETOF public.bulk_job_items
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.bulk_job_items i
+  SET status = 'PROCESSING',
+      attempts = i.attempts + 1,
+      locked_at = now(),
+      started_at = COALESCE(i.started_at, now())
+  WHERE i.id IN (
+    SELECT c.id
+    FROM public.bulk_job_items c
+    WHERE c.job_id = target_job
+      AND (
+        (c.status = 'PENDING' AND c.next_attempt_at <= now())
+        OR (c.status = 'PROCESSING' AND c.locked_at < now() - interval '10 minutes')
+      )
+    ORDER BY c.item_index
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING i.*;
+$$;
+
+-- Whole-job statistics for the status page, computed without shipping every item to the client
+CREATE OR REPLACE FUNCTION public.get_bulk_job_summary(target_job UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'average_confidence', COALESCE(ROUND(AVG(i.confidence) FILTER (WHERE i.status = 'COMPLETED')), 0),
+    'flagged_for_review', COUNT(*) FILTER (WHERE i.status = 'FAILED' OR (i.status = 'COMPLETED' AND (i.needs_human_review OR i.confidence < 70))),
+    'total_processing_time', COALESCE(SUM(i.processing_time_ms), 0),
+    'critical_risk', COUNT(*) FILTER (WHERE i.status = 'COMPLETED' AND i.confidence < 50),
+    'medium_risk', COUNT(*) FILTER (WHERE i.status = 'COMPLETED' AND i.confidence >= 50 AND i.confidence < 70),
+    'low_risk', COUNT(*) FILTER (WHERE i.status = 'COMPLETED' AND i.confidence >= 70 AND i.confidence < 85),
+    'very_low_risk', COUNT(*) FILTER (WHERE i.status = 'COMPLETED' AND i.confidence >= 85),
+    'chapters', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('chapter', c.chapter, 'count', c.item_count) ORDER BY c.item_count DESC)
+      FROM (
+        SELECT LEFT(REPLACE(t.top_code, '.', ''), 2) AS chapter, COUNT(*) AS item_count
+        FROM public.bulk_job_items t
+        WHERE t.job_id = target_job AND t.status = 'COMPLETED' AND t.top_code IS NOT NULL
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT 5
+      ) c
+    ), '[]'::jsonb)
+  )
+  FROM public.bulk_job_items i
+  WHERE i.job_id = target_job;
+$$;
@@ -0,0 +1,47 @@
+-- Pause, resume and cancel bulk jobs
+-- PAUSED jobs keep their queue and are skipped by the worker until resumed;
+-- CANCELLED jobs mark their unprocessed items CANCELLED so they are never claimed.
+
+ALTER TABLE public.bulk_jobs DROP CONSTRAINT bulk_jobs_status_check;
+ALTER TABLE public.bulk_jobs ADD CONSTRAINT bulk_jobs_status_check
+  CHECK (status IN ('PENDING', 'PROCESSING', 'PAUSED', 'COMPLETED', 'FAILED', 'CANCELLED'));
+
+ALTER TABLE public.bulk_job_items DROP CONSTRAINT bulk_job_items_status_check;
+ALTER TABLE public.bulk_job_items ADD CONSTRAINT bulk_job_items_status_check
+  CHECK (status IN ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'));
+
+-- Cancelled items no longer count towards the total a job has to settle
+ALTER TABLE public.bulk_jobs ADD COLUMN cancelled_items INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.update_bulk_job_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.bulk_jobs
+  SET completed_items = completed_items
+        + (CASE WHEN NEW.status = 'COMPLETED' THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status = 'COMPLETED' THEN 1 ELSE 0 END),
+      failed_items = failed_items
+        + (CASE WHEN NEW.status = 'FAILED' THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status = 'FAILED' THEN 1 ELSE 0 END),
+      cancelled_items = cancelled_items
+        + (CASE WHEN NEW.status = 'CANCELLED' THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status = 'CANCELLED' THEN 1 ELSE 0 END)
+  WHERE id = NEW.job_id;
+
+  UPDATE public.bulk_jobs
+  SET status = CASE WHEN completed_items = 0 THEN 'FAILED' ELSE 'COMPLETED' END,
+      completed_at = now()
+  WHERE id = NEW.job_id
+    AND status = 'PROCESSING'
+    AND completed_items + failed_items + cancelled_items >= total_items;
+
+  RETURN NEW;
+END;
+$$;
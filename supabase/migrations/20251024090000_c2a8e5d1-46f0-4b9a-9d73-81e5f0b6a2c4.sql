@@ -0,0 +1,5 @@
+-- Keep reviewers' free-text comments with their feedback on a prediction
+ALTER TABLE public.hts_predictions ADD COLUMN user_comments TEXT;
+ALTER TABLE public.hts_predictions ADD COLUMN feedback_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_hts_predictions_feedback_at ON public.hts_predictions(feedback_at DESC) WHERE feedback_at IS NOT NULL;
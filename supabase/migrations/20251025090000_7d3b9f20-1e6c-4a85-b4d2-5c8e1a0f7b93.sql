@@ -0,0 +1,35 @@
+-- Confidence calibration learned from prediction feedback
+-- Each prediction records the model that produced it and its uncalibrated score,
+-- so the curve is always fitted on raw scores and never on its own output.
+
+ALTER TABLE public.hts_predictions ADD COLUMN model_version TEXT;
+ALTER TABLE public.hts_predictions ADD COLUMN raw_confidence_score INTEGER CHECK (raw_confidence_score >= 0 AND raw_confidence_score <= 100);
+
+CREATE INDEX idx_hts_predictions_model_feedback ON public.hts_predictions(model_version, created_at DESC) WHERE user_feedback IS NOT NULL;
+
+-- One row per confidence bucket of a model version
+CREATE TABLE public.confidence_calibrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model_version TEXT NOT NULL,
+  bucket_lower INTEGER NOT NULL, -- Raw confidence range covered, e.g. 80-89
+  bucket_upper INTEGER NOT NULL,
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  mean_raw_confidence NUMERIC NOT NULL, -- Average raw score of the predictions in the bucket
+  observed_accuracy NUMERIC NOT NULL, -- correct_count / sample_count, 0-100
+  calibrated_confidence NUMERIC NOT NULL, -- Smoothed, monotonic accuracy to display instead, 0-100
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (model_version, bucket_lower)
+);
+
+ALTER TABLE public.confidence_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- The curve is read by the browser-side analysis and written only by the calibration function
+CREATE POLICY "Authenticated users can view confidence calibrations"
+ON public.confidence_calibrations
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_confidence_calibrations_model ON public.confidence_calibrations(model_version, bucket_lower);
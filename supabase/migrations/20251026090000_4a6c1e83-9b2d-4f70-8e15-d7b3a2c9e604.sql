@@ -0,0 +1,157 @@
+-- Aggregates for the classification accuracy dashboard (/analytics)
+-- Runs as the caller, so row level security limits the numbers to the caller's own predictions.
+--
+-- A rated prediction is one with 'correct' or 'incorrect' feedback. It is a top-1 hit when it
+-- was marked correct and the chosen code (if any) is the first candidate, and a top-5 hit when
+-- the chosen code is anywhere in the first five candidates.
+
+CREATE INDEX IF NOT EXISTS idx_hts_predictions_created_at ON public.hts_predictions(created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.get_prediction_analytics(
+  start_date DATE,
+  end_date DATE,
+  category_filter TEXT DEFAULT NULL,
+  time_bucket TEXT DEFAULT 'week'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      p.id,
+      p.created_at,
+      p.category,
+      p.user_feedback,
+      p.needs_human_review,
+      p.review_reason,
+      p.processing_time_ms,
+      p.predicted_codes,
+      p.predicted_codes->0->>'code' AS top_code,
+      p.selected_code,
+      regexp_replace(COALESCE(p.predicted_codes->0->>'code', ''), '[^0-9]', '', 'g') AS top_digits,
+      regexp_replace(COALESCE(p.selected_code, ''), '[^0-9]', '', 'g') AS selected_digits
+    FROM public.hts_predictions p
+    WHERE p.created_at >= start_date
+      AND p.created_at < end_date + 1
+      AND (category_filter IS NULL OR p.category = category_filter)
+  ),
+  rated AS (
+    SELECT
+      f.*,
+      (f.user_feedback = 'correct' AND (f.selected_digits = '' OR f.selected_digits = f.top_digits)) AS top1_hit,
+      CASE
+        WHEN f.user_feedback = 'correct' AND f.selected_digits = '' THEN true
+        -- The results page sends the first candidate with "incorrect" when nothing else was picked
+        WHEN f.user_feedback = 'incorrect' AND (f.selected_digits = '' OR f.selected_digits = f.top_digits) THEN false
+        ELSE EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(f.predicted_codes) WITH ORDINALITY AS candidate(value, position)
+          WHERE candidate.position <= 5
+            AND regexp_replace(COALESCE(candidate.value->>'code', ''), '[^0-9]', '', 'g') = f.selected_digits
+        )
+      END AS top5_hit
+    FROM filtered f
+    WHERE f.user_feedback IN ('correct', 'incorrect')
+  ),
+  totals AS (
+    SELECT
+      (SELECT COUNT(*) FROM filtered) AS total_predictions,
+      (SELECT COUNT(*) FROM rated) AS rated_predictions,
+      (SELECT COUNT(*) FILTER (WHERE top1_hit) FROM rated) AS top1_hits,
+      (SELECT COUNT(*) FILTER (WHERE top5_hit) FROM rated) AS top5_hits,
+      (SELECT COUNT(*) FILTER (WHERE needs_human_review) FROM filtered) AS review_count
+  )
+  SELECT jsonb_build_object(
+    'totals', (
+      SELECT jsonb_build_object(
+        'total_predictions', t.total_predictions,
+        'rated_predictions', t.rated_predictions,
+        'top1_accuracy', CASE WHEN t.rated_predictions > 0 THEN ROUND(100.0 * t.top1_hits / t.rated_predictions, 1) END,
+        'top5_accuracy', CASE WHEN t.rated_predictions > 0 THEN ROUND(100.0 * t.top5_hits / t.rated_predictions, 1) END,
+        'review_rate', CASE WHEN t.total_predictions > 0 THEN ROUND(100.0 * t.review_count / t.total_predictions, 1) END
+      )
+      FROM totals t
+    ),
+    'accuracy_over_time', COALESCE((
+      SELECT jsonb_agg(row_to_json(b) ORDER BY b.period)
+      FROM (
+        SELECT
+          date_trunc(time_bucket, f.created_at)::date AS period,
+          COUNT(*) AS predictions,
+          COUNT(r.id) AS rated,
+          ROUND(100.0 * COUNT(*) FILTER (WHERE r.top1_hit) / NULLIF(COUNT(r.id), 0), 1) AS top1_accuracy,
+          ROUND(100.0 * COUNT(*) FILTER (WHERE r.top5_hit) / NULLIF(COUNT(r.id), 0), 1) AS top5_accuracy
+        FROM filtered f
+        LEFT JOIN rated r ON r.id = f.id
+        GROUP BY 1
+      ) b
+    ), '[]'::jsonb),
+    'most_corrected_chapters', COALESCE((
+      SELECT jsonb_agg(row_to_json(c) ORDER BY c.corrections DESC, c.chapter)
+      FROM (
+        SELECT
+          LEFT(r.top_digits, 2) AS chapter,
+          COUNT(*) FILTER (WHERE NOT r.top1_hit) AS corrections,
+          COUNT(*) AS rated,
+          ROUND(100.0 * COUNT(*) FILTER (WHERE NOT r.top1_hit) / COUNT(*), 1) AS correction_rate
+        FROM rated r
+        WHERE r.top_digits <> ''
+        GROUP BY 1
+        HAVING COUNT(*) FILTER (WHERE NOT r.top1_hit) > 0
+        ORDER BY 2 DESC, 1
+        LIMIT 10
+      ) c
+    ), '[]'::jsonb),
+    'review_reasons', COALESCE((
+      SELECT jsonb_agg(row_to_json(rr) ORDER BY rr.count DESC)
+      FROM (
+        -- enhanced-prediction joins several reasons with '; '
+        SELECT
+          TRIM(reason) AS reason,
+          COUNT(*) AS count,
+          ROUND(100.0 * COUNT(*) / NULLIF((SELECT total_predictions FROM totals), 0), 1) AS rate
+        FROM filtered f,
+          LATERAL regexp_split_to_table(COALESCE(NULLIF(f.review_reason, ''), 'Unspecified'), ';\s*') AS reason
+        WHERE f.needs_human_review
+        GROUP BY 1
+      ) rr
+    ), '[]'::jsonb),
+    'latency', (
+      SELECT jsonb_build_object(
+        'count', COUNT(f.processing_time_ms),
+        'mean', ROUND(AVG(f.processing_time_ms)),
+        'p50', percentile_cont(0.5) WITHIN GROUP (ORDER BY f.processing_time_ms),
+        'p90', percentile_cont(0.9) WITHIN GROUP (ORDER BY f.processing_time_ms),
+        'p95', percentile_cont(0.95) WITHIN GROUP (ORDER BY f.processing_time_ms),
+        'p99', percentile_cont(0.99) WITHIN GROUP (ORDER BY f.processing_time_ms),
+        'max', MAX(f.processing_time_ms)
+      )
+      FROM filtered f
+      WHERE f.processing_time_ms IS NOT NULL
+    ),
+    'confusion_pairs', COALESCE((
+      SELECT jsonb_agg(row_to_json(cp) ORDER BY cp.count DESC)
+      FROM (
+        SELECT
+          MIN(r.top_code) AS predicted_code,
+          MIN(r.selected_code) AS selected_code,
+          COUNT(*) AS count
+        FROM rated r
+        WHERE r.selected_digits <> '' AND r.top_digits <> '' AND r.selected_digits <> r.top_digits
+        GROUP BY r.top_digits, r.selected_digits
+        ORDER BY 3 DESC
+        LIMIT 20
+      ) cp
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(DISTINCT p.category ORDER BY p.category)
+      FROM public.hts_predictions p
+      WHERE p.created_at >= start_date
+        AND p.created_at < end_date + 1
+        AND p.category IS NOT NULL
+        AND p.category <> ''
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,74 @@
+-- Human review queue for predictions flagged by enhanced-prediction
+-- Every prediction stored with needs_human_review gets one review row. Reviewers pick it up,
+-- accept a candidate or enter a different code, and the review-queue function writes the
+-- decision back to the prediction's selected_code.
+
+CREATE TABLE public.prediction_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  prediction_id UUID NOT NULL UNIQUE REFERENCES public.hts_predictions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_review', 'approved', 'rejected')),
+  review_reason TEXT, -- Copied from the prediction when it was flagged
+  assignee TEXT, -- Reviewer's email
+  assigned_at TIMESTAMP WITH TIME ZONE,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL, -- SLA deadline
+  started_at TIMESTAMP WITH TIME ZONE,
+  resolved_code TEXT,
+  justification TEXT,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prediction_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read their queue; assignments and decisions go through the review-queue function
+CREATE POLICY "Authenticated users can view their own prediction reviews"
+ON public.prediction_reviews
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_prediction_reviews_updated_at
+BEFORE UPDATE ON public.prediction_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for the queue page
+CREATE INDEX idx_prediction_reviews_queue ON public.prediction_reviews(user_id, status, due_at);
+CREATE INDEX idx_prediction_reviews_assignee ON public.prediction_reviews(assignee, status) WHERE assignee IS NOT NULL;
+
+-- Open a review whenever a prediction is flagged. Runs as the table owner because
+-- predictions are also inserted from the browser, which cannot write to the queue.
+CREATE OR REPLACE FUNCTION public.open_prediction_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.needs_human_review, false) THEN
+    INSERT INTO public.prediction_reviews (prediction_id, user_id, review_reason, due_at)
+    VALUES (NEW.id, NEW.user_id, NEW.review_reason, NEW.created_at + interval '24 hours')
+    ON CONFLICT (prediction_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER open_prediction_review_on_flag
+AFTER INSERT OR UPDATE OF needs_human_review ON public.hts_predictions
+FOR EACH ROW
+EXECUTE FUNCTION public.open_prediction_review();
+
+-- Queue the predictions that were flagged before the queue existed and never got feedback
+INSERT INTO public.prediction_reviews (prediction_id, user_id, review_reason, due_at)
+SELECT p.id, p.user_id, p.review_reason, p.created_at + interval '24 hours'
+FROM public.hts_predictions p
+WHERE p.needs_human_review
+  AND p.user_feedback IS NULL
+ON CONFLICT (prediction_id) DO NOTHING;
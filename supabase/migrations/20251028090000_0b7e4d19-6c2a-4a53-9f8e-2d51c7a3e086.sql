@@ -0,0 +1,82 @@
+-- Library of approved classifications ("product master") keyed by our product_id
+-- A code confirmed in the review queue is reused for the same SKU instead of being
+-- predicted again, so repeat runs of a catalog return the same code.
+
+-- 1. Remember which SKU a prediction was made for
+ALTER TABLE public.hts_predictions ADD COLUMN product_id TEXT;
+
+CREATE INDEX idx_hts_predictions_product_id ON public.hts_predictions(user_id, product_id) WHERE product_id IS NOT NULL;
+
+-- 2. One approved code per SKU
+CREATE TABLE public.product_classifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id TEXT NOT NULL, -- imported_products.product_id
+  hts_code TEXT NOT NULL,
+  description TEXT,
+  rationale TEXT,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_by_email TEXT,
+  hts_revision TEXT, -- Schedule revision in force when the code was approved
+  prediction_id UUID REFERENCES public.hts_predictions(id) ON DELETE SET NULL,
+  approved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, product_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.product_classifications ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read their library; approvals are written by the review-queue function
+CREATE POLICY "Authenticated users can view their own product classifications"
+ON public.product_classifications
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_product_classifications_updated_at
+BEFORE UPDATE ON public.product_classifications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Settle the pending items of a bulk job whose SKU already has an approved code,
+-- so only new products are sent to enhanced-prediction. Returns the number of items settled.
+CREATE OR REPLACE FUNCTION public.apply_product_classifications(target_job UUID)
+RETURNS INTEGER
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH applied AS (
+    UPDATE public.bulk_job_items i
+    SET status = 'COMPLETED',
+        predictions = jsonb_build_array(jsonb_build_object(
+          'code', c.hts_code,
+          'description', COALESCE(c.description, ''),
+          'confidence', 100,
+          'source', 'PREVIOUSLY_APPROVED',
+          'officialSource', 'Previously approved',
+          'isOfficialMatch', false,
+          'rationale', c.rationale,
+          'htsRevision', c.hts_revision,
+          'approvedAt', c.approved_at
+        )),
+        top_code = c.hts_code,
+        confidence = 100,
+        needs_human_review = false,
+        review_reason = NULL,
+        prediction_id = c.prediction_id,
+        processing_time_ms = 0,
+        last_error = NULL,
+        locked_at = NULL,
+        completed_at = now()
+    FROM public.product_classifications c
+    WHERE i.job_id = target_job
+      AND i.status = 'PENDING'
+      AND c.user_id = i.user_id
+      AND c.product_id = i.product_id
+    RETURNING i.id
+  )
+  SELECT COUNT(*)::INTEGER FROM applied;
+$$;
@@ -0,0 +1,83 @@
+-- Change tracker subscriptions and notifications per user
+-- New hts_changes rows are fanned out to the notifications of every matching active subscription.
+
+CREATE TABLE public.hts_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  hs_code TEXT NOT NULL, -- As entered, e.g. '6109.10.00'
+  code_prefix TEXT NOT NULL, -- Digits only, matched against hts_changes.hts_code
+  notification_types TEXT[] NOT NULL DEFAULT ARRAY['ALL'],
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code_prefix)
+);
+
+CREATE TABLE public.hts_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  subscription_id UUID REFERENCES public.hts_subscriptions(id) ON DELETE SET NULL,
+  change_id UUID NOT NULL REFERENCES public.hts_changes(id) ON DELETE CASCADE,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, change_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.hts_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hts_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own rows; hts-change-tracker writes them with the service role
+CREATE POLICY "Authenticated users can view their own HTS subscriptions"
+ON public.hts_subscriptions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can view their own HTS notifications"
+ON public.hts_notifications
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create indexes for matching and the notification inbox
+CREATE INDEX idx_hts_subscriptions_code_prefix ON public.hts_subscriptions(code_prefix) WHERE is_active;
+CREATE INDEX idx_hts_notifications_user_created ON public.hts_notifications(user_id, created_at DESC);
+CREATE INDEX idx_hts_notifications_unread ON public.hts_notifications(user_id) WHERE NOT is_read;
+
+CREATE TRIGGER update_hts_subscriptions_updated_at
+BEFORE UPDATE ON public.hts_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A subscription matches a change when either code is a prefix of the other: a heading
+-- subscription sees its lines change, and a line subscription sees its heading change.
+-- Notes without a chapter (empty hts_code) are not fanned out.
+CREATE OR REPLACE FUNCTION public.notify_hts_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.hts_notifications (user_id, subscription_id, change_id)
+  SELECT DISTINCT ON (s.user_id, c.id) s.user_id, s.id, c.id
+  FROM new_changes c
+  JOIN public.hts_subscriptions s
+    ON s.is_active
+   AND c.hts_code <> ''
+   AND (c.hts_code LIKE s.code_prefix || '%' OR s.code_prefix LIKE c.hts_code || '%')
+   AND ('ALL' = ANY(s.notification_types) OR c.change_type = ANY(s.notification_types))
+  ORDER BY s.user_id, c.id, length(s.code_prefix) DESC
+  ON CONFLICT (user_id, change_id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_hts_subscribers
+AFTER INSERT ON public.hts_changes
+REFERENCING NEW TABLE AS new_changes
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.notify_hts_subscribers();
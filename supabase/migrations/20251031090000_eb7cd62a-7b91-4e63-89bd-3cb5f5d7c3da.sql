@@ -0,0 +1,87 @@
+-- Pattern, section and product library subscriptions for the change tracker
+-- A subscription now targets a code prefix ('61*', '6109.*', '8471.30'), a whole HTS section,
+-- or every code in the subscriber's approved product classifications. notification_types may
+-- mix change types and impact levels; each kind filters only when present.
+
+ALTER TABLE public.hts_subscriptions
+  ADD COLUMN scope TEXT NOT NULL DEFAULT 'CODE' CHECK (scope IN ('CODE', 'SECTION', 'PRODUCT_LIBRARY')),
+  ADD COLUMN chapters TEXT[], -- Chapters of a SECTION subscription
+  ADD COLUMN subscription_key TEXT; -- 'code:6109', 'section:XI' or 'library'
+
+UPDATE public.hts_subscriptions SET subscription_key = 'code:' || code_prefix;
+
+ALTER TABLE public.hts_subscriptions
+  ALTER COLUMN subscription_key SET NOT NULL,
+  ALTER COLUMN code_prefix DROP NOT NULL,
+  DROP CONSTRAINT hts_subscriptions_user_id_code_prefix_key,
+  ADD CONSTRAINT hts_subscriptions_user_id_subscription_key_key UNIQUE (user_id, subscription_key),
+  ADD CONSTRAINT hts_subscriptions_target_check CHECK (
+    (scope = 'CODE' AND code_prefix IS NOT NULL) OR
+    (scope = 'SECTION' AND chapters IS NOT NULL) OR
+    scope = 'PRODUCT_LIBRARY'
+  );
+
+-- Whether a subscription's target covers a change. Either code may be the prefix of the other:
+-- a heading subscription sees its lines change, and a line subscription sees its heading change.
+CREATE OR REPLACE FUNCTION public.hts_subscription_matches(
+  subscription public.hts_subscriptions,
+  change_code TEXT,
+  change_chapter TEXT,
+  change_type TEXT,
+  change_impact TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      'ALL' = ANY(subscription.notification_types)
+      OR change_type = ANY(subscription.notification_types)
+      OR NOT subscription.notification_types && ARRAY['NEW', 'MODIFIED', 'DELETED', 'RATE_CHANGE', 'DESCRIPTION_CHANGE']
+    )
+    AND (
+      change_impact = ANY(subscription.notification_types)
+      OR NOT subscription.notification_types && ARRAY['LOW', 'MEDIUM', 'HIGH']
+    )
+    AND CASE subscription.scope
+      WHEN 'CODE' THEN change_code <> ''
+        AND (change_code LIKE subscription.code_prefix || '%' OR subscription.code_prefix LIKE change_code || '%')
+      WHEN 'SECTION' THEN change_chapter = ANY(subscription.chapters)
+      WHEN 'PRODUCT_LIBRARY' THEN change_code <> '' AND EXISTS (
+        SELECT 1
+        FROM public.product_classifications pc
+        WHERE pc.user_id = subscription.user_id
+          AND (
+            regexp_replace(pc.hts_code, '\D', '', 'g') LIKE change_code || '%'
+            OR change_code LIKE regexp_replace(pc.hts_code, '\D', '', 'g') || '%'
+          )
+      )
+      ELSE false
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_hts_subscribers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.hts_notifications (user_id, subscription_id, change_id)
+  SELECT DISTINCT ON (s.user_id, c.id) s.user_id, s.id, c.id
+  FROM new_changes c
+  JOIN public.hts_subscriptions s
+    ON s.is_active
+   AND public.hts_subscription_matches(s, c.hts_code, c.chapter, c.change_type, c.impact)
+  -- Credit the most specific subscription when several match
+  ORDER BY s.user_id, c.id,
+    CASE s.scope WHEN 'CODE' THEN 0 WHEN 'PRODUCT_LIBRARY' THEN 1 ELSE 2 END,
+    length(s.code_prefix) DESC NULLS LAST
+  ON CONFLICT (user_id, change_id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- SKUs affected by an HTS change
+-- Joins a change against the caller's approved product classifications (and the imported
+-- product details where available) using the same prefix rule as subscriptions.
+
+CREATE OR REPLACE FUNCTION public.get_change_affected_products(target_change UUID)
+RETURNS TABLE (
+  product_id TEXT,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  hts_code TEXT,
+  approved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    pc.product_id,
+    COALESCE(ip.title, pc.description, pc.product_id) AS title,
+    COALESCE(ip.description, pc.description) AS description,
+    ip.category_path AS category,
+    pc.hts_code,
+    pc.approved_at
+  FROM public.hts_changes c
+  JOIN public.product_classifications pc
+    ON pc.user_id = auth.uid()
+   AND c.hts_code <> ''
+   AND (
+     regexp_replace(pc.hts_code, '\D', '', 'g') LIKE c.hts_code || '%'
+     OR c.hts_code LIKE regexp_replace(pc.hts_code, '\D', '', 'g') || '%'
+   )
+  LEFT JOIN public.imported_products ip ON ip.product_id = pc.product_id
+  WHERE c.id = target_change
+  ORDER BY pc.hts_code, pc.product_id;
+$$;
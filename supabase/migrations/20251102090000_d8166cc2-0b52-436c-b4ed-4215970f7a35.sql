@@ -0,0 +1,202 @@
+-- Delivery of HTS change notifications outside the app: email digests and signed webhooks
+-- Every email or webhook sent is a row in notification_deliveries, which notification-delivery
+-- works through with retries.
+
+CREATE TABLE public.notification_channels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  channel_type TEXT NOT NULL CHECK (channel_type IN ('EMAIL', 'WEBHOOK')),
+  email TEXT,
+  digest_frequency TEXT CHECK (digest_frequency IN ('DAILY', 'WEEKLY')),
+  last_digest_at TIMESTAMP WITH TIME ZONE, -- End of the period covered by the last digest
+  url TEXT,
+  secret TEXT, -- HMAC-SHA256 signing key for webhook payloads
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT notification_channels_target_check CHECK (
+    (channel_type = 'EMAIL' AND email IS NOT NULL AND digest_frequency IS NOT NULL)
+    OR (channel_type = 'WEBHOOK' AND url IS NOT NULL AND secret IS NOT NULL)
+  )
+);
+
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  channel_id UUID NOT NULL REFERENCES public.notification_channels(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('hts.change', 'digest', 'test')),
+  notification_ids UUID[] NOT NULL DEFAULT '{}',
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SENDING', 'DELIVERED', 'FAILED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own rows; notification-delivery writes them with the service role
+CREATE POLICY "Authenticated users can view their own notification channels"
+ON public.notification_channels
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can view their own notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create indexes for the delivery queue and the delivery log
+CREATE UNIQUE INDEX idx_notification_channels_target
+ON public.notification_channels(user_id, channel_type, lower(COALESCE(email, url)));
+CREATE INDEX idx_notification_channels_digest_due ON public.notification_channels(last_digest_at)
+WHERE channel_type = 'EMAIL' AND is_active;
+CREATE INDEX idx_notification_deliveries_due ON public.notification_deliveries(next_attempt_at)
+WHERE status IN ('PENDING', 'SENDING');
+CREATE INDEX idx_notification_deliveries_user_created ON public.notification_deliveries(user_id, created_at DESC);
+
+CREATE TRIGGER update_notification_channels_updated_at
+BEFORE UPDATE ON public.notification_channels
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The change as it appears in webhook bodies and digests, shaped like the change tracker's HTSChange
+CREATE OR REPLACE FUNCTION public.hts_change_payload(c public.hts_changes)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'id', c.id,
+    'hsCode', COALESCE(c.htsno, c.hts_code),
+    'changeType', c.change_type,
+    'field', c.field,
+    'oldValue', c.old_value,
+    'newValue', c.new_value,
+    'effectiveDate', c.effective_date,
+    'revision', c.revision,
+    'fromRevision', c.from_revision,
+    'description', c.description,
+    'impact', c.impact,
+    'chapter', c.chapter,
+    'source', c.source
+  ));
+$$;
+
+-- Queue one webhook delivery per new notification for each of the user's active webhooks
+CREATE OR REPLACE FUNCTION public.queue_notification_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notification_deliveries (channel_id, user_id, event, notification_ids, payload)
+  SELECT ch.id, n.user_id, 'hts.change', ARRAY[n.id],
+         jsonb_build_object(
+           'notificationId', n.id,
+           'subscriptionId', n.subscription_id,
+           'change', public.hts_change_payload(c)
+         )
+  FROM new_notifications n
+  JOIN public.hts_changes c ON c.id = n.change_id
+  JOIN public.notification_channels ch
+    ON ch.user_id = n.user_id
+   AND ch.channel_type = 'WEBHOOK'
+   AND ch.is_active;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_notification_webhooks
+AFTER INSERT ON public.hts_notifications
+REFERENCING NEW TABLE AS new_notifications
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.queue_notification_webhooks();
+
+-- Queue a digest for every email channel whose period has ended. The period runs from the
+-- previous digest (or the channel's creation) until now; empty periods advance without mail.
+CREATE OR REPLACE FUNCTION public.queue_notification_digests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  channel public.notification_channels;
+  period_start TIMESTAMP WITH TIME ZONE;
+  period_end TIMESTAMP WITH TIME ZONE := now();
+  digest_notification_ids UUID[];
+  digest_changes JSONB;
+  queued INTEGER := 0;
+BEGIN
+  FOR channel IN
+    SELECT *
+    FROM public.notification_channels ch
+    WHERE ch.channel_type = 'EMAIL'
+      AND ch.is_active
+      AND COALESCE(ch.last_digest_at, ch.created_at)
+          <= period_end - CASE ch.digest_frequency WHEN 'WEEKLY' THEN interval '7 days' ELSE interval '1 day' END
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    period_start := COALESCE(channel.last_digest_at, channel.created_at);
+
+    SELECT array_agg(n.id ORDER BY c.effective_date DESC, n.created_at DESC),
+           jsonb_agg(public.hts_change_payload(c) ORDER BY c.effective_date DESC, n.created_at DESC)
+    INTO digest_notification_ids, digest_changes
+    FROM public.hts_notifications n
+    JOIN public.hts_changes c ON c.id = n.change_id
+    WHERE n.user_id = channel.user_id
+      AND n.created_at > period_start
+      AND n.created_at <= period_end;
+
+    IF digest_notification_ids IS NOT NULL THEN
+      INSERT INTO public.notification_deliveries (channel_id, user_id, event, notification_ids, payload)
+      VALUES (
+        channel.id, channel.user_id, 'digest', digest_notification_ids,
+        jsonb_build_object(
+          'frequency', channel.digest_frequency,
+          'periodStart', period_start,
+          'periodEnd', period_end,
+          'changes', digest_changes
+        )
+      );
+      queued := queued + 1;
+    END IF;
+
+    UPDATE public.notification_channels SET last_digest_at = period_end WHERE id = channel.id;
+  END LOOP;
+
+  RETURN queued;
+END;
+$$;
+
+-- Claim due deliveries, reclaiming any left SENDING by a lost invocation
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(batch_size INTEGER DEFAULT 20)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries d
+  SET status = 'SENDING',
+      attempts = d.attempts + 1,
+      locked_at = now()
+  WHERE d.id IN (
+    SELECT q.id
+    FROM public.notification_deliveries q
+    WHERE (q.status = 'PENDING' AND q.next_attempt_at <= now())
+       OR (q.status = 'SENDING' AND q.locked_at < now() - interval '10 minutes')
+    ORDER BY q.next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$;
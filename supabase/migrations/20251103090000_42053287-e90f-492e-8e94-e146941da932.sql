@@ -0,0 +1,20 @@
+-- Per-user tokens for the Atom and iCalendar feeds served by hts-change-tracker
+-- Feed readers and calendar apps cannot send a session, so the token in the feed URL identifies the user.
+
+CREATE TABLE public.hts_feed_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.hts_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own token; hts-change-tracker issues and rotates it with the service role
+CREATE POLICY "Authenticated users can view their own HTS feed token"
+ON public.hts_feed_tokens
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,64 @@
+-- Chapter 99 additional duties (Section 301, Section 232, ...) stacked on top of the column 1 or 2 rate
+-- One row per provision and covered code, so a list published by USTR or CBP loads as-is.
+-- Exclusions suspend a duty heading for the codes they cover until they expire.
+
+CREATE TABLE public.hts_additional_duties (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  heading TEXT NOT NULL, -- Chapter 99 provision, e.g. '9903.88.03'
+  program TEXT NOT NULL CHECK (program IN ('SECTION_301', 'SECTION_232', 'SECTION_201', 'IEEPA', 'OTHER')),
+  provision_type TEXT NOT NULL DEFAULT 'DUTY' CHECK (provision_type IN ('DUTY', 'EXCLUSION')),
+  excludes_heading TEXT, -- For exclusions, the duty heading they suspend
+  hts_code TEXT NOT NULL, -- Digits only; covers every line starting with them
+  origin_countries TEXT[], -- ISO codes; NULL applies to every origin
+  exempt_countries TEXT[] NOT NULL DEFAULT '{}',
+  rate TEXT, -- Additional ad valorem rate, e.g. '25%'
+  description TEXT NOT NULL,
+  effective_from DATE NOT NULL,
+  effective_to DATE, -- Last day in force (an exclusion's expiry); NULL while open-ended
+  source_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT hts_additional_duties_type_check CHECK (
+    (provision_type = 'DUTY' AND rate IS NOT NULL)
+    OR (provision_type = 'EXCLUSION' AND excludes_heading IS NOT NULL)
+  )
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.hts_additional_duties ENABLE ROW LEVEL SECURITY;
+
+-- Reference data like the schedule: readable by signed-in users, loaded with the service role
+CREATE POLICY "Authenticated users can view HTS additional duties"
+ON public.hts_additional_duties
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Create indexes for lookups by covered code and by heading
+CREATE INDEX idx_hts_additional_duties_code ON public.hts_additional_duties(hts_code);
+CREATE INDEX idx_hts_additional_duties_heading ON public.hts_additional_duties(heading, effective_from);
+
+-- Duties and exclusions in force for a code, origin and date. A heading listed at several
+-- levels (e.g. 8471 and 8471.30.01) is returned once, for its most specific code.
+CREATE OR REPLACE FUNCTION public.get_additional_duties(
+  target_code TEXT,
+  origin_country TEXT,
+  as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS SETOF public.hts_additional_duties
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT regexp_replace(target_code, '\D', '', 'g') AS code
+  )
+  SELECT DISTINCT ON (d.heading) d.*
+  FROM target t
+  JOIN public.hts_additional_duties d
+    ON d.hts_code = ANY(ARRAY(SELECT left(t.code, n) FROM generate_series(2, length(t.code)) n))
+  WHERE d.effective_from <= as_of
+    AND (d.effective_to IS NULL OR d.effective_to >= as_of)
+    AND (d.origin_countries IS NULL OR upper(origin_country) = ANY(d.origin_countries))
+    AND NOT (upper(origin_country) = ANY(d.exempt_countries))
+  ORDER BY d.heading, length(d.hts_code) DESC;
+$$;
@@ -0,0 +1,51 @@
+-- Certified rates of exchange for converting invoice values to USD (19 CFR 159, Subpart C)
+-- CBP certifies a rate per currency for each quarter, and a daily rate for the days it
+-- differs from the quarterly rate by more than 5%. Values convert at the rate for the date of exportation.
+
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  currency_code TEXT NOT NULL, -- ISO 4217, e.g. 'EUR'
+  currency_name TEXT, -- As CBP lists it, e.g. 'Euro'
+  country TEXT,
+  rate NUMERIC NOT NULL CHECK (rate > 0), -- Units of the currency per US dollar, as certified
+  rate_type TEXT NOT NULL DEFAULT 'QUARTERLY' CHECK (rate_type IN ('QUARTERLY', 'DAILY')),
+  effective_from DATE NOT NULL,
+  effective_to DATE NOT NULL, -- Last day of the quarter, or effective_from for a daily rate
+  source_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT exchange_rates_period_check CHECK (effective_to >= effective_from),
+  CONSTRAINT exchange_rates_currency_period_key UNIQUE (currency_code, rate_type, effective_from)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Reference data like the schedule: readable by signed-in users, loaded with the service role
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Create index for lookups by currency and date
+CREATE INDEX idx_exchange_rates_currency ON public.exchange_rates(currency_code, effective_from DESC);
+
+-- The rate for a currency on a date of exportation: the daily rate certified for that day,
+-- otherwise the quarterly rate covering it
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(
+  currency TEXT,
+  export_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS SETOF public.exchange_rates
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM public.exchange_rates r
+  WHERE r.currency_code = upper(currency)
+    AND r.effective_from <= export_date
+    AND r.effective_to >= export_date
+  ORDER BY (r.rate_type = 'DAILY') DESC, r.effective_from DESC
+  LIMIT 1;
+$$;
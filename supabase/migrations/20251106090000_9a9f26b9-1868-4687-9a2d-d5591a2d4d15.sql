@@ -0,0 +1,35 @@
+-- Roles for actions that change reference data shared by every user
+-- Admins may upload USITC Change Records, which feed every subscriber's notifications and webhooks.
+-- Roles are granted with the service role, e.g. from the SQL editor.
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT user_roles_user_role_key UNIQUE (user_id, role)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own roles; granting is left to the service role
+CREATE POLICY "Authenticated users can view their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Role check usable from policies and edge functions without exposing other users' roles
+CREATE OR REPLACE FUNCTION public.has_role(check_user_id UUID, check_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = check_user_id AND role = check_role
+  );
+$$;
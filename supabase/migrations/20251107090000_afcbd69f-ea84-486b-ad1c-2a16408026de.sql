@@ -0,0 +1,43 @@
+-- Stop reclaiming bulk job items whose worker died on their last attempt
+-- A PROCESSING item with a stale lock was reclaimed however many attempts it had used, so an
+-- item that keeps killing the worker was retried forever. Exhausted items now fail instead.
+
+CREATE OR REPLACE FUNCTION public.claim_bulk_job_items(
+  target_job UUID,
+  batch_size INTEGER DEFAULT 5
+)
+RETURNS SETOF public.bulk_job_items
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.bulk_job_items i
+  SET status = 'FAILED',
+      locked_at = NULL,
+      last_error = COALESCE(i.last_error, 'Worker stopped while processing the last attempt'),
+      completed_at = now()
+  FROM public.bulk_jobs j
+  WHERE j.id = i.job_id
+    AND i.job_id = target_job
+    AND i.status = 'PROCESSING'
+    AND i.locked_at < now() - interval '10 minutes'
+    AND i.attempts >= j.max_attempts;
+
+  UPDATE public.bulk_job_items i
+  SET status = 'PROCESSING',
+      attempts = i.attempts + 1,
+      locked_at = now(),
+      started_at = COALESCE(i.started_at, now())
+  WHERE i.id IN (
+    SELECT c.id
+    FROM public.bulk_job_items c
+    WHERE c.job_id = target_job
+      AND (
+        (c.status = 'PENDING' AND c.next_attempt_at <= now())
+        OR (c.status = 'PROCESSING' AND c.locked_at < now() - interval '10 minutes')
+      )
+    ORDER BY c.item_index
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING i.*;
+$$;
@@ -0,0 +1,51 @@
+-- Stop reclaiming exhausted notification deliveries and limit email digests to the account's address
+-- A SENDING delivery with a stale lock was reclaimed however many attempts it had used, so a
+-- delivery that keeps killing the sender was retried forever; exhausted deliveries now fail instead.
+-- Email channels could target any address, which let an account use the sender as a mail relay.
+
+DROP FUNCTION IF EXISTS public.claim_notification_deliveries(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(
+  batch_size INTEGER DEFAULT 20,
+  max_attempts INTEGER DEFAULT 6
+)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries d
+  SET status = 'FAILED',
+      locked_at = NULL,
+      last_error = COALESCE(d.last_error, 'Sender stopped while sending the last attempt')
+  WHERE d.status = 'SENDING'
+    AND d.locked_at < now() - interval '10 minutes'
+    AND d.attempts >= max_attempts;
+
+  UPDATE public.notification_deliveries d
+  SET status = 'SENDING',
+      attempts = d.attempts + 1,
+      locked_at = now()
+  WHERE d.id IN (
+    SELECT q.id
+    FROM public.notification_deliveries q
+    WHERE (q.status = 'PENDING' AND q.next_attempt_at <= now())
+       OR (q.status = 'SENDING' AND q.locked_at < now() - interval '10 minutes')
+    ORDER BY q.next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$;
+
+-- Existing email channels that don't go to the owner's confirmed address stop sending
+UPDATE public.notification_channels c
+SET is_active = false
+WHERE c.channel_type = 'EMAIL'
+  AND c.is_active
+  AND NOT EXISTS (
+    SELECT 1
+    FROM auth.users u
+    WHERE u.id = c.user_id
+      AND u.email_confirmed_at IS NOT NULL
+      AND lower(u.email) = lower(c.email)
+  );
@@ -0,0 +1,199 @@
+-- Keep the revision diff to one row per actual change
+-- Statistical lines show the rates of their tariff line, so a rate change on an 8-digit line was
+-- repeated on every 10-digit line under it; lines now record whether their rates were inherited.
+-- Loading a revision between two others left the diff that skipped over it in the change feed.
+
+ALTER TABLE public.hts_schedule
+ADD COLUMN rates_inherited BOOLEAN NOT NULL DEFAULT false; -- No rates of its own, shows its tariff line's
+
+-- Lines loaded before: a statistical line with exactly its tariff line's rates inherited them
+UPDATE public.hts_schedule s
+SET rates_inherited = true
+FROM public.hts_schedule t
+WHERE s.level = 'statistical'
+  AND t.revision = s.revision
+  AND t.hts_code = left(s.hts_code, 8)
+  AND s.general_rate IS NOT DISTINCT FROM t.general_rate
+  AND s.special_rate IS NOT DISTINCT FROM t.special_rate
+  AND s.column2_rate IS NOT DISTINCT FROM t.column2_rate;
+
+-- Drop the repeated rate changes already in the feed; their notifications go with them
+DELETE FROM public.hts_changes c
+USING public.hts_schedule o, public.hts_schedule n
+WHERE c.source = 'REVISION_DIFF'
+  AND c.change_type = 'RATE_CHANGE'
+  AND o.revision = c.from_revision AND o.hts_code = c.hts_code AND o.rates_inherited
+  AND n.revision = c.revision AND n.hts_code = c.hts_code AND n.rates_inherited;
+
+-- Compare two revisions line by line and replace the stored diff between them.
+-- Lines are matched on their digits; description-only text lines are ignored.
+CREATE OR REPLACE FUNCTION public.diff_hts_revisions(old_revision TEXT, new_revision TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_effective_date DATE;
+  change_counts JSONB;
+BEGIN
+  SELECT effective_date INTO new_effective_date
+  FROM public.hts_revisions
+  WHERE revision = new_revision;
+
+  IF new_effective_date IS NULL THEN
+    RAISE EXCEPTION 'HTS revision "%" is not loaded', new_revision;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.hts_revisions WHERE revision = old_revision) THEN
+    RAISE EXCEPTION 'HTS revision "%" is not loaded', old_revision;
+  END IF;
+
+  DELETE FROM public.hts_changes
+  WHERE source = 'REVISION_DIFF'
+    AND from_revision = old_revision
+    AND revision = new_revision;
+
+  WITH old_lines AS (
+    SELECT DISTINCT ON (hts_code) hts_code, htsno, level, description, general_rate, special_rate, column2_rate, rates_inherited, chapter, heading
+    FROM public.hts_schedule
+    WHERE revision = old_revision AND hts_code IS NOT NULL
+    ORDER BY hts_code, row_order
+  ),
+  new_lines AS (
+    SELECT DISTINCT ON (hts_code) hts_code, htsno, level, description, general_rate, special_rate, column2_rate, rates_inherited, chapter, heading
+    FROM public.hts_schedule
+    WHERE revision = new_revision AND hts_code IS NOT NULL
+    ORDER BY hts_code, row_order
+  ),
+  paired AS (
+    SELECT
+      COALESCE(n.hts_code, o.hts_code) AS hts_code,
+      COALESCE(n.htsno, o.htsno) AS htsno,
+      COALESCE(n.level, o.level) AS level,
+      COALESCE(n.chapter, o.chapter) AS chapter,
+      COALESCE(n.heading, o.heading) AS heading,
+      o.hts_code IS NOT NULL AS in_old,
+      n.hts_code IS NOT NULL AS in_new,
+      o.description AS old_description,
+      n.description AS new_description,
+      o.general_rate AS old_general, n.general_rate AS new_general,
+      o.special_rate AS old_special, n.special_rate AS new_special,
+      o.column2_rate AS old_column2, n.column2_rate AS new_column2,
+      o.rates_inherited AND n.rates_inherited AS rates_inherited
+    FROM old_lines o
+    FULL OUTER JOIN new_lines n ON n.hts_code = o.hts_code
+  ),
+  changes AS (
+    SELECT p.*, 'NEW' AS change_type, NULL AS field, NULL AS old_value, p.new_description AS new_value
+    FROM paired p
+    WHERE p.in_new AND NOT p.in_old
+
+    UNION ALL
+
+    SELECT p.*, 'DELETED', NULL, p.old_description, NULL
+    FROM paired p
+    WHERE p.in_old AND NOT p.in_new
+
+    UNION ALL
+
+    SELECT p.*, 'DESCRIPTION_CHANGE', 'description', p.old_description, p.new_description
+    FROM paired p
+    WHERE p.in_old AND p.in_new
+      AND regexp_replace(lower(btrim(p.old_description)), '\s+', ' ', 'g')
+        <> regexp_replace(lower(btrim(p.new_description)), '\s+', ' ', 'g')
+
+    UNION ALL
+
+    SELECT p.*, 'RATE_CHANGE', r.field, r.old_value, r.new_value
+    FROM paired p
+    CROSS JOIN LATERAL (VALUES
+      ('general_rate', p.old_general, p.new_general),
+      ('special_rate', p.old_special, p.new_special),
+      ('column2_rate', p.old_column2, p.new_column2)
+    ) AS r(field, old_value, new_value)
+    WHERE p.in_old AND p.in_new
+      -- A rate copied down from the tariff line is reported once, on that line
+      AND NOT p.rates_inherited
+      AND COALESCE(btrim(r.old_value), '') <> COALESCE(btrim(r.new_value), '')
+  ),
+  inserted AS (
+    INSERT INTO public.hts_changes (
+      hts_code, htsno, level, change_type, field, old_value, new_value, description, impact,
+      chapter, heading, from_revision, revision, effective_date, source
+    )
+    SELECT
+      c.hts_code,
+      c.htsno,
+      c.level,
+      c.change_type,
+      c.field,
+      c.old_value,
+      c.new_value,
+      CASE c.change_type
+        WHEN 'NEW' THEN 'New ' || replace(c.level, '_', ' ') || ' ' || COALESCE(c.htsno, c.hts_code) || ': ' || c.new_value
+        WHEN 'DELETED' THEN COALESCE(c.htsno, c.hts_code) || ' deleted: ' || c.old_value
+        WHEN 'DESCRIPTION_CHANGE' THEN 'Description of ' || COALESCE(c.htsno, c.hts_code) || ' changed'
+        ELSE initcap(replace(replace(c.field, '_rate', ''), 'column2', 'column 2')) || ' rate for ' || COALESCE(c.htsno, c.hts_code)
+          || ' changed from ' || COALESCE(NULLIF(btrim(c.old_value), ''), 'none')
+          || ' to ' || COALESCE(NULLIF(btrim(c.new_value), ''), 'none')
+      END,
+      CASE
+        WHEN c.change_type = 'DELETED' THEN 'HIGH'
+        WHEN c.change_type = 'RATE_CHANGE' AND c.field = 'general_rate' THEN 'HIGH'
+        WHEN c.change_type = 'RATE_CHANGE' AND c.field = 'special_rate' THEN 'MEDIUM'
+        WHEN c.change_type = 'RATE_CHANGE' THEN 'LOW'
+        WHEN c.level = 'statistical' THEN 'LOW'
+        ELSE 'MEDIUM'
+      END,
+      c.chapter,
+      c.heading,
+      old_revision,
+      new_revision,
+      new_effective_date,
+      'REVISION_DIFF'
+    FROM changes c
+    RETURNING change_type
+  )
+  SELECT COALESCE(jsonb_object_agg(t.change_type, t.change_count), '{}'::jsonb)
+  INTO change_counts
+  FROM (SELECT change_type, COUNT(*) AS change_count FROM inserted GROUP BY change_type) t;
+
+  RETURN jsonb_build_object(
+    'from_revision', old_revision,
+    'revision', new_revision,
+    'effective_date', new_effective_date,
+    'counts', change_counts
+  );
+END;
+$$;
+
+-- Remove revision diffs made stale by loading target_revision: those that skip over its effective
+-- date, and its own diffs with a revision that is no longer adjacent. Returns the rows removed.
+CREATE OR REPLACE FUNCTION public.clear_spanned_hts_diffs(target_revision TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH removed AS (
+    DELETE FROM public.hts_changes c
+    USING public.hts_revisions f, public.hts_revisions t, public.hts_revisions r
+    WHERE c.source = 'REVISION_DIFF'
+      AND f.revision = c.from_revision
+      AND t.revision = c.revision
+      AND r.revision = target_revision
+      AND (
+        (f.effective_date < r.effective_date AND t.effective_date > r.effective_date)
+        OR (
+          target_revision IN (c.from_revision, c.revision)
+          AND EXISTS (
+            SELECT 1
+            FROM public.hts_revisions b
+            WHERE b.effective_date > LEAST(f.effective_date, t.effective_date)
+              AND b.effective_date < GREATEST(f.effective_date, t.effective_date)
+          )
+        )
+      )
+    RETURNING c.id
+  )
+  SELECT COUNT(*)::INTEGER FROM removed;
+$$;
@@ -0,0 +1,61 @@
+-- Reseed the section and chapter notes with their published text and citations
+-- The first seed paraphrased several notes, cited the wrong letters, included a "note" that is not
+-- in the schedule (Chapter 73 has no cutlery note) and used broad terms such as "electric", "game",
+-- "medical", "cap" and "watch" that brought notes into play for goods they don't govern.
+-- note_text is now the note's lead-in followed by the item as published; match_terms only name
+-- goods the item itself describes.
+
+DELETE FROM public.hts_legal_notes WHERE revision IS NULL;
+
+INSERT INTO public.hts_legal_notes (scope, section, chapter, chapters, note_number, note_type, note_text, match_terms, redirect_to) VALUES
+-- Chapter 39
+('chapter', 'VII', '39', ARRAY['39'], '2(m)', 'exclusion', 'This chapter does not cover: Saddlery or harness (heading 4201) or trunks, suitcases, handbags or other containers of heading 4202', ARRAY['suitcase', 'suitcases', 'luggage', 'handbag', 'handbags', 'briefcase'], ARRAY['4202']),
+('chapter', 'VII', '39', ARRAY['39'], '2(p)', 'exclusion', 'This chapter does not cover: Goods of section XI (textiles and textile articles)', ARRAY['woven fabric', 'knitted fabric', 'garment', 'apparel', 'clothing'], ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63']),
+('chapter', 'VII', '39', ARRAY['39'], '2(q)', 'exclusion', 'This chapter does not cover: Articles of section XII (for example, footwear, headgear, umbrellas, sun umbrellas, walking sticks, whips, riding-crops and parts thereof)', ARRAY['footwear', 'shoe', 'shoes', 'sandal', 'sandals', 'slipper', 'slippers', 'umbrella', 'hat', 'helmet'], ARRAY['64', '65', '66', '67']),
+('chapter', 'VII', '39', ARRAY['39'], '2(r)', 'exclusion', 'This chapter does not cover: Imitation jewelry of heading 7117', ARRAY['jewelry', 'jewellery', 'earring', 'earrings', 'necklace', 'bracelet'], ARRAY['7117']),
+('chapter', 'VII', '39', ARRAY['39'], '2(s)', 'exclusion', 'This chapter does not cover: Articles of section XVI (machines and mechanical or electrical appliances)', ARRAY['motorized', 'motorised', 'battery powered', 'battery operated', 'electric motor'], ARRAY['84', '85']),
+('chapter', 'VII', '39', ARRAY['39'], '2(u)', 'exclusion', 'This chapter does not cover: Articles of chapter 90 (for example, optical elements, spectacle frames, drawing instruments)', ARRAY['spectacle frame', 'spectacle frames', 'eyeglasses', 'sunglasses', 'syringe', 'syringes'], ARRAY['90']),
+('chapter', 'VII', '39', ARRAY['39'], '2(x)', 'exclusion', 'This chapter does not cover: Articles of chapter 94 (for example, furniture, luminaires and lighting fittings, illuminated signs, prefabricated buildings)', ARRAY['furniture', 'chair', 'chairs', 'stool', 'lamp', 'shelving'], ARRAY['94']),
+('chapter', 'VII', '39', ARRAY['39'], '2(y)', 'exclusion', 'This chapter does not cover: Articles of chapter 95 (for example, toys, games, sports requisites)', ARRAY['toy', 'toys', 'doll', 'dolls', 'board game', 'jigsaw puzzle'], ARRAY['95']),
+-- Chapter 42
+('chapter', 'VIII', '42', ARRAY['42'], '1(d)', 'exclusion', 'This chapter does not cover: Articles of chapter 64', ARRAY['footwear', 'shoe', 'shoes', 'boot', 'boots', 'sandal', 'sandals'], ARRAY['64']),
+('chapter', 'VIII', '42', ARRAY['42'], '1(e)', 'exclusion', 'This chapter does not cover: Headgear or parts thereof of chapter 65', ARRAY['hat', 'hats', 'headgear', 'baseball cap'], ARRAY['65']),
+('chapter', 'VIII', '42', ARRAY['42'], '1(g)', 'exclusion', 'This chapter does not cover: Cuff links, bracelets or other imitation jewelry (heading 7117)', ARRAY['cuff links', 'cufflinks', 'bracelet', 'bracelets', 'jewelry', 'jewellery'], ARRAY['7117']),
+('chapter', 'VIII', '42', ARRAY['42'], '1(l)', 'exclusion', 'This chapter does not cover: Articles of chapter 95 (for example, toys, games, sports requisites)', ARRAY['toy', 'toys', 'doll', 'dolls'], ARRAY['95']),
+-- Section XI
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(n)', 'exclusion', 'This section does not cover: Footwear or parts of footwear, gaiters or leggings or similar articles of chapter 64', ARRAY['footwear', 'shoe', 'shoes', 'boot', 'boots', 'sandal', 'sandals', 'slipper', 'slippers', 'sneaker', 'sneakers'], ARRAY['64']),
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(o)', 'exclusion', 'This section does not cover: Hair-nets or other headgear or parts thereof of chapter 65', ARRAY['hat', 'hats', 'beanie', 'headgear', 'baseball cap', 'hair net'], ARRAY['65']),
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(s)', 'exclusion', 'This section does not cover: Articles of chapter 94 (for example, furniture, bedding, luminaires and lighting fittings)', ARRAY['mattress', 'sleeping bag', 'quilt', 'comforter'], ARRAY['9404']),
+('section', 'XI', NULL, ARRAY['50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'], '1(t)', 'exclusion', 'This section does not cover: Articles of chapter 95 (for example, toys, games, sports requisites and nets)', ARRAY['toy', 'toys', 'doll', 'dolls', 'plush toy', 'stuffed animal'], ARRAY['95']),
+-- Chapter 61
+('chapter', 'XI', '61', ARRAY['61'], '1', 'inclusion', 'This chapter applies only to made up knitted or crocheted articles.', ARRAY['knitted', 'knit', 'crocheted', 'jersey'], ARRAY[]::TEXT[]),
+('chapter', 'XI', '61', ARRAY['61'], '2(a)', 'exclusion', 'This chapter does not cover: Goods of heading 6212', ARRAY['brassiere', 'bra', 'corset', 'girdle', 'suspenders', 'garter'], ARRAY['6212']),
+('chapter', 'XI', '61', ARRAY['61'], '2(b)', 'exclusion', 'This chapter does not cover: Worn clothing or other worn articles of heading 6309', ARRAY['worn clothing', 'used clothing', 'second hand', 'secondhand'], ARRAY['6309']),
+('chapter', 'XI', '61', ARRAY['61'], '2(c)', 'exclusion', 'This chapter does not cover: Orthopedic appliances, surgical belts, trusses or the like (heading 9021)', ARRAY['orthopedic', 'orthopaedic', 'surgical belt', 'truss'], ARRAY['9021']),
+-- Chapter 62
+('chapter', 'XI', '62', ARRAY['62'], '1', 'exclusion', 'This chapter applies only to made up articles of any textile fabric other than wadding, excluding knitted or crocheted articles (other than those of heading 6212).', ARRAY['knitted', 'knit', 'crocheted', 'jersey'], ARRAY['61']),
+('chapter', 'XI', '62', ARRAY['62'], '2(a)', 'exclusion', 'This chapter does not cover: Worn clothing or other worn articles of heading 6309', ARRAY['worn clothing', 'used clothing', 'second hand', 'secondhand'], ARRAY['6309']),
+('chapter', 'XI', '62', ARRAY['62'], '2(b)', 'exclusion', 'This chapter does not cover: Orthopedic appliances, surgical belts, trusses or the like (heading 9021)', ARRAY['orthopedic', 'orthopaedic', 'surgical belt', 'truss'], ARRAY['9021']),
+-- Chapter 64
+('chapter', 'XII', '64', ARRAY['64'], '1(a)', 'exclusion', 'This chapter does not cover: Disposable foot or shoe coverings of flimsy material (for example, paper, sheeting of plastics) without applied soles. These products are classified according to their constituent material', ARRAY['disposable shoe cover', 'disposable shoe covers', 'shoe covers', 'overshoe cover'], ARRAY['39', '48', '63']),
+('chapter', 'XII', '64', ARRAY['64'], '1(e)', 'exclusion', 'This chapter does not cover: Orthopedic footwear or other orthopedic appliances, or parts thereof (heading 9021)', ARRAY['orthopedic', 'orthopaedic', 'orthotic'], ARRAY['9021']),
+('chapter', 'XII', '64', ARRAY['64'], '1(f)', 'exclusion', 'This chapter does not cover: Toy footwear or skating boots with ice or roller skates attached; shin-guards or similar protective sportswear (chapter 95)', ARRAY['toy shoe', 'toy shoes', 'ice skate', 'ice skates', 'roller skate', 'roller skates', 'shin guard', 'shin guards'], ARRAY['95']),
+-- Chapter 69
+('chapter', 'XIII', '69', ARRAY['69'], '2(c)', 'exclusion', 'This chapter does not cover: Articles of chapter 71 (for example, imitation jewelry)', ARRAY['jewelry', 'jewellery', 'earring', 'earrings', 'necklace', 'bracelet'], ARRAY['71']),
+('chapter', 'XIII', '69', ARRAY['69'], '2(h)', 'exclusion', 'This chapter does not cover: Articles of chapter 91 (for example, clocks and clock cases)', ARRAY['clock', 'clocks', 'clock case'], ARRAY['91']),
+-- Chapter 82
+('chapter', 'XV', '82', ARRAY['82'], '1', 'inclusion', 'Apart from blow lamps, portable forges, grinding wheels with frameworks, manicure or pedicure sets, and goods of heading 8209, this chapter covers only articles with a blade, working edge, working surface or other working part of: (a) Base metal; (b) Metal carbides or cermets; (c) Precious or semiprecious stones (natural, synthetic or reconstructed) on a support of base metal, metal carbide or cermet; or (d) Abrasive materials on a support of base metal, provided that the articles have cutting teeth, flutes, grooves, or the like, of base metal, which retain their identity and function after the application of the abrasive.', ARRAY['knife', 'knives', 'spoon', 'spoons', 'fork', 'forks', 'cutlery', 'flatware', 'ladle', 'scissors'], ARRAY[]::TEXT[]),
+-- Section XVI (chapters 84 and 85)
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(a)', 'exclusion', 'This section does not cover: Transmission or conveyor belts or belting, of plastics of chapter 39, or of vulcanized rubber (heading 4010), or other articles of a kind used in machinery or mechanical or electrical appliances or for other technical uses, of vulcanized rubber other than hard rubber (heading 4016)', ARRAY['conveyor belt', 'transmission belt', 'timing belt'], ARRAY['3926', '4010', '4016']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(m)', 'exclusion', 'This section does not cover: Articles of chapter 90', ARRAY['microscope', 'thermometer', 'blood pressure monitor', 'stethoscope', 'telescope', 'binoculars'], ARRAY['90']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(n)', 'exclusion', 'This section does not cover: Clocks, watches or other articles of chapter 91', ARRAY['wristwatch', 'pocket watch', 'wall clock', 'alarm clock'], ARRAY['91']),
+('section', 'XVI', NULL, ARRAY['84', '85'], '1(p)', 'exclusion', 'This section does not cover: Articles of chapter 95', ARRAY['toy', 'toys', 'video game console', 'remote control car'], ARRAY['95']),
+-- Chapter 85
+('chapter', 'XVI', '85', ARRAY['85'], '1(a)', 'exclusion', 'This chapter does not cover: Electrically warmed blankets, bed pads, foot-muffs or the like; electrically warmed clothing, footwear or ear pads or other electrically warmed articles worn on or about the person', ARRAY['heated jacket', 'heated vest', 'heated gloves', 'heated socks', 'electric blanket', 'heated blanket'], ARRAY['61', '62', '63', '64', '65']),
+-- Chapter 94
+('chapter', 'XX', '94', ARRAY['94'], '1(a)', 'exclusion', 'This chapter does not cover: Pneumatic or water mattresses, pillows or cushions, of chapter 39, 40 or 63', ARRAY['inflatable mattress', 'air mattress', 'water bed', 'waterbed', 'inflatable pillow'], ARRAY['39', '40', '63']),
+('chapter', 'XX', '94', ARRAY['94'], '1(l)', 'exclusion', 'This chapter does not cover: Toy furniture or toy luminaires or lighting fittings (heading 9503), billiard tables or other furniture specially constructed for games (heading 9504), furniture for conjuring tricks or decorations (other than electric garlands) such as Chinese lanterns (heading 9505)', ARRAY['toy furniture', 'dollhouse', 'doll house', 'billiard table', 'pool table'], ARRAY['9503', '9504', '9505']),
+-- Chapter 95
+('chapter', 'XX', '95', ARRAY['95'], '1(d)', 'exclusion', 'This chapter does not cover: Sports bags or other containers of heading 4202, 4303 or 4304', ARRAY['sports bag', 'gym bag', 'duffel bag', 'backpack'], ARRAY['4202', '4303', '4304']),
+('chapter', 'XX', '95', ARRAY['95'], '1(e)', 'exclusion', 'This chapter does not cover: Fancy dress of textiles, of chapter 61 or 62; sports clothing and special articles of apparel of textiles, of chapter 61 or 62, whether or not incorporating incidentally protective components such as pads or padding in the elbow, knee or groin areas (for example, fencing clothing or soccer goalkeeper jerseys)', ARRAY['costume', 'fancy dress', 'sports clothing', 'swimwear', 'leggings', 'jersey'], ARRAY['61', '62']),
+('chapter', 'XX', '95', ARRAY['95'], '1(g)', 'exclusion', 'This chapter does not cover: Sports footwear (other than skating boots with ice or roller skates attached) of chapter 64, or riding headgear of chapter 65', ARRAY['running shoe', 'running shoes', 'sneaker', 'sneakers', 'cleats', 'football boots', 'riding helmet'], ARRAY['64', '65']);
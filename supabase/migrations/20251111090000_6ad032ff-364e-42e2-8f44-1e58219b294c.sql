@@ -0,0 +1,86 @@
+-- Load HTS schedule imports through a staging table
+-- Re-importing a revision deleted its lines and inserted the new ones batch by batch, so a failed
+-- or concurrent lookup saw a half-loaded revision. hts-schedule-import now stages the lines under an
+-- import id and publish_hts_import swaps them in with the revision row in one transaction.
+
+CREATE TABLE public.hts_schedule_staging (
+  import_id UUID NOT NULL,
+  row_order INTEGER NOT NULL,
+  hts_code TEXT,
+  htsno TEXT,
+  indent INTEGER NOT NULL DEFAULT 0,
+  level TEXT NOT NULL,
+  description TEXT NOT NULL,
+  full_description TEXT NOT NULL,
+  chapter TEXT NOT NULL,
+  heading TEXT,
+  subheading TEXT,
+  statistical_suffix TEXT,
+  units TEXT[] NOT NULL DEFAULT '{}',
+  general_rate TEXT,
+  special_rate TEXT,
+  column2_rate TEXT,
+  rates_inherited BOOLEAN NOT NULL DEFAULT false,
+  footnotes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  quota_quantity TEXT,
+  additional_duties TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (import_id, row_order)
+);
+
+-- Only the import function (service role) touches staged lines
+ALTER TABLE public.hts_schedule_staging ENABLE ROW LEVEL SECURITY;
+
+-- Replace a revision's lines with a staged import; also clears imports abandoned over a day ago
+CREATE OR REPLACE FUNCTION public.publish_hts_import(
+  target_import UUID,
+  target_revision TEXT,
+  target_effective_date DATE,
+  target_source_url TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  staged_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO staged_count
+  FROM public.hts_schedule_staging
+  WHERE import_id = target_import;
+
+  IF staged_count = 0 THEN
+    RAISE EXCEPTION 'No staged lines for import %', target_import;
+  END IF;
+
+  INSERT INTO public.hts_revisions (revision, effective_date, source, source_url, line_count, loaded_at)
+  VALUES (target_revision, target_effective_date, 'USITC', target_source_url, staged_count, now())
+  ON CONFLICT (revision) DO UPDATE
+  SET effective_date = EXCLUDED.effective_date,
+      source = EXCLUDED.source,
+      source_url = EXCLUDED.source_url,
+      line_count = EXCLUDED.line_count,
+      loaded_at = EXCLUDED.loaded_at;
+
+  DELETE FROM public.hts_schedule
+  WHERE revision = target_revision;
+
+  INSERT INTO public.hts_schedule (
+    revision, effective_date, row_order, hts_code, htsno, indent, level, description, full_description,
+    chapter, heading, subheading, statistical_suffix, units, general_rate, special_rate, column2_rate,
+    rates_inherited, footnotes, quota_quantity, additional_duties
+  )
+  SELECT
+    target_revision, target_effective_date, s.row_order, s.hts_code, s.htsno, s.indent, s.level, s.description,
+    s.full_description, s.chapter, s.heading, s.subheading, s.statistical_suffix, s.units, s.general_rate,
+    s.special_rate, s.column2_rate, s.rates_inherited, s.footnotes, s.quota_quantity, s.additional_duties
+  FROM public.hts_schedule_staging s
+  WHERE s.import_id = target_import;
+
+  DELETE FROM public.hts_schedule_staging
+  WHERE import_id = target_import
+     OR created_at < now() - interval '1 day';
+
+  RETURN staged_count;
+END;
+$$;
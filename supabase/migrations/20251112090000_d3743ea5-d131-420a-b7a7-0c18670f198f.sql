@@ -0,0 +1,41 @@
+-- Load Chapter 99 lists through additional-duties-import
+-- Every heading in an upload replaces that heading's rows in one transaction, so reloading a
+-- Section 301 list after USTR amends it never leaves the heading half loaded.
+
+CREATE OR REPLACE FUNCTION public.replace_additional_duties(provisions JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  loaded_count INTEGER;
+BEGIN
+  DELETE FROM public.hts_additional_duties d
+  WHERE d.heading IN (SELECT DISTINCT p->>'heading' FROM jsonb_array_elements(provisions) p);
+
+  INSERT INTO public.hts_additional_duties (
+    heading, program, provision_type, excludes_heading, hts_code, origin_countries, exempt_countries,
+    rate, description, effective_from, effective_to, source_url
+  )
+  SELECT
+    r.heading, r.program, r.provision_type, r.excludes_heading, r.hts_code, r.origin_countries,
+    COALESCE(r.exempt_countries, '{}'), r.rate, r.description, r.effective_from, r.effective_to, r.source_url
+  FROM jsonb_to_recordset(provisions) AS r(
+    heading TEXT,
+    program TEXT,
+    provision_type TEXT,
+    excludes_heading TEXT,
+    hts_code TEXT,
+    origin_countries TEXT[],
+    exempt_countries TEXT[],
+    rate TEXT,
+    description TEXT,
+    effective_from DATE,
+    effective_to DATE,
+    source_url TEXT
+  );
+
+  GET DIAGNOSTICS loaded_count = ROW_COUNT;
+  RETURN loaded_count;
+END;
+$$;
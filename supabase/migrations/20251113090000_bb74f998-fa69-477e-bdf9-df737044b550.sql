@@ -0,0 +1,55 @@
+-- Let assigned reviewers work on reviews they do not own
+-- A review is assigned by email. The assignee's account is resolved whenever the email is set,
+-- so the assignee can read the review, find it under "assigned to me" and resolve it.
+
+ALTER TABLE public.prediction_reviews
+ADD COLUMN assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Emails are compared case-insensitively, so store them lowercased
+UPDATE public.prediction_reviews
+SET assignee = lower(trim(assignee))
+WHERE assignee IS NOT NULL;
+
+-- Resolve the assignee's account from a confirmed email. Runs as the table owner to read auth.users.
+CREATE OR REPLACE FUNCTION public.resolve_review_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.assignee := NULLIF(lower(trim(NEW.assignee)), '');
+  NEW.assignee_id := (
+    SELECT u.id
+    FROM auth.users u
+    WHERE lower(u.email) = NEW.assignee
+      AND u.email_confirmed_at IS NOT NULL
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_review_assignee_on_assign
+BEFORE INSERT OR UPDATE OF assignee ON public.prediction_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.resolve_review_assignee();
+
+UPDATE public.prediction_reviews r
+SET assignee_id = u.id
+FROM auth.users u
+WHERE lower(u.email) = r.assignee
+  AND u.email_confirmed_at IS NOT NULL;
+
+-- Assignees whose account did not exist yet when they were assigned match by their email
+CREATE POLICY "Authenticated users can view prediction reviews assigned to them"
+ON public.prediction_reviews
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = assignee_id
+  OR (assignee IS NOT NULL AND assignee = lower(auth.jwt() ->> 'email'))
+);
+
+CREATE INDEX idx_prediction_reviews_assignee_id ON public.prediction_reviews(assignee_id, status) WHERE assignee_id IS NOT NULL;
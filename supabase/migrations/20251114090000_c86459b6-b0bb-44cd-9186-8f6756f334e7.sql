@@ -0,0 +1,208 @@
+-- Reconcile a revision diff with the changes already stored instead of replacing them
+-- Every import reruns the diff with its neighbours. Deleting and reinserting the rows took their
+-- notifications with them (ON DELETE CASCADE) and notified subscribers, webhooks and digests again.
+-- Rows are now matched on (hts_code, change_type, field): only changes not stored before are
+-- inserted, existing ones are updated in place and ones no longer produced are removed.
+
+CREATE OR REPLACE FUNCTION public.diff_hts_revisions(old_revision TEXT, new_revision TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_effective_date DATE;
+  change_counts JSONB;
+  inserted_count INTEGER;
+  updated_count INTEGER;
+  removed_count INTEGER;
+BEGIN
+  SELECT effective_date INTO new_effective_date
+  FROM public.hts_revisions
+  WHERE revision = new_revision;
+
+  IF new_effective_date IS NULL THEN
+    RAISE EXCEPTION 'HTS revision "%" is not loaded', new_revision;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.hts_revisions WHERE revision = old_revision) THEN
+    RAISE EXCEPTION 'HTS revision "%" is not loaded', old_revision;
+  END IF;
+
+  CREATE TEMP TABLE computed_changes ON COMMIT DROP AS
+  WITH old_lines AS (
+    SELECT DISTINCT ON (hts_code) hts_code, htsno, level, description, general_rate, special_rate, column2_rate, rates_inherited, chapter, heading
+    FROM public.hts_schedule
+    WHERE revision = old_revision AND hts_code IS NOT NULL
+    ORDER BY hts_code, row_order
+  ),
+  new_lines AS (
+    SELECT DISTINCT ON (hts_code) hts_code, htsno, level, description, general_rate, special_rate, column2_rate, rates_inherited, chapter, heading
+    FROM public.hts_schedule
+    WHERE revision = new_revision AND hts_code IS NOT NULL
+    ORDER BY hts_code, row_order
+  ),
+  paired AS (
+    SELECT
+      COALESCE(n.hts_code, o.hts_code) AS hts_code,
+      COALESCE(n.htsno, o.htsno) AS htsno,
+      COALESCE(n.level, o.level) AS level,
+      COALESCE(n.chapter, o.chapter) AS chapter,
+      COALESCE(n.heading, o.heading) AS heading,
+      o.hts_code IS NOT NULL AS in_old,
+      n.hts_code IS NOT NULL AS in_new,
+      o.description AS old_description,
+      n.description AS new_description,
+      o.general_rate AS old_general, n.general_rate AS new_general,
+      o.special_rate AS old_special, n.special_rate AS new_special,
+      o.column2_rate AS old_column2, n.column2_rate AS new_column2,
+      o.rates_inherited AND n.rates_inherited AS rates_inherited
+    FROM old_lines o
+    FULL OUTER JOIN new_lines n ON n.hts_code = o.hts_code
+  ),
+  changes AS (
+    SELECT p.*, 'NEW' AS change_type, NULL AS field, NULL AS old_value, p.new_description AS new_value
+    FROM paired p
+    WHERE p.in_new AND NOT p.in_old
+
+    UNION ALL
+
+    SELECT p.*, 'DELETED', NULL, p.old_description, NULL
+    FROM paired p
+    WHERE p.in_old AND NOT p.in_new
+
+    UNION ALL
+
+    SELECT p.*, 'DESCRIPTION_CHANGE', 'description', p.old_description, p.new_description
+    FROM paired p
+    WHERE p.in_old AND p.in_new
+      AND regexp_replace(lower(btrim(p.old_description)), '\s+', ' ', 'g')
+        <> regexp_replace(lower(btrim(p.new_description)), '\s+', ' ', 'g')
+
+    UNION ALL
+
+    SELECT p.*, 'RATE_CHANGE', r.field, r.old_value, r.new_value
+    FROM paired p
+    CROSS JOIN LATERAL (VALUES
+      ('general_rate', p.old_general, p.new_general),
+      ('special_rate', p.old_special, p.new_special),
+      ('column2_rate', p.old_column2, p.new_column2)
+    ) AS r(field, old_value, new_value)
+    WHERE p.in_old AND p.in_new
+      -- A rate copied down from the tariff line is reported once, on that line
+      AND NOT p.rates_inherited
+      AND COALESCE(btrim(r.old_value), '') <> COALESCE(btrim(r.new_value), '')
+  )
+  SELECT
+    c.hts_code,
+    c.htsno,
+    c.level,
+    c.change_type,
+    c.field,
+    c.old_value,
+    c.new_value,
+    CASE c.change_type
+      WHEN 'NEW' THEN 'New ' || replace(c.level, '_', ' ') || ' ' || COALESCE(c.htsno, c.hts_code) || ': ' || c.new_value
+      WHEN 'DELETED' THEN COALESCE(c.htsno, c.hts_code) || ' deleted: ' || c.old_value
+      WHEN 'DESCRIPTION_CHANGE' THEN 'Description of ' || COALESCE(c.htsno, c.hts_code) || ' changed'
+      ELSE initcap(replace(replace(c.field, '_rate', ''), 'column2', 'column 2')) || ' rate for ' || COALESCE(c.htsno, c.hts_code)
+        || ' changed from ' || COALESCE(NULLIF(btrim(c.old_value), ''), 'none')
+        || ' to ' || COALESCE(NULLIF(btrim(c.new_value), ''), 'none')
+    END AS description,
+    CASE
+      WHEN c.change_type = 'DELETED' THEN 'HIGH'
+      WHEN c.change_type = 'RATE_CHANGE' AND c.field = 'general_rate' THEN 'HIGH'
+      WHEN c.change_type = 'RATE_CHANGE' AND c.field = 'special_rate' THEN 'MEDIUM'
+      WHEN c.change_type = 'RATE_CHANGE' THEN 'LOW'
+      WHEN c.level = 'statistical' THEN 'LOW'
+      ELSE 'MEDIUM'
+    END AS impact,
+    c.chapter,
+    c.heading
+  FROM changes c;
+
+  -- The stored rows for this pair, keeping the oldest of any duplicates under one key
+  CREATE TEMP TABLE stored_changes ON COMMIT DROP AS
+  SELECT
+    h.id,
+    h.hts_code,
+    h.change_type,
+    h.field,
+    row_number() OVER (PARTITION BY h.hts_code, h.change_type, h.field ORDER BY h.created_at, h.id) AS duplicate_rank
+  FROM public.hts_changes h
+  WHERE h.source = 'REVISION_DIFF'
+    AND h.from_revision = old_revision
+    AND h.revision = new_revision;
+
+  DELETE FROM public.hts_changes h
+  USING stored_changes s
+  WHERE h.id = s.id
+    AND (
+      s.duplicate_rank > 1
+      OR NOT EXISTS (
+        SELECT 1
+        FROM computed_changes c
+        WHERE c.hts_code = s.hts_code
+          AND c.change_type = s.change_type
+          AND c.field IS NOT DISTINCT FROM s.field
+      )
+    );
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  UPDATE public.hts_changes h
+  SET htsno = c.htsno,
+      level = c.level,
+      old_value = c.old_value,
+      new_value = c.new_value,
+      description = c.description,
+      impact = c.impact,
+      chapter = c.chapter,
+      heading = c.heading,
+      effective_date = new_effective_date
+  FROM stored_changes s
+  JOIN computed_changes c
+    ON c.hts_code = s.hts_code
+   AND c.change_type = s.change_type
+   AND c.field IS NOT DISTINCT FROM s.field
+  WHERE h.id = s.id
+    AND s.duplicate_rank = 1
+    AND (h.htsno, h.level, h.old_value, h.new_value, h.description, h.impact, h.chapter, h.heading, h.effective_date)
+      IS DISTINCT FROM (c.htsno, c.level, c.old_value, c.new_value, c.description, c.impact, c.chapter, c.heading, new_effective_date);
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- Only these rows reach notify_hts_subscribers
+  INSERT INTO public.hts_changes (
+    hts_code, htsno, level, change_type, field, old_value, new_value, description, impact,
+    chapter, heading, from_revision, revision, effective_date, source
+  )
+  SELECT
+    c.hts_code, c.htsno, c.level, c.change_type, c.field, c.old_value, c.new_value, c.description, c.impact,
+    c.chapter, c.heading, old_revision, new_revision, new_effective_date, 'REVISION_DIFF'
+  FROM computed_changes c
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM stored_changes s
+    WHERE s.duplicate_rank = 1
+      AND s.hts_code = c.hts_code
+      AND s.change_type = c.change_type
+      AND s.field IS NOT DISTINCT FROM c.field
+  );
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  SELECT COALESCE(jsonb_object_agg(t.change_type, t.change_count), '{}'::jsonb)
+  INTO change_counts
+  FROM (SELECT change_type, COUNT(*) AS change_count FROM computed_changes GROUP BY change_type) t;
+
+  DROP TABLE computed_changes;
+  DROP TABLE stored_changes;
+
+  RETURN jsonb_build_object(
+    'from_revision', old_revision,
+    'revision', new_revision,
+    'effective_date', new_effective_date,
+    'counts', change_counts,
+    'inserted', inserted_count,
+    'updated', updated_count,
+    'removed', removed_count
+  );
+END;
+$$;